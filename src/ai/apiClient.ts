@@ -1,17 +1,23 @@
 /**
  * AI API Client
  * 
- * Executes actual API calls to AI providers (OpenAI, Anthropic).
+ * Executes actual API calls to AI providers (OpenAI, Anthropic, or a local
+ * OpenAI-compatible server such as Ollama or LM Studio).
  * Per Phase 4 contract:
  * - Credentials transmitted directly to provider (no intermediary)
  * - Supports abort for cancellation
  * - Returns structured response matching Output Contract
+ *
+ * Responses are streamed (server-sent events), so the Summary and
+ * Implementation Guidance sections can be shown while they arrive.
  */
 
 import type {
   AICredentials,
+  AIConversationMessage,
   AIProvider,
   AIResponse,
+  AIPartialResponse,
   AIExecutionError,
   AIErrorCode,
 } from './types';
@@ -20,16 +26,116 @@ import type {
 // API Endpoints
 // ============================================================================
 
+/** Ollama's default address; LM Studio listens on http://localhost:1234 */
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434';
+
 const API_ENDPOINTS: Record<AIProvider, string> = {
   openai: 'https://api.openai.com/v1/chat/completions',
   anthropic: 'https://api.anthropic.com/v1/messages',
+  local: `${DEFAULT_LOCAL_BASE_URL}/v1/chat/completions`,
 };
 
 const DEFAULT_MODELS: Record<AIProvider, string> = {
   openai: 'gpt-4.1',
   anthropic: 'claude-3.5-opus',
+  local: 'llama3.1',
+};
+
+/** Upper bound on response length, sent with every request */
+export const MAX_OUTPUT_TOKENS = 4096;
+
+/** Models that accept image input: by name prefix, or for local models by name */
+const VISION_MODEL_PATTERNS: Record<AIProvider, RegExp> = {
+  openai: /^(gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-5|o1(?!-mini)|o3(?!-mini)|o4)/,
+  anthropic: /^claude-(?!2|instant)/,
+  local: /llava|vision|-vl\b|moondream|minicpm-v|gemma3/i,
 };
 
+/**
+ * Build the URL of an endpoint on a local server from its base URL,
+ * which may be given with or without the trailing /v1.
+ */
+function getLocalEndpoint(baseUrl: string | undefined, path: string): string {
+  const base = (baseUrl || DEFAULT_LOCAL_BASE_URL).trim().replace(/\/+$/, '').replace(/\/v1$/, '');
+  return `${base}/v1${path}`;
+}
+
+function getEndpoint(credentials: AICredentials): string {
+  if (credentials.provider === 'local') {
+    return getLocalEndpoint(credentials.baseUrl, '/chat/completions');
+  }
+  return credentials.baseUrl || API_ENDPOINTS[credentials.provider];
+}
+
+/**
+ * Check whether an IPv4 address is loopback, private or link-local.
+ */
+function isLocalIPv4(hostname: string): boolean {
+  const match = hostname.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (!match) return false;
+  const [a, b] = [Number(match[1]), Number(match[2])];
+  return (
+    a === 127 ||
+    a === 10 ||
+    (a === 192 && b === 168) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 169 && b === 254)
+  );
+}
+
+/**
+ * Check whether an IPv6 address is loopback, unique local (fc00::/7) or
+ * link-local (fe80::/10).
+ */
+function isLocalIPv6(hostname: string): boolean {
+  if (!hostname.includes(':')) return false;
+  return hostname === '::1' || /^f[cd][0-9a-f]{0,2}:/i.test(hostname) || /^fe[89ab][0-9a-f]:/i.test(hostname);
+}
+
+/**
+ * Check whether a URL points at this machine or a private network, where
+ * page data may be sent. Local providers are refused any other address.
+ * Only IP literals are matched by range; a DNS name such as
+ * 10.example.com could resolve anywhere.
+ */
+export function isLocalUrl(url: string): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  } catch {
+    return false;
+  }
+
+  return (
+    hostname === 'localhost' ||
+    hostname.endsWith('.localhost') ||
+    hostname.endsWith('.local') ||
+    isLocalIPv4(hostname) ||
+    isLocalIPv6(hostname)
+  );
+}
+
+/**
+ * Check whether credentials are complete: local servers need no API key.
+ */
+export function hasRequiredCredentials(credentials: AICredentials): boolean {
+  return credentials.provider === 'local' || !!credentials.apiKey;
+}
+
+/**
+ * Get the model requests are sent to: the configured one or the provider's default.
+ */
+export function getModel(credentials: AICredentials): string {
+  return credentials.model || DEFAULT_MODELS[credentials.provider];
+}
+
+/**
+ * Check whether the configured model accepts images.
+ */
+export function supportsVision(credentials: AICredentials): boolean {
+  return VISION_MODEL_PATTERNS[credentials.provider].test(getModel(credentials));
+}
+
 // ============================================================================
 // Request Building
 // ============================================================================
@@ -37,34 +143,59 @@ const DEFAULT_MODELS: Record<AIProvider, string> = {
 interface AIRequestOptions {
   credentials: AICredentials;
   systemPrompt: string;
-  userMessage: string;
+  /** The conversation so far, oldest first, ending with a user message */
+  messages: AIConversationMessage[];
+  /** PNG data URLs, sent after the text of the first message */
+  images: string[];
   abortSignal?: AbortSignal;
 }
 
+/**
+ * Build an OpenAI chat completions request; local servers speak the same API.
+ */
 function buildOpenAIRequest(options: AIRequestOptions): RequestInit {
-  const { credentials, systemPrompt, userMessage } = options;
+  const { credentials, systemPrompt, messages, images } = options;
+  const withImages = (text: string) => images.length === 0
+    ? text
+    : [
+        { type: 'text', text },
+        ...images.map(url => ({ type: 'image_url', image_url: { url } })),
+      ];
 
   return {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      'Authorization': `Bearer ${credentials.apiKey}`,
+      ...(credentials.apiKey && { 'Authorization': `Bearer ${credentials.apiKey}` }),
     },
     body: JSON.stringify({
-      model: credentials.model || DEFAULT_MODELS.openai,
+      model: credentials.model || DEFAULT_MODELS[credentials.provider],
       messages: [
         { role: 'system', content: systemPrompt },
-        { role: 'user', content: userMessage },
+        ...messages.map((message, i) => ({
+          role: message.role,
+          content: i === 0 ? withImages(message.content) : message.content,
+        })),
       ],
       temperature: 0.3,
-      max_tokens: 4096,
+      max_tokens: MAX_OUTPUT_TOKENS,
+      stream: true,
     }),
     signal: options.abortSignal,
   };
 }
 
 function buildAnthropicRequest(options: AIRequestOptions): RequestInit {
-  const { credentials, systemPrompt, userMessage } = options;
+  const { credentials, systemPrompt, messages, images } = options;
+  const withImages = (text: string) => images.length === 0
+    ? text
+    : [
+        { type: 'text', text },
+        ...images.map(url => ({
+          type: 'image',
+          source: { type: 'base64', media_type: 'image/png', data: url.slice(url.indexOf(',') + 1) },
+        })),
+      ];
 
   return {
     method: 'POST',
@@ -76,10 +207,12 @@ function buildAnthropicRequest(options: AIRequestOptions): RequestInit {
     body: JSON.stringify({
       model: credentials.model || DEFAULT_MODELS.anthropic,
       system: systemPrompt,
-      messages: [
-        { role: 'user', content: userMessage },
-      ],
-      max_tokens: 4096,
+      messages: messages.map((message, i) => ({
+        role: message.role,
+        content: i === 0 ? withImages(message.content) : message.content,
+      })),
+      max_tokens: MAX_OUTPUT_TOKENS,
+      stream: true,
     }),
     signal: options.abortSignal,
   };
@@ -125,6 +258,89 @@ function extractAnthropicContent(response: AnthropicResponse): string {
   return textBlock?.text || '';
 }
 
+// ============================================================================
+// Streaming
+// ============================================================================
+
+interface OpenAIStreamChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string;
+    };
+  }>;
+  error?: {
+    message: string;
+  };
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: {
+    type: string;
+    text?: string;
+  };
+  error?: {
+    message: string;
+  };
+}
+
+function extractOpenAIDelta(data: string): string {
+  if (data === '[DONE]') {
+    return '';
+  }
+  const chunk = JSON.parse(data) as OpenAIStreamChunk;
+  if (chunk.error) {
+    throw new Error(chunk.error.message);
+  }
+  return chunk.choices?.[0]?.delta?.content || '';
+}
+
+function extractAnthropicDelta(data: string): string {
+  const event = JSON.parse(data) as AnthropicStreamEvent;
+  if (event.type === 'error') {
+    throw new Error(event.error?.message || 'Stream error');
+  }
+  if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+    return event.delta.text || '';
+  }
+  return '';
+}
+
+/**
+ * Read a server-sent event stream, passing the data of each event on.
+ * Rejects with an AbortError if the request is aborted mid-stream.
+ */
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => void,
+  onChunk: () => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    onChunk();
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = events.pop() ?? '';
+
+    for (const event of events) {
+      const data = event
+        .split(/\r?\n/)
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+      if (data) {
+        onData(data);
+      }
+    }
+  }
+}
+
 // ============================================================================
 // Response Validation (Phase 3 Output Contract)
 // ============================================================================
@@ -165,6 +381,20 @@ function parseAIResponse(raw: string): AIResponse {
   };
 }
 
+/**
+ * Parse the sections that can be shown while a response is still streaming.
+ */
+function parsePartialResponse(raw: string): AIPartialResponse {
+  return {
+    raw,
+    sections: {
+      summary: extractSection(raw, 'Summary'),
+      implementationGuidance: extractSection(raw, 'Implementation Guidance') ||
+        extractSection(raw, 'Implementation'),
+    },
+  };
+}
+
 function extractSection(text: string, sectionName: string): string | undefined {
   // Try to find section with ## or ** markers
   const patterns = [
@@ -217,8 +447,18 @@ export interface CallAIOptions {
   credentials: AICredentials;
   systemPrompt: string;
   userMessage: string;
+  /**
+   * Earlier messages of the conversation, oldest first, when userMessage is
+   * a follow-up. Screenshots then go with the first message.
+   */
+  history?: AIConversationMessage[];
+  /** Screenshots as PNG data URLs; only sent to models that accept images */
+  images?: string[];
   abortSignal?: AbortSignal;
+  /** How long the provider may go without sending anything */
   timeoutMs?: number;
+  /** Called as the response streams in, with the text and sections so far */
+  onPartialResponse?: (partial: AIPartialResponse) => void;
 }
 
 export interface CallAIResult {
@@ -234,13 +474,31 @@ export interface CallAIResult {
  * @returns Promise resolving to CallAIResult
  */
 export async function callAI(options: CallAIOptions): Promise<CallAIResult> {
-  const { credentials, systemPrompt, userMessage, abortSignal, timeoutMs = 60000 } = options;
+  const { credentials, systemPrompt, userMessage, history = [], abortSignal, timeoutMs = 60000, onPartialResponse } = options;
   const provider = credentials.provider;
-  const endpoint = credentials.baseUrl || API_ENDPOINTS[provider];
+  const messages: AIConversationMessage[] = [...history, { role: 'user', content: userMessage }];
+  const endpoint = getEndpoint(credentials);
+  const images = supportsVision(credentials) ? options.images ?? [] : [];
+
+  // Page data may only go to a local server under the local provider
+  if (provider === 'local' && !isLocalUrl(endpoint)) {
+    return {
+      success: false,
+      error: {
+        code: 'GATE_FAILED',
+        message: `Local provider must point to this machine or a private network, not ${endpoint}`,
+      },
+    };
+  }
 
-  // Create timeout abort if not provided
+  // Create timeout abort if not provided. It restarts on every streamed
+  // chunk, so long responses aren't cut off while data keeps arriving.
   const timeoutController = new AbortController();
-  const timeoutId = setTimeout(() => timeoutController.abort(), timeoutMs);
+  let timeoutId = setTimeout(() => timeoutController.abort(), timeoutMs);
+  const restartTimeout = () => {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => timeoutController.abort(), timeoutMs);
+  };
 
   // Combine signals if abort signal provided
   const signal = abortSignal
@@ -249,18 +507,18 @@ export async function callAI(options: CallAIOptions): Promise<CallAIResult> {
 
   try {
     // Build request based on provider
-    const requestInit = provider === 'openai'
-      ? buildOpenAIRequest({ credentials, systemPrompt, userMessage, abortSignal: signal })
-      : buildAnthropicRequest({ credentials, systemPrompt, userMessage, abortSignal: signal });
+    const requestInit = provider !== 'anthropic'
+      ? buildOpenAIRequest({ credentials, systemPrompt, messages, images, abortSignal: signal })
+      : buildAnthropicRequest({ credentials, systemPrompt, messages, images, abortSignal: signal });
 
+    const payloadSize = messages.reduce((size, message) => size + message.content.length, 0);
     console.log(`[AI] Calling ${provider} API...`);
-    console.log(`[AI] Payload size: ${userMessage.length} chars. Preview: ${userMessage.substring(0, 200)}...`);
+    console.log(`[AI] Payload size: ${payloadSize} chars in ${messages.length} messages, ${images.length} images. Preview: ${userMessage.substring(0, 200)}...`);
     const response = await fetch(endpoint, requestInit);
 
-    clearTimeout(timeoutId);
-
     // Handle HTTP errors
     if (!response.ok) {
+      clearTimeout(timeoutId);
       const errorBody = await response.text().catch(() => '');
       let errorMessage: string | undefined;
       try {
@@ -275,11 +533,30 @@ export async function callAI(options: CallAIOptions): Promise<CallAIResult> {
       return { success: false, error };
     }
 
-    // Parse response
-    const responseBody = await response.json();
-    const content = provider === 'openai'
-      ? extractOpenAIContent(responseBody as OpenAIResponse)
-      : extractAnthropicContent(responseBody as AnthropicResponse);
+    // Read the streamed response; proxies that ignore `stream` get the JSON body parsed
+    let content = '';
+    const isEventStream = response.headers.get('content-type')?.includes('text/event-stream');
+    if (isEventStream && response.body) {
+      const extractDelta = provider !== 'anthropic' ? extractOpenAIDelta : extractAnthropicDelta;
+      await readEventStream(
+        response.body,
+        (data) => {
+          const delta = extractDelta(data);
+          if (delta) {
+            content += delta;
+            onPartialResponse?.(parsePartialResponse(content));
+          }
+        },
+        restartTimeout
+      );
+    } else {
+      const responseBody = await response.json();
+      content = provider !== 'anthropic'
+        ? extractOpenAIContent(responseBody as OpenAIResponse)
+        : extractAnthropicContent(responseBody as AnthropicResponse);
+    }
+
+    clearTimeout(timeoutId);
 
     if (!content) {
       return {
@@ -304,6 +581,17 @@ export async function callAI(options: CallAIOptions): Promise<CallAIResult> {
     clearTimeout(timeoutId);
 
     if (error instanceof Error) {
+      // Aborted by the timeout rather than the caller
+      if (error.name === 'AbortError' && timeoutController.signal.aborted && !abortSignal?.aborted) {
+        return {
+          success: false,
+          error: {
+            code: 'TIMEOUT',
+            message: 'The AI provider stopped responding. Please try again.',
+          },
+        };
+      }
+
       // Check if aborted
       if (error.name === 'AbortError') {
         return {
@@ -350,6 +638,31 @@ export async function testCredentials(credentials: AICredentials): Promise<CallA
   });
 }
 
+interface ModelListResponse {
+  data?: Array<{
+    id: string;
+  }>;
+}
+
+/**
+ * List the models a local OpenAI-compatible server offers (GET /v1/models).
+ * Throws if the server can't be reached or isn't a local address.
+ */
+export async function listLocalModels(baseUrl?: string, timeoutMs = 5000): Promise<string[]> {
+  const endpoint = getLocalEndpoint(baseUrl, '/models');
+  if (!isLocalUrl(endpoint)) {
+    throw new Error('Server must be on this machine or a private network');
+  }
+
+  const response = await fetch(endpoint, { signal: AbortSignal.timeout(timeoutMs) });
+  if (!response.ok) {
+    throw new Error(`Model list request failed with status ${response.status}`);
+  }
+
+  const body = await response.json() as ModelListResponse;
+  return (body.data ?? []).map(model => model.id).filter(Boolean).sort();
+}
+
 // ============================================================================
 // Helpers
 // ============================================================================
@@ -0,0 +1,210 @@
+/**
+ * AI Request Estimation
+ *
+ * Approximates the size and cost of a request before it is sent: tokens for
+ * the system prompt, the conversation and the attached screenshots, per
+ * provider and model, against the model's context window and price list.
+ *
+ * Counts are estimates: text is measured by characters per token, images by
+ * each provider's published sizing rules. Prices are list prices in USD per
+ * million tokens and may be out of date; models without a known price (local
+ * models included) get no cost.
+ */
+
+import type { AIBudget, AIConversationMessage, AICredentials, AIProvider, AIRequestEstimate } from './types';
+import { getModel, supportsVision, MAX_OUTPUT_TOKENS } from './apiClient';
+
+// ============================================================================
+// Model Data
+// ============================================================================
+
+/** Average characters per token of prompts mixing prose and JSON */
+const CHARS_PER_TOKEN: Record<AIProvider, number> = {
+  openai: 4,
+  anthropic: 3.5,
+  local: 3.5,
+};
+
+/** Role markers and separators added around each message */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/** Image cost for local vision models, which mostly use fixed-size encoders */
+const LOCAL_IMAGE_TOKENS = 576;
+
+/** Assumed for a screenshot whose dimensions can't be read */
+const FALLBACK_IMAGE_SIZE = { width: 1024, height: 1024 };
+
+/** Context windows, by model name prefix; first match wins */
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/^gpt-4\.1/, 1_047_576],
+  [/^gpt-5/, 400_000],
+  [/^(o1|o3|o4)/, 200_000],
+  [/^(gpt-4o|gpt-4-turbo)/, 128_000],
+  [/^gpt-4/, 8_192],
+  [/^gpt-3\.5/, 16_385],
+  [/^claude-/, 200_000],
+];
+
+/** List prices in USD per million [input, output] tokens, by model name prefix; first match wins */
+const MODEL_PRICES: Array<[RegExp, [number, number]]> = [
+  [/^gpt-4\.1-nano/, [0.1, 0.4]],
+  [/^gpt-4\.1-mini/, [0.4, 1.6]],
+  [/^gpt-4\.1/, [2, 8]],
+  [/^gpt-4o-mini/, [0.15, 0.6]],
+  [/^gpt-4o/, [2.5, 10]],
+  [/^gpt-4-turbo/, [10, 30]],
+  [/^gpt-4/, [30, 60]],
+  [/^gpt-5-nano/, [0.05, 0.4]],
+  [/^gpt-5-mini/, [0.25, 2]],
+  [/^gpt-5/, [1.25, 10]],
+  [/^o4-mini/, [1.1, 4.4]],
+  [/^o3-mini/, [1.1, 4.4]],
+  [/^o3/, [2, 8]],
+  [/^o1/, [15, 60]],
+  [/^claude-(opus-4-5|opus-4\.5)/, [5, 25]],
+  [/^claude-(.*-)?opus/, [15, 75]],
+  [/^claude-(.*-)?sonnet/, [3, 15]],
+  [/^claude-haiku-4/, [1, 5]],
+  [/^claude-3[-.]5-haiku/, [0.8, 4]],
+  [/^claude-(.*-)?haiku/, [0.25, 1.25]],
+];
+
+function lookup<T>(table: Array<[RegExp, T]>, model: string): T | null {
+  return table.find(([pattern]) => pattern.test(model))?.[1] ?? null;
+}
+
+// ============================================================================
+// Token Counting
+// ============================================================================
+
+/**
+ * Approximate the tokens of a text for a provider.
+ */
+export function estimateTextTokens(text: string, provider: AIProvider): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN[provider]);
+}
+
+/**
+ * Read the width and height of a PNG data URL from its header.
+ */
+export function getPngSize(dataUrl: string): { width: number; height: number } | null {
+  try {
+    const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1, dataUrl.indexOf(',') + 1 + 32);
+    const bytes = atob(base64);
+    if (bytes.slice(1, 4) !== 'PNG') return null;
+    const readUint32 = (offset: number) =>
+      ((bytes.charCodeAt(offset) << 24) >>> 0) +
+      (bytes.charCodeAt(offset + 1) << 16) +
+      (bytes.charCodeAt(offset + 2) << 8) +
+      bytes.charCodeAt(offset + 3);
+    const width = readUint32(16);
+    const height = readUint32(20);
+    return width > 0 && height > 0 ? { width, height } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Approximate the tokens of one image, following each provider's sizing
+ * rules: OpenAI counts 512px tiles after downscaling, Anthropic counts
+ * pixels after fitting the long edge to 1568px.
+ */
+export function estimateImageTokens(dataUrl: string, provider: AIProvider): number {
+  if (provider === 'local') return LOCAL_IMAGE_TOKENS;
+
+  let { width, height } = getPngSize(dataUrl) ?? FALLBACK_IMAGE_SIZE;
+
+  if (provider === 'openai') {
+    const fit = Math.min(1, 2048 / Math.max(width, height));
+    width *= fit;
+    height *= fit;
+    const shortSide = Math.min(1, 768 / Math.min(width, height));
+    width *= shortSide;
+    height *= shortSide;
+    return 85 + 170 * Math.ceil(width / 512) * Math.ceil(height / 512);
+  }
+
+  const fit = Math.min(1, 1568 / Math.max(width, height));
+  return Math.ceil((width * fit * height * fit) / 750);
+}
+
+// ============================================================================
+// Estimation
+// ============================================================================
+
+/**
+ * Estimate a request as callAI would send it. Images only count for models
+ * that accept them, since they are dropped for the others.
+ */
+export function estimateAIRequest(options: {
+  credentials: AICredentials;
+  systemPrompt: string;
+  userMessage: string;
+  history?: AIConversationMessage[];
+  images?: string[];
+}): AIRequestEstimate {
+  const { credentials, systemPrompt, userMessage, history = [] } = options;
+  const { provider } = credentials;
+  const model = getModel(credentials);
+  const images = supportsVision(credentials) ? options.images ?? [] : [];
+
+  const systemTokens = estimateTextTokens(systemPrompt, provider) + MESSAGE_OVERHEAD_TOKENS;
+  const messageTokens = [...history.map(message => message.content), userMessage]
+    .reduce((sum, content) => sum + estimateTextTokens(content, provider) + MESSAGE_OVERHEAD_TOKENS, 0);
+  const imageTokens = images.reduce((sum, image) => sum + estimateImageTokens(image, provider), 0);
+  const inputTokens = systemTokens + messageTokens + imageTokens;
+
+  const contextWindow = lookup(CONTEXT_WINDOWS, model);
+  const price = lookup(MODEL_PRICES, model);
+  const inputCost = price ? (inputTokens * price[0]) / 1_000_000 : 0;
+
+  return {
+    provider,
+    model,
+    systemTokens,
+    messageTokens,
+    imageTokens,
+    imageCount: images.length,
+    inputTokens,
+    maxOutputTokens: MAX_OUTPUT_TOKENS,
+    contextWindow,
+    exceedsContext: contextWindow !== null && inputTokens + MAX_OUTPUT_TOKENS > contextWindow,
+    cost: price
+      ? { input: inputCost, max: inputCost + (MAX_OUTPUT_TOKENS * price[1]) / 1_000_000 }
+      : null,
+  };
+}
+
+/**
+ * Check an estimate against the model's context window and the user's budget.
+ * Returns why the request can't be sent, or null if it fits.
+ */
+export function checkBudget(estimate: AIRequestEstimate, budget: AIBudget | null | undefined): string | null {
+  if (estimate.exceedsContext && estimate.contextWindow !== null) {
+    return `The request is about ${formatTokenCount(estimate.inputTokens)} input tokens plus up to ${formatTokenCount(estimate.maxOutputTokens)} output tokens, more than the model's ${formatTokenCount(estimate.contextWindow)} token context window.`;
+  }
+  if (budget?.maxInputTokens !== undefined && estimate.inputTokens > budget.maxInputTokens) {
+    return `The request is about ${formatTokenCount(estimate.inputTokens)} input tokens, over your limit of ${formatTokenCount(budget.maxInputTokens)}.`;
+  }
+  if (budget?.maxCostUsd !== undefined && estimate.cost && estimate.cost.max > budget.maxCostUsd) {
+    return `The request may cost up to ${formatCost(estimate.cost.max)}, over your limit of ${formatCost(budget.maxCostUsd)}.`;
+  }
+  return null;
+}
+
+/**
+ * Format a token count compactly, e.g. "850" or "12.3k".
+ */
+export function formatTokenCount(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(tokens < 10_000 ? 1 : 0)}k`;
+  return `${(tokens / 1_000_000).toFixed(1)}M`;
+}
+
+/**
+ * Format a cost in USD, with more precision for fractions of a cent.
+ */
+export function formatCost(usd: number): string {
+  return usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
@@ -0,0 +1,71 @@
+/**
+ * Prompt Images
+ *
+ * Fits screenshots to what providers accept before they are attached to a
+ * request. Stitched captures of long elements can be several viewports tall
+ * at device resolution; Anthropic rejects images over 8000px a side or 5MB,
+ * and both providers scale anything past about 1568px down anyway, so larger
+ * images only add to the upload.
+ */
+
+import { getPngSize } from './estimate';
+
+/** Longest edge sent; providers downscale past this, so nothing is lost */
+const MAX_IMAGE_EDGE = 1568;
+
+/** Largest data URL sent, under Anthropic's 5MB per image */
+const MAX_IMAGE_DATA_LENGTH = 4_500_000;
+
+/** Each retry shrinks the image by this factor until it is small enough */
+const RESIZE_STEP = 0.75;
+const MAX_RESIZE_ATTEMPTS = 6;
+
+/**
+ * Encode a canvas as a PNG data URL.
+ */
+export async function canvasToDataUrl(canvas: OffscreenCanvas): Promise<string> {
+  const blob = await canvas.convertToBlob({ type: 'image/png' });
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Could not encode the image'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function fitImage(dataUrl: string): Promise<string> {
+  const size = getPngSize(dataUrl);
+  if (size && Math.max(size.width, size.height) <= MAX_IMAGE_EDGE && dataUrl.length <= MAX_IMAGE_DATA_LENGTH) {
+    return dataUrl;
+  }
+
+  const response = await fetch(dataUrl);
+  const bitmap = await createImageBitmap(await response.blob());
+  try {
+    let scale = Math.min(1, MAX_IMAGE_EDGE / Math.max(bitmap.width, bitmap.height));
+    let fitted = dataUrl;
+    for (let attempt = 0; attempt < MAX_RESIZE_ATTEMPTS; attempt++) {
+      const canvas = new OffscreenCanvas(
+        Math.max(1, Math.round(bitmap.width * scale)),
+        Math.max(1, Math.round(bitmap.height * scale))
+      );
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Canvas is not available');
+      ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      fitted = await canvasToDataUrl(canvas);
+      if (fitted.length <= MAX_IMAGE_DATA_LENGTH) break;
+      scale *= RESIZE_STEP;
+    }
+    return fitted;
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Downscale screenshots (PNG data URLs) to the size providers accept.
+ * Images that already fit are returned as they are.
+ */
+export function fitPromptImages(images: string[]): Promise<string[]> {
+  return Promise.all(images.map(fitImage));
+}
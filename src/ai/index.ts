@@ -7,4 +7,9 @@
 export * from './types';
 export * from './stateMachine';
 export * from './sourceMapping';
-export * from './apiClient';
\ No newline at end of file
+export * from './apiClient';
+export * from './estimate';
+export * from './redaction';
+export * from './images';
+export * from './patchProposals';
+export * from './styleCommands';
\ No newline at end of file
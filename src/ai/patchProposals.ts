@@ -0,0 +1,160 @@
+/**
+ * AI Patch Proposals
+ *
+ * In patch mode the model answers with style patches rather than prose
+ * alone: a ```json block holding {"patches": [...]}. Each entry is completed
+ * into a FinalPatch (original value and selector confidence taken from the
+ * export, or computed for selectors it doesn't cover) and validated like an
+ * exported patch. Invalid entries are reported and never previewed.
+ */
+
+import type { FinalPatch, VisualUIInspectorExport } from '../shared/types';
+import { validateFinalPatch, formatValidationErrors } from '../shared/validation';
+import { computeSelectorConfidence, toKebabCase } from '../shared/handoff';
+
+/**
+ * Appended to the system prompt when patches are requested.
+ */
+export const PATCH_PROPOSAL_INSTRUCTIONS = `## Patch Proposals
+The user wants style patches to preview on the page, not only prose. After a short **Summary**, include exactly one fenced \`\`\`json block:
+
+{"patches": [{"selector": "...", "property": "padding-top", "finalValue": "16px"}]}
+
+- selector: a selector from the export, unless the change needs another element
+- property: a kebab-case CSS property
+- finalValue: the CSS value to apply, without !important
+- Optional: "state" (hover, focus, active, focus-visible) and "media" (e.g. "(min-width: 768px)"), as in the export
+
+Propose only the patches the request needs. The user previews each one on the page and accepts or rejects it.`;
+
+const PROPERTY_PATTERN = /^(--[\w-]+|-?[a-z][a-z0-9-]*)$/;
+
+/**
+ * Check that a proposed property is a kebab-case CSS property or custom property.
+ */
+export function isCSSPropertyName(property: string): boolean {
+  return PROPERTY_PATTERN.test(property);
+}
+
+/**
+ * Check that a proposed value is one CSS value, which can't close the
+ * declaration or raise its priority.
+ */
+export function isSingleCSSValue(value: string): boolean {
+  return value !== '' && !/!important|[;{}]/i.test(value);
+}
+
+/**
+ * Patches proposed in an AI response.
+ */
+export interface PatchProposals {
+  /** Valid patches, in proposal order; one per element, property, state and media */
+  patches: FinalPatch[];
+  /** Why proposed entries were left out */
+  errors: string[];
+}
+
+/**
+ * Find the proposal JSON in a response: the first fenced block (or, if the
+ * model skipped the fence, the outermost braces) that parses to a patch list.
+ */
+export function findProposalPayload(raw: string): unknown[] | undefined {
+  const candidates = Array.from(raw.matchAll(/```(?:json)?[ \t]*\r?\n([\s\S]*?)```/g), match => match[1]);
+  const start = raw.indexOf('{');
+  const end = raw.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    candidates.push(raw.slice(start, end + 1));
+  }
+
+  for (const candidate of candidates) {
+    try {
+      const data: unknown = JSON.parse(candidate);
+      if (Array.isArray(data)) return data;
+      const patches = (data as { patches?: unknown } | null)?.patches;
+      if (Array.isArray(patches)) return patches;
+    } catch {
+      // Not JSON: try the next candidate
+    }
+  }
+  return undefined;
+}
+
+function getTargetKey(patch: Pick<FinalPatch, 'selector' | 'property' | 'state' | 'media'>): string {
+  return [patch.selector, patch.property, patch.state ?? '', patch.media ?? ''].join('\u0000');
+}
+
+/**
+ * Fill in the FinalPatch fields the model is not asked for. Fields it got
+ * wrong are passed through for validation to report.
+ */
+function toProposedPatch(entry: unknown, exportData: VisualUIInspectorExport, capturedAt: string): unknown {
+  if (typeof entry !== 'object' || entry === null) return entry;
+
+  const fields = entry as Record<string, unknown>;
+  const selector = typeof fields.selector === 'string' ? fields.selector.trim() : fields.selector;
+  const property = typeof fields.property === 'string'
+    ? (fields.property.startsWith('--') ? fields.property.trim() : toKebabCase(fields.property.trim()))
+    : fields.property;
+  const state = fields.state ?? undefined;
+  const media = fields.media ?? undefined;
+
+  const sameElement = exportData.patches.find(p => p.selector === selector);
+  const sameTarget = exportData.patches.find(p =>
+    p.selector === selector && p.property === property && p.state === state && p.media === media
+  );
+
+  return {
+    selector,
+    property,
+    originalValue: sameTarget?.originalValue ?? null,
+    finalValue: typeof fields.finalValue === 'string' ? fields.finalValue.trim() : fields.finalValue,
+    selectorConfidence: sameElement?.selectorConfidence ??
+      (typeof selector === 'string' ? computeSelectorConfidence(selector) : 'low'),
+    capturedAt,
+    mode: fields.mode ?? sameTarget?.mode ?? 'inline',
+    ...(state !== undefined && { state }),
+    ...(media !== undefined && { media }),
+    ...(sameElement?.frame && { frame: sameElement.frame }),
+  };
+}
+
+/**
+ * Parse and validate the patches proposed in an AI response.
+ * A later proposal for the same element, property, state and media
+ * replaces an earlier one, so previews never overlap.
+ */
+export function parsePatchProposals(raw: string, exportData: VisualUIInspectorExport): PatchProposals {
+  const entries = findProposalPayload(raw);
+  if (!entries) {
+    return { patches: [], errors: ['The response has no JSON block with patches'] };
+  }
+
+  const capturedAt = new Date().toISOString();
+  const byTarget = new Map<string, FinalPatch>();
+  const errors: string[] = [];
+
+  entries.forEach((entry, index) => {
+    const candidate = toProposedPatch(entry, exportData, capturedAt);
+    const validationErrors = validateFinalPatch(candidate, index);
+    if (validationErrors.length > 0) {
+      errors.push(formatValidationErrors(validationErrors));
+      return;
+    }
+
+    const patch = candidate as FinalPatch;
+    if (!isCSSPropertyName(patch.property)) {
+      errors.push(`- patches[${index}].property: "${patch.property}" is not a CSS property name`);
+      return;
+    }
+    if (!isSingleCSSValue(patch.finalValue)) {
+      errors.push(`- patches[${index}].finalValue: "${patch.finalValue}" is not a single CSS value`);
+      return;
+    }
+
+    const key = getTargetKey(patch);
+    byTarget.delete(key);
+    byTarget.set(key, patch);
+  });
+
+  return { patches: Array.from(byTarget.values()), errors };
+}
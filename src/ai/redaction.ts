@@ -0,0 +1,212 @@
+/**
+ * AI Payload Redaction
+ *
+ * Removes personal data and secrets from an export before it is sent to a
+ * provider: query strings and tokens in URLs, emails, long numbers and
+ * user-defined patterns in page text, and optionally the detail of the
+ * element screenshots. Selectors and CSS values are left alone, since the
+ * guidance depends on them.
+ *
+ * Every changed field is reported, so the user can see what was sent in
+ * place of what was captured.
+ */
+
+import type { VisualUIInspectorExport } from '../shared/types';
+import type { AIRedactionSettings, Redaction, RedactionKind } from './types';
+import { canvasToDataUrl } from './images';
+
+export const DEFAULT_REDACTION_SETTINGS: AIRedactionSettings = {
+  urls: true,
+  emails: true,
+  numbers: true,
+  patterns: [],
+  blurScreenshots: false,
+};
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s"'<>]+/gi;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const NUMBER_PATTERN = /(?<![\w.])\+?\(?\d[\d ().-]*\d(?!\w)/g;
+
+/** Numbers with fewer digits (prices, years, counts) are kept */
+const MIN_NUMBER_DIGITS = 5;
+
+/** Path segments that are ids or tokens rather than routes */
+const TOKEN_SEGMENTS = [
+  /^\d{5,}$/,
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  /^[0-9a-f]{16,}$/i,
+  /^(?=.*\d)(?=.*[a-z])(?=.*[A-Z])[\w.-]{20,}$/,
+];
+
+/** Blur radius in image pixels; enough to make text illegible while keeping the layout */
+const BLUR_RADIUS = 8;
+
+// ============================================================================
+// Text
+// ============================================================================
+
+/**
+ * Check the user's patterns. Returns one message per pattern that is not a
+ * valid regular expression.
+ */
+export function validateRedactionPatterns(patterns: string[]): string[] {
+  const errors: string[] = [];
+  for (const pattern of patterns) {
+    if (!pattern.trim()) continue;
+    try {
+      new RegExp(pattern, 'gi');
+    } catch (e) {
+      errors.push(`"${pattern}": ${e instanceof Error ? e.message : 'invalid pattern'}`);
+    }
+  }
+  return errors;
+}
+
+function compilePatterns(patterns: string[]): RegExp[] {
+  return patterns
+    .filter(pattern => pattern.trim() && validateRedactionPatterns([pattern]).length === 0)
+    .map(pattern => new RegExp(pattern, 'gi'));
+}
+
+/**
+ * Strip credentials, the query string and the fragment from a URL, and
+ * replace path segments that look like ids or tokens with ":token".
+ * Returns the input unchanged if it is not an absolute URL.
+ */
+export function redactUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  parsed.username = '';
+  parsed.password = '';
+  parsed.search = '';
+  parsed.hash = '';
+  parsed.pathname = parsed.pathname
+    .split('/')
+    .map(segment => (TOKEN_SEGMENTS.some(pattern => pattern.test(segment)) ? ':token' : segment))
+    .join('/');
+  return parsed.toString();
+}
+
+/**
+ * Redact a piece of page text. URLs are redacted first, so their parts are
+ * not masked twice; the user's patterns run before the number mask so they
+ * see the text as captured.
+ */
+export function redactText(
+  text: string,
+  settings: AIRedactionSettings
+): { text: string; kinds: RedactionKind[] } {
+  const kinds = new Set<RedactionKind>();
+  const replace = (value: string, pattern: RegExp, kind: RedactionKind, mask: (match: string) => string) =>
+    value.replace(pattern, (match) => {
+      const masked = match === '' ? match : mask(match);
+      if (masked !== match) kinds.add(kind);
+      return masked;
+    });
+
+  let result = text;
+  if (settings.urls) {
+    result = replace(result, URL_PATTERN, 'url', redactUrl);
+  }
+  if (settings.emails) {
+    result = replace(result, EMAIL_PATTERN, 'email', () => '[email]');
+  }
+  for (const pattern of compilePatterns(settings.patterns)) {
+    result = replace(result, pattern, 'pattern', () => '[redacted]');
+  }
+  if (settings.numbers) {
+    result = replace(result, NUMBER_PATTERN, 'number', (match) =>
+      match.replace(/\D/g, '').length >= MIN_NUMBER_DIGITS ? '[number]' : match
+    );
+  }
+
+  return { text: result, kinds: Array.from(kinds) };
+}
+
+// ============================================================================
+// Screenshots
+// ============================================================================
+
+async function blurScreenshot(dataUrl: string): Promise<string> {
+  const response = await fetch(dataUrl);
+  const bitmap = await createImageBitmap(await response.blob());
+
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.filter = `blur(${BLUR_RADIUS}px)`;
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  return canvasToDataUrl(canvas);
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Redact an export as configured. The export is copied, not changed.
+ * Rejects if a screenshot could not be blurred, so it is never sent as is.
+ */
+export async function redactExport(
+  exportData: VisualUIInspectorExport,
+  settings: AIRedactionSettings
+): Promise<{ exportData: VisualUIInspectorExport; redactions: Redaction[] }> {
+  const redactions: Redaction[] = [];
+
+  const redactField = (field: string, value: string): string => {
+    const { text, kinds } = redactText(value, settings);
+    if (kinds.length > 0) {
+      redactions.push({ field, kinds, before: value, after: text });
+    }
+    return text;
+  };
+
+  const redacted: VisualUIInspectorExport = {
+    ...exportData,
+    pageUrl: redactField('pageUrl', exportData.pageUrl),
+  };
+
+  if (exportData.textChanges) {
+    redacted.textChanges = exportData.textChanges.map((change, i) => ({
+      ...change,
+      originalText: redactField(`textChanges[${i}].originalText`, change.originalText),
+      finalText: redactField(`textChanges[${i}].finalText`, change.finalText),
+    }));
+  }
+
+  if (exportData.attributeChanges) {
+    redacted.attributeChanges = exportData.attributeChanges.map((change, i) => ({
+      ...change,
+      ...(change.value !== undefined && {
+        value: redactField(`attributeChanges[${i}].value`, change.value),
+      }),
+      ...(typeof change.originalValue === 'string' && {
+        originalValue: redactField(`attributeChanges[${i}].originalValue`, change.originalValue),
+      }),
+    }));
+  }
+
+  if (exportData.screenshots && settings.blurScreenshots) {
+    const screenshots: VisualUIInspectorExport['screenshots'] = {};
+    for (const [selector, pair] of Object.entries(exportData.screenshots)) {
+      screenshots[selector] = {};
+      for (const kind of ['before', 'after'] as const) {
+        const image = pair[kind];
+        if (!image) continue;
+        const blurred = await blurScreenshot(image);
+        screenshots[selector][kind] = blurred;
+        redactions.push({ field: `screenshots["${selector}"].${kind}`, kinds: ['screenshot'], before: image, after: blurred });
+      }
+    }
+    redacted.screenshots = screenshots;
+  }
+
+  return { exportData: redacted, redactions };
+}
@@ -3,12 +3,16 @@
  * 
  * Implements the 8-state execution lifecycle from Phase 4:
  * DISCONNECTED → CONNECTED_IDLE → READY → GENERATING → REVIEW_REQUIRED → CONFIRMED
- *                                     ↓
- *                              FAILED / ABORTED
+ *                                     ↓        ↑______________|
+ *                              FAILED / ABORTED     refinement
+ *
+ * A response under review can be refined with follow-up messages: each one
+ * goes back to GENERATING with the earlier turns kept in the conversation.
  */
 
 import type {
   AIConnectionState,
+  AIConversationMessage,
   AICredentials,
   AIExecutionContext,
   AIResponse,
@@ -18,6 +22,8 @@ import type {
 import { AI_STORAGE_KEYS } from './types';
 import type { VisualUIInspectorExport } from '../shared/types';
 import { validateExportSchemaV1 } from '../shared/validation';
+import { checkBudget } from './estimate';
+import { redactExport, validateRedactionPatterns } from './redaction';
 
 // ============================================================================
 // State Machine Types
@@ -30,8 +36,10 @@ export interface AIStateMachineState {
   credentials: AICredentials | null;
   /** Current execution context (null if not in READY+) */
   context: AIExecutionContext | null;
-  /** AI response (null until REVIEW_REQUIRED) */
+  /** AI response (null until REVIEW_REQUIRED); the latest one when refining */
   response: AIResponse | null;
+  /** Messages exchanged so far, oldest first (empty until GENERATING) */
+  conversation: AIConversationMessage[];
   /** Last error (null if no error) */
   error: AIExecutionError | null;
   /** Abort controller for cancellation */
@@ -54,6 +62,7 @@ class AIStateMachine {
       credentials: null,
       context: null,
       response: null,
+      conversation: [],
       error: null,
       abortController: null,
     };
@@ -83,6 +92,14 @@ class AIStateMachine {
     return this.state.state === 'GENERATING';
   }
 
+  /**
+   * Whether the current generation is a follow-up to an earlier response.
+   */
+  isRefining(): boolean {
+    return this.state.state === 'GENERATING' &&
+      this.state.conversation.some(message => message.role === 'assistant');
+  }
+
   // ============================================================================
   // State Listeners
   // ============================================================================
@@ -191,6 +208,7 @@ class AIStateMachine {
       credentials: null,
       context: null,
       response: null,
+      conversation: [],
       error: null,
       abortController: null,
     });
@@ -237,9 +255,9 @@ class AIStateMachine {
 
   /**
    * Transition: READY → GENERATING
-   * Called when user confirms execution.
+   * Called when user confirms execution, with the message carrying the export.
    */
-  startGeneration(): void {
+  startGeneration(userMessage: string): void {
     if (this.state.state !== 'READY') {
       console.warn('[AI] Cannot start generation: not in READY state');
       return;
@@ -248,6 +266,7 @@ class AIStateMachine {
     const abortController = new AbortController();
     this.setState({
       state: 'GENERATING',
+      conversation: [{ role: 'user', content: userMessage }],
       abortController,
       error: null,
     });
@@ -266,12 +285,34 @@ class AIStateMachine {
     this.setState({
       state: 'REVIEW_REQUIRED',
       response,
+      conversation: [...this.state.conversation, { role: 'assistant', content: response.raw }],
       abortController: null,
     });
   }
 
   /**
-   * Transition: GENERATING → FAILED
+   * Transition: REVIEW_REQUIRED → GENERATING
+   * Called when user asks a follow-up to refine the response under review.
+   * The export and earlier turns stay in the conversation.
+   */
+  requestRefinement(followUp: string): void {
+    if (this.state.state !== 'REVIEW_REQUIRED') {
+      console.warn('[AI] Cannot refine: not in REVIEW_REQUIRED state');
+      return;
+    }
+
+    const abortController = new AbortController();
+    this.setState({
+      state: 'GENERATING',
+      conversation: [...this.state.conversation, { role: 'user', content: followUp }],
+      abortController,
+      error: null,
+    });
+  }
+
+  /**
+   * Transition: GENERATING → FAILED, or back to REVIEW_REQUIRED when a
+   * refinement fails, so the earlier response can still be reviewed.
    * Called when AI call fails.
    */
   fail(error: AIExecutionError): void {
@@ -279,6 +320,16 @@ class AIStateMachine {
       this.state.abortController.abort();
     }
 
+    if (this.isRefining()) {
+      this.setState({
+        state: 'REVIEW_REQUIRED',
+        conversation: this.state.conversation.slice(0, -1),
+        error,
+        abortController: null,
+      });
+      return;
+    }
+
     this.setState({
       state: 'FAILED',
       error,
@@ -287,7 +338,8 @@ class AIStateMachine {
   }
 
   /**
-   * Transition: GENERATING → ABORTED
+   * Transition: GENERATING → ABORTED, or back to REVIEW_REQUIRED when a
+   * refinement is aborted.
    * Called when user aborts during generation.
    */
   abort(): void {
@@ -300,12 +352,24 @@ class AIStateMachine {
       this.state.abortController.abort();
     }
 
+    const error: AIExecutionError = {
+      code: 'ABORTED',
+      message: 'Request aborted by user',
+    };
+
+    if (this.isRefining()) {
+      this.setState({
+        state: 'REVIEW_REQUIRED',
+        conversation: this.state.conversation.slice(0, -1),
+        error,
+        abortController: null,
+      });
+      return;
+    }
+
     this.setState({
       state: 'ABORTED',
-      error: {
-        code: 'ABORTED',
-        message: 'Request aborted by user',
-      },
+      error,
       abortController: null,
     });
   }
@@ -339,6 +403,7 @@ class AIStateMachine {
       state: 'CONNECTED_IDLE',
       context: null,
       response: null,
+      conversation: [],
     });
   }
 
@@ -355,6 +420,7 @@ class AIStateMachine {
     this.setState({
       state: 'READY',
       response: null,
+      conversation: [],
     });
   }
 
@@ -373,6 +439,7 @@ class AIStateMachine {
       state: 'CONNECTED_IDLE',
       context: null,
       response: null,
+      conversation: [],
       error: null,
     });
   }
@@ -419,6 +486,12 @@ class AIStateMachine {
     // Gate 6: No Concurrent Execution
     results.push(this.checkGate6());
 
+    // Gate 7: Within Budget
+    results.push(this.checkGate7(context));
+
+    // Gate 8: Payload Redacted (last, so the other gates see the export as captured)
+    results.push(await this.checkGate8(context));
+
     return results;
   }
 
@@ -530,6 +603,59 @@ class AIStateMachine {
         : undefined,
     };
   }
+
+  /**
+   * Gate 7: Within Budget
+   * Check: The estimated request fits the model's context window and, if the
+   * user set request limits, stays within them.
+   */
+  private checkGate7(context: AIExecutionContext): GateCheckResult {
+    const overBudget = context.requestEstimate
+      ? checkBudget(context.requestEstimate, context.budget)
+      : null;
+    const remedy = context.requestEstimate?.exceedsContext
+      ? 'Reduce the changes or pick a model with a larger context window to proceed.'
+      : 'Raise the limit or reduce the changes to proceed.';
+    return {
+      passed: !overBudget,
+      gate: 'WITHIN_BUDGET',
+      message: overBudget ? `${overBudget} ${remedy}` : undefined,
+    };
+  }
+
+  /**
+   * Gate 8: Payload Redacted
+   * Check: If redaction is on, personal data and secrets were removed from the export.
+   * Replaces context.exportPayload with the redacted copy and records what changed
+   * in context.redactions. Fails rather than let the export through unredacted.
+   */
+  private async checkGate8(context: AIExecutionContext): Promise<GateCheckResult> {
+    if (!context.redaction) {
+      return { passed: true, gate: 'PAYLOAD_REDACTED' };
+    }
+
+    const patternErrors = validateRedactionPatterns(context.redaction.patterns);
+    if (patternErrors.length > 0) {
+      return {
+        passed: false,
+        gate: 'PAYLOAD_REDACTED',
+        message: `Invalid redaction pattern: ${patternErrors.join('; ')}`,
+      };
+    }
+
+    try {
+      const result = await redactExport(context.exportPayload as VisualUIInspectorExport, context.redaction);
+      context.exportPayload = result.exportData;
+      context.redactions = result.redactions;
+      return { passed: true, gate: 'PAYLOAD_REDACTED' };
+    } catch (e) {
+      return {
+        passed: false,
+        gate: 'PAYLOAD_REDACTED',
+        message: `The export could not be redacted: ${e instanceof Error ? e.message : 'unknown error'}`,
+      };
+    }
+  }
 }
 
 // ============================================================================
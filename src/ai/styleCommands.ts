@@ -0,0 +1,174 @@
+/**
+ * AI Styling Commands
+ *
+ * Turns a command typed in the prompt bar ("make this card's padding match
+ * its sibling and round the corners a bit more") into style patches for the
+ * selected element. The model sees the element's computed styles and those
+ * of its parent and adjacent siblings, and answers with a ```json block of
+ * declarations, which are applied like edits made in the inspector.
+ */
+
+import type { ComputedStylesSnapshot, ElementMetadata, ElementStyleContext, RelatedElementStyles } from '../shared/types';
+import { toKebabCase } from '../shared/handoff';
+import { findProposalPayload, isCSSPropertyName, isSingleCSSValue } from './patchProposals';
+import { redactText } from './redaction';
+import type { AIRedactionSettings } from './types';
+
+export const STYLE_COMMAND_SYSTEM_PROMPT = `You are an assistant for Visual UI Inspector, a Chrome extension for making visual CSS changes to live websites.
+
+## Your Role
+You translate the user's styling command for the selected element into concrete CSS declarations. They are applied to the element on the page right away; the user can undo them.
+
+## Input
+- The command
+- The selected element: label, breadcrumb path and computed styles
+- Its parent and adjacent siblings with their computed styles, where present
+
+## Output Format
+One sentence saying what you changed, then exactly one fenced \`\`\`json block:
+
+{"patches": [{"property": "padding-top", "value": "24px"}]}
+
+- property: a kebab-case CSS property, preferring the longhands listed in the styles (padding-top, not padding)
+- value: a single concrete CSS value, without !important
+- When the command refers to another element ("match its sibling"), use that element's computed value
+- Relative wording ("a bit more", "slightly") means a small step from the current value
+
+Change only what the command asks for. If it cannot be done with CSS on this element, explain why and return {"patches": []}.`;
+
+/**
+ * A declaration a command asked for, ready to apply.
+ */
+export interface StyleCommandPatch {
+  /** camelCase, like the properties edited in the inspector */
+  property: string;
+  value: string;
+}
+
+export interface StyleCommandResult {
+  patches: StyleCommandPatch[];
+  /** The model's explanation, without the JSON block */
+  summary: string;
+  /** Why returned entries were left out */
+  errors: string[];
+}
+
+function toCamelCase(property: string): string {
+  return property.startsWith('--') ? property : property.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+}
+
+/**
+ * Redacts page data in a command message: element text with all the
+ * settings, style values with the URL rule only, so their numbers are kept.
+ */
+interface MessageRedaction {
+  text: (value: string) => string;
+  style: (value: string) => string;
+}
+
+function createMessageRedaction(settings: AIRedactionSettings | null): MessageRedaction {
+  if (!settings) {
+    return { text: value => value, style: value => value };
+  }
+  const styleSettings: AIRedactionSettings = {
+    ...settings,
+    emails: false,
+    numbers: false,
+    patterns: [],
+  };
+  return {
+    text: value => redactText(value, settings).text,
+    style: value => redactText(value, styleSettings).text,
+  };
+}
+
+function formatStyles(styles: ComputedStylesSnapshot, redaction: MessageRedaction): string {
+  return Object.entries(styles)
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1] !== '')
+    .map(([property, value]) => `- ${toKebabCase(property)}: ${redaction.style(value)}`)
+    .join('\n');
+}
+
+function formatRelated(
+  title: string,
+  element: RelatedElementStyles | null,
+  redaction: MessageRedaction
+): string[] {
+  if (!element) return [];
+  return [
+    '',
+    `## ${title}: ${element.label}`,
+    ...(element.textPreview ? [`Text: "${redaction.text(element.textPreview)}"`] : []),
+    formatStyles(element.computedStyles, redaction),
+  ];
+}
+
+/**
+ * Build the user message for a styling command.
+ *
+ * @param command - The command as typed
+ * @param element - The selected element
+ * @param context - Its parent and siblings, or null if they couldn't be read
+ * @param redaction - What to redact from the page data, as for exports; nothing when null
+ */
+export function buildStyleCommandMessage(
+  command: string,
+  element: ElementMetadata,
+  context: ElementStyleContext | null,
+  redaction: AIRedactionSettings | null = null
+): string {
+  const redact = createMessageRedaction(redaction);
+  const hierarchy = element.hierarchy;
+  const path = hierarchy?.breadcrumb.map(item => item.label).join(' > ');
+
+  return [
+    `# Command`,
+    command,
+    '',
+    `## Selected element: ${element.selector}`,
+    ...(path ? [`Path: ${path}`] : []),
+    ...(hierarchy ? [`Sibling ${hierarchy.siblingIndex + 1} of ${hierarchy.siblingCount}`] : []),
+    ...(element.textPreview ? [`Text: "${redact.text(element.textPreview)}"`] : []),
+    formatStyles(element.computedStyles, redact),
+    ...formatRelated('Parent', context?.parent ?? null, redact),
+    ...formatRelated('Previous sibling', context?.previousSibling ?? null, redact),
+    ...formatRelated('Next sibling', context?.nextSibling ?? null, redact),
+  ].join('\n');
+}
+
+/**
+ * Parse the declarations a styling command response asked for.
+ * A later declaration of the same property replaces an earlier one.
+ */
+export function parseStyleCommand(raw: string): StyleCommandResult {
+  const summary = raw.replace(/```(?:json)?[ \t]*\r?\n[\s\S]*?```/g, '').trim();
+  const entries = findProposalPayload(raw);
+  if (!entries) {
+    return { patches: [], summary, errors: ['The response has no JSON block with patches'] };
+  }
+
+  const byProperty = new Map<string, StyleCommandPatch>();
+  const errors: string[] = [];
+
+  entries.forEach((entry, index) => {
+    const fields = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+    const property = typeof fields.property === 'string' ? fields.property.trim() : '';
+    const value = typeof fields.value === 'string' ? fields.value.trim() : '';
+
+    const kebab = property.startsWith('--') ? property : toKebabCase(property);
+    if (!isCSSPropertyName(kebab)) {
+      errors.push(`- patches[${index}].property: "${property}" is not a CSS property name`);
+      return;
+    }
+    if (!isSingleCSSValue(value)) {
+      errors.push(`- patches[${index}].value: "${value}" is not a single CSS value`);
+      return;
+    }
+
+    const camel = toCamelCase(kebab);
+    byProperty.delete(camel);
+    byProperty.set(camel, { property: camel, value });
+  });
+
+  return { patches: Array.from(byProperty.values()), summary, errors };
+}
@@ -23,9 +23,10 @@ export type AIConnectionState =
   | 'FAILED';           // Gate failed, AI error, or validation failed
 
 /**
- * Supported AI providers
+ * Supported AI providers. 'local' is any OpenAI-compatible server on the
+ * user's machine or network (Ollama, LM Studio, ...), used without an API key.
  */
-export type AIProvider = 'openai' | 'anthropic';
+export type AIProvider = 'openai' | 'anthropic' | 'local';
 
 /**
  * AI credentials stored in chrome.storage.local
@@ -33,11 +34,11 @@ export type AIProvider = 'openai' | 'anthropic';
 export interface AICredentials {
   /** AI provider */
   provider: AIProvider;
-  /** API key (stored encrypted by browser) */
+  /** API key (stored encrypted by browser); empty for local providers */
   apiKey: string;
   /** Model to use (e.g., 'gpt-4', 'claude-3-opus') */
   model?: string;
-  /** Custom API base URL (for proxies) */
+  /** Custom API base URL (for proxies); for local providers, the server's address, e.g. http://localhost:11434 */
   baseUrl?: string;
   /** When credentials were last validated */
   lastValidated?: string;
@@ -63,13 +64,21 @@ export type GateName =
   | 'STABILITY_ACKNOWLEDGED'   // Gate 3: User ack for low confidence
   | 'MODE_COMPATIBLE'          // Gate 4: Repo-connected requires context
   | 'CREDENTIALS_VALID'        // Gate 5: Credentials exist and not invalid
-  | 'NO_CONCURRENT_EXECUTION'; // Gate 6: Not already generating
+  | 'NO_CONCURRENT_EXECUTION'  // Gate 6: Not already generating
+  | 'WITHIN_BUDGET'            // Gate 7: Estimated request within the context window and the user's budget
+  | 'PAYLOAD_REDACTED';        // Gate 8: Personal data and secrets redacted from the export
 
 /**
  * AI execution mode
  */
 export type AIMode = 'universal' | 'repo-connected';
 
+/**
+ * What the AI is asked for: implementation guidance, or style patches
+ * to preview on the page (with a short summary)
+ */
+export type AIOutputMode = 'guidance' | 'patches';
+
 /**
  * AI execution context
  */
@@ -79,6 +88,14 @@ export interface AIExecutionContext {
   userNotes?: string;
   repoContext?: RepoContext;
   stabilityAcknowledged: boolean;
+  /** Size and cost of the request about to be sent, for the budget gate */
+  requestEstimate?: AIRequestEstimate;
+  /** User-set request limits; no limits when absent */
+  budget?: AIBudget | null;
+  /** What to redact from the export; nothing is redacted when absent */
+  redaction?: AIRedactionSettings | null;
+  /** Set by the redaction gate: what it changed in exportPayload */
+  redactions?: Redaction[];
 }
 
 /**
@@ -145,6 +162,24 @@ export interface AIResponse {
   validationErrors?: string[];
 }
 
+/**
+ * A response that is still streaming: the text so far and the
+ * sections that can already be shown.
+ */
+export interface AIPartialResponse {
+  raw: string;
+  sections: Pick<AIResponse['sections'], 'summary' | 'implementationGuidance'>;
+}
+
+/**
+ * A message of an AI conversation. The first user message carries the
+ * export; later ones are follow-ups refining the previous response.
+ */
+export interface AIConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
 /**
  * AI execution result
  */
@@ -176,6 +211,84 @@ export type AIErrorCode =
   | 'RESPONSE_INVALID'
   | 'ABORTED';
 
+// ============================================================================
+// Request Estimation
+// ============================================================================
+
+/**
+ * Estimated size and cost of one request.
+ */
+export interface AIRequestEstimate {
+  provider: AIProvider;
+  model: string;
+  systemTokens: number;
+  /** Conversation text, including per-message overhead */
+  messageTokens: number;
+  /** Screenshots; zero when the model doesn't accept images */
+  imageTokens: number;
+  imageCount: number;
+  /** Everything sent: system prompt, messages and images */
+  inputTokens: number;
+  /** The response length cap sent with the request */
+  maxOutputTokens: number;
+  /** Model's context window in tokens, if known */
+  contextWindow: number | null;
+  /** Whether the input plus a full-length response exceeds the context window */
+  exceedsContext: boolean;
+  /** Cost in USD, if the model's price is known */
+  cost: {
+    /** Input alone */
+    input: number;
+    /** Input plus a full-length response: the most the request can cost */
+    max: number;
+  } | null;
+}
+
+/**
+ * User-set limits for one request. Unset limits are not checked.
+ */
+export interface AIBudget {
+  /** Most a request may cost in USD, worst case (a full-length response) */
+  maxCostUsd?: number;
+  /** Most input tokens a request may send */
+  maxInputTokens?: number;
+}
+
+// ============================================================================
+// Redaction
+// ============================================================================
+
+/**
+ * What is redacted from page data before it is sent to a provider.
+ */
+export interface AIRedactionSettings {
+  /** Strip credentials, query strings, fragments and token-like path segments from URLs */
+  urls: boolean;
+  /** Mask email addresses */
+  emails: boolean;
+  /** Mask numbers of 5 or more digits: phone, card and account numbers */
+  numbers: boolean;
+  /** Extra regular expressions, matched case-insensitively, whose matches are masked */
+  patterns: string[];
+  /** Blur the element screenshots */
+  blurScreenshots: boolean;
+}
+
+export type RedactionKind = 'url' | 'email' | 'number' | 'pattern' | 'screenshot';
+
+/**
+ * One field of the export that redaction changed.
+ */
+export interface Redaction {
+  /** Path of the field in the export, e.g. "textChanges[0].finalText" */
+  field: string;
+  kinds: RedactionKind[];
+  /** Value as captured; a data URL for screenshots */
+  before: string;
+  /** Value as sent */
+  after: string;
+}
+
 // ============================================================================
 // Storage Keys
 // ============================================================================
@@ -183,4 +296,8 @@ export type AIErrorCode =
 export const AI_STORAGE_KEYS = {
   CREDENTIALS: 'ai_credentials',
   LAST_PROVIDER: 'ai_last_provider',
+  /** AIBudget; absent when no limits are set */
+  BUDGET: 'ai_budget',
+  /** AIRedactionSettings; the defaults apply when absent */
+  REDACTION: 'ai_redaction',
 } as const;
@@ -5,90 +5,263 @@
  * Also handles extension lifecycle events and AI credential management.
  */
 
-import type { ExtensionMessage, ElementMetadata } from '../shared/types';
+import type { ExtensionMessage, ScreenshotRegion } from '../shared/types';
 import { MessageType, isExtensionMessage, createMessage } from '../shared/types';
 import type { AICredentials } from '../ai/types';
 import { AI_STORAGE_KEYS } from '../ai/types';
 
+/**
+ * Tab messages go to the top frame only. Subframe content scripts
+ * (all_frames injection) defer to it; it inspects same-origin iframes directly.
+ */
+const TOP_FRAME: chrome.tabs.MessageSendOptions = { frameId: 0 };
+
 // ============================================================================
 // Screenshot Capture
 // ============================================================================
 
+/** captureVisibleTab allows two calls per second per extension */
+const MIN_CAPTURE_INTERVAL_MS = 550;
+
+/** Most viewport-high captures stitched into one element screenshot */
+const MAX_STITCHED_CAPTURES = 8;
+
+let pendingCapture: Promise<unknown> = Promise.resolve();
+let lastCaptureTime = 0;
+
 /**
- * Capture a screenshot of a specific element by cropping the visible tab.
+ * Capture the visible area of a window's active tab. Calls are queued and
+ * spaced out, so selection and export captures never trip the rate limit.
  */
-async function captureElementScreenshot(
-  _tabId: number,
-  boundingRect: ElementMetadata['boundingRect']
+function captureVisibleTab(windowId?: number): Promise<string> {
+  const capture = pendingCapture
+    .catch(() => {})
+    .then(async () => {
+      const wait = lastCaptureTime + MIN_CAPTURE_INTERVAL_MS - Date.now();
+      if (wait > 0) {
+        await new Promise((resolve) => setTimeout(resolve, wait));
+      }
+      lastCaptureTime = Date.now();
+      return windowId === undefined
+        ? chrome.tabs.captureVisibleTab({ format: 'png' })
+        : chrome.tabs.captureVisibleTab(windowId, { format: 'png' });
+    });
+  pendingCapture = capture;
+  return capture;
+}
+
+async function loadCapture(dataUrl: string): Promise<ImageBitmap> {
+  const response = await fetch(dataUrl);
+  return createImageBitmap(await response.blob());
+}
+
+async function toDataUrl(canvas: OffscreenCanvas): Promise<string | undefined> {
+  const blob = await canvas.convertToBlob({ type: 'image/png' });
+  const reader = new FileReader();
+
+  return new Promise((resolve) => {
+    reader.onloadend = () => {
+      resolve(reader.result as string);
+    };
+    reader.onerror = () => {
+      resolve(undefined);
+    };
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Get the part of a region's width inside the viewport, in CSS pixels.
+ */
+function getVisibleColumns(region: ScreenshotRegion): { left: number; width: number } {
+  const left = Math.max(0, region.x);
+  const right = Math.min(region.viewportWidth, region.x + region.width);
+  return { left, width: right - left };
+}
+
+function isFullyVisible(region: ScreenshotRegion): boolean {
+  return region.y >= 0 && region.y + region.height <= region.viewportHeight;
+}
+
+/**
+ * Crop the visible part of a region out of a tab capture. Returns undefined
+ * if the region has no size or lies outside the viewport.
+ */
+async function cropScreenshot(
+  image: ImageBitmap,
+  region: ScreenshotRegion
+): Promise<string | undefined> {
+  const dpr = region.devicePixelRatio;
+  const { left, width } = getVisibleColumns(region);
+  const top = Math.max(0, region.y);
+  const height = Math.min(region.viewportHeight, region.y + region.height) - top;
+
+  // If element is completely off-screen or has no size, skip
+  if (width <= 0 || height <= 0) {
+    return undefined;
+  }
+
+  // Capture pixels per CSS pixel, as reported by the page
+  const cropX = Math.floor(left * dpr);
+  const cropY = Math.floor(top * dpr);
+  const cropWidth = Math.min(Math.ceil(width * dpr), image.width - cropX);
+  const cropHeight = Math.min(Math.ceil(height * dpr), image.height - cropY);
+  if (cropWidth <= 0 || cropHeight <= 0) {
+    return undefined;
+  }
+
+  // Create cropped image using OffscreenCanvas
+  const canvas = new OffscreenCanvas(cropWidth, cropHeight);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return undefined;
+  }
+
+  ctx.drawImage(
+    image,
+    cropX, cropY, cropWidth, cropHeight,
+    0, 0, cropWidth, cropHeight
+  );
+
+  return toDataUrl(canvas);
+}
+
+/**
+ * Scroll a tab's page to an offset and wait for it to be painted.
+ * Resolves to the vertical offset reached, which the page may clamp.
+ */
+async function scrollTab(tabId: number, left: number, top: number): Promise<number> {
+  const [injection] = await chrome.scripting.executeScript({
+    target: { tabId, frameIds: [0] },
+    func: async (x: number, y: number) => {
+      window.scrollTo({ left: x, top: y, behavior: 'instant' });
+      await new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+      return window.scrollY;
+    },
+    args: [left, top],
+  });
+  return injection?.result ?? top;
+}
+
+/**
+ * Capture a region that doesn't fit in the viewport by scrolling the page
+ * one viewport at a time and stitching the slices together. Fixed and sticky
+ * page elements show up in every slice. The scroll position is restored
+ * afterwards; regions taller than MAX_STITCHED_CAPTURES viewports are cut off.
+ */
+async function captureStitched(
+  tabId: number,
+  region: ScreenshotRegion,
+  windowId?: number
 ): Promise<string | undefined> {
+  const dpr = region.devicePixelRatio;
+  const { left, width } = getVisibleColumns(region);
+  const height = Math.min(region.height, region.viewportHeight * MAX_STITCHED_CAPTURES);
+  if (width <= 0 || height <= 0) {
+    return undefined;
+  }
+
+  const canvas = new OffscreenCanvas(Math.ceil(width * dpr), Math.ceil(height * dpr));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return undefined;
+  }
+
+  const pageTop = region.y + region.scrollY;
+  // Rows of the element, from its top edge, stitched so far
+  let covered = 0;
   try {
-    // If element is completely off-screen or has no size, skip
-    if (boundingRect.width <= 0 || boundingRect.height <= 0) {
-      return undefined;
+    while (covered < height) {
+      const scrollY = await scrollTab(tabId, region.scrollX, pageTop + covered);
+      const image = await loadCapture(await captureVisibleTab(windowId));
+
+      // Element rows visible in this capture
+      const top = pageTop - scrollY;
+      const from = Math.max(covered, -top);
+      const to = Math.min(height, region.viewportHeight - top);
+      if (to <= from) {
+        // The page can't scroll any further
+        break;
+      }
+
+      ctx.drawImage(
+        image,
+        left * dpr, (top + from) * dpr, width * dpr, (to - from) * dpr,
+        0, from * dpr, width * dpr, (to - from) * dpr
+      );
+      covered = to;
     }
+  } finally {
+    await scrollTab(tabId, region.scrollX, region.scrollY).catch(() => {});
+  }
 
-    // Capture the visible portion of the current window's active tab
-    const dataUrl = await chrome.tabs.captureVisibleTab({
-      format: 'png',
-    });
+  if (covered <= 0) {
+    return undefined;
+  }
+  if (covered < height) {
+    const trimmed = new OffscreenCanvas(canvas.width, Math.ceil(covered * dpr));
+    trimmed.getContext('2d')?.drawImage(canvas, 0, 0);
+    return toDataUrl(trimmed);
+  }
+  return toDataUrl(canvas);
+}
 
-    // Create an offscreen document to crop the image
-    // We'll use a simpler approach: return the full screenshot and crop client-side
-    // For now, we crop using an OffscreenCanvas (available in service workers)
-    
-    const response = await fetch(dataUrl);
-    const blob = await response.blob();
-    const imageBitmap = await createImageBitmap(blob);
-
-    // Get device pixel ratio for accurate cropping (default to 1 if unknown)
-    // Service workers don't have access to window.devicePixelRatio
-    // We'll estimate based on common values or use 1
-    const dpr = 2; // Common for modern displays, could be made dynamic
-
-    // Calculate crop dimensions, accounting for device pixel ratio
-    const cropX = Math.max(0, Math.floor(boundingRect.x * dpr));
-    const cropY = Math.max(0, Math.floor(boundingRect.y * dpr));
-    const cropWidth = Math.min(
-      Math.ceil(boundingRect.width * dpr),
-      imageBitmap.width - cropX
-    );
-    const cropHeight = Math.min(
-      Math.ceil(boundingRect.height * dpr),
-      imageBitmap.height - cropY
-    );
+/**
+ * Screenshot several regions of a tab: those in view are cropped from one
+ * capture. With stitch, the others are scrolled to and stitched; without,
+ * only their visible part is cropped, so the page never scrolls.
+ * Regions that could not be captured are left out of the result.
+ */
+async function captureScreenshots(
+  regions: Record<string, ScreenshotRegion>,
+  tabId: number,
+  windowId?: number,
+  stitch = false
+): Promise<Record<string, string>> {
+  const screenshots: Record<string, string> = {};
+  const entries = Object.entries(regions);
+  const inView = stitch ? entries.filter(([, region]) => isFullyVisible(region)) : entries;
+  const outOfView = stitch ? entries.filter(([, region]) => !isFullyVisible(region)) : [];
 
-    // Validate crop dimensions
-    if (cropWidth <= 0 || cropHeight <= 0 || cropX >= imageBitmap.width || cropY >= imageBitmap.height) {
-      // Element might be off-screen
-      return undefined;
+  try {
+    if (inView.length > 0) {
+      const image = await loadCapture(await captureVisibleTab(windowId));
+      for (const [key, region] of inView) {
+        const screenshot = await cropScreenshot(image, region);
+        if (screenshot) {
+          screenshots[key] = screenshot;
+        }
+      }
     }
 
-    // Create cropped image using OffscreenCanvas
-    const canvas = new OffscreenCanvas(cropWidth, cropHeight);
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-      return undefined;
+    for (const [key, region] of outOfView) {
+      const screenshot = await captureStitched(tabId, region, windowId);
+      if (screenshot) {
+        screenshots[key] = screenshot;
+      }
     }
+  } catch (error) {
+    console.error('[UI Inspector] Screenshot capture failed:', error);
+  }
+  return screenshots;
+}
 
-    ctx.drawImage(
-      imageBitmap,
-      cropX, cropY, cropWidth, cropHeight,
-      0, 0, cropWidth, cropHeight
-    );
+/**
+ * Capture the preview of a selected element by cropping the visible tab.
+ * Only the part in view is captured: scrolling the page on every selection
+ * would get in the user's way.
+ */
+async function captureElementScreenshot(
+  region: ScreenshotRegion | undefined,
+  windowId?: number
+): Promise<string | undefined> {
+  if (!region || region.width <= 0 || region.height <= 0) {
+    return undefined;
+  }
 
-    // Convert to blob then to data URL
-    const croppedBlob = await canvas.convertToBlob({ type: 'image/png' });
-    const reader = new FileReader();
-    
-    return new Promise((resolve) => {
-      reader.onloadend = () => {
-        resolve(reader.result as string);
-      };
-      reader.onerror = () => {
-        resolve(undefined);
-      };
-      reader.readAsDataURL(croppedBlob);
-    });
+  try {
+    const image = await loadCapture(await captureVisibleTab(windowId));
+    return await cropScreenshot(image, region);
   } catch (error) {
     console.error('[UI Inspector] Screenshot capture failed:', error);
     return undefined;
@@ -165,14 +338,21 @@ chrome.runtime.onMessage.addListener((message: ExtensionMessage | { type: string
     return true; // Async response
   }
 
+  // Screenshot requests from the content script are answered here
+  if (extensionMessage.type === MessageType.CAPTURE_SCREENSHOTS && sender.tab?.id) {
+    const { regions, stitch } = extensionMessage.payload;
+    captureScreenshots(regions, sender.tab.id, sender.tab.windowId, stitch)
+      .then((screenshots) => sendResponse({ screenshots }));
+    return true; // Async response
+  }
+
   // Messages from content script - forward to side panel
   // For ELEMENT_SELECTED, capture screenshot first
   if (extensionMessage.type === MessageType.ELEMENT_SELECTED && sender.tab?.id) {
-    const tabId = sender.tab.id;
     const metadata = extensionMessage.payload;
     
     // Capture screenshot asynchronously and forward with it
-    captureElementScreenshot(tabId, metadata.boundingRect)
+    captureElementScreenshot(metadata.screenshotRegion, sender.tab.windowId)
       .then((screenshot) => {
         const enrichedMessage = {
           ...extensionMessage,
@@ -234,7 +414,7 @@ async function forwardToContentScript(
 
     // Send message to content script with timeout
     const response = await Promise.race([
-      chrome.tabs.sendMessage(activeTab.id, message),
+      chrome.tabs.sendMessage(activeTab.id, message, TOP_FRAME),
       new Promise((_, reject) => 
         setTimeout(() => reject(new Error('Message timeout')), 5000)
       )
@@ -255,7 +435,7 @@ async function forwardToContentScript(
 async function ensureContentScriptInjected(tabId: number): Promise<void> {
   // First, check if content script is already loaded
   try {
-    await chrome.tabs.sendMessage(tabId, createMessage(MessageType.PING));
+    await chrome.tabs.sendMessage(tabId, createMessage(MessageType.PING), TOP_FRAME);
     // Content script is loaded
     return;
   } catch {
@@ -336,7 +516,7 @@ async function ensureContentScriptInjected(tabId: number): Promise<void> {
             if (isResolved) return;
 
             try {
-              await chrome.tabs.sendMessage(tabId, createMessage(MessageType.PING));
+              await chrome.tabs.sendMessage(tabId, createMessage(MessageType.PING), TOP_FRAME);
               console.log('[UI Inspector] Content script verified via ping after', attempts + 1, 'attempts');
               isResolved = true;
               return;
@@ -392,6 +572,18 @@ chrome.tabs.onActivated.addListener((activeInfo) => {
   });
 });
 
+// ============================================================================
+// Session Storage Access
+// ============================================================================
+
+// Content scripts persist per-page patch history in session storage so it can
+// be replayed after reloads; session storage is service-worker-only by default.
+chrome.storage.session.setAccessLevel({
+  accessLevel: 'TRUSTED_AND_UNTRUSTED_CONTEXTS',
+}).catch((e) => {
+  console.warn('[UI Inspector] Failed to expose session storage:', e);
+});
+
 // ============================================================================
 // Extension Install/Update
 // ============================================================================
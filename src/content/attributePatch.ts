@@ -0,0 +1,234 @@
+/**
+ * Attribute Patch Module
+ *
+ * Applies and reverts class and attribute patches: adding or removing a
+ * single class, and setting or removing any other attribute (aria-*, data-*,
+ * id, ...). Class attributes are only changed one class at a time so classes
+ * the page toggles itself are left alone; inline styles go through style
+ * patches instead.
+ *
+ * Class changes alter the element's identity token, so the toggled class is
+ * ignored when matching identity on undo/redo.
+ */
+
+import type {
+  AttributePatch,
+  AttributeOperation,
+  PatchError,
+  ElementIdentity,
+  SelectorResolutionResult,
+} from '../shared/types';
+import { findElementBySelector, getStableSelector } from '../shared/selector';
+import { computeIdentity, identitiesMatch } from '../shared/identity';
+
+type AttributeResult = { success: boolean; error?: PatchError };
+
+/** Attributes edited through other patch kinds */
+const RESERVED_ATTRIBUTES = ['class', 'style'];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toPatchError(resolution: SelectorResolutionResult): PatchError {
+  return {
+    code:
+      resolution.status === 'NOT_FOUND' ? 'ELEMENT_NOT_FOUND' :
+        resolution.status === 'AMBIGUOUS' ? 'ELEMENT_AMBIGUOUS' :
+          'INVALID_SELECTOR',
+    message: resolution.error || 'Unknown error',
+    matchCount: resolution.matchCount,
+  };
+}
+
+function invalidAttribute(message: string): PatchError {
+  return { code: 'INVALID_ATTRIBUTE', message };
+}
+
+function isClassOperation(operation: AttributeOperation): boolean {
+  return operation === 'addClass' || operation === 'removeClass';
+}
+
+/**
+ * Compare identities, ignoring the class a class patch toggles.
+ */
+function matchesIdentity(element: Element, patch: AttributePatch, expected: ElementIdentity): boolean {
+  const actual = computeIdentity(element);
+  if (!isClassOperation(patch.operation)) {
+    return identitiesMatch(actual, expected);
+  }
+
+  const withoutClass = (identity: ElementIdentity): ElementIdentity => ({
+    ...identity,
+    classList: identity.classList.split(' ').filter(c => c && c !== patch.name).join(' '),
+  });
+  return identitiesMatch(withoutClass(actual), withoutClass(expected));
+}
+
+/**
+ * Resolve the element a patch targets, validating its identity.
+ */
+function resolvePatchElement(
+  patch: AttributePatch,
+  selector: string
+): { element: Element | null; error?: PatchError } {
+  const resolution = findElementBySelector(selector);
+  if (resolution.status !== 'OK' || !resolution.element) {
+    return { element: null, error: toPatchError(resolution) };
+  }
+
+  if (patch.identityToken && !matchesIdentity(resolution.element, patch, patch.identityToken)) {
+    return {
+      element: null,
+      error: {
+        code: 'IDENTITY_MISMATCH',
+        message: 'Element has changed since the attribute was edited',
+      },
+    };
+  }
+
+  return { element: resolution.element };
+}
+
+/**
+ * Check a class or attribute name before touching the DOM.
+ */
+function validateName(operation: AttributeOperation, name: string): PatchError | null {
+  if (!name) {
+    return invalidAttribute(isClassOperation(operation) ? 'Class name is empty' : 'Attribute name is empty');
+  }
+  if (isClassOperation(operation)) {
+    return /\s/.test(name) ? invalidAttribute('Class names cannot contain whitespace') : null;
+  }
+  if (RESERVED_ATTRIBUTES.includes(name.toLowerCase())) {
+    return invalidAttribute(`The ${name} attribute is edited through ${name === 'style' ? 'style' : 'class'} changes`);
+  }
+  if (!/^[^\s"'>/=]+$/.test(name)) {
+    return invalidAttribute(`"${name}" is not a valid attribute name`);
+  }
+  return null;
+}
+
+/**
+ * Check whether a patch would leave the element unchanged.
+ */
+function isNoOp(element: Element, patch: AttributePatch): boolean {
+  switch (patch.operation) {
+    case 'addClass':
+      return element.classList.contains(patch.name);
+    case 'removeClass':
+      return !element.classList.contains(patch.name);
+    case 'set':
+      return element.getAttribute(patch.name) === patch.value;
+    case 'remove':
+      return !element.hasAttribute(patch.name);
+  }
+}
+
+/**
+ * Write a patch's change (or its inverse) to the element.
+ */
+function writePatch(element: Element, patch: AttributePatch, invert: boolean): void {
+  switch (patch.operation) {
+    case 'addClass':
+      element.classList.toggle(patch.name, !invert);
+      break;
+
+    case 'removeClass':
+      element.classList.toggle(patch.name, invert);
+      break;
+
+    case 'set':
+    case 'remove': {
+      const value = invert ? patch.previousValue : patch.operation === 'set' ? patch.value : null;
+      if (value === null || value === undefined) {
+        element.removeAttribute(patch.name);
+      } else {
+        element.setAttribute(patch.name, value);
+      }
+      break;
+    }
+  }
+}
+
+// ============================================================================
+// Apply / Undo / Redo
+// ============================================================================
+
+/**
+ * Apply a class or attribute change to the element matching a selector and
+ * build its history entry (not yet pushed).
+ *
+ * Changes that would leave the element as it is return no patch.
+ */
+export function applyAttributePatch(
+  operation: AttributeOperation,
+  selector: string,
+  name: string,
+  value?: string
+): { success: boolean; patch: AttributePatch | null; error?: PatchError } {
+  const trimmedName = name.trim();
+  const nameError = validateName(operation, trimmedName);
+  if (nameError) {
+    return { success: false, patch: null, error: nameError };
+  }
+
+  const resolution = findElementBySelector(selector);
+  if (resolution.status !== 'OK' || !resolution.element) {
+    return { success: false, patch: null, error: toPatchError(resolution) };
+  }
+  const element = resolution.element;
+
+  const patch: AttributePatch = {
+    kind: 'attribute',
+    operation,
+    selector,
+    name: isClassOperation(operation) ? trimmedName : trimmedName.toLowerCase(),
+    timestamp: Date.now(),
+    identityToken: computeIdentity(element),
+  };
+  if (operation === 'set') {
+    patch.value = value ?? '';
+  }
+  if (!isClassOperation(operation)) {
+    patch.previousValue = element.getAttribute(patch.name);
+  }
+
+  if (isNoOp(element, patch)) {
+    return { success: false, patch: null };
+  }
+
+  writePatch(element, patch, false);
+
+  // Class and id changes can change the element's selector
+  const resultSelector = getStableSelector(element);
+  if (resultSelector !== selector) {
+    patch.resultSelector = resultSelector;
+  }
+
+  return { success: true, patch };
+}
+
+/**
+ * Revert an attribute patch.
+ */
+export function revertAttributePatch(patch: AttributePatch): AttributeResult {
+  const { element, error } = resolvePatchElement(patch, patch.resultSelector ?? patch.selector);
+  if (!element) {
+    return { success: false, error };
+  }
+  writePatch(element, patch, true);
+  return { success: true };
+}
+
+/**
+ * Re-apply an attribute patch (for redo and replay after reload).
+ */
+export function reapplyAttributePatch(patch: AttributePatch): AttributeResult {
+  const { element, error } = resolvePatchElement(patch, patch.selector);
+  if (!element) {
+    return { success: false, error };
+  }
+  writePatch(element, patch, false);
+  return { success: true };
+}
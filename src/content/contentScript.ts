@@ -12,11 +12,27 @@ import type {
   ElementMetadata,
   ExtensionMessage,
   StylePatch,
+  StructuralPatch,
+  StructuralOperation,
+  AttributePatch,
+  AttributeOperation,
+  TextPatch,
+  ElementIdentity,
+  HistoryPatch,
+  PatchError,
+  PatchScope,
   ComputedStylesSnapshot,
+  SelectionSummary,
+  ReplayReport,
+  TokenSuggestionEntry,
+  FinalPatch,
+  ImportPatchResult,
+  ElementStyleContext,
+  RelatedElementStyles,
 } from '../shared/types';
-import { MessageType, createMessage } from '../shared/types';
-import { getStableSelector, findElementBySelector } from '../shared/selector';
-import { computeIdentity } from '../shared/identity';
+import { MessageType, createMessage, isStylePatch, isStructuralPatch, isAttributePatch } from '../shared/types';
+import { getStableSelector, findElementBySelector, getMatchingSelector, querySelectorAllDeep } from '../shared/selector';
+import { computeIdentity, identitiesMatch } from '../shared/identity';
 import {
   initOverlay,
   showHoverOverlay,
@@ -24,6 +40,8 @@ import {
   showSelectedOverlay,
   hideSelectedOverlay,
   updateSelectedOverlay,
+  showMultiSelectionOverlays,
+  hideMultiSelectionOverlays,
   isTextEditable,
   showTextEditor,
   hideTextEditor,
@@ -32,26 +50,57 @@ import {
 import {
   applyStylePatch,
   revertStylePatch,
-  reapplyStylePatch,
+  revertPatch,
+  reapplyPatch,
   getComputedStylesSnapshot,
+  getEffectivePatchMode,
 } from './domPatch';
+import { applyStructuralPatch, getStructuralResultSelector } from './structure';
+import { applyTextPatch } from './textPatch';
+import { applyAttributePatch } from './attributePatch';
+import { getPageDesignTokens } from './designTokens';
+import { getRoleLocatorHint } from './roleLocator';
+import { captureBeforeScreenshots, captureScreenshotPairs, getScreenshotRegion } from './screenshots';
+import { forceElementState, getForcedState, clearForcedState } from './forcedState';
 import {
   pushPatch,
-  popUndo,
-  popRedo,
+  popUndoGroup,
+  popRedoGroup,
+  peekUndoGroup,
+  peekRedoGroup,
   canUndo,
   canRedo,
   getAllPatches,
+  getStructuralPatches,
+  getTextPatches,
+  getAttributePatches,
 } from './history';
-import { createExportSchemaV1 } from '../shared/handoff';
+import { createExportSchemaV1, toKebabCase } from '../shared/handoff';
+import { suggestDesignToken } from '../shared/designTokens';
+import type { RoleLocatorHint } from '../shared/playwright';
 import type { VisualUIInspectorExport } from '../shared/types';
 import {
   extractHierarchy,
   getNavigableParent,
   getChildAtIndex,
   getSibling,
+  createElementSummary,
 } from './hierarchy';
 import { initDevtoolsBridge } from './devtoolsBridge';
+import {
+  replayPersistedPatches,
+  retryUnanchoredPatches,
+  discardUnanchoredPatches,
+  getLastReplayReport,
+} from './replay';
+import {
+  FRAME_READY_MESSAGE,
+  isTopFrame,
+  announceFrameReady,
+  getFrameDocuments,
+  getViewportRect,
+  isHTMLElement,
+} from './frames';
 
 // ============================================================================
 // State
@@ -62,6 +111,8 @@ interface ContentScriptState {
   isPickerActive: boolean;
   selectedElement: Element | null;
   selectedSelector: string | null;
+  /** All selected elements, primary (selectedElement) first */
+  selectedElements: Element[];
   hoveredElement: Element | null;
 }
 
@@ -69,6 +120,7 @@ const state: ContentScriptState = {
   isPickerActive: false,
   selectedElement: null,
   selectedSelector: null,
+  selectedElements: [],
   hoveredElement: null,
 };
 
@@ -79,7 +131,7 @@ initDevtoolsBridge();
 // ============================================================================
 
 function extractElementMetadata(element: Element, includeHierarchy = true): ElementMetadata {
-  const rect = element.getBoundingClientRect();
+  const rect = getViewportRect(element);
   const computedStyles = getComputedStylesSnapshot(element);
 
   // Get text preview from aria-label or textContent
@@ -98,7 +150,10 @@ function extractElementMetadata(element: Element, includeHierarchy = true): Elem
   const metadata: ElementMetadata = {
     tagName: element.tagName.toLowerCase(),
     id: element.id || null,
-    classList: Array.from(element.classList).slice(0, 5), // Limit to 5 classes
+    classList: Array.from(element.classList),
+    attributes: Array.from(element.attributes)
+      .filter(attr => attr.name !== 'class' && attr.name !== 'style')
+      .map(attr => ({ name: attr.name, value: attr.value })),
     role: element.getAttribute('role'),
     ariaLabel: ariaLabel,
     textPreview,
@@ -109,6 +164,7 @@ function extractElementMetadata(element: Element, includeHierarchy = true): Elem
       width: rect.width,
       height: rect.height,
     },
+    screenshotRegion: getScreenshotRegion(element),
     computedStyles,
   };
 
@@ -124,6 +180,16 @@ function extractElementMetadata(element: Element, includeHierarchy = true): Elem
 // Picker Mode Handlers
 // ============================================================================
 
+/**
+ * Get the innermost element an event hit.
+ * e.target is retargeted to the shadow host for events inside a shadow root;
+ * composedPath() still exposes the real target for open shadow roots.
+ */
+function getEventTarget(e: Event): Element {
+  const [origin] = e.composedPath();
+  return ((origin as Node | undefined)?.nodeType === Node.ELEMENT_NODE ? origin : e.target) as Element;
+}
+
 let mouseMoveRafId: number | null = null;
 let lastMouseEvent: MouseEvent | null = null;
 
@@ -144,14 +210,14 @@ function handleMouseMove(e: MouseEvent): void {
 }
 
 function processMouseMove(e: MouseEvent): void {
-  const target = e.target as Element;
+  const target = getEventTarget(e);
 
   // Skip our own overlay elements
   if (target.id?.startsWith('__ui_inspector')) return;
 
   if (target !== state.hoveredElement) {
     state.hoveredElement = target;
-    const rect = target.getBoundingClientRect();
+    const rect = getViewportRect(target);
     showHoverOverlay(rect);
   }
 }
@@ -159,7 +225,7 @@ function processMouseMove(e: MouseEvent): void {
 function handleClick(e: MouseEvent): void {
   if (!state.isPickerActive) return;
 
-  const target = e.target as Element;
+  const target = getEventTarget(e);
 
   // Skip our own overlay elements
   if (target.id?.startsWith('__ui_inspector')) return;
@@ -169,6 +235,12 @@ function handleClick(e: MouseEvent): void {
   e.stopPropagation();
   e.stopImmediatePropagation();
 
+  // Shift-click adds/removes elements from a multi-selection
+  if (e.shiftKey && state.selectedElement) {
+    toggleElementInSelection(target);
+    return;
+  }
+
   // Select the element - picker stays active for continued selection
   selectElement(target);
 
@@ -190,7 +262,7 @@ function handleDoubleClickEdit(e: MouseEvent): void {
   // Skip if text editing is already active
   if (isTextEditingActive()) return;
 
-  const target = e.target as Element;
+  const target = getEventTarget(e);
 
   // Skip our own overlay elements
   if (target.id?.startsWith('__ui_inspector')) return;
@@ -214,6 +286,9 @@ function handleDoubleClickEdit(e: MouseEvent): void {
   e.preventDefault();
   e.stopPropagation();
 
+  // The text is about to change: keep a "before" crop while the editor opens
+  captureBeforeScreenshots([getTextEditSelector(elementToEdit)]);
+
   // Show inline text editor
   showTextEditor(elementToEdit, (newText) => {
     if (newText !== null && elementToEdit) {
@@ -237,34 +312,24 @@ function handleGlobalDoubleClick(e: MouseEvent): void {
 }
 
 /**
- * Apply new text content to an element.
+ * Get the selector a text edit of an element is recorded under.
+ */
+function getTextEditSelector(element: Element): string {
+  return state.selectedElement === element && state.selectedSelector
+    ? state.selectedSelector
+    : getStableSelector(element);
+}
+
+/**
+ * Apply new text content to an element and record it in history.
  */
 function applyTextContent(element: Element, newText: string): void {
-  // Store original for potential undo
-  const originalText = element.textContent || '';
+  const selector = getTextEditSelector(element);
+  const patch = applyTextPatch(element, selector, newText);
 
-  // Find and update direct text nodes, or set textContent if simple
-  const textNodes = Array.from(element.childNodes).filter(
-    node => node.nodeType === Node.TEXT_NODE && node.textContent?.trim()
-  );
-
-  if (textNodes.length === 1) {
-    // Simple case: single text node
-    textNodes[0].textContent = newText;
-  } else if (textNodes.length === 0 && element.childNodes.length === 0) {
-    // Empty element: just set textContent
-    element.textContent = newText;
-  } else {
-    // Complex case: element has mixed content
-    // Replace first meaningful text node or prepend
-    const firstTextNode = textNodes[0];
-    if (firstTextNode) {
-      firstTextNode.textContent = newText;
-    } else {
-      // Prepend text node
-      element.insertBefore(document.createTextNode(newText), element.firstChild);
-    }
-  }
+  // Unchanged text is not worth an undo entry
+  if (patch.value === patch.previousValue) return;
+  pushPatch(patch);
 
   // Update selected overlay (element size may have changed)
   if (state.selectedElement === element) {
@@ -275,9 +340,11 @@ function applyTextContent(element: Element, newText: string): void {
   sendMessage(createMessage<import('../shared/types').TextContentChangedMessage>(
     MessageType.TEXT_CONTENT_CHANGED,
     {
-      selector: state.selectedSelector || getStableSelector(element),
-      previousText: originalText,
+      selector,
+      previousText: patch.previousValue,
       newText,
+      canUndo: canUndo(),
+      canRedo: canRedo(),
     }
   ));
 
@@ -310,14 +377,11 @@ function startPicker(): void {
   // Initialize overlay
   initOverlay();
 
-  // Add event listeners with capture to get events before page
-  document.addEventListener('mousemove', handleMouseMove, true);
-  document.addEventListener('click', handleClick, true);
-  document.addEventListener('dblclick', handleDoubleClick, true);
-  document.addEventListener('keydown', handleKeyDown, true);
-
-  // Add cursor style
-  document.body.style.cursor = 'crosshair';
+  // Listen in the page and every same-origin iframe
+  attachFrameDocuments();
+  for (const doc of [document, ...getFrameDocuments()]) {
+    addPickerListeners(doc);
+  }
 }
 
 function stopPicker(): void {
@@ -326,26 +390,86 @@ function stopPicker(): void {
   state.isPickerActive = false;
   state.hoveredElement = null;
 
-  // Remove event listeners
-  document.removeEventListener('mousemove', handleMouseMove, true);
-  document.removeEventListener('click', handleClick, true);
-  document.removeEventListener('dblclick', handleDoubleClick, true);
-  document.removeEventListener('keydown', handleKeyDown, true);
+  // Remove event listeners and restore cursors
+  for (const doc of pickerDocuments) {
+    removePickerListeners(doc);
+  }
 
   // Hide overlays
   hideHoverOverlay();
   hideTextEditor();
+}
+
+/** Documents the picker listeners are currently attached to */
+const pickerDocuments = new Set<Document>();
+
+function addPickerListeners(doc: Document): void {
+  if (pickerDocuments.has(doc)) return;
 
-  // Restore cursor
-  document.body.style.cursor = '';
+  // Add event listeners with capture to get events before page
+  doc.addEventListener('mousemove', handleMouseMove, true);
+  doc.addEventListener('click', handleClick, true);
+  doc.addEventListener('dblclick', handleDoubleClick, true);
+  doc.addEventListener('keydown', handleKeyDown, true);
+
+  // Add cursor style
+  if (doc.body) {
+    doc.body.style.cursor = 'crosshair';
+  }
+  pickerDocuments.add(doc);
+}
+
+function removePickerListeners(doc: Document): void {
+  doc.removeEventListener('mousemove', handleMouseMove, true);
+  doc.removeEventListener('click', handleClick, true);
+  doc.removeEventListener('dblclick', handleDoubleClick, true);
+  doc.removeEventListener('keydown', handleKeyDown, true);
+
+  if (doc.body) {
+    doc.body.style.cursor = '';
+  }
+  pickerDocuments.delete(doc);
+}
+
+// ============================================================================
+// Same-origin Iframes
+// ============================================================================
+
+/** Frame documents that already have the always-on listeners */
+const attachedFrameDocuments = new WeakSet<Document>();
+
+/**
+ * Attach listeners to every same-origin iframe document not seen before:
+ * text editing and overlay tracking always, picker listeners while picking.
+ * Called on picker start and whenever a subframe script announces a load.
+ */
+function attachFrameDocuments(): void {
+  for (const doc of getFrameDocuments()) {
+    if (!attachedFrameDocuments.has(doc)) {
+      doc.addEventListener('dblclick', handleGlobalDoubleClick, true);
+      doc.defaultView?.addEventListener('scroll', handleScroll, { passive: true });
+      attachedFrameDocuments.add(doc);
+    }
+    if (state.isPickerActive) {
+      addPickerListeners(doc);
+    }
+  }
 }
 
 function selectElement(element: Element): void {
   state.selectedElement = element;
   state.selectedSelector = getStableSelector(element);
+  state.selectedElements = [element];
+  hideMultiSelectionOverlays();
+
+  // Keep a forced pseudo-class state on the newly selected element
+  const forcedState = getForcedState();
+  if (forcedState) {
+    forceElementState(element, forcedState);
+  }
 
   // Show selected overlay
-  const rect = element.getBoundingClientRect();
+  const rect = getViewportRect(element);
   showSelectedOverlay(rect);
 
   // Extract and send metadata
@@ -356,16 +480,225 @@ function selectElement(element: Element): void {
   ));
 }
 
+// ============================================================================
+// Multi-element Selection
+// ============================================================================
+
+/**
+ * Summarize the current multi-selection, or null for a single element.
+ * Reports which computed styles differ so the panel can show mixed values.
+ */
+function getSelectionSummary(): SelectionSummary | null {
+  const elements = state.selectedElements.filter(el => el.isConnected);
+  if (elements.length < 2) return null;
+
+  const snapshots = elements.map(el => getComputedStylesSnapshot(el));
+  const mixedStyles: SelectionSummary['mixedStyles'] = {};
+  for (const key of Object.keys(snapshots[0]) as (keyof ComputedStylesSnapshot)[]) {
+    if (key === 'rawStyles') continue;
+    const values = Array.from(new Set(snapshots.map(snapshot => String(snapshot[key]))));
+    if (values.length > 1) {
+      mixedStyles[key] = values;
+    }
+  }
+
+  return {
+    count: elements.length,
+    selectors: elements.map(el => getStableSelector(el)),
+    mixedStyles,
+  };
+}
+
+/**
+ * Refresh multi-selection overlays and notify the side panel.
+ */
+function notifySelectionChanged(): void {
+  showMultiSelectionOverlays(state.selectedElements.filter(el => el !== state.selectedElement));
+  sendMessage(createMessage<import('../shared/types').SelectionChangedMessage>(
+    MessageType.SELECTION_CHANGED,
+    getSelectionSummary()
+  ));
+}
+
+/**
+ * Add an element to the multi-selection, or remove it if already selected.
+ * The primary element always stays selected.
+ */
+function toggleElementInSelection(element: Element): void {
+  if (element === state.selectedElement) return;
+
+  const index = state.selectedElements.indexOf(element);
+  if (index === -1) {
+    state.selectedElements.push(element);
+  } else {
+    state.selectedElements.splice(index, 1);
+  }
+
+  notifySelectionChanged();
+}
+
+/**
+ * Select every element matching a selector, keeping the primary element first.
+ */
+function selectMatching(selector?: string): { success: boolean; count: number; error?: string } {
+  if (!state.selectedElement) {
+    return { success: false, count: 0, error: 'No element selected' };
+  }
+
+  const query = selector || getMatchingSelector(state.selectedElement);
+  let matches: Element[];
+  try {
+    matches = querySelectorAllDeep(query);
+  } catch {
+    return { success: false, count: 0, error: `Invalid selector: ${query}` };
+  }
+
+  const primary = state.selectedElement;
+  state.selectedElements = [
+    primary,
+    ...matches.filter(el => el !== primary && !el.id?.startsWith('__ui_inspector')),
+  ];
+
+  notifySelectionChanged();
+  return { success: true, count: state.selectedElements.length };
+}
+
+// ============================================================================
+// Patch Replay
+// ============================================================================
+
+/**
+ * Report a replay to the side panel so it can refresh undo state and
+ * list the patches that failed to re-anchor.
+ */
+function notifyPatchesReplayed(report: ReplayReport | null): void {
+  if (!report) return;
+
+  refreshSelectedOverlay();
+  sendMessage(createMessage<import('../shared/types').PatchesReplayedMessage>(
+    MessageType.PATCHES_REPLAYED,
+    report
+  ));
+}
+
+/**
+ * Re-measure the selected overlay after patches changed the layout.
+ */
+function refreshSelectedOverlay(): void {
+  if (state.selectedElement && state.selectedElement.isConnected) {
+    updateSelectedOverlay(state.selectedElement);
+  }
+}
+
 // ============================================================================
 // Style Patch Handlers
 // ============================================================================
 
+/**
+ * Resolve the element whose styles should be reported after a patch.
+ * Stylesheet-mode selectors may match several elements; in that case
+ * fall back to the selected element when the selector still covers it.
+ */
+function getPatchTarget(selector: string): Element | null {
+  const resolution = findElementBySelector(selector);
+  if (resolution.status === 'OK' && resolution.element) {
+    return resolution.element;
+  }
+  if (resolution.status === 'AMBIGUOUS' && state.selectedElement?.matches(selector)) {
+    return state.selectedElement;
+  }
+  return null;
+}
+
+/**
+ * Get the selectors an edit applies to.
+ * Edits to the primary element fan out to the whole multi-selection.
+ */
+function getFanOutSelectors(selector: string): string[] {
+  if (selector !== state.selectedSelector || state.selectedElements.length < 2) {
+    return [selector];
+  }
+  return state.selectedElements
+    .filter(el => el.isConnected)
+    .map(el => (el === state.selectedElement ? selector : getStableSelector(el)));
+}
+
+function createGroupId(): string {
+  return `group-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Where a patch came from: the history entry it joins and the styling
+ * command it was generated from, if any.
+ */
+type PatchOrigin = Pick<StylePatch, 'groupId' | 'prompt'>;
+
 function handleApplyStylePatch(
   selector: string,
   property: string,
   value: string,
-  previousValue: string
-): { success: boolean; patch: StylePatch; updatedStyles: ComputedStylesSnapshot | null } {
+  previousValue: string,
+  scope: PatchScope = {},
+  origin: PatchOrigin = {}
+): { success: boolean; patch: StylePatch; updatedStyles: ComputedStylesSnapshot | null; error?: PatchError } {
+  const selectors = getFanOutSelectors(selector);
+  if (selectors.some(target => isPreviewedProperty(target, property))) {
+    return {
+      success: false,
+      patch: { selector, property, value, previousValue, timestamp: Date.now() },
+      updatedStyles: null,
+      error: PREVIEW_PENDING_ERROR,
+    };
+  }
+  if (selectors.length === 1) {
+    return applySinglePatch(selector, property, value, previousValue, scope, origin);
+  }
+
+  // Apply to every selected element as one history entry; all or nothing
+  const groupId = origin.groupId ?? createGroupId();
+  const applied: StylePatch[] = [];
+
+  for (const target of selectors) {
+    const result = createStylePatch(
+      target,
+      property,
+      value,
+      target === selector ? previousValue : '',
+      scope,
+      groupId,
+      origin.prompt
+    );
+    if (!result.success) {
+      [...applied].reverse().forEach(p => revertStylePatch(p));
+      return { success: false, patch: result.patch, updatedStyles: null };
+    }
+    applied.push(result.patch);
+  }
+
+  applied.forEach(p => pushPatch(p));
+  notifySelectionChanged();
+
+  const patch = applied[0];
+  const target = getPatchTarget(selector);
+  if (target) {
+    updateSelectedOverlay(target);
+    return { success: true, patch, updatedStyles: getComputedStylesSnapshot(target) };
+  }
+  return { success: true, patch, updatedStyles: null };
+}
+
+/**
+ * Apply a patch to one selector and build its history entry (not yet pushed).
+ */
+function createStylePatch(
+  selector: string,
+  property: string,
+  value: string,
+  previousValue: string,
+  scope: PatchScope,
+  groupId?: string,
+  prompt?: string
+): { success: boolean; patch: StylePatch; error?: PatchError } {
   // First resolve the element to compute its identity
   const resolution = findElementBySelector(selector);
   const identityToken = resolution.status === 'OK' && resolution.element
@@ -373,7 +706,8 @@ function handleApplyStylePatch(
     : undefined;
 
   // Apply the patch with identity validation
-  const result = applyStylePatch(selector, property, value, identityToken);
+  const result = applyStylePatch(selector, property, value, identityToken, scope);
+  const mode = getEffectivePatchMode(scope);
 
   const patch: StylePatch = {
     selector,
@@ -381,33 +715,304 @@ function handleApplyStylePatch(
     value,
     previousValue: result.previousValue || previousValue,
     timestamp: Date.now(),
-    identityToken  // Store for future undo/redo validation
+    identityToken,  // Store for future undo/redo validation
+    mode,
+    ...(mode === 'stylesheet' && { previousRuleValue: result.previousRuleValue ?? '' }),
+    ...(scope.state && { state: scope.state }),
+    ...(scope.media && { media: scope.media }),
+    ...(groupId && { groupId }),
+    ...(prompt && { prompt }),
   };
 
-  if (result.success) {
+  return { success: result.success, patch, error: result.error };
+}
+
+function toCamelCase(property: string): string {
+  return property.startsWith('--') ? property : property.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+}
+
+/**
+ * Apply an export-format patch to the page and build its history entry
+ * (not yet pushed), with the outcome to report.
+ */
+function applyFinalPatch(
+  finalPatch: FinalPatch,
+  groupId?: string
+): { patch: StylePatch | null; result: ImportPatchResult } {
+  const { selector, finalValue: value } = finalPatch;
+  const { success, patch, error } = createStylePatch(
+    selector,
+    toCamelCase(finalPatch.property),
+    value,
+    finalPatch.originalValue ?? '',
+    { mode: finalPatch.mode, state: finalPatch.state, media: finalPatch.media },
+    groupId
+  );
+
+  return {
+    patch: success ? patch : null,
+    result: {
+      selector,
+      property: finalPatch.property,
+      value,
+      success,
+      ...(!success && {
+        error: error ?? { code: 'ELEMENT_NOT_FOUND', message: 'Element could not be patched' },
+      }),
+    },
+  };
+}
+
+/**
+ * Refresh the selected element's overlay after patches landed on the page,
+ * and return its styles if one is selected.
+ */
+function refreshSelectedStyles(): ComputedStylesSnapshot | null {
+  const selected = state.selectedElement?.isConnected ? state.selectedElement : null;
+  if (!selected) return null;
+  updateSelectedOverlay(selected);
+  return getComputedStylesSnapshot(selected);
+}
+
+/**
+ * Re-apply the patches of an imported export, in order.
+ * Applied patches share a group id, so one undo reverts the whole import;
+ * patches that fail are reported and left out of history.
+ */
+function handleApplyImportedPatches(patches: FinalPatch[]): {
+  results: ImportPatchResult[];
+  pageUrl: string;
+  updatedStyles: ComputedStylesSnapshot | null;
+  canUndo: boolean;
+  canRedo: boolean;
+} {
+  const groupId = createGroupId();
+  const results: ImportPatchResult[] = [];
+
+  for (const finalPatch of patches) {
+    const { patch, result } = applyFinalPatch(finalPatch, groupId);
+    if (patch) pushPatch(patch);
+    results.push(result);
+  }
+
+  return {
+    results,
+    pageUrl: window.location.href,
+    updatedStyles: refreshSelectedStyles(),
+    canUndo: canUndo(),
+    canRedo: canRedo(),
+  };
+}
+
+// ============================================================================
+// Styling Commands
+// ============================================================================
+
+function getRelatedElementStyles(element: Element | null): RelatedElementStyles | null {
+  if (!element) return null;
+  return { ...createElementSummary(element), computedStyles: getComputedStylesSnapshot(element) };
+}
+
+/**
+ * Collect the styles of the elements around a command's target, so the
+ * command can refer to them.
+ */
+function getElementStyleContext(element: Element): ElementStyleContext {
+  return {
+    parent: getRelatedElementStyles(getNavigableParent(element)),
+    previousSibling: getRelatedElementStyles(getSibling(element, 'prev')),
+    nextSibling: getRelatedElementStyles(getSibling(element, 'next')),
+  };
+}
+
+// ============================================================================
+// AI Patch Proposals
+// ============================================================================
+
+/**
+ * An AI-proposed patch shown on the page but kept out of history. An inline
+ * preview keeps the element's own declaration from before it, so rejecting
+ * the proposal puts back exactly that (value and priority).
+ */
+interface ProposalPreview {
+  patch: StylePatch;
+  inline?: { element: HTMLElement; value: string; priority: string };
+}
+
+/**
+ * Proposals being previewed, by their position in the proposal list; null
+ * once resolved or if it failed to apply.
+ */
+let proposalPreview: Array<ProposalPreview | null> = [];
+
+const PREVIEW_PENDING_ERROR: PatchError = {
+  code: 'PREVIEW_PENDING',
+  message: 'An AI proposal for this property is being previewed. Accept or reject it first.',
+};
+
+function revertProposalPreview({ patch, inline }: ProposalPreview): void {
+  if (!inline) {
+    revertStylePatch(patch);
+    return;
+  }
+  const property = toKebabCase(String(patch.property));
+  if (inline.value) {
+    inline.element.style.setProperty(property, inline.value, inline.priority);
+  } else {
+    inline.element.style.removeProperty(property);
+  }
+}
+
+/**
+ * Check whether a change to a property of an element would land on a
+ * proposal that is still previewed. Such changes (edits, undo, redo) wait
+ * until the proposal is resolved, so rejecting it can't overwrite them.
+ */
+function isPreviewedProperty(selector: string, property: string): boolean {
+  const kebabProperty = toKebabCase(property);
+  const element = findElementBySelector(selector).element;
+  return proposalPreview.some(preview =>
+    preview !== null &&
+    toKebabCase(String(preview.patch.property)) === kebabProperty &&
+    (preview.patch.selector === selector || (!!element && preview.inline?.element === element))
+  );
+}
+
+/**
+ * Check whether a history entry changes a previewed property.
+ */
+function touchesPreview(group: HistoryPatch[]): boolean {
+  return group.some(patch => isStylePatch(patch) && isPreviewedProperty(patch.selector, String(patch.property)));
+}
+
+/**
+ * Revert every proposal still being previewed, newest first.
+ */
+function discardProposalPreview(): void {
+  [...proposalPreview].reverse().forEach(preview => {
+    if (preview) revertProposalPreview(preview);
+  });
+  proposalPreview = [];
+}
+
+/**
+ * Preview AI-proposed patches on the page. They stay out of history until
+ * accepted, and replace any earlier preview that is still pending.
+ */
+function handlePreviewProposedPatches(patches: FinalPatch[]): {
+  results: ImportPatchResult[];
+  updatedStyles: ComputedStylesSnapshot | null;
+} {
+  discardProposalPreview();
+
+  const results: ImportPatchResult[] = [];
+  for (const finalPatch of patches) {
+    const scope: PatchScope = { mode: finalPatch.mode, state: finalPatch.state, media: finalPatch.media };
+    const element = getEffectivePatchMode(scope) === 'inline'
+      ? findElementBySelector(finalPatch.selector).element
+      : undefined;
+    const inline = element && isHTMLElement(element)
+      ? {
+          element,
+          value: element.style.getPropertyValue(finalPatch.property),
+          priority: element.style.getPropertyPriority(finalPatch.property),
+        }
+      : undefined;
+
+    const { patch, result } = applyFinalPatch(finalPatch);
+    proposalPreview.push(patch ? { patch, ...(inline && { inline }) } : null);
+    results.push(result);
+  }
+
+  return { results, updatedStyles: refreshSelectedStyles() };
+}
+
+/**
+ * Accept previewed proposals into history, or revert them. Proposals
+ * accepted together share a group id, so one undo reverts them all.
+ */
+function handleResolveProposedPatches(indices: number[], accept: boolean): {
+  updatedStyles: ComputedStylesSnapshot | null;
+  canUndo: boolean;
+  canRedo: boolean;
+} {
+  const groupId = accept && indices.length > 1 ? createGroupId() : undefined;
+
+  for (const index of indices) {
+    const preview = proposalPreview[index];
+    if (!preview) continue;
+    proposalPreview[index] = null;
+
+    if (accept) {
+      pushPatch({ ...preview.patch, timestamp: Date.now(), ...(groupId && { groupId }) });
+    } else {
+      revertProposalPreview(preview);
+    }
+  }
+
+  return {
+    updatedStyles: refreshSelectedStyles(),
+    canUndo: canUndo(),
+    canRedo: canRedo(),
+  };
+}
+
+function applySinglePatch(
+  selector: string,
+  property: string,
+  value: string,
+  previousValue: string,
+  scope: PatchScope,
+  origin: PatchOrigin = {}
+): { success: boolean; patch: StylePatch; updatedStyles: ComputedStylesSnapshot | null } {
+  const { success, patch } = createStylePatch(
+    selector,
+    property,
+    value,
+    previousValue,
+    scope,
+    origin.groupId,
+    origin.prompt
+  );
+
+  if (success) {
     // Add to history
     pushPatch(patch);
 
     // Update selected overlay position (element might have moved)
-    if (resolution.status === 'OK' && resolution.element) {
-      updateSelectedOverlay(resolution.element);
-      const updatedStyles = getComputedStylesSnapshot(resolution.element);
+    const target = getPatchTarget(selector);
+    if (target) {
+      updateSelectedOverlay(target);
+      const updatedStyles = getComputedStylesSnapshot(target);
       return { success: true, patch, updatedStyles };
     }
   }
 
-  return { success: result.success, patch, updatedStyles: null };
+  return { success, patch, updatedStyles: null };
 }
 
 
 function handleUndo(): {
   success: boolean;
-  patch: StylePatch | null;
+  patch: HistoryPatch | null;
   updatedStyles: ComputedStylesSnapshot | null;
+  error?: PatchError;
   canUndo: boolean;
   canRedo: boolean;
 } {
-  const patch = popUndo();
+  if (touchesPreview(peekUndoGroup())) {
+    return {
+      success: false,
+      patch: null,
+      updatedStyles: null,
+      error: PREVIEW_PENDING_ERROR,
+      canUndo: canUndo(),
+      canRedo: canRedo(),
+    };
+  }
+
+  const group = popUndoGroup();
+  const patch = group[0];
 
   if (!patch) {
     return {
@@ -419,21 +1024,49 @@ function handleUndo(): {
     };
   }
 
-  const result = revertStylePatch(patch);
+  // Revert newest first
+  const reverted: HistoryPatch[] = [];
+  let success = true;
+  for (const p of [...group].reverse()) {
+    if (!revertPatch(p).success) {
+      success = false;
+      break;
+    }
+    reverted.push(p);
+  }
+
+  // A multi-element entry undoes atomically: roll back and keep it undoable
+  if (!success && group.length > 1) {
+    reverted.reverse().forEach(p => reapplyPatch(p));
+    popRedoGroup();
+  }
+  if (group.length > 1) {
+    notifySelectionChanged();
+  }
+
+  // Undoing a structural change puts the element back, and undoing a class
+  // change can restore its old selector: select it again
+  if (success && (isStructuralPatch(patch) || isAttributePatch(patch))) {
+    return {
+      success,
+      patch,
+      updatedStyles: selectStructuralTarget(patch.selector),
+      canUndo: canUndo(),
+      canRedo: canRedo(),
+    };
+  }
 
   // Get updated styles
-  const resolution = findElementBySelector(patch.selector);
-  const updatedStyles = (resolution.status === 'OK' && resolution.element)
-    ? getComputedStylesSnapshot(resolution.element)
-    : null;
+  const target = getPatchTarget(patch.selector);
+  const updatedStyles = target ? getComputedStylesSnapshot(target) : null;
 
   // Update overlay
-  if (resolution.status === 'OK' && resolution.element) {
-    updateSelectedOverlay(resolution.element);
+  if (target) {
+    updateSelectedOverlay(target);
   }
 
   return {
-    success: result.success,
+    success,
     patch,
     updatedStyles,
     canUndo: canUndo(),
@@ -443,12 +1076,25 @@ function handleUndo(): {
 
 function handleRedo(): {
   success: boolean;
-  patch: StylePatch | null;
+  patch: HistoryPatch | null;
   updatedStyles: ComputedStylesSnapshot | null;
+  error?: PatchError;
   canUndo: boolean;
   canRedo: boolean;
 } {
-  const patch = popRedo();
+  if (touchesPreview(peekRedoGroup())) {
+    return {
+      success: false,
+      patch: null,
+      updatedStyles: null,
+      error: PREVIEW_PENDING_ERROR,
+      canUndo: canUndo(),
+      canRedo: canRedo(),
+    };
+  }
+
+  const group = popRedoGroup();
+  const patch = group[0];
 
   if (!patch) {
     return {
@@ -460,21 +1106,50 @@ function handleRedo(): {
     };
   }
 
-  const result = reapplyStylePatch(patch);
+  // Re-apply in original order
+  const reapplied: HistoryPatch[] = [];
+  let success = true;
+  for (const p of group) {
+    if (!reapplyPatch(p).success) {
+      success = false;
+      break;
+    }
+    reapplied.push(p);
+  }
+
+  // A multi-element entry redoes atomically: roll back and keep it redoable
+  if (!success && group.length > 1) {
+    reapplied.reverse().forEach(p => revertPatch(p));
+    popUndoGroup();
+  }
+  if (group.length > 1) {
+    notifySelectionChanged();
+  }
+
+  if (success && (isStructuralPatch(patch) || isAttributePatch(patch))) {
+    const resultSelector = isStructuralPatch(patch)
+      ? getStructuralResultSelector(patch)
+      : patch.resultSelector ?? patch.selector;
+    return {
+      success,
+      patch,
+      updatedStyles: selectStructuralTarget(resultSelector),
+      canUndo: canUndo(),
+      canRedo: canRedo(),
+    };
+  }
 
   // Get updated styles
-  const resolution = findElementBySelector(patch.selector);
-  const updatedStyles = (resolution.status === 'OK' && resolution.element)
-    ? getComputedStylesSnapshot(resolution.element)
-    : null;
+  const target = getPatchTarget(patch.selector);
+  const updatedStyles = target ? getComputedStylesSnapshot(target) : null;
 
   // Update overlay
-  if (resolution.status === 'OK' && resolution.element) {
-    updateSelectedOverlay(resolution.element);
+  if (target) {
+    updateSelectedOverlay(target);
   }
 
   return {
-    success: result.success,
+    success,
     patch,
     updatedStyles,
     canUndo: canUndo(),
@@ -482,6 +1157,101 @@ function handleRedo(): {
   };
 }
 
+// ============================================================================
+// Structural Patch Handlers
+// ============================================================================
+
+/**
+ * Select the element a structural change left behind (the moved element,
+ * the copy, the wrapper, or a deleted element's parent), or the element a
+ * class/attribute change was made on (its selector may have changed).
+ * Returns its styles, or null if it cannot be resolved.
+ */
+function selectStructuralTarget(selector: string): ComputedStylesSnapshot | null {
+  const resolution = findElementBySelector(selector);
+  if (resolution.status !== 'OK' || !resolution.element) {
+    hideSelectedOverlay();
+    return null;
+  }
+  selectElement(resolution.element);
+  return getComputedStylesSnapshot(resolution.element);
+}
+
+function handleApplyStructuralPatch(
+  operation: StructuralOperation,
+  selector: string,
+  target?: { selector: string; position: 'before' | 'after' }
+): { success: boolean; patch: StructuralPatch | null; error?: PatchError; canUndo: boolean; canRedo: boolean } {
+  const result = applyStructuralPatch(operation, selector, target);
+
+  if (result.success && result.patch) {
+    pushPatch(result.patch);
+
+    // Reordering a child keeps the parent selected; other operations select their result
+    if (operation === 'move' && state.selectedElement?.isConnected && selector !== state.selectedSelector) {
+      selectElement(state.selectedElement);
+    } else {
+      selectStructuralTarget(getStructuralResultSelector(result.patch));
+    }
+  }
+
+  return { ...result, canUndo: canUndo(), canRedo: canRedo() };
+}
+
+// ============================================================================
+// Attribute Patch Handlers
+// ============================================================================
+
+function handleApplyAttributePatch(
+  operation: AttributeOperation,
+  selector: string,
+  name: string,
+  value?: string
+): { success: boolean; patch: AttributePatch | null; error?: PatchError; canUndo: boolean; canRedo: boolean } {
+  const result = applyAttributePatch(operation, selector, name, value);
+
+  if (result.success && result.patch) {
+    pushPatch(result.patch);
+    // Re-select to refresh the selector, class chips and attribute table
+    selectStructuralTarget(result.patch.resultSelector ?? result.patch.selector);
+  }
+
+  return { ...result, canUndo: canUndo(), canRedo: canRedo() };
+}
+
+// ============================================================================
+// Export Helpers
+// ============================================================================
+
+/**
+ * Build a check of whether an element still has the identity a style patch
+ * recorded. Classes and text the session itself changed (with attribute and
+ * text patches) are ignored: the element drifted, but it is the same one.
+ * Text counts for every element containing an edited one.
+ */
+function createSessionIdentityCheck(
+  attributePatches: AttributePatch[],
+  textPatches: TextPatch[]
+): (element: Element, expected: ElementIdentity) => boolean {
+  const classEdited = new Set<Element>();
+  for (const patch of attributePatches) {
+    const isClass = patch.operation === 'addClass' || patch.operation === 'removeClass' || patch.name === 'class';
+    const element = isClass ? findElementBySelector(patch.resultSelector ?? patch.selector).element : null;
+    if (element) classEdited.add(element);
+  }
+  const textEdited = textPatches
+    .map(patch => findElementBySelector(patch.selector).element)
+    .filter((element): element is Element => !!element);
+
+  return (element, expected) => {
+    const ignored = {
+      ...(classEdited.has(element) && { classList: '' }),
+      ...(textEdited.some(edited => element.contains(edited)) && { textPreview: '' }),
+    };
+    return identitiesMatch({ ...computeIdentity(element), ...ignored }, { ...expected, ...ignored });
+  };
+}
+
 // ============================================================================
 // Messaging
 // ============================================================================
@@ -494,6 +1264,25 @@ function sendMessage(message: ExtensionMessage): void {
 }
 
 
+/**
+ * Get the elements a message is about to change, so their "before" crops
+ * can be taken first.
+ */
+function getChangedSelectors(message: ExtensionMessage): string[] {
+  switch (message.type) {
+    case MessageType.APPLY_STYLE_PATCH:
+      return getFanOutSelectors(message.payload.selector);
+    case MessageType.APPLY_STRUCTURAL_PATCH:
+    case MessageType.APPLY_ATTRIBUTE_PATCH:
+      return [message.payload.selector];
+    case MessageType.APPLY_IMPORTED_PATCHES:
+    case MessageType.PREVIEW_PROPOSED_PATCHES:
+      return message.payload.patches.map(patch => patch.selector);
+    default:
+      return [];
+  }
+}
+
 // Listen for messages from background script
 chrome.runtime.onMessage.addListener((message: ExtensionMessage, _sender, sendResponse) => {
 
@@ -501,6 +1290,21 @@ chrome.runtime.onMessage.addListener((message: ExtensionMessage, _sender, sendRe
     return false;
   }
 
+  // Changes wait for the "before" crops of elements they touch for the first time
+  const changedSelectors = getChangedSelectors(message);
+  if (changedSelectors.length > 0) {
+    captureBeforeScreenshots(changedSelectors).finally(() => handleMessage(message, sendResponse));
+    return true;
+  }
+
+  return handleMessage(message, sendResponse);
+});
+
+/**
+ * Handle a message from the side panel. Returns false for messages this
+ * script doesn't answer.
+ */
+function handleMessage(message: ExtensionMessage, sendResponse: (response?: unknown) => void): boolean {
   switch (message.type) {
     case MessageType.START_PICK:
       startPicker();
@@ -514,8 +1318,15 @@ chrome.runtime.onMessage.addListener((message: ExtensionMessage, _sender, sendRe
 
     case MessageType.APPLY_STYLE_PATCH:
       {
-        const { selector, property, value, previousValue } = message.payload;
-        const result = handleApplyStylePatch(selector, String(property), value, previousValue);
+        const { selector, property, value, previousValue, mode, state: pseudoState, media, groupId, prompt } = message.payload;
+        const result = handleApplyStylePatch(
+          selector,
+          String(property),
+          value,
+          previousValue,
+          { mode, state: pseudoState, media },
+          { groupId, prompt }
+        );
         sendResponse(result);
 
         // Also send updated state to sidepanel
@@ -525,11 +1336,42 @@ chrome.runtime.onMessage.addListener((message: ExtensionMessage, _sender, sendRe
             success: result.success,
             patch: result.patch,
             updatedStyles: result.updatedStyles!,
+            ...(result.error && { error: result.error }),
           }
         ));
       }
       break;
 
+    case MessageType.APPLY_STRUCTURAL_PATCH:
+      {
+        const { operation, selector, targetSelector, position } = message.payload;
+        const result = handleApplyStructuralPatch(
+          operation,
+          selector,
+          targetSelector ? { selector: targetSelector, position: position ?? 'before' } : undefined
+        );
+        sendResponse(result);
+
+        sendMessage(createMessage<import('../shared/types').StructuralPatchAppliedMessage>(
+          MessageType.STRUCTURAL_PATCH_APPLIED,
+          result
+        ));
+      }
+      break;
+
+    case MessageType.APPLY_ATTRIBUTE_PATCH:
+      {
+        const { operation, selector, name, value } = message.payload;
+        const result = handleApplyAttributePatch(operation, selector, name, value);
+        sendResponse(result);
+
+        sendMessage(createMessage<import('../shared/types').AttributePatchAppliedMessage>(
+          MessageType.ATTRIBUTE_PATCH_APPLIED,
+          result
+        ));
+      }
+      break;
+
     case MessageType.UNDO:
       {
         const result = handleUndo();
@@ -557,7 +1399,7 @@ chrome.runtime.onMessage.addListener((message: ExtensionMessage, _sender, sendRe
     case MessageType.GET_CURRENT_STATE:
       {
         let selectedMetadata: ElementMetadata | null = null;
-        if (state.selectedElement && document.contains(state.selectedElement)) {
+        if (state.selectedElement && state.selectedElement.isConnected) {
           selectedMetadata = extractElementMetadata(state.selectedElement);
         } else if (state.selectedSelector) {
           // Try to find by selector if element reference is stale
@@ -573,6 +1415,9 @@ chrome.runtime.onMessage.addListener((message: ExtensionMessage, _sender, sendRe
           selectedElement: selectedMetadata,
           canUndo: canUndo(),
           canRedo: canRedo(),
+          forcedState: getForcedState(),
+          selection: getSelectionSummary(),
+          replayReport: getLastReplayReport(),
         });
       }
       break;
@@ -581,7 +1426,10 @@ chrome.runtime.onMessage.addListener((message: ExtensionMessage, _sender, sendRe
       // Clear selection state and hide overlay
       state.selectedElement = null;
       state.selectedSelector = null;
+      state.selectedElements = [];
+      clearForcedState();
       hideSelectedOverlay();
+      hideMultiSelectionOverlays();
       sendResponse({ success: true });
       break;
 
@@ -657,6 +1505,50 @@ chrome.runtime.onMessage.addListener((message: ExtensionMessage, _sender, sendRe
       }
       break;
 
+    // ========================================================================
+    // Multi-element Selection
+    // ========================================================================
+
+    case MessageType.SELECT_MATCHING:
+      sendResponse(selectMatching(message.payload.selector));
+      break;
+
+    // ========================================================================
+    // Patch Replay
+    // ========================================================================
+
+    case MessageType.RETRY_REPLAY:
+      retryUnanchoredPatches().then((report) => {
+        refreshSelectedOverlay();
+        sendResponse({ report, canUndo: canUndo(), canRedo: canRedo() });
+      });
+      break;
+
+    case MessageType.DISCARD_UNANCHORED:
+      discardUnanchoredPatches();
+      sendResponse({ success: true });
+      break;
+
+    // ========================================================================
+    // Pseudo-class State Forcing
+    // ========================================================================
+
+    case MessageType.FORCE_ELEMENT_STATE:
+      {
+        if (!state.selectedElement) {
+          sendResponse({ success: false, error: 'No element selected' });
+          break;
+        }
+        forceElementState(state.selectedElement, message.payload.state);
+        updateSelectedOverlay(state.selectedElement);
+        sendResponse({
+          success: true,
+          state: getForcedState(),
+          updatedStyles: getComputedStylesSnapshot(state.selectedElement),
+        });
+      }
+      break;
+
     // ========================================================================
     // Prompt Handoff Export
     // ========================================================================
@@ -664,6 +1556,9 @@ chrome.runtime.onMessage.addListener((message: ExtensionMessage, _sender, sendRe
     case MessageType.GET_EXPORT_DATA:
       {
         const patches = getAllPatches();
+        const structuralPatches = getStructuralPatches();
+        const textPatches = getTextPatches();
+        const attributePatches = getAttributePatches();
         const pageUrl = window.location.href;
         const viewport = {
           width: window.innerWidth,
@@ -671,7 +1566,12 @@ chrome.runtime.onMessage.addListener((message: ExtensionMessage, _sender, sendRe
         };
 
         // No patches = no export data
-        if (patches.length === 0 || !state.selectedElement) {
+        const hasPatches =
+          patches.length > 0 ||
+          structuralPatches.length > 0 ||
+          textPatches.length > 0 ||
+          attributePatches.length > 0;
+        if (!hasPatches || !state.selectedElement) {
           sendResponse({ exportData: null, patchCount: 0, pageUrl, viewport });
           break;
         }
@@ -684,16 +1584,16 @@ chrome.runtime.onMessage.addListener((message: ExtensionMessage, _sender, sendRe
         const selectorStatus = resolution.status;
         const matchCount = resolution.matchCount ?? (resolution.status === 'OK' ? 1 : 0);
 
-        // Check identity match for all patches
-        const currentIdentity = computeIdentity(state.selectedElement);
+        // Check identity match for all patches, each against the element its
+        // own selector resolves to (patches may span a multi-selection)
+        const matchesIdentity = createSessionIdentityCheck(attributePatches, textPatches);
         const identityMatch = patches.every(p => {
           if (!p.identityToken) return true;
-          return (
-            p.identityToken.tagName === currentIdentity.tagName &&
-            p.identityToken.textPreview === currentIdentity.textPreview &&
-            p.identityToken.classList === currentIdentity.classList &&
-            p.identityToken.parentTag === currentIdentity.parentTag
-          );
+          const patchResolution = findElementBySelector(p.selector);
+          if (patchResolution.status !== 'OK' || !patchResolution.element) {
+            return p.mode === 'stylesheet';
+          }
+          return matchesIdentity(patchResolution.element, p.identityToken);
         });
 
         // Build export using Export Schema v1 directly
@@ -703,44 +1603,154 @@ chrome.runtime.onMessage.addListener((message: ExtensionMessage, _sender, sendRe
           patches,
           selectorStatus,
           matchCount,
-          identityMatch
+          identityMatch,
+          structuralPatches,
+          textPatches,
+          attributePatches,
+          getPageDesignTokens()
         );
 
-        sendResponse({
+        // Current classes of each patched element, for the Tailwind class diff,
+        // and role locators for the generated Playwright test
+        const elementClasses: Record<string, string[]> = {};
+        const elementRoles: Record<string, RoleLocatorHint> = {};
+        for (const patch of exportData.patches) {
+          if (patch.selector in elementClasses) continue;
+          const patchElement = findElementBySelector(patch.selector).element;
+          elementClasses[patch.selector] = patchElement ? Array.from(patchElement.classList) : [];
+          const roleHint = patchElement ? getRoleLocatorHint(patchElement) : null;
+          if (roleHint) elementRoles[patch.selector] = roleHint;
+        }
+
+        const response = {
           exportData,
-          patchCount: exportData.patches.length,
+          elementClasses,
+          elementRoles,
+          patchCount:
+            exportData.patches.length +
+            (exportData.structuralChanges?.length ?? 0) +
+            (exportData.textChanges?.length ?? 0) +
+            (exportData.attributeChanges?.length ?? 0),
           pageUrl,
           viewport,
+        };
+        if (!message.payload.withScreenshots) {
+          sendResponse(response);
+          break;
+        }
+
+        // "After" crops are only taken for a handoff, not on every refresh
+        const changedSelectors = Array.from(new Set([
+          ...exportData.patches.map(p => p.selector),
+          ...(exportData.attributeChanges ?? []).map(c => c.selector),
+          ...(exportData.textChanges ?? []).map(c => c.selector),
+        ]));
+        captureScreenshotPairs(changedSelectors).then((screenshots) => {
+          sendResponse({
+            ...response,
+            exportData: Object.keys(screenshots).length > 0 ? { ...exportData, screenshots } : exportData,
+          });
         });
       }
       break;
 
+    // ========================================================================
+    // Design Tokens
+    // ========================================================================
+
+    case MessageType.GET_TOKEN_SUGGESTIONS:
+      {
+        const { selector } = message.payload;
+        const tokens = getPageDesignTokens();
+
+        // Latest edited value of each property on the element, per state and breakpoint
+        const values = new Map<string, Omit<TokenSuggestionEntry, 'token'>>();
+        for (const patch of getAllPatches()) {
+          if (patch.selector === selector) {
+            const property = String(patch.property);
+            values.set(`${property}|${patch.state ?? ''}|${patch.media ?? ''}`, {
+              property,
+              value: patch.value,
+              ...(patch.state && { state: patch.state }),
+              ...(patch.media && { media: patch.media }),
+            });
+          }
+        }
+
+        const suggestions: TokenSuggestionEntry[] = [];
+        for (const entry of values.values()) {
+          const token = suggestDesignToken(entry.property, entry.value, tokens);
+          if (token) suggestions.push({ ...entry, token });
+        }
+
+        sendResponse({ suggestions, tokenCount: tokens.length });
+      }
+      break;
+
+    // ========================================================================
+    // Import
+    // ========================================================================
+
+    case MessageType.APPLY_IMPORTED_PATCHES:
+      sendResponse(handleApplyImportedPatches(message.payload.patches));
+      break;
+
+    // ========================================================================
+    // AI Patch Proposals
+    // ========================================================================
+
+    case MessageType.PREVIEW_PROPOSED_PATCHES:
+      sendResponse(handlePreviewProposedPatches(message.payload.patches));
+      break;
+
+    case MessageType.RESOLVE_PROPOSED_PATCHES:
+      sendResponse(handleResolveProposedPatches(message.payload.indices, message.payload.accept));
+      break;
+
+    // ========================================================================
+    // Styling Commands
+    // ========================================================================
+
+    case MessageType.GET_ELEMENT_STYLE_CONTEXT:
+      {
+        const target = getPatchTarget(message.payload.selector);
+        sendResponse(target ? getElementStyleContext(target) : null);
+      }
+      break;
+
+    // ========================================================================
+    // History Listing
+    // ========================================================================
+
+    case MessageType.GET_RECENT_PATCHES:
+      sendResponse({ patches: getAllPatches().slice(-message.payload.limit).reverse() });
+      break;
+
     default:
       return false;
   }
 
   return true; // Indicate async response
-});
+}
 
 // ============================================================================
 // Initialization
 // ============================================================================
 
 
-// Initialize overlay on script load
-try {
-  initOverlay();
-
-  // Add global double-click handler for inline text editing on selected elements
-  document.addEventListener('dblclick', handleGlobalDoubleClick, true);
-} catch (e) {
-  throw e;
+/**
+ * Handle a subframe content script announcing a newly loaded frame document.
+ */
+function handleFrameMessage(e: MessageEvent): void {
+  if ((e.data as { type?: string } | null)?.type === FRAME_READY_MESSAGE) {
+    attachFrameDocuments();
+  }
 }
 
 // Handle page visibility changes (update overlay when tab becomes visible)
-document.addEventListener('visibilitychange', () => {
+function handleVisibilityChange(): void {
   if (document.visibilityState === 'visible' && state.selectedElement) {
-    if (document.contains(state.selectedElement)) {
+    if (state.selectedElement.isConnected) {
       updateSelectedOverlay(state.selectedElement);
     } else {
       // Element was removed, clear selection
@@ -749,23 +1759,46 @@ document.addEventListener('visibilitychange', () => {
       hideSelectedOverlay();
     }
   }
-});
+}
 
-// Handle scroll to update overlay positions
+// Handle scroll to update overlay positions (page and iframes)
 let scrollRafId: number | null = null;
 
-window.addEventListener('scroll', () => {
+function handleScroll(): void {
   if (scrollRafId === null) {
     scrollRafId = requestAnimationFrame(() => {
-      if (state.selectedElement && document.contains(state.selectedElement)) {
+      if (state.selectedElement && state.selectedElement.isConnected) {
         updateSelectedOverlay(state.selectedElement);
       }
+      if (state.selectedElements.length > 1) {
+        showMultiSelectionOverlays(state.selectedElements.filter(el => el !== state.selectedElement));
+      }
       scrollRafId = null;
     });
   }
-}, { passive: true });
+}
 
-// Signal readiness to background script
-sendMessage(createMessage(MessageType.CONTENT_SCRIPT_READY));
+// The top frame inspects the page and its same-origin iframes directly.
+// Subframe instances (all_frames injection) only announce their document so
+// the top frame can attach listeners to it.
+if (isTopFrame()) {
+  // Initialize overlay on script load
+  initOverlay();
+
+  // Add global double-click handler for inline text editing on selected elements
+  document.addEventListener('dblclick', handleGlobalDoubleClick, true);
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  window.addEventListener('scroll', handleScroll, { passive: true });
+  window.addEventListener('message', handleFrameMessage);
+  attachFrameDocuments();
 
-console.log('[UI Inspector] Content script loaded');
+  // Signal readiness to background script
+  sendMessage(createMessage(MessageType.CONTENT_SCRIPT_READY));
+
+  // Re-apply this page's patches from before the reload
+  replayPersistedPatches().then(notifyPatchesReplayed);
+
+  console.log('[UI Inspector] Content script loaded');
+} else {
+  announceFrameReady();
+}
@@ -0,0 +1,159 @@
+/**
+ * Design Token Scanner
+ *
+ * Collects the page's design tokens: custom properties declared on :root (or
+ * html) in readable stylesheets, plus any the computed root style exposes.
+ * Each token is resolved through a hidden probe element so rem, calc() and
+ * var() chains end up as px lengths or rgb() colors; tokens that are neither
+ * (raw HSL channels, font stacks, ...) are skipped.
+ *
+ * The scan is cached until a cheap signature of the styles changes: the
+ * root element's attributes (theme classes, inline custom properties) and
+ * each stylesheet's source and rule count.
+ */
+
+import type { DesignToken } from '../shared/types';
+
+const PROBE_ID = '__ui_inspector_token_probe__';
+
+interface TokenCache {
+  signature: string;
+  tokens: DesignToken[];
+}
+
+let cache: TokenCache | null = null;
+
+/**
+ * Summarize what token values depend on, so edits to it invalidate the cache.
+ * Rewriting a <style> element changes its text length or rule count. The
+ * extension's own sheets are left out, since patches don't change tokens.
+ */
+function getStyleSignature(doc: Document): string {
+  const rootAttributes = Array.from(doc.documentElement.attributes)
+    .map(attribute => `${attribute.name}=${attribute.value}`);
+
+  const sheets = Array.from(doc.styleSheets)
+    .filter(sheet => !(sheet.ownerNode as Element | null)?.id?.startsWith('__ui_inspector'))
+    .map((sheet) => {
+      let ruleCount = -1;
+      try {
+        ruleCount = sheet.cssRules.length;
+      } catch {
+        // Cross-origin stylesheets cannot be read
+      }
+      const source = sheet.href ?? `${sheet.ownerNode?.textContent?.length ?? 0}`;
+      return `${source}:${ruleCount}`;
+    });
+
+  return [...rootAttributes, ...sheets].join('|');
+}
+
+function isRootSelector(selectorText: string): boolean {
+  return selectorText.split(',').some(part => /^(:root|html)$/i.test(part.trim()));
+}
+
+/**
+ * Collect custom property names declared in :root rules, recursing into
+ * @media, @supports and @layer blocks.
+ */
+function collectRootPropertyNames(rules: CSSRuleList, out: Set<string>): void {
+  for (const rule of Array.from(rules)) {
+    if (rule.type === CSSRule.STYLE_RULE) {
+      const styleRule = rule as CSSStyleRule;
+      if (!isRootSelector(styleRule.selectorText)) continue;
+      for (const name of Array.from(styleRule.style)) {
+        if (name.startsWith('--')) out.add(name);
+      }
+    } else if ('cssRules' in rule) {
+      collectRootPropertyNames((rule as CSSGroupingRule).cssRules, out);
+    }
+  }
+}
+
+function getRootPropertyNames(doc: Document): Set<string> {
+  const names = new Set<string>();
+
+  for (const sheet of Array.from(doc.styleSheets)) {
+    const owner = sheet.ownerNode as Element | null;
+    if (owner?.id?.startsWith('__ui_inspector')) continue;
+
+    try {
+      collectRootPropertyNames(sheet.cssRules, names);
+    } catch {
+      // Cross-origin stylesheets cannot be read; skip them
+    }
+  }
+
+  // Inline root styles, and custom properties the computed style enumerates
+  const sources = [doc.documentElement.style, getComputedStyle(doc.documentElement)];
+  for (const style of sources) {
+    for (const name of Array.from(style)) {
+      if (name.startsWith('--')) names.add(name);
+    }
+  }
+
+  return names;
+}
+
+function createProbe(doc: Document): HTMLElement {
+  const probe = doc.createElement('div');
+  probe.id = PROBE_ID;
+  probe.setAttribute('aria-hidden', 'true');
+  probe.style.cssText = 'position:absolute;visibility:hidden;pointer-events:none;left:0;top:0;';
+  doc.documentElement.appendChild(probe);
+  return probe;
+}
+
+/**
+ * Resolve a token's value to a comparable length or color, or null if it is neither.
+ */
+function resolveToken(probe: HTMLElement, value: string): Pick<DesignToken, 'kind' | 'resolvedValue'> | null {
+  if (!value || value.includes('%')) return null;
+
+  if (CSS.supports('color', value)) {
+    probe.style.setProperty('color', value);
+    const resolvedValue = getComputedStyle(probe).color;
+    probe.style.removeProperty('color');
+    return { kind: 'color', resolvedValue };
+  }
+
+  if (CSS.supports('width', value) && !/^(auto|none|inherit|initial|unset)$/i.test(value)) {
+    probe.style.setProperty('width', value);
+    const resolvedValue = getComputedStyle(probe).width;
+    probe.style.removeProperty('width');
+    return /px$/.test(resolvedValue) ? { kind: 'length', resolvedValue } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Get the design tokens of the top document.
+ */
+export function getPageDesignTokens(): DesignToken[] {
+  const doc = document;
+  const signature = getStyleSignature(doc);
+  if (cache && cache.signature === signature) {
+    return cache.tokens;
+  }
+
+  const rootStyle = getComputedStyle(doc.documentElement);
+  const probe = createProbe(doc);
+  const tokens: DesignToken[] = [];
+
+  try {
+    for (const name of getRootPropertyNames(doc)) {
+      // Computed custom properties have var() references already substituted
+      const value = rootStyle.getPropertyValue(name).trim();
+      const resolved = resolveToken(probe, value);
+      if (resolved) {
+        tokens.push({ name, value, ...resolved });
+      }
+    }
+  } finally {
+    probe.remove();
+  }
+
+  cache = { signature, tokens };
+  return tokens;
+}
@@ -2,12 +2,32 @@
  * DOM Patch Module
  * 
  * Handles applying and reverting style changes to DOM elements.
- * Uses inline styles for MVP (most reliable for overriding existing styles).
+ * Two application modes are supported:
+ * - inline: element.style with !important (most reliable, single element)
+ * - stylesheet: a rule in the extension-owned patch sheet (scoped by selector)
  */
 
-import type { ComputedStylesSnapshot, StylePatch, PatchError, ElementIdentity } from '../shared/types';
-import { findElementBySelector } from '../shared/selector';
+import type {
+  ComputedStylesSnapshot,
+  StylePatch,
+  HistoryPatch,
+  PatchError,
+  PatchMode,
+  PatchScope,
+  PseudoState,
+  ElementIdentity,
+} from '../shared/types';
+import { isStructuralPatch, isTextPatch, isAttributePatch } from '../shared/types';
+import { findElementBySelector, querySelectorAllDeep, splitScopedSelector } from '../shared/selector';
+import { isHTMLElement, getElementWindow } from './frames';
 import { computeIdentity, identitiesMatch } from '../shared/identity';
+import { setSheetProperty, getSheetProperty, removeSheetProperty } from './patchSheet';
+import { getStateSelector } from './forcedState';
+import { reanchorElement } from './reanchor';
+import { revertStructuralPatch, reapplyStructuralPatch } from './structure';
+import { revertTextPatch, reapplyTextPatch } from './textPatch';
+import { revertAttributePatch, reapplyAttributePatch } from './attributePatch';
+import { getHistoryStylePatches } from './history';
 
 /**
  * Map of CSS property names (camelCase to kebab-case).
@@ -35,21 +55,46 @@ function toKebabCase(property: string): string {
   return CSS_PROPERTY_MAP[property] || property.replace(/([A-Z])/g, '-$1').toLowerCase();
 }
 
+/**
+ * Get the mode a patch is actually applied in.
+ * Inline styles cannot target a pseudo-class or a media query, so state and
+ * breakpoint patches always use the sheet.
+ */
+export function getEffectivePatchMode(scope: PatchScope): PatchMode {
+  return scope.state || scope.media ? 'stylesheet' : scope.mode ?? 'inline';
+}
+
+/**
+ * Get the patch sheet rule selector for a patch's selector and state.
+ * For shadow- or frame-piercing selectors the state applies to the innermost segment.
+ */
+function getRuleSelector(selector: string, pseudoState?: PseudoState): string {
+  if (!pseudoState) return selector;
+  const { scope, local } = splitScopedSelector(selector);
+  return `${scope}${getStateSelector(local, pseudoState)}`;
+}
+
 /**
  * Apply a style patch to the DOM.
  * Returns the actual previous value (from computed styles).
  * Now includes identity validation to prevent applying to wrong element.
+ *
+ * In stylesheet mode the selector may match several elements (the rule
+ * applies to all of them); identity is only validated for a unique match.
  */
 export function applyStylePatch(
   selector: string,
   property: string,
   value: string,
-  expectedIdentity?: ElementIdentity
-): { success: boolean; previousValue: string; error?: PatchError } {
+  expectedIdentity?: ElementIdentity,
+  scope: PatchScope = {}
+): { success: boolean; previousValue: string; previousRuleValue?: string; error?: PatchError } {
+  const mode = getEffectivePatchMode(scope);
   const resolution = findElementBySelector(selector);
+  const allowAmbiguous = mode === 'stylesheet' && resolution.status === 'AMBIGUOUS';
 
   // Validate selector resolution
-  if (resolution.status !== 'OK') {
+  if (resolution.status !== 'OK' && !allowAmbiguous) {
     const errorCode: PatchError['code'] =
       resolution.status === 'NOT_FOUND' ? 'ELEMENT_NOT_FOUND' :
         resolution.status === 'AMBIGUOUS' ? 'ELEMENT_AMBIGUOUS' :
@@ -66,15 +111,15 @@ export function applyStylePatch(
     };
   }
 
-  const element = resolution.element;
+  const element = allowAmbiguous ? querySelectorAllDeep(selector)[0] : resolution.element;
 
-  if (!element || !(element instanceof HTMLElement)) {
+  if (!element || !isHTMLElement(element)) {
     console.warn(`[UI Inspector] Element is not an HTMLElement`);
     return { success: false, previousValue: '' };
   }
 
   // Validate identity if provided
-  if (expectedIdentity) {
+  if (expectedIdentity && !allowAmbiguous) {
     const currentIdentity = computeIdentity(element);
     if (!identitiesMatch(currentIdentity, expectedIdentity)) {
       return {
@@ -88,23 +133,96 @@ export function applyStylePatch(
     }
   }
 
+  const kebabProperty = toKebabCase(property);
+
   // Get the current computed value before applying
-  const computedStyle = window.getComputedStyle(element);
-  const previousValue = computedStyle.getPropertyValue(toKebabCase(property));
+  const computedStyle = getElementWindow(element).getComputedStyle(element);
+  const previousValue = computedStyle.getPropertyValue(kebabProperty);
+
+  if (mode === 'stylesheet') {
+    // Remember what the patch sheet held so undo restores the rule, not the computed value
+    const ruleSelector = getRuleSelector(selector, scope.state);
+    const previousRuleValue = getSheetProperty(ruleSelector, kebabProperty, scope.media);
+    if (!setSheetProperty(ruleSelector, kebabProperty, value, scope.media)) {
+      return {
+        success: false,
+        previousValue: '',
+        error: {
+          code: 'INVALID_SELECTOR',
+          message: `Cannot create a stylesheet rule for selector: ${selector}`
+        }
+      };
+    }
+    return { success: true, previousValue, previousRuleValue };
+  }
 
   // Apply the new value using inline style (highest specificity)
-  element.style.setProperty(toKebabCase(property), value, 'important');
+  element.style.setProperty(kebabProperty, value, 'important');
 
   return { success: true, previousValue };
 }
 
+/** Patch errors that re-anchoring the patch may recover from */
+const REANCHORABLE_ERRORS: PatchError['code'][] = ['ELEMENT_NOT_FOUND', 'ELEMENT_AMBIGUOUS', 'IDENTITY_MISMATCH'];
+
+/**
+ * Re-target a patch whose selector no longer resolves to its element, along
+ * with the other history patches recorded with the same selector, so the
+ * element's changes stay together. Patches are updated in place (they are
+ * shared with the history stacks): they get the matched element's selector
+ * and identity, and keep the selector they were first recorded with in
+ * reanchoredFrom.
+ *
+ * Stylesheet-mode patches that are applied keep their selector: their rule
+ * was written under it, and reverting must remove that rule. They are
+ * re-anchored when re-applied (redo or replay after reload).
+ */
+function reanchorPatch(patch: StylePatch, error?: PatchError): boolean {
+  if (!patch.identityToken || !error || !REANCHORABLE_ERRORS.includes(error.code)) {
+    return false;
+  }
+
+  const result = reanchorElement(patch.selector, patch.identityToken);
+  if (!result || result.selector === patch.selector) return false;
+
+  const from = patch.selector;
+  const identityToken = computeIdentity(result.element);
+  const { applied, pending } = getHistoryStylePatches();
+  const sharing = [...applied.filter(p => p.mode !== 'stylesheet'), ...pending]
+    .filter(p => p.selector === from);
+
+  for (const target of new Set([patch, ...sharing])) {
+    target.reanchoredFrom = target.reanchoredFrom ?? from;
+    target.selector = result.selector;
+    target.identityToken = identityToken;
+  }
+  return true;
+}
+
 /**
  * Revert a style patch by applying the previous value.
- * Now includes identity validation.
+ * Now includes identity validation; a patch whose selector broke is
+ * re-anchored to its element when a confident match exists. Stylesheet-mode
+ * patches are reverted by their rule's selector and never need re-anchoring.
  */
 export function revertStylePatch(
   patch: StylePatch
 ): { success: boolean; error?: PatchError } {
+  if (patch.mode === 'stylesheet') {
+    return revertSheetPatch(patch);
+  }
+
+  const result = revertInlinePatch(patch);
+  if (!result.success && reanchorPatch(patch, result.error)) {
+    return revertInlinePatch(patch);
+  }
+  return result;
+}
+
+/**
+ * Revert an inline-mode patch on the element its selector resolves to.
+ */
+function revertInlinePatch(patch: StylePatch): { success: boolean; error?: PatchError } {
   const resolution = findElementBySelector(patch.selector);
 
   // Validate selector resolution
@@ -126,7 +244,7 @@ export function revertStylePatch(
 
   const element = resolution.element;
 
-  if (!element || !(element instanceof HTMLElement)) {
+  if (!element || !isHTMLElement(element)) {
     console.warn(`[UI Inspector] Element is not an HTMLElement`);
     return { success: false };
   }
@@ -159,31 +277,75 @@ export function revertStylePatch(
 }
 
 /**
- * Re-apply a style patch (for redo).
- * Now includes identity validation.
+ * Revert a stylesheet-mode patch by restoring the rule's previous declaration.
+ * The rule is scoped by selector, so no element lookup or identity check is needed.
+ */
+function revertSheetPatch(patch: StylePatch): { success: boolean; error?: PatchError } {
+  const kebabProperty = toKebabCase(String(patch.property));
+  const ruleSelector = getRuleSelector(patch.selector, patch.state);
+
+  if (!patch.previousRuleValue) {
+    removeSheetProperty(ruleSelector, kebabProperty, patch.media);
+  } else {
+    setSheetProperty(ruleSelector, kebabProperty, patch.previousRuleValue, patch.media);
+  }
+
+  return { success: true };
+}
+
+/**
+ * Re-apply a style patch (for redo and replay after reload).
+ * Now includes identity validation; a patch whose selector broke is
+ * re-anchored to its element when a confident match exists.
  */
 export function reapplyStylePatch(
   patch: StylePatch
 ): { success: boolean; error?: PatchError } {
-  const result = applyStylePatch(
+  const apply = () => applyStylePatch(
     patch.selector,
     String(patch.property),
     patch.value,
-    patch.identityToken  // Pass identity token for validation
+    patch.identityToken,  // Pass identity token for validation
+    { mode: patch.mode, state: patch.state, media: patch.media }
   );
+
+  let result = apply();
+  if (!result.success && reanchorPatch(patch, result.error)) {
+    result = apply();
+  }
   return {
     success: result.success,
     error: result.error
   };
 }
 
+/**
+ * Revert any history entry: style, structural, text or attribute.
+ */
+export function revertPatch(patch: HistoryPatch): { success: boolean; error?: PatchError } {
+  if (isStructuralPatch(patch)) return revertStructuralPatch(patch);
+  if (isTextPatch(patch)) return revertTextPatch(patch);
+  if (isAttributePatch(patch)) return revertAttributePatch(patch);
+  return revertStylePatch(patch);
+}
+
+/**
+ * Re-apply any history entry: style, structural, text or attribute.
+ */
+export function reapplyPatch(patch: HistoryPatch): { success: boolean; error?: PatchError } {
+  if (isStructuralPatch(patch)) return reapplyStructuralPatch(patch);
+  if (isTextPatch(patch)) return reapplyTextPatch(patch);
+  if (isAttributePatch(patch)) return reapplyAttributePatch(patch);
+  return reapplyStylePatch(patch);
+}
+
 /**
  * Extract raw style value from element's style attribute or matched rules.
  * This preserves var() references that computed styles resolve.
  */
 function getRawStyleValue(element: Element, property: string): string | undefined {
   // First check inline style (highest priority)
-  if (element instanceof HTMLElement && element.style) {
+  if (isHTMLElement(element) && element.style) {
     const inlineValue = element.style.getPropertyValue(toKebabCase(property));
     if (inlineValue) return inlineValue;
   }
@@ -198,7 +360,7 @@ function getRawStyleValue(element: Element, property: string): string | undefine
  * Get the computed styles snapshot for an element.
  */
 export function getComputedStylesSnapshot(element: Element): ComputedStylesSnapshot {
-  const computedStyle = window.getComputedStyle(element);
+  const computedStyle = getElementWindow(element).getComputedStyle(element);
 
   return {
     // Layout
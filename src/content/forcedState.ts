@@ -0,0 +1,163 @@
+/**
+ * Forced State Module
+ *
+ * Forces a pseudo-class state (:hover, :focus, ...) on the selected element.
+ * Rules from the page's stylesheets that use the pseudo-class are rewritten
+ * into a forced-state sheet, with the pseudo-class replaced by an attribute
+ * selector that only the forced element carries.
+ *
+ * The sheet lives in the forced element's own document, so elements inside
+ * same-origin iframes are handled too. Rule types are compared by
+ * CSSRule.type rather than instanceof for the same reason.
+ */
+
+import type { PseudoState } from '../shared/types';
+
+const FORCED_STATE_SHEET_ID = '__ui_inspector_forced_state__';
+const FORCED_STATE_ATTRIBUTE = 'data-ui-inspector-state';
+
+interface ForcedStateState {
+  element: Element | null;
+  state: PseudoState | null;
+  /** Document the forced-state sheet was last built for */
+  document: Document | null;
+}
+
+const state: ForcedStateState = {
+  element: null,
+  state: null,
+  document: null,
+};
+
+/**
+ * Match a pseudo-class without matching longer ones
+ * (":focus" must not match ":focus-visible" or ":focus-within").
+ */
+function getStatePattern(pseudoState: PseudoState): RegExp {
+  return new RegExp(`:${pseudoState}(?![\\w-])`, 'g');
+}
+
+function getForcedAttributeSelector(pseudoState: PseudoState): string {
+  return `[${FORCED_STATE_ATTRIBUTE}~="${pseudoState}"]`;
+}
+
+/**
+ * Get the selector a state patch is written under.
+ * Covers both the real pseudo-class and the forced attribute, so the
+ * patch shows while editing and when the user actually interacts.
+ */
+export function getStateSelector(selector: string, pseudoState: PseudoState): string {
+  return `${selector}:${pseudoState}, ${selector}${getForcedAttributeSelector(pseudoState)}`;
+}
+
+/**
+ * Rewrite rules using the pseudo-class, recursing into @media and @supports.
+ */
+function collectForcedRules(rules: CSSRuleList, pseudoState: PseudoState, out: string[]): void {
+  for (const rule of Array.from(rules)) {
+    if (rule.type === CSSRule.STYLE_RULE) {
+      const styleRule = rule as CSSStyleRule;
+      const pattern = getStatePattern(pseudoState);
+      if (!pattern.test(styleRule.selectorText)) continue;
+
+      const selector = styleRule.selectorText.replace(pattern, getForcedAttributeSelector(pseudoState));
+      out.push(`${selector} { ${styleRule.style.cssText} }`);
+    } else if (rule.type === CSSRule.MEDIA_RULE || rule.type === CSSRule.SUPPORTS_RULE) {
+      const conditionRule = rule as CSSMediaRule | CSSSupportsRule;
+      const inner: string[] = [];
+      collectForcedRules(conditionRule.cssRules, pseudoState, inner);
+      if (inner.length > 0) {
+        const atRule = rule.type === CSSRule.MEDIA_RULE ? 'media' : 'supports';
+        out.push(`@${atRule} ${conditionRule.conditionText} { ${inner.join(' ')} }`);
+      }
+    }
+  }
+}
+
+/**
+ * Build the CSS text for the forced-state sheet from all readable sheets of a document.
+ */
+function buildForcedStateCSS(doc: Document, pseudoState: PseudoState): string {
+  const out: string[] = [];
+
+  for (const sheet of Array.from(doc.styleSheets)) {
+    const owner = sheet.ownerNode as Element | null;
+    if (owner?.id?.startsWith('__ui_inspector')) continue;
+
+    try {
+      collectForcedRules(sheet.cssRules, pseudoState, out);
+    } catch {
+      // Cross-origin stylesheets cannot be read; skip them
+    }
+  }
+
+  return out.join('\n');
+}
+
+function getForcedStateElement(doc: Document): HTMLStyleElement {
+  let styleElement = doc.getElementById(FORCED_STATE_SHEET_ID) as HTMLStyleElement | null;
+
+  if (!styleElement) {
+    styleElement = doc.createElement('style');
+    styleElement.id = FORCED_STATE_SHEET_ID;
+    styleElement.setAttribute('data-ui-inspector', 'forced-state');
+    (doc.head || doc.documentElement).appendChild(styleElement);
+  }
+
+  return styleElement;
+}
+
+/**
+ * Force a pseudo-class state on an element, or release it with null.
+ * Only one element carries a forced state at a time.
+ */
+export function forceElementState(element: Element, pseudoState: PseudoState | null): void {
+  if (state.element && state.element !== element) {
+    state.element.removeAttribute(FORCED_STATE_ATTRIBUTE);
+  }
+
+  if (!pseudoState) {
+    clearForcedState();
+    return;
+  }
+
+  // Rebuild the sheet only when the forced state or document changes
+  const doc = element.ownerDocument;
+  if (pseudoState !== state.state || doc !== state.document) {
+    clearForcedStateSheet();
+    getForcedStateElement(doc).textContent = buildForcedStateCSS(doc, pseudoState);
+  }
+
+  element.setAttribute(FORCED_STATE_ATTRIBUTE, pseudoState);
+  state.element = element;
+  state.state = pseudoState;
+  state.document = doc;
+}
+
+/**
+ * Get the currently forced pseudo-class state, if any.
+ */
+export function getForcedState(): PseudoState | null {
+  return state.state;
+}
+
+/**
+ * Release any forced state and empty the forced-state sheet.
+ */
+export function clearForcedState(): void {
+  state.element?.removeAttribute(FORCED_STATE_ATTRIBUTE);
+  state.element = null;
+  state.state = null;
+  clearForcedStateSheet();
+  state.document = null;
+}
+
+/**
+ * Empty the forced-state sheet of the document it was last built for.
+ */
+function clearForcedStateSheet(): void {
+  const styleElement = state.document?.getElementById(FORCED_STATE_SHEET_ID);
+  if (styleElement) {
+    styleElement.textContent = '';
+  }
+}
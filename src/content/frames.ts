@@ -0,0 +1,84 @@
+/**
+ * Frames Module
+ *
+ * Helpers for inspecting same-origin iframes from the top-frame content script.
+ * The top frame owns the picker, overlays and patch engine; iframe documents
+ * are reached directly through contentDocument, and their elements are mapped
+ * into top-level viewport coordinates for overlays.
+ *
+ * Elements in iframe documents belong to a different JS realm, so instanceof
+ * checks against the top window's constructors fail for them.
+ */
+
+import { getFrameDocument, getFrameElement } from '../shared/selector';
+
+/** Message a subframe content script posts to the top frame when it loads */
+export const FRAME_READY_MESSAGE = '__ui_inspector_frame_ready__';
+
+/**
+ * Check if this content script instance runs in the top frame.
+ */
+export function isTopFrame(): boolean {
+  return window === window.top;
+}
+
+/**
+ * Tell the top frame a new frame document loaded, so it can attach listeners.
+ * Posted from subframe content scripts (all_frames injection).
+ */
+export function announceFrameReady(): void {
+  window.top?.postMessage({ type: FRAME_READY_MESSAGE }, '*');
+}
+
+/**
+ * Get the window an element's document belongs to.
+ */
+export function getElementWindow(element: Element): Window {
+  return element.ownerDocument.defaultView ?? window;
+}
+
+/**
+ * Realm-safe check for HTMLElement (works for elements in iframe documents).
+ */
+export function isHTMLElement(element: Element | null): element is HTMLElement {
+  if (!element) return false;
+  const realm = getElementWindow(element) as Window & { HTMLElement: typeof HTMLElement };
+  return element instanceof realm.HTMLElement;
+}
+
+/**
+ * Get an element's bounding rect in top-level viewport coordinates,
+ * adding the offset of every iframe (border + padding) it is nested in.
+ */
+export function getViewportRect(element: Element): DOMRect {
+  const rect = element.getBoundingClientRect();
+  let x = rect.x;
+  let y = rect.y;
+
+  let frame = getFrameElement(element.ownerDocument);
+  while (frame) {
+    const frameRect = frame.getBoundingClientRect();
+    const frameStyle = getElementWindow(frame).getComputedStyle(frame);
+    x += frameRect.x + frame.clientLeft + (parseFloat(frameStyle.paddingLeft) || 0);
+    y += frameRect.y + frame.clientTop + (parseFloat(frameStyle.paddingTop) || 0);
+    frame = getFrameElement(frame.ownerDocument);
+  }
+
+  return new DOMRect(x, y, rect.width, rect.height);
+}
+
+/**
+ * Get the documents of all accessible (same-origin) iframes, nested ones included.
+ */
+export function getFrameDocuments(root: Document = document): Document[] {
+  const documents: Document[] = [];
+
+  for (const frame of Array.from(root.querySelectorAll('iframe, frame'))) {
+    const frameDocument = getFrameDocument(frame);
+    if (frameDocument) {
+      documents.push(frameDocument, ...getFrameDocuments(frameDocument));
+    }
+  }
+
+  return documents;
+}
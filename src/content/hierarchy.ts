@@ -2,10 +2,20 @@
  * Hierarchy Utilities
  * 
  * Extract parent/children/breadcrumb information from a DOM element.
+ * Walks the composed tree: open shadow roots are entered from their host,
+ * and a shadow root's top-level elements have the host as their parent.
+ * Same-origin iframes work the same way, with the frame's <body> as the
+ * iframe's only child.
  * Performance target: <10ms for typical pages.
  */
 
-import { getStableSelector, getElementDescription } from '../shared/selector';
+import {
+  getStableSelector,
+  getElementDescription,
+  getShadowRoot,
+  getFrameDocument,
+  getFrameElement,
+} from '../shared/selector';
 import type { ElementHierarchy, ElementSummary, BreadcrumbItem } from '../shared/types';
 
 // ============================================================================
@@ -30,7 +40,7 @@ const TEXT_PREVIEW_LENGTH = 40;
  */
 export function extractHierarchy(element: Element): ElementHierarchy {
   return {
-    parent: extractParentSummary(element.parentElement),
+    parent: extractParentSummary(getComposedParent(element)),
     children: extractChildrenSummaries(element),
     breadcrumb: extractBreadcrumb(element),
     siblingIndex: getSiblingIndex(element),
@@ -62,7 +72,7 @@ function extractParentSummary(parent: Element | null): ElementSummary | null {
  * Limited to MAX_CHILDREN for performance.
  */
 function extractChildrenSummaries(element: Element): ElementSummary[] {
-  const children = Array.from(element.children);
+  const children = getComposedChildren(element);
   return children.slice(0, MAX_CHILDREN).map(createElementSummary);
 }
 
@@ -86,23 +96,67 @@ function extractBreadcrumb(element: Element): BreadcrumbItem[] {
     path.unshift({
       selector: getStableSelector(current),
       label: getElementDescription(current),
+      ...(isFrameBody(current) ? { frameBoundary: true } : {}),
     });
     
-    current = current.parentElement;
+    current = getComposedParent(current);
   }
   
   return path;
 }
 
+// ============================================================================
+// Composed Tree Utilities
+// ============================================================================
+
+/**
+ * Get the parent in the composed tree.
+ * A shadow root's top-level elements have the shadow host as their parent.
+ */
+function getComposedParent(element: Element): Element | null {
+  // A frame document's <body> (and <html>) sit directly under the iframe
+  const doc = element.ownerDocument;
+  if (doc !== document && (element === doc.body || element === doc.documentElement)) {
+    return getFrameElement(doc);
+  }
+
+  if (element.parentElement) return element.parentElement;
+  return getShadowRoot(element)?.host ?? null;
+}
+
+/**
+ * Get children in the composed tree: the open shadow root's elements first,
+ * then the host's light DOM children.
+ */
+function getComposedChildren(element: Element): Element[] {
+  const frameDocument = getFrameDocument(element);
+  if (frameDocument) {
+    return frameDocument.body ? [frameDocument.body] : [];
+  }
+
+  const light = Array.from(element.children);
+  if (!element.shadowRoot) return light;
+  return [...Array.from(element.shadowRoot.children), ...light];
+}
+
+/**
+ * Check if an element is the <body> of an iframe document.
+ */
+function isFrameBody(element: Element): boolean {
+  const doc = element.ownerDocument;
+  return doc !== document && element === doc.body;
+}
+
 // ============================================================================
 // Sibling Utilities
 // ============================================================================
 
 /**
  * Get 0-based index of element among its siblings.
+ * Siblings are scoped to the same parent node (element or shadow root).
  */
 function getSiblingIndex(element: Element): number {
-  const parent = element.parentElement;
+  const parent = element.parentNode as ParentNode | null;
   if (!parent) return 0;
   return Array.from(parent.children).indexOf(element);
 }
@@ -111,7 +165,7 @@ function getSiblingIndex(element: Element): number {
  * Get total number of siblings (including self).
  */
 function getSiblingCount(element: Element): number {
-  return element.parentElement?.children.length ?? 1;
+  return (element.parentNode as ParentNode | null)?.children.length ?? 1;
 }
 
 // ============================================================================
@@ -121,13 +175,13 @@ function getSiblingCount(element: Element): number {
 /**
  * Create a summary object for an element.
  */
-function createElementSummary(element: Element): ElementSummary {
+export function createElementSummary(element: Element): ElementSummary {
   return {
     selector: getStableSelector(element),
     tagName: element.tagName.toLowerCase(),
     label: getElementDescription(element),
     textPreview: getDirectTextPreview(element),
-    childCount: element.children.length,
+    childCount: getComposedChildren(element).length,
   };
 }
 
@@ -161,7 +215,7 @@ function getDirectTextPreview(element: Element): string | undefined {
  * Get the parent element if navigable (not body/html).
  */
 export function getNavigableParent(element: Element): Element | null {
-  const parent = element.parentElement;
+  const parent = getComposedParent(element);
   if (!parent || parent === document.body || parent === document.documentElement) {
     return null;
   }
@@ -172,7 +226,7 @@ export function getNavigableParent(element: Element): Element | null {
  * Get child element at index.
  */
 export function getChildAtIndex(element: Element, index: number): Element | null {
-  const children = element.children;
+  const children = getComposedChildren(element);
   if (index < 0 || index >= children.length) {
     return null;
   }
@@ -199,7 +253,7 @@ export function canNavigateToParent(element: Element): boolean {
  * Check if element has children to navigate to.
  */
 export function canNavigateToChild(element: Element): boolean {
-  return element.children.length > 0;
+  return getComposedChildren(element).length > 0;
 }
 
 /**
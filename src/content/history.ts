@@ -1,29 +1,52 @@
 /**
  * History Module
  * 
- * Manages undo/redo history for style patches.
- * Stores patches in memory with support for Chrome storage persistence.
+ * Manages undo/redo history for style, structural, text and attribute patches.
+ * Stores patches in memory and persists them to Chrome session storage per
+ * page (origin + path), so they can be replayed after a reload.
  */
 
-import type { StylePatch } from '../shared/types';
+import type { StylePatch, StructuralPatch, TextPatch, AttributePatch, HistoryPatch } from '../shared/types';
+import { isStylePatch, isStructuralPatch, isTextPatch, isAttributePatch } from '../shared/types';
 
 interface HistoryState {
-  undoStack: StylePatch[];
-  redoStack: StylePatch[];
+  undoStack: HistoryPatch[];
+  redoStack: HistoryPatch[];
+  /** Patches that failed to re-anchor after a reload, kept for a retry */
+  unanchored: HistoryPatch[];
   maxHistorySize: number;
 }
 
 const state: HistoryState = {
   undoStack: [],
   redoStack: [],
+  unanchored: [],
   maxHistorySize: 100, // Reasonable limit to prevent memory issues
 };
 
+/** Delay before a history change is written to storage */
+const PERSIST_DEBOUNCE_MS = 300;
+
+let persistTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Persist history shortly after a change, coalescing bursts (e.g. slider drags).
+ */
+function schedulePersist(): void {
+  if (persistTimeoutId !== null) {
+    clearTimeout(persistTimeoutId);
+  }
+  persistTimeoutId = setTimeout(() => {
+    persistTimeoutId = null;
+    persistHistory();
+  }, PERSIST_DEBOUNCE_MS);
+}
+
 /**
  * Push a new patch to the history.
  * Clears the redo stack as we're creating a new branch.
  */
-export function pushPatch(patch: StylePatch): void {
+export function pushPatch(patch: HistoryPatch): void {
   state.undoStack.push(patch);
   state.redoStack = []; // Clear redo stack on new action
   
@@ -31,16 +54,18 @@ export function pushPatch(patch: StylePatch): void {
   if (state.undoStack.length > state.maxHistorySize) {
     state.undoStack.shift();
   }
+  schedulePersist();
 }
 
 /**
  * Pop the last patch from the undo stack.
  * Returns null if there's nothing to undo.
  */
-export function popUndo(): StylePatch | null {
+export function popUndo(): HistoryPatch | null {
   const patch = state.undoStack.pop();
   if (patch) {
     state.redoStack.push(patch);
+    schedulePersist();
     return patch;
   }
   return null;
@@ -50,15 +75,84 @@ export function popUndo(): StylePatch | null {
  * Pop from the redo stack.
  * Returns null if there's nothing to redo.
  */
-export function popRedo(): StylePatch | null {
+export function popRedo(): HistoryPatch | null {
   const patch = state.redoStack.pop();
   if (patch) {
     state.undoStack.push(patch);
+    schedulePersist();
     return patch;
   }
   return null;
 }
 
+/**
+ * Only style patches are grouped; every other kind is a history entry of its own.
+ */
+function getGroupId(patch: HistoryPatch): string | undefined {
+  return isStylePatch(patch) ? patch.groupId : undefined;
+}
+
+/**
+ * Get the top history entry of a stack without moving it.
+ * Patches sharing a groupId form one entry.
+ * Returned in the order they were originally applied.
+ */
+function getTopGroup(from: HistoryPatch[]): HistoryPatch[] {
+  const top = from[from.length - 1];
+  if (!top) return [];
+
+  let start = from.length - 1;
+  while (start > 0 && getGroupId(top) && getGroupId(from[start - 1]) === getGroupId(top)) {
+    start--;
+  }
+  return from.slice(start);
+}
+
+/**
+ * Move the top history entry from one stack to the other.
+ * Returned in the order they were originally applied.
+ */
+function popGroup(from: HistoryPatch[], to: HistoryPatch[]): HistoryPatch[] {
+  const group = getTopGroup(from);
+  if (group.length === 0) return [];
+  from.splice(from.length - group.length);
+
+  // Keep application order on the receiving stack so the group can move back intact
+  to.push(...group);
+  schedulePersist();
+  return group;
+}
+
+/**
+ * Pop the top undo entry (a single patch or a whole multi-element group).
+ * Returns an empty array if there's nothing to undo.
+ */
+export function popUndoGroup(): HistoryPatch[] {
+  return popGroup(state.undoStack, state.redoStack);
+}
+
+/**
+ * Pop the top redo entry (a single patch or a whole multi-element group).
+ * Returns an empty array if there's nothing to redo.
+ */
+export function popRedoGroup(): HistoryPatch[] {
+  return popGroup(state.redoStack, state.undoStack);
+}
+
+/**
+ * Get the entry undo would revert, leaving history as it is.
+ */
+export function peekUndoGroup(): HistoryPatch[] {
+  return getTopGroup(state.undoStack);
+}
+
+/**
+ * Get the entry redo would re-apply, leaving history as it is.
+ */
+export function peekRedoGroup(): HistoryPatch[] {
+  return getTopGroup(state.redoStack);
+}
+
 /**
  * Check if undo is available.
  */
@@ -93,32 +187,139 @@ export function getRedoCount(): number {
 export function clearHistory(): void {
   state.undoStack = [];
   state.redoStack = [];
+  state.unanchored = [];
+  schedulePersist();
 }
 
 /**
  * Get all patches for a specific selector (for cleanup purposes).
  */
 export function getPatchesForSelector(selector: string): StylePatch[] {
-  return state.undoStack.filter(p => p.selector === selector);
+  return getAllPatches().filter(p => p.selector === selector);
 }
 
 /**
- * Get a copy of the entire undo stack (all applied patches).
+ * Get all applied style patches from the undo stack.
  * Used for generating export data.
  */
 export function getAllPatches(): StylePatch[] {
-  return [...state.undoStack];
+  return state.undoStack.filter(isStylePatch);
+}
+
+/**
+ * Get every style patch in history: those applied to the page (undo stack),
+ * and those that are not (redo stack and patches waiting to be re-anchored).
+ */
+export function getHistoryStylePatches(): { applied: StylePatch[]; pending: StylePatch[] } {
+  return {
+    applied: state.undoStack.filter(isStylePatch),
+    pending: [...state.redoStack, ...state.unanchored].filter(isStylePatch),
+  };
+}
+
+/**
+ * Get all applied structural patches from the undo stack, oldest first.
+ * Used for generating export data.
+ */
+export function getStructuralPatches(): StructuralPatch[] {
+  return state.undoStack.filter(isStructuralPatch);
+}
+
+/**
+ * Get all applied text patches from the undo stack, oldest first.
+ * Used for generating export data.
+ */
+export function getTextPatches(): TextPatch[] {
+  return state.undoStack.filter(isTextPatch);
+}
+
+/**
+ * Get all applied class and attribute patches from the undo stack, oldest first.
+ * Used for generating export data.
+ */
+export function getAttributePatches(): AttributePatch[] {
+  return state.undoStack.filter(isAttributePatch);
+}
+
+// ============================================================================
+// Replay After Reload
+// ============================================================================
+
+/**
+ * Remove and return every patch waiting to be replayed after a reload:
+ * patches that failed to re-anchor last time, then the restored undo stack.
+ */
+export function takeReplayPatches(): HistoryPatch[] {
+  const patches = [...state.unanchored, ...state.undoStack];
+  state.undoStack = [];
+  state.unanchored = [];
+  schedulePersist();
+  return patches;
+}
+
+/**
+ * Remove and return the patches that failed to re-anchor.
+ */
+export function takeUnanchoredPatches(): HistoryPatch[] {
+  const patches = state.unanchored;
+  state.unanchored = [];
+  schedulePersist();
+  return patches;
+}
+
+/**
+ * Put a replayed patch back on the undo stack.
+ * Unlike pushPatch, the redo stack is kept.
+ */
+export function restoreAnchoredPatch(patch: HistoryPatch): void {
+  state.undoStack.push(patch);
+  schedulePersist();
+}
+
+/**
+ * Record patches that could not be re-anchored.
+ * They stay out of the undo stack (undo would fail) but persist for a retry.
+ */
+export function addUnanchoredPatches(patches: HistoryPatch[]): void {
+  state.unanchored.push(...patches);
+  schedulePersist();
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/** Storage key of this session's history, fixed when it is first loaded or saved */
+let historyStorageKey: string | null = null;
+
+/**
+ * Storage key for the page. History is scoped to origin + path so patches
+ * only replay on the page they were made on (query and hash ignored). The
+ * key is taken once, so a client-side route change (pushState) doesn't move
+ * the session's history under the new URL.
+ */
+function getHistoryStorageKey(): string {
+  if (historyStorageKey === null) {
+    historyStorageKey = `uiInspectorHistory:${location.origin}${location.pathname}`;
+  }
+  return historyStorageKey;
 }
 
 /**
- * Persist history to Chrome storage (optional, for session persistence).
+ * Persist history to Chrome session storage for the current page.
  */
 export async function persistHistory(): Promise<void> {
   try {
-    await chrome.storage.local.set({
-      uiInspectorHistory: {
+    const key = getHistoryStorageKey();
+    if (state.undoStack.length === 0 && state.redoStack.length === 0 && state.unanchored.length === 0) {
+      await chrome.storage.session.remove(key);
+      return;
+    }
+    await chrome.storage.session.set({
+      [key]: {
         undoStack: state.undoStack,
         redoStack: state.redoStack,
+        unanchored: state.unanchored,
       },
     });
   } catch (e) {
@@ -127,14 +328,25 @@ export async function persistHistory(): Promise<void> {
 }
 
 /**
- * Restore history from Chrome storage.
+ * Patches persisted before patch modes existed were always applied inline.
+ */
+function normalizePatch(patch: HistoryPatch): HistoryPatch {
+  if (!isStylePatch(patch)) return patch;
+  return patch.mode ? patch : { ...patch, mode: 'inline' };
+}
+
+/**
+ * Restore history for the current page from Chrome session storage.
  */
 export async function restoreHistory(): Promise<void> {
   try {
-    const result = await chrome.storage.local.get('uiInspectorHistory');
-    if (result.uiInspectorHistory) {
-      state.undoStack = result.uiInspectorHistory.undoStack || [];
-      state.redoStack = result.uiInspectorHistory.redoStack || [];
+    const key = getHistoryStorageKey();
+    const result = await chrome.storage.session.get(key);
+    const stored = result[key];
+    if (stored) {
+      state.undoStack = (stored.undoStack || []).map(normalizePatch);
+      state.redoStack = (stored.redoStack || []).map(normalizePatch);
+      state.unanchored = (stored.unanchored || []).map(normalizePatch);
     }
   } catch (e) {
     console.warn('[UI Inspector] Failed to restore history:', e);
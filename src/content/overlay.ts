@@ -6,16 +6,20 @@
  * Also supports spacing visualization (padding/margin guides).
  */
 
+import { getViewportRect, getElementWindow } from './frames';
+
 const OVERLAY_ID = '__ui_inspector_overlay__';
 const SELECTED_OVERLAY_ID = '__ui_inspector_selected_overlay__';
 const PADDING_OVERLAY_ID = '__ui_inspector_padding_overlay__';
 const MARGIN_OVERLAY_ID = '__ui_inspector_margin_overlay__';
 const SPACING_LABEL_ID = '__ui_inspector_spacing_label__';
 const TEXT_EDITOR_ID = '__ui_inspector_text_editor__';
+const MULTI_OVERLAY_ID_PREFIX = '__ui_inspector_multi_overlay_';
 
 interface OverlayState {
   hoverOverlay: HTMLElement | null;
   selectedOverlay: HTMLElement | null;
+  multiOverlays: HTMLElement[];
   paddingOverlay: HTMLElement | null;
   marginOverlay: HTMLElement | null;
   spacingLabel: HTMLElement | null;
@@ -30,6 +34,7 @@ interface OverlayState {
 const state: OverlayState = {
   hoverOverlay: null,
   selectedOverlay: null,
+  multiOverlays: [],
   paddingOverlay: null,
   marginOverlay: null,
   spacingLabel: null,
@@ -197,11 +202,50 @@ export function hideSelectedOverlay(): void {
   }
 }
 
+/**
+ * Show one overlay per additionally selected element (multi-selection).
+ * The primary element keeps the regular selected overlay.
+ */
+export function showMultiSelectionOverlays(elements: Element[]): void {
+  // Grow the overlay pool as needed
+  while (state.multiOverlays.length < elements.length) {
+    const id = `${MULTI_OVERLAY_ID_PREFIX}${state.multiOverlays.length}__`;
+    const overlay = createOverlayElement(id, '#10b981');
+    overlay.style.borderStyle = 'dashed';
+    state.multiOverlays.push(overlay);
+  }
+
+  state.multiOverlays.forEach((overlay, index) => {
+    const element = elements[index];
+    if (!element) {
+      overlay.style.display = 'none';
+      return;
+    }
+    const rect = getViewportRect(element);
+    Object.assign(overlay.style, {
+      display: 'block',
+      top: `${rect.top}px`,
+      left: `${rect.left}px`,
+      width: `${rect.width}px`,
+      height: `${rect.height}px`,
+    });
+  });
+}
+
+/**
+ * Hide all multi-selection overlays.
+ */
+export function hideMultiSelectionOverlays(): void {
+  state.multiOverlays.forEach((overlay) => {
+    overlay.style.display = 'none';
+  });
+}
+
 /**
  * Update the selected overlay position (e.g., after DOM changes).
  */
 export function updateSelectedOverlay(element: Element): void {
-  const rect = element.getBoundingClientRect();
+  const rect = getViewportRect(element);
   showSelectedOverlay(rect);
   
   state.currentElement = element;
@@ -233,8 +277,8 @@ export function showSpacingVisualization(element: Element): void {
     initOverlay();
   }
 
-  const rect = element.getBoundingClientRect();
-  const computed = window.getComputedStyle(element);
+  const rect = getViewportRect(element);
+  const computed = getElementWindow(element).getComputedStyle(element);
   
   // Parse padding values
   const paddingTop = parseFloat(computed.paddingTop) || 0;
@@ -474,8 +518,8 @@ export function showTextEditor(
   }
   
   const editor = state.textEditor;
-  const rect = element.getBoundingClientRect();
-  const computed = window.getComputedStyle(element);
+  const rect = getViewportRect(element);
+  const computed = getElementWindow(element).getComputedStyle(element);
   
   // Get text content
   const textContent = getDirectTextContent(element) || element.textContent || '';
@@ -558,6 +602,38 @@ export function isTextEditingActive(): boolean {
   return state.isTextEditing;
 }
 
+/**
+ * Hide every overlay while the page is screenshotted. Resolves once a frame
+ * without them has been painted, with a function that shows them again.
+ */
+export async function suspendOverlays(): Promise<() => void> {
+  const overlays = [
+    state.hoverOverlay,
+    state.selectedOverlay,
+    ...state.multiOverlays,
+    state.paddingOverlay,
+    state.marginOverlay,
+    state.spacingLabel,
+    state.textEditor,
+  ].filter((overlay): overlay is HTMLElement => overlay !== null);
+
+  // Visibility rather than display, so show/hide calls in between keep working
+  overlays.forEach((overlay) => {
+    overlay.style.visibility = 'hidden';
+  });
+  await new Promise((resolve) => {
+    requestAnimationFrame(() => requestAnimationFrame(resolve));
+    // Animation frames don't run in background tabs
+    setTimeout(resolve, 100);
+  });
+
+  return () => {
+    overlays.forEach((overlay) => {
+      overlay.style.visibility = '';
+    });
+  };
+}
+
 /**
  * Clean up all overlays.
  */
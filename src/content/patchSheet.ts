@@ -0,0 +1,236 @@
+/**
+ * Patch Stylesheet Module
+ *
+ * Manages the extension-owned <style> sheet used by stylesheet-mode patches.
+ * Each selector owns exactly one CSSStyleRule, edited through the CSSOM, so a
+ * patch targets a selector instead of a single element's inline style.
+ * Breakpoint-scoped rules live inside one @media block per media condition.
+ * Document styles do not reach into shadow trees or iframes, so shadow- and
+ * frame-piercing selectors get their own patch sheet inside the shadow root
+ * or frame document they target.
+ *
+ * Rule types are compared by CSSRule.type rather than instanceof, since
+ * sheets in iframe documents belong to a different JS realm.
+ */
+
+import { getSelectorScopeRoot, splitScopedSelector } from '../shared/selector';
+
+const PATCH_SHEET_ID = '__ui_inspector_patch_sheet__';
+
+/** Patch sheet <style> elements created by this module, one per tree scope */
+const sheetElements = new Set<HTMLStyleElement>();
+
+/** Rules created by this module, keyed by media condition + selector */
+const rulesBySelector = new Map<string, CSSStyleRule>();
+
+/** @media blocks created by this module, per sheet, keyed by media condition */
+let mediaRules = new WeakMap<CSSStyleSheet, Map<string, CSSMediaRule>>();
+
+function getRuleKey(selector: string, media?: string): string {
+  return media ? `${media}|${selector}` : selector;
+}
+
+function isMediaRule(rule: CSSRule | null): rule is CSSMediaRule {
+  return rule !== null && rule.type === CSSRule.MEDIA_RULE;
+}
+
+/**
+ * Extract the min-width (px) of a media condition, 0 if it has none.
+ * Used to keep @media blocks in mobile-first order.
+ */
+function getMinWidth(media: string): number {
+  const match = media.match(/min-width:\s*(\d+(?:\.\d+)?)px/);
+  return match ? Number(match[1]) : 0;
+}
+
+/**
+ * Get the index a new top-level rule should be inserted at.
+ * Base rules go before every @media block so breakpoint rules win the
+ * cascade; @media blocks are ordered by ascending min-width.
+ */
+function getInsertIndex(sheet: CSSStyleSheet, media?: string): number {
+  const rules = Array.from(sheet.cssRules);
+  const index = media
+    ? rules.findIndex(r => isMediaRule(r) && getMinWidth(r.conditionText) > getMinWidth(media))
+    : rules.findIndex(r => isMediaRule(r));
+  return index === -1 ? rules.length : index;
+}
+
+/**
+ * Get (or lazily create) the extension-owned patch stylesheet for a tree scope.
+ */
+function getPatchSheet(root: Document | ShadowRoot = document): CSSStyleSheet | null {
+  let styleElement = root.getElementById(PATCH_SHEET_ID) as HTMLStyleElement | null;
+
+  if (!styleElement) {
+    const isDocument = root.nodeType === Node.DOCUMENT_NODE;
+    const ownerDocument = isDocument ? (root as Document) : (root as ShadowRoot).ownerDocument;
+    styleElement = ownerDocument.createElement('style');
+    styleElement.id = PATCH_SHEET_ID;
+    styleElement.setAttribute('data-ui-inspector', 'patch-sheet');
+    const parent = isDocument ? ownerDocument.head || ownerDocument.documentElement : root;
+    parent.appendChild(styleElement);
+    sheetElements.add(styleElement);
+  }
+
+  return styleElement.sheet;
+}
+
+/**
+ * Resolve the sheet a rule selector belongs in, and the selector to write
+ * inside that sheet (the innermost segment).
+ * Returns null if a shadow host or iframe no longer resolves or is not accessible.
+ */
+function getSheetTarget(selector: string): { sheet: CSSStyleSheet; localSelector: string } | null {
+  const root = getSelectorScopeRoot(selector);
+  if (!root) return null;
+
+  const sheet = getPatchSheet(root);
+  return sheet ? { sheet, localSelector: splitScopedSelector(selector).local } : null;
+}
+
+/**
+ * Find the rule owned by a selector.
+ * Browsers normalize selectorText, so rules are tracked by the selector
+ * they were created with rather than matched textually.
+ */
+function findRule(sheet: CSSStyleSheet, selector: string, media?: string): CSSStyleRule | null {
+  const key = getRuleKey(selector, media);
+  const rule = rulesBySelector.get(key);
+  if (rule && rule.parentStyleSheet === sheet) {
+    return rule;
+  }
+  rulesBySelector.delete(key);
+  return null;
+}
+
+/**
+ * Get the @media block for a condition, inserting an empty one if needed.
+ */
+function getOrCreateMediaRule(sheet: CSSStyleSheet, media: string): CSSMediaRule {
+  const sheetMediaRules = mediaRules.get(sheet) ?? new Map<string, CSSMediaRule>();
+  mediaRules.set(sheet, sheetMediaRules);
+
+  const existing = sheetMediaRules.get(media);
+  if (existing && existing.parentStyleSheet === sheet) return existing;
+
+  const index = sheet.insertRule(`@media ${media} {}`, getInsertIndex(sheet, media));
+  const mediaRule = sheet.cssRules[index] as CSSMediaRule;
+  sheetMediaRules.set(media, mediaRule);
+  return mediaRule;
+}
+
+/**
+ * Get the rule for a selector, inserting an empty one if needed.
+ * Returns null if the selector or media condition is not valid CSS.
+ */
+function getOrCreateRule(
+  sheet: CSSStyleSheet,
+  selector: string,
+  localSelector: string,
+  media?: string
+): CSSStyleRule | null {
+  const existing = findRule(sheet, selector, media);
+  if (existing) return existing;
+
+  try {
+    let rule: CSSStyleRule;
+    if (media) {
+      const mediaRule = getOrCreateMediaRule(sheet, media);
+      const index = mediaRule.insertRule(`${localSelector} {}`, mediaRule.cssRules.length);
+      rule = mediaRule.cssRules[index] as CSSStyleRule;
+    } else {
+      const index = sheet.insertRule(`${localSelector} {}`, getInsertIndex(sheet));
+      rule = sheet.cssRules[index] as CSSStyleRule;
+    }
+    rulesBySelector.set(getRuleKey(selector, media), rule);
+    return rule;
+  } catch (e) {
+    console.warn(`[UI Inspector] Cannot create patch rule for selector: ${selector}`, e);
+    return null;
+  }
+}
+
+/**
+ * Set a declaration on the selector's rule.
+ * Declarations are marked !important so they win over page styles the same
+ * way inline patches do, while still being scoped by the selector.
+ */
+export function setSheetProperty(
+  selector: string,
+  property: string,
+  value: string,
+  media?: string
+): boolean {
+  const target = getSheetTarget(selector);
+  if (!target) return false;
+
+  const rule = getOrCreateRule(target.sheet, selector, target.localSelector, media);
+  if (!rule) return false;
+
+  rule.style.setProperty(property, value, 'important');
+  return true;
+}
+
+/**
+ * Get the current declaration for a property on the selector's rule.
+ * Returns an empty string if the sheet holds no value for it.
+ */
+export function getSheetProperty(selector: string, property: string, media?: string): string {
+  const target = getSheetTarget(selector);
+  if (!target) return '';
+
+  const rule = findRule(target.sheet, selector, media);
+  return rule ? rule.style.getPropertyValue(property) : '';
+}
+
+/**
+ * Remove a declaration from the selector's rule.
+ * Rules (and @media blocks) left empty are deleted from the sheet.
+ */
+export function removeSheetProperty(selector: string, property: string, media?: string): void {
+  const target = getSheetTarget(selector);
+  if (!target) return;
+
+  const { sheet } = target;
+  const rule = findRule(sheet, selector, media);
+  if (!rule) return;
+
+  rule.style.removeProperty(property);
+
+  if (rule.style.length > 0) return;
+
+  const mediaRule = isMediaRule(rule.parentRule) ? rule.parentRule : null;
+  const parent = mediaRule ?? sheet;
+  const index = Array.from(parent.cssRules).indexOf(rule);
+  if (index !== -1) {
+    parent.deleteRule(index);
+  }
+  rulesBySelector.delete(getRuleKey(selector, media));
+
+  if (media && mediaRule && mediaRule.cssRules.length === 0) {
+    const mediaIndex = Array.from(sheet.cssRules).indexOf(mediaRule);
+    if (mediaIndex !== -1) {
+      sheet.deleteRule(mediaIndex);
+    }
+    mediaRules.get(sheet)?.delete(media);
+  }
+}
+
+/**
+ * Remove every rule from the patch sheets (document and shadow roots).
+ */
+export function clearPatchSheet(): void {
+  for (const styleElement of sheetElements) {
+    const sheet = styleElement.sheet;
+    if (!styleElement.isConnected || !sheet) {
+      sheetElements.delete(styleElement);
+      continue;
+    }
+    while (sheet.cssRules.length > 0) {
+      sheet.deleteRule(sheet.cssRules.length - 1);
+    }
+  }
+  rulesBySelector.clear();
+  mediaRules = new WeakMap();
+}
@@ -0,0 +1,114 @@
+/**
+ * Re-anchor Module
+ *
+ * Recovers the target of a patch whose selector no longer resolves to its
+ * element (not found, ambiguous, or pointing at a different element after the
+ * DOM changed). Candidates in the selector's tree scope are scored against the
+ * patch's identity token and against the structure the old selector describes;
+ * the patch is re-targeted only when one candidate is a clear, confident match.
+ */
+
+import type { ElementIdentity } from '../shared/types';
+import { getSelectorScopeRoot, getStableSelector, splitScopedSelector } from '../shared/selector';
+import { computeIdentity, scoreIdentityMatch } from '../shared/identity';
+
+/** Minimum combined score for a candidate to be accepted */
+const REANCHOR_MIN_CONFIDENCE = 0.75;
+
+/** Minimum lead over the runner-up, so near-ties are not guessed */
+const REANCHOR_MIN_MARGIN = 0.1;
+
+/** Weight of the identity score; the rest comes from structural context */
+const IDENTITY_SCORE_WEIGHT = 0.8;
+
+export interface ReanchorResult {
+  element: Element;
+  /** Fresh stable selector for the element */
+  selector: string;
+  /** Combined score of the chosen candidate (0-1) */
+  confidence: number;
+}
+
+/**
+ * Split the local part of a selector into its compound selectors, with
+ * positional pseudo-classes removed (the positions are what went stale).
+ * e.g. "main > div.card:nth-of-type(2) p" → ["main", "div.card", "p"]
+ */
+function getCompounds(selector: string): string[] {
+  return splitScopedSelector(selector).local
+    .split(/\s*[>+~]\s*|\s+/)
+    .map(compound => compound.replace(/:[\w-]+(\([^)]*\))?/g, ''))
+    .filter(Boolean);
+}
+
+function safeMatches(element: Element, selector: string): boolean {
+  try {
+    return element.matches(selector);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Score how well an element fits the structure the old selector describes:
+ * the target compound (id, classes, attributes) and the ancestors before it.
+ */
+function scoreStructure(element: Element, compounds: string[]): number {
+  if (compounds.length === 0) return 0;
+
+  const target = compounds[compounds.length - 1];
+  const parent = element.parentElement;
+  let matched = safeMatches(element, target) ? 1 : 0;
+
+  for (const ancestor of compounds.slice(0, -1)) {
+    try {
+      if (parent?.closest(ancestor)) matched++;
+    } catch {
+      // Unparseable compound: counts as not matched
+    }
+  }
+
+  return matched / compounds.length;
+}
+
+/**
+ * Find the element a broken selector most likely meant.
+ * Returns null when the selector's tree scope is gone or no candidate is
+ * confidently better than the rest.
+ */
+export function reanchorElement(selector: string, identity: ElementIdentity): ReanchorResult | null {
+  const root = getSelectorScopeRoot(selector);
+  if (!root) return null;
+
+  const compounds = getCompounds(selector);
+  let best: { element: Element; confidence: number } | null = null;
+  let runnerUp = 0;
+
+  for (const candidate of Array.from(root.querySelectorAll(identity.tagName))) {
+    if (candidate.id?.startsWith('__ui_inspector')) continue;
+
+    const identityScore = scoreIdentityMatch(computeIdentity(candidate), identity);
+    if (identityScore === 0) continue;
+
+    const confidence =
+      IDENTITY_SCORE_WEIGHT * identityScore +
+      (1 - IDENTITY_SCORE_WEIGHT) * scoreStructure(candidate, compounds);
+
+    if (!best || confidence > best.confidence) {
+      runnerUp = best?.confidence ?? 0;
+      best = { element: candidate, confidence };
+    } else if (confidence > runnerUp) {
+      runnerUp = confidence;
+    }
+  }
+
+  if (!best || best.confidence < REANCHOR_MIN_CONFIDENCE || best.confidence - runnerUp < REANCHOR_MIN_MARGIN) {
+    return null;
+  }
+
+  return {
+    element: best.element,
+    selector: getStableSelector(best.element),
+    confidence: best.confidence,
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Replay Module
+ *
+ * Re-applies persisted patches after a page or HMR reload. Each patch is
+ * re-anchored through its selector and identity token; patches that fail are
+ * kept out of the undo stack (undoing them would fail too) and reported to
+ * the side panel, which can retry or discard them.
+ */
+
+import type { HistoryPatch, ReplayReport, ReplayFailure } from '../shared/types';
+import { reapplyPatch } from './domPatch';
+import {
+  restoreHistory,
+  takeReplayPatches,
+  takeUnanchoredPatches,
+  restoreAnchoredPatch,
+  addUnanchoredPatches,
+} from './history';
+
+/** Delays before retrying patches whose element has not rendered yet */
+const RENDER_RETRY_DELAYS_MS = [500, 1500];
+
+let lastReport: ReplayReport | null = null;
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Re-apply patches in their original order.
+ * Frameworks often render after document_idle, so patches whose element is
+ * not found yet are retried after short delays before being reported.
+ */
+async function replayPatches(patches: HistoryPatch[]): Promise<ReplayReport> {
+  let pending = patches;
+  let failures: ReplayFailure[] = [];
+  let appliedCount = 0;
+
+  for (let attempt = 0; pending.length > 0; attempt++) {
+    failures = [];
+    for (const patch of pending) {
+      const result = reapplyPatch(patch);
+      if (result.success) {
+        restoreAnchoredPatch(patch);
+        appliedCount++;
+      } else {
+        failures.push({
+          patch,
+          error: result.error ?? { code: 'ELEMENT_NOT_FOUND', message: 'Element could not be patched' },
+        });
+      }
+    }
+
+    const delay = RENDER_RETRY_DELAYS_MS[attempt];
+    if (delay === undefined || !failures.some(f => f.error.code === 'ELEMENT_NOT_FOUND')) break;
+
+    await wait(delay);
+    pending = failures.map(f => f.patch);
+  }
+
+  addUnanchoredPatches(failures.map(f => f.patch));
+  lastReport = { replayedAt: Date.now(), appliedCount, failures };
+  return lastReport;
+}
+
+/**
+ * Restore this page's persisted history and re-apply its patches.
+ * Returns null if there was nothing to replay.
+ */
+export async function replayPersistedPatches(): Promise<ReplayReport | null> {
+  await restoreHistory();
+  const patches = takeReplayPatches();
+  if (patches.length === 0) return null;
+  return replayPatches(patches);
+}
+
+/**
+ * Try to re-anchor the patches that failed last time (e.g. after the
+ * element finished rendering or the user navigated back to its view).
+ */
+export function retryUnanchoredPatches(): Promise<ReplayReport> {
+  return replayPatches(takeUnanchoredPatches());
+}
+
+/**
+ * Drop the patches that failed to re-anchor.
+ */
+export function discardUnanchoredPatches(): void {
+  takeUnanchoredPatches();
+  lastReport = null;
+}
+
+/**
+ * Get the report of the last replay, or null if nothing was replayed.
+ */
+export function getLastReplayReport(): ReplayReport | null {
+  return lastReport;
+}
@@ -0,0 +1,90 @@
+/**
+ * Role Locator Module
+ *
+ * Derives a role + accessible name pair for an element, for the generated
+ * Playwright tests' getByRole locators. Only explicit roles and the common
+ * implicit ones are known, and the name is approximated from aria-label,
+ * alt, title or text content; a hint is only returned when no other element
+ * in the document has the same pair. Elements in shadow roots get no hint,
+ * since getByRole searches across them.
+ */
+
+import type { RoleLocatorHint } from '../shared/playwright';
+
+/** Longest accessible name worth locating by */
+const MAX_NAME_LENGTH = 60;
+
+const IMPLICIT_ROLES: Record<string, string> = {
+  button: 'button',
+  h1: 'heading',
+  h2: 'heading',
+  h3: 'heading',
+  h4: 'heading',
+  h5: 'heading',
+  h6: 'heading',
+  img: 'img',
+  nav: 'navigation',
+  main: 'main',
+  li: 'listitem',
+  textarea: 'textbox',
+  select: 'combobox',
+  summary: 'button',
+};
+
+const INPUT_ROLES: Record<string, string> = {
+  button: 'button',
+  submit: 'button',
+  reset: 'button',
+  checkbox: 'checkbox',
+  radio: 'radio',
+  range: 'slider',
+  search: 'searchbox',
+  text: 'textbox',
+  email: 'textbox',
+  tel: 'textbox',
+  url: 'textbox',
+};
+
+function getRole(element: Element): string | null {
+  const explicit = element.getAttribute('role')?.trim().split(/\s+/)[0];
+  if (explicit) return explicit;
+
+  const tag = element.tagName.toLowerCase();
+  if (tag === 'a') return element.hasAttribute('href') ? 'link' : null;
+  if (tag === 'input') {
+    return INPUT_ROLES[(element.getAttribute('type') || 'text').toLowerCase()] ?? null;
+  }
+  return IMPLICIT_ROLES[tag] ?? null;
+}
+
+function getAccessibleName(element: Element): string | null {
+  // Names built from other elements are not approximated
+  if (element.hasAttribute('aria-labelledby')) return null;
+
+  const name =
+    element.getAttribute('aria-label') ??
+    (element.tagName === 'IMG' ? element.getAttribute('alt') : null) ??
+    (element.textContent?.trim() || element.getAttribute('title'));
+
+  const normalized = name?.replace(/\s+/g, ' ').trim();
+  return normalized && normalized.length <= MAX_NAME_LENGTH ? normalized : null;
+}
+
+/**
+ * Get a role locator hint for an element, or null if it has no known role
+ * or name, or the pair is not unique.
+ */
+export function getRoleLocatorHint(element: Element): RoleLocatorHint | null {
+  const role = getRole(element);
+  const name = role ? getAccessibleName(element) : null;
+  if (!role || !name) return null;
+
+  // Compared by nodeType: iframe documents come from another realm
+  const root = element.getRootNode();
+  if (root.nodeType !== Node.DOCUMENT_NODE) return null;
+
+  const duplicates = Array.from((root as Document).querySelectorAll('*')).filter(other =>
+    other !== element && getRole(other) === role && getAccessibleName(other) === name
+  );
+  return duplicates.length === 0 ? { role, name } : null;
+}
@@ -0,0 +1,142 @@
+/**
+ * Element Screenshots
+ *
+ * Keeps a "before" crop of each element, taken just before its first change
+ * (whether made in the inspector, imported, proposed by AI or made by a
+ * styling command), and captures "after" crops at export time. The service
+ * worker screenshots the tab and crops it; for "after" crops it also scrolls
+ * the page and stitches captures together for elements that don't fit in the
+ * viewport. "Before" crops only cover the part in view, so selecting never
+ * scrolls the page. Overlays are hidden meanwhile so they don't tint the crops.
+ */
+
+import type { CaptureScreenshotsMessage, ElementScreenshotPair, ScreenshotRegion } from '../shared/types';
+import { MessageType, createMessage } from '../shared/types';
+import { findElementBySelector } from '../shared/selector';
+import { getViewportRect } from './frames';
+import { suspendOverlays } from './overlay';
+import { getAllPatches, getTextPatches, getAttributePatches, getStructuralPatches } from './history';
+
+/** "Before" crops, by selector */
+const beforeScreenshots = new Map<string, string>();
+
+/** "Before" captures in flight, by selector */
+const pendingBefore = new Map<string, Promise<void>>();
+
+let captureQueue: Promise<unknown> = Promise.resolve();
+
+function hasChanges(selector: string): boolean {
+  return [...getAllPatches(), ...getTextPatches(), ...getAttributePatches(), ...getStructuralPatches()]
+    .some(patch => patch.selector === selector);
+}
+
+/**
+ * Measure where an element is on the page, for cropping it from tab captures.
+ */
+export function getScreenshotRegion(element: Element): ScreenshotRegion {
+  const rect = getViewportRect(element);
+  return {
+    x: rect.x,
+    y: rect.y,
+    width: rect.width,
+    height: rect.height,
+    devicePixelRatio: window.devicePixelRatio || 1,
+    scrollX: window.scrollX,
+    scrollY: window.scrollY,
+    viewportWidth: document.documentElement.clientWidth,
+    viewportHeight: document.documentElement.clientHeight,
+  };
+}
+
+/**
+ * Have the service worker screenshot the given regions, stitching those out
+ * of view if asked to. Captures run one at a time, so one never shows the
+ * overlays another is about to restore.
+ */
+function capture(regions: Record<string, ScreenshotRegion>, stitch = false): Promise<Record<string, string>> {
+  const result = captureQueue
+    .catch(() => {})
+    .then(async () => {
+      const restoreOverlays = await suspendOverlays();
+      try {
+        const response = await chrome.runtime.sendMessage(
+          createMessage<CaptureScreenshotsMessage>(MessageType.CAPTURE_SCREENSHOTS, { regions, stitch })
+        ) as { screenshots?: Record<string, string> } | undefined;
+        return response?.screenshots ?? {};
+      } catch (e) {
+        console.debug('[UI Inspector] Screenshot request failed:', e);
+        return {};
+      } finally {
+        restoreOverlays();
+      }
+    });
+  captureQueue = result;
+  return result;
+}
+
+/**
+ * Capture the "before" crops of elements about to be changed, skipping those
+ * that already have one or have been changed. Resolves once the crops are
+ * taken, so the change can be applied after; one capture covers them all.
+ */
+export function captureBeforeScreenshots(selectors: string[]): Promise<void> {
+  const waiting: Promise<void>[] = [];
+  const regions: Record<string, ScreenshotRegion> = {};
+
+  for (const selector of new Set(selectors)) {
+    const pending = pendingBefore.get(selector);
+    if (pending) {
+      waiting.push(pending);
+      continue;
+    }
+    if (beforeScreenshots.has(selector) || hasChanges(selector)) continue;
+    const element = findElementBySelector(selector).element;
+    if (element) {
+      regions[selector] = getScreenshotRegion(element);
+    }
+  }
+
+  const keys = Object.keys(regions);
+  if (keys.length > 0) {
+    const request = capture(regions)
+      .then((screenshots) => {
+        for (const selector of keys) {
+          if (screenshots[selector]) {
+            beforeScreenshots.set(selector, screenshots[selector]);
+          }
+        }
+      })
+      .finally(() => keys.forEach(selector => pendingBefore.delete(selector)));
+    keys.forEach(selector => pendingBefore.set(selector, request));
+    waiting.push(request);
+  }
+
+  return Promise.all(waiting).then(() => {});
+}
+
+/**
+ * Capture "after" crops of the given elements and pair them with their
+ * "before" crops. Elements with neither are left out.
+ */
+export async function captureScreenshotPairs(selectors: string[]): Promise<Record<string, ElementScreenshotPair>> {
+  const regions: Record<string, ScreenshotRegion> = {};
+  for (const selector of selectors) {
+    const element = findElementBySelector(selector).element;
+    if (element) {
+      regions[selector] = getScreenshotRegion(element);
+    }
+  }
+
+  const after = Object.keys(regions).length > 0 ? await capture(regions, true) : {};
+
+  const pairs: Record<string, ElementScreenshotPair> = {};
+  for (const selector of selectors) {
+    const before = beforeScreenshots.get(selector);
+    if (!before && !after[selector]) continue;
+    pairs[selector] = {
+      ...(before && { before }),
+      ...(after[selector] && { after: after[selector] }),
+    };
+  }
+  return pairs;
+}
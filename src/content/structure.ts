@@ -0,0 +1,313 @@
+/**
+ * Structure Module
+ *
+ * Applies and reverts structural patches: moving an element among its
+ * siblings, duplicating, deleting or hiding it, and wrapping it in a flex
+ * container. Like style patches, elements are re-resolved by selector (with
+ * identity validation) on undo/redo; deleted elements are kept in memory so
+ * undo can put the same node back.
+ */
+
+import type {
+  StructuralPatch,
+  StructuralOperation,
+  PatchError,
+  ElementIdentity,
+  SelectorResolutionResult,
+} from '../shared/types';
+import { findElementBySelector, getStableSelector, TEST_ATTRIBUTES } from '../shared/selector';
+import { computeIdentity, identitiesMatch } from '../shared/identity';
+import { isHTMLElement } from './frames';
+
+/** Elements removed by delete patches, kept for undo (not persisted) */
+const removedElements = new WeakMap<StructuralPatch, Element>();
+
+type StructuralResult = { success: boolean; error?: PatchError };
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toPatchError(resolution: SelectorResolutionResult): PatchError {
+  return {
+    code:
+      resolution.status === 'NOT_FOUND' ? 'ELEMENT_NOT_FOUND' :
+        resolution.status === 'AMBIGUOUS' ? 'ELEMENT_AMBIGUOUS' :
+          'INVALID_SELECTOR',
+    message: resolution.error || 'Unknown error',
+    matchCount: resolution.matchCount,
+  };
+}
+
+function unsupportedTarget(message: string): PatchError {
+  return { code: 'UNSUPPORTED_TARGET', message };
+}
+
+/**
+ * Resolve a selector to a single element, validating identity if provided.
+ */
+function resolveElement(
+  selector: string,
+  expectedIdentity?: ElementIdentity
+): { element: Element | null; error?: PatchError } {
+  const resolution = findElementBySelector(selector);
+  if (resolution.status !== 'OK' || !resolution.element) {
+    return { element: null, error: toPatchError(resolution) };
+  }
+
+  if (expectedIdentity && !identitiesMatch(computeIdentity(resolution.element), expectedIdentity)) {
+    return {
+      element: null,
+      error: {
+        code: 'IDENTITY_MISMATCH',
+        message: 'Element has changed since the structural change was made',
+      },
+    };
+  }
+
+  return { element: resolution.element };
+}
+
+/**
+ * Get the parent an element can be restructured within.
+ * The document's <html> and <body> and shadow root top-level elements have none.
+ */
+function getEditableParent(element: Element): Element | null {
+  const doc = element.ownerDocument;
+  if (element === doc.documentElement || element === doc.body) return null;
+  return element.parentElement;
+}
+
+/**
+ * Get an element's index among its parent's element children.
+ */
+function getElementIndex(element: Element): number {
+  return element.parentElement ? Array.from(element.parentElement.children).indexOf(element) : 0;
+}
+
+/**
+ * Insert an element so it ends up at the given index among the parent's element children.
+ */
+function insertAtIndex(parent: Element, element: Element, index: number): void {
+  element.remove();
+  parent.insertBefore(element, parent.children[index] ?? null);
+}
+
+// ============================================================================
+// Apply
+// ============================================================================
+
+/**
+ * Perform a patch's operation on its (already resolved) element.
+ * Records where the result can be found for undo.
+ */
+function performOperation(patch: StructuralPatch, element: Element): StructuralResult {
+  const parent = getEditableParent(element);
+  if (!parent) {
+    return {
+      success: false,
+      error: unsupportedTarget('The page root and shadow root top-level elements cannot be restructured'),
+    };
+  }
+
+  switch (patch.operation) {
+    case 'move':
+      insertAtIndex(parent, element, patch.toIndex ?? patch.index);
+      patch.resultSelector = getStableSelector(element);
+      break;
+
+    case 'duplicate': {
+      // The copy must not match the original's selectors (or any of its
+      // descendants'), so ids, test attributes and label links are dropped
+      const copy = element.cloneNode(true) as Element;
+      for (const node of [copy, ...Array.from(copy.querySelectorAll('*'))]) {
+        for (const name of ['id', 'for', ...TEST_ATTRIBUTES]) {
+          node.removeAttribute(name);
+        }
+      }
+      element.after(copy);
+      patch.resultSelector = getStableSelector(copy);
+      break;
+    }
+
+    case 'delete':
+      removedElements.set(patch, element);
+      element.remove();
+      break;
+
+    case 'hide':
+      if (!isHTMLElement(element)) {
+        return { success: false, error: unsupportedTarget('Only HTML elements can be hidden') };
+      }
+      patch.previousDisplay = element.style.getPropertyValue('display');
+      patch.previousDisplayPriority = element.style.getPropertyPriority('display');
+      element.style.setProperty('display', 'none', 'important');
+      break;
+
+    case 'wrap': {
+      const wrapper = element.ownerDocument.createElement('div');
+      wrapper.style.display = 'flex';
+      element.before(wrapper);
+      wrapper.appendChild(element);
+      patch.resultSelector = getStableSelector(wrapper);
+      break;
+    }
+  }
+
+  return { success: true };
+}
+
+/**
+ * Apply a structural change to the element matching a selector and build
+ * its history entry (not yet pushed).
+ *
+ * Moves take a sibling to drop next to; dropping an element next to itself
+ * is a no-op and returns no patch.
+ */
+export function applyStructuralPatch(
+  operation: StructuralOperation,
+  selector: string,
+  target?: { selector: string; position: 'before' | 'after' }
+): { success: boolean; patch: StructuralPatch | null; error?: PatchError } {
+  const { element, error } = resolveElement(selector);
+  if (!element) {
+    return { success: false, patch: null, error };
+  }
+
+  const parent = getEditableParent(element);
+  if (!parent) {
+    return { success: false, patch: null, error: unsupportedTarget('The page root cannot be restructured') };
+  }
+
+  const patch: StructuralPatch = {
+    kind: 'structure',
+    operation,
+    selector,
+    parentSelector: getStableSelector(parent),
+    index: getElementIndex(element),
+    timestamp: Date.now(),
+    identityToken: computeIdentity(element),
+  };
+
+  if (operation === 'move') {
+    if (!target) {
+      return { success: false, patch: null, error: unsupportedTarget('A move needs a sibling to drop next to') };
+    }
+    const sibling = resolveElement(target.selector);
+    if (!sibling.element) {
+      return { success: false, patch: null, error: sibling.error };
+    }
+    if (sibling.element.parentElement !== parent) {
+      return {
+        success: false,
+        patch: null,
+        error: unsupportedTarget('Elements can only be reordered among their siblings'),
+      };
+    }
+
+    // Index among the siblings once the element is taken out
+    const siblings = Array.from(parent.children).filter(child => child !== element);
+    const siblingIndex = siblings.indexOf(sibling.element);
+    patch.toIndex = target.position === 'after' ? siblingIndex + 1 : siblingIndex;
+    if (sibling.element === element || patch.toIndex === patch.index) {
+      return { success: false, patch: null };
+    }
+  }
+
+  const result = performOperation(patch, element);
+  if (!result.success) {
+    return { success: false, patch: null, error: result.error };
+  }
+  return { success: true, patch };
+}
+
+// ============================================================================
+// Undo / Redo
+// ============================================================================
+
+/**
+ * Revert a structural patch.
+ */
+export function revertStructuralPatch(patch: StructuralPatch): StructuralResult {
+  if (patch.operation === 'delete') {
+    const element = removedElements.get(patch);
+    if (!element) {
+      return {
+        success: false,
+        error: {
+          code: 'ELEMENT_NOT_FOUND',
+          message: 'The removed element is no longer available (the page was reloaded)',
+        },
+      };
+    }
+    const parent = resolveElement(patch.parentSelector);
+    if (!parent.element) {
+      return { success: false, error: parent.error };
+    }
+    insertAtIndex(parent.element, element, patch.index);
+    removedElements.delete(patch);
+    return { success: true };
+  }
+
+  // A wrapper has no identity of its own; other results keep the element's identity
+  const resultSelector = patch.resultSelector ?? patch.selector;
+  const { element, error } = resolveElement(
+    resultSelector,
+    patch.operation === 'wrap' ? undefined : patch.identityToken
+  );
+  if (!element) {
+    return { success: false, error };
+  }
+
+  switch (patch.operation) {
+    case 'move': {
+      const parent = getEditableParent(element);
+      if (!parent) {
+        return { success: false, error: unsupportedTarget('The moved element has no parent') };
+      }
+      insertAtIndex(parent, element, patch.index);
+      break;
+    }
+
+    case 'duplicate':
+      element.remove();
+      break;
+
+    case 'hide':
+      if (!isHTMLElement(element)) {
+        return { success: false, error: unsupportedTarget('Only HTML elements can be hidden') };
+      }
+      if (patch.previousDisplay) {
+        element.style.setProperty('display', patch.previousDisplay, patch.previousDisplayPriority ?? '');
+      } else {
+        element.style.removeProperty('display');
+      }
+      break;
+
+    case 'wrap':
+      element.replaceWith(...Array.from(element.childNodes));
+      break;
+  }
+
+  return { success: true };
+}
+
+/**
+ * Re-apply a structural patch (for redo and replay after reload).
+ */
+export function reapplyStructuralPatch(patch: StructuralPatch): StructuralResult {
+  const { element, error } = resolveElement(patch.selector, patch.identityToken);
+  if (!element) {
+    return { success: false, error };
+  }
+  return performOperation(patch, element);
+}
+
+/**
+ * Get the selector of the element to select after a structural patch is
+ * applied (or re-applied): the result, or the parent of a deleted element.
+ */
+export function getStructuralResultSelector(patch: StructuralPatch): string {
+  if (patch.operation === 'delete') return patch.parentSelector;
+  return patch.resultSelector ?? patch.selector;
+}
@@ -0,0 +1,118 @@
+/**
+ * Text Patch Module
+ *
+ * Applies and reverts text content edits made with the in-page text editor.
+ * Only the element's first meaningful direct text node is replaced, so child
+ * elements (icons, links, badges) survive the edit.
+ *
+ * Identity tokens include a text preview, which is exactly what a text edit
+ * changes, so text patches match identity on tag, classes and parent only.
+ */
+
+import type { TextPatch, PatchError, ElementIdentity, SelectorResolutionResult } from '../shared/types';
+import { findElementBySelector } from '../shared/selector';
+import { computeIdentity, identitiesMatch } from '../shared/identity';
+
+type TextPatchResult = { success: boolean; error?: PatchError };
+
+/**
+ * Get the element's meaningful direct text nodes (whitespace-only nodes skipped).
+ */
+function getTextNodes(element: Element): ChildNode[] {
+  return Array.from(element.childNodes).filter(
+    node => node.nodeType === Node.TEXT_NODE && node.textContent?.trim()
+  );
+}
+
+/**
+ * Get the text an edit would replace: the first meaningful direct text node.
+ */
+function getEditableText(element: Element): string {
+  return getTextNodes(element)[0]?.textContent ?? '';
+}
+
+/**
+ * Set an element's text, replacing its first meaningful direct text node.
+ */
+function setElementText(element: Element, text: string): void {
+  const firstTextNode = getTextNodes(element)[0];
+
+  if (firstTextNode) {
+    firstTextNode.textContent = text;
+  } else if (element.childNodes.length === 0) {
+    // Empty element: just set textContent
+    element.textContent = text;
+  } else {
+    // Only child elements: prepend a text node
+    element.insertBefore(element.ownerDocument.createTextNode(text), element.firstChild);
+  }
+}
+
+function matchesIgnoringText(element: Element, expected: ElementIdentity): boolean {
+  return identitiesMatch({ ...computeIdentity(element), textPreview: '' }, { ...expected, textPreview: '' });
+}
+
+function toPatchError(resolution: SelectorResolutionResult): PatchError {
+  return {
+    code:
+      resolution.status === 'NOT_FOUND' ? 'ELEMENT_NOT_FOUND' :
+        resolution.status === 'AMBIGUOUS' ? 'ELEMENT_AMBIGUOUS' :
+          'INVALID_SELECTOR',
+    message: resolution.error || 'Unknown error',
+    matchCount: resolution.matchCount,
+  };
+}
+
+/**
+ * Set the text of the element a patch targets, validating its identity.
+ */
+function setPatchText(patch: TextPatch, text: string): TextPatchResult {
+  const resolution = findElementBySelector(patch.selector);
+  if (resolution.status !== 'OK' || !resolution.element) {
+    return { success: false, error: toPatchError(resolution) };
+  }
+
+  if (patch.identityToken && !matchesIgnoringText(resolution.element, patch.identityToken)) {
+    return {
+      success: false,
+      error: {
+        code: 'IDENTITY_MISMATCH',
+        message: 'Element has changed since the text was edited (classes or parent changed)',
+      },
+    };
+  }
+
+  setElementText(resolution.element, text);
+  return { success: true };
+}
+
+/**
+ * Apply new text to an element and build its history entry (not yet pushed).
+ */
+export function applyTextPatch(element: Element, selector: string, text: string): TextPatch {
+  const previousValue = getEditableText(element);
+  setElementText(element, text);
+
+  return {
+    kind: 'text',
+    selector,
+    value: text,
+    previousValue,
+    timestamp: Date.now(),
+    identityToken: computeIdentity(element),
+  };
+}
+
+/**
+ * Revert a text patch by restoring the previous text.
+ */
+export function revertTextPatch(patch: TextPatch): TextPatchResult {
+  return setPatchText(patch, patch.previousValue);
+}
+
+/**
+ * Re-apply a text patch (for redo and replay after reload).
+ */
+export function reapplyTextPatch(patch: TextPatch): TextPatchResult {
+  return setPatchText(patch, patch.value);
+}
@@ -0,0 +1,74 @@
+/**
+ * Responsive Breakpoints
+ *
+ * Breakpoints a style patch can be scoped to. Patches are mobile-first:
+ * a breakpoint patch applies from its min-width upward.
+ */
+
+export type BreakpointId = 'sm' | 'md' | 'lg' | 'xl';
+
+export interface Breakpoint {
+  id: BreakpointId;
+  label: string;
+  minWidth: number;
+}
+
+export const BREAKPOINTS: Breakpoint[] = [
+  { id: 'sm', label: 'Small', minWidth: 640 },
+  { id: 'md', label: 'Medium', minWidth: 768 },
+  { id: 'lg', label: 'Large', minWidth: 1024 },
+  { id: 'xl', label: 'Extra large', minWidth: 1280 },
+];
+
+/**
+ * Get the media condition for a breakpoint, e.g. "(min-width: 768px)".
+ */
+export function getBreakpointMedia(id: BreakpointId): string {
+  const breakpoint = BREAKPOINTS.find(b => b.id === id);
+  return breakpoint ? `(min-width: ${breakpoint.minWidth}px)` : '';
+}
+
+/**
+ * Find the breakpoint a media condition was created from, if any.
+ */
+export function getBreakpointForMedia(media: string): Breakpoint | null {
+  return BREAKPOINTS.find(b => getBreakpointMedia(b.id) === media) ?? null;
+}
+
+/**
+ * Human-readable description of a patch's media scope.
+ */
+export function describeMedia(media?: string): string {
+  if (!media) return 'All viewports';
+  const breakpoint = getBreakpointForMedia(media);
+  return breakpoint ? `${breakpoint.id} (≥${breakpoint.minWidth}px) — @media ${media}` : `@media ${media}`;
+}
+
+/**
+ * Sort key for grouping patches by breakpoint (base styles first, then ascending min-width).
+ */
+function getMediaSortKey(media?: string): number {
+  if (!media) return 0;
+  const match = media.match(/min-width:\s*(\d+(?:\.\d+)?)px/);
+  return match ? Number(match[1]) : Number.MAX_SAFE_INTEGER;
+}
+
+/**
+ * Group items by media condition, base (unscoped) group first,
+ * then breakpoints in ascending min-width order.
+ */
+export function groupByMedia<T extends { media?: string }>(
+  items: T[]
+): Array<{ media?: string; items: T[] }> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = item.media ?? '';
+    const existing = groups.get(key) || [];
+    existing.push(item);
+    groups.set(key, existing);
+  }
+
+  return Array.from(groups.entries())
+    .map(([media, groupItems]) => ({ media: media || undefined, items: groupItems }))
+    .sort((a, b) => getMediaSortKey(a.media) - getMediaSortKey(b.media));
+}
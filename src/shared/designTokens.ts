@@ -0,0 +1,168 @@
+/**
+ * Design Token Suggestions
+ *
+ * Finds the page's design token (a custom property defined on :root) closest
+ * to an edited value, so spacing, radius, font-size and color patches can be
+ * handed off as tokens instead of raw px/rgb values.
+ *
+ * Tokens are scanned in the content script (see content/designTokens.ts);
+ * matching is pure so the export and the side panel share it.
+ */
+
+import type { DesignToken, TokenSuggestion } from './types';
+import { toKebabCase } from './handoff';
+
+/** Root font size used to compare rem values */
+const ROOT_FONT_SIZE_PX = 16;
+
+/** Largest length difference still suggested: max(absolute px, fraction of the value) */
+const MAX_LENGTH_DISTANCE_PX = 2;
+const MAX_LENGTH_DISTANCE_RATIO = 0.15;
+
+/** Largest RGB distance (0–441) still suggested for colors */
+const MAX_COLOR_DISTANCE = 24;
+
+/**
+ * Token name fragments that mark a token as meant for a property group.
+ * Tokens of the right group are preferred; others are only a fallback.
+ */
+const TOKEN_NAME_HINTS: Record<'spacing' | 'radius' | 'fontSize' | 'size', RegExp> = {
+  spacing: /space|spacing|gap|gutter|inset|padding|margin/i,
+  radius: /radius|rounded|corner/i,
+  fontSize: /font-size|text|fs-|type|heading/i,
+  size: /size|width|height|space|spacing/i,
+};
+
+const LENGTH_PROPERTY_GROUPS: Record<string, keyof typeof TOKEN_NAME_HINTS> = {
+  padding: 'spacing', 'padding-top': 'spacing', 'padding-right': 'spacing',
+  'padding-bottom': 'spacing', 'padding-left': 'spacing',
+  margin: 'spacing', 'margin-top': 'spacing', 'margin-right': 'spacing',
+  'margin-bottom': 'spacing', 'margin-left': 'spacing',
+  gap: 'spacing', 'row-gap': 'spacing', 'column-gap': 'spacing',
+  top: 'spacing', right: 'spacing', bottom: 'spacing', left: 'spacing',
+  'border-radius': 'radius', 'border-top-left-radius': 'radius', 'border-top-right-radius': 'radius',
+  'border-bottom-right-radius': 'radius', 'border-bottom-left-radius': 'radius',
+  'font-size': 'fontSize',
+  width: 'size', height: 'size', 'min-width': 'size', 'max-width': 'size',
+  'min-height': 'size', 'max-height': 'size',
+};
+
+const COLOR_PROPERTIES = ['color', 'background-color', 'border-color', 'outline-color', 'fill', 'stroke'];
+
+// ============================================================================
+// Value Parsing
+// ============================================================================
+
+/**
+ * Parse a CSS color (hex, rgb(), rgba()) into RGBA components.
+ */
+export function parseColor(value: string): [number, number, number, number] | null {
+  const hex = value.match(/^#([0-9a-f]{3,8})$/i)?.[1];
+  if (hex && [3, 4, 6, 8].includes(hex.length)) {
+    const digits = hex.length <= 4 ? hex.split('').map(d => d + d) : hex.match(/../g)!;
+    const [r, g, b, a = 'ff'] = digits;
+    return [parseInt(r, 16), parseInt(g, 16), parseInt(b, 16), Math.round((parseInt(a, 16) / 255) * 100) / 100];
+  }
+
+  const rgb = value.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/i);
+  if (rgb) {
+    const alpha = rgb[4] === undefined ? 1 : rgb[4].endsWith('%') ? parseFloat(rgb[4]) / 100 : parseFloat(rgb[4]);
+    return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3]), Math.round(alpha * 100) / 100];
+  }
+
+  if (value.toLowerCase() === 'transparent') return [0, 0, 0, 0];
+  return null;
+}
+
+/**
+ * Parse a px or rem length into px.
+ */
+export function parseLengthPx(value: string): number | null {
+  const match = value.trim().match(/^(-?[\d.]+)(px|rem)$/i);
+  if (!match) return null;
+  return parseFloat(match[1]) * (match[2].toLowerCase() === 'rem' ? ROOT_FONT_SIZE_PX : 1);
+}
+
+// ============================================================================
+// Suggestion
+// ============================================================================
+
+/**
+ * Prefer tokens whose name marks them for the property's group; fall back to
+ * every token of the right kind when none do.
+ */
+function getCandidates(tokens: DesignToken[], kind: DesignToken['kind'], hint?: RegExp): DesignToken[] {
+  const ofKind = tokens.filter(token => token.kind === kind);
+  if (!hint) return ofKind;
+  const hinted = ofKind.filter(token => hint.test(token.name));
+  return hinted.length > 0 ? hinted : ofKind;
+}
+
+/**
+ * Negative lengths (e.g. pulled-in margins) get no suggestion: the token
+ * holds the positive length, so using it as is would flip the direction.
+ */
+function suggestLengthToken(value: string, tokens: DesignToken[], hint: RegExp): TokenSuggestion | null {
+  const px = parseLengthPx(value);
+  if (px === null || px <= 0) return null;
+
+  let best: { token: DesignToken; distance: number } | null = null;
+  for (const token of getCandidates(tokens, 'length', hint)) {
+    const tokenPx = parseLengthPx(token.resolvedValue);
+    if (tokenPx === null) continue;
+    const distance = Math.abs(tokenPx - px);
+    if (!best || distance < best.distance) best = { token, distance };
+  }
+
+  const maxDistance = Math.max(MAX_LENGTH_DISTANCE_PX, px * MAX_LENGTH_DISTANCE_RATIO);
+  if (!best || best.distance > maxDistance) return null;
+  return {
+    name: best.token.name,
+    value: best.token.resolvedValue,
+    exact: best.distance < 0.01,
+  };
+}
+
+function suggestColorToken(value: string, tokens: DesignToken[]): TokenSuggestion | null {
+  const color = parseColor(value);
+  if (!color || color[3] === 0) return null;
+
+  let best: { token: DesignToken; distance: number } | null = null;
+  for (const token of getCandidates(tokens, 'color')) {
+    const tokenColor = parseColor(token.resolvedValue);
+    if (!tokenColor || tokenColor[3] !== color[3]) continue;
+    const distance = Math.hypot(tokenColor[0] - color[0], tokenColor[1] - color[1], tokenColor[2] - color[2]);
+    if (!best || distance < best.distance) best = { token, distance };
+  }
+
+  if (!best || best.distance > MAX_COLOR_DISTANCE) return null;
+  return {
+    name: best.token.name,
+    value: best.token.resolvedValue,
+    exact: best.distance < 1,
+  };
+}
+
+/**
+ * Suggest the design token nearest to a patched value, or null if no token is
+ * close enough (or the value already uses a token).
+ *
+ * @param property - CSS property, camelCase or kebab-case
+ * @param value - The patched value
+ * @param tokens - Tokens scanned from the page
+ */
+export function suggestDesignToken(
+  property: string,
+  value: string,
+  tokens: DesignToken[]
+): TokenSuggestion | null {
+  if (tokens.length === 0 || value.includes('var(')) return null;
+
+  const kebab = toKebabCase(property);
+  if (COLOR_PROPERTIES.includes(kebab)) {
+    return suggestColorToken(value.trim(), tokens);
+  }
+
+  const group = LENGTH_PROPERTY_GROUPS[kebab];
+  return group ? suggestLengthToken(value, tokens, TOKEN_NAME_HINTS[group]) : null;
+}
@@ -13,11 +13,21 @@ import type {
   HandoffStylePatch,
   VisualUIInspectorExport,
   FinalPatch,
+  StructuralPatch,
+  FinalStructuralChange,
+  TextPatch,
+  FinalTextChange,
+  AttributePatch,
+  FinalAttributeChange,
   SelectorConfidence,
   ExportWarning,
   Viewport,
+  DesignToken,
 } from './types';
-import { EXPORT_SCHEMA_VERSION } from './types';
+import { EXPORT_SCHEMA_VERSION, isTextPatch } from './types';
+import { groupByMedia } from './breakpoints';
+import { suggestDesignToken } from './designTokens';
+import { isShadowSelector, getFramePath, SHADOW_HOP } from './selector';
 
 // ============================================================================
 // Selector Analysis
@@ -140,20 +150,29 @@ export function filterValidPatches(patches: StylePatch[]): HandoffStylePatch[] {
 // ============================================================================
 
 /**
- * Collapse patch history into FinalPatches (one per selector+property).
- * removes intermediate steps (e.g. slider drag values) and no-op changes.
+ * Get the key patches are collapsed by: text edits per element, style
+ * changes per "selector|property|mode|state|media" (each scope is a separate change).
  */
-function collapsePatches(patches: StylePatch[]): StylePatch[] {
-  const grouped = new Map<string, StylePatch[]>();
+function getCollapseKey(p: StylePatch | TextPatch): string {
+  if (isTextPatch(p)) return `${p.selector}|text`;
+  return `${p.selector}|${String(p.property)}|${p.mode ?? 'inline'}|${p.state ?? ''}|${p.media ?? ''}`;
+}
+
+/**
+ * Collapse patch history into final changes (one per selector+property, or
+ * one per selector for text edits).
+ * removes intermediate steps (e.g. slider drag values, retyped text) and no-op changes.
+ */
+function collapsePatches<T extends StylePatch | TextPatch>(patches: T[]): T[] {
+  const grouped = new Map<string, T[]>();
 
-  // Group by "selector|property"
   for (const p of patches) {
-    const key = `${p.selector}|${String(p.property)}`;
+    const key = getCollapseKey(p);
     if (!grouped.has(key)) grouped.set(key, []);
     grouped.get(key)!.push(p);
   }
 
-  const finalPatches: StylePatch[] = [];
+  const finalPatches: T[] = [];
 
   for (const group of grouped.values()) {
     // 1. Sort by timestamp (asc) to find chronological order
@@ -174,11 +193,11 @@ function collapsePatches(patches: StylePatch[]): StylePatch[] {
     // 4. Construct collapsed patch
     // We use 'last' as base to keep latest metadata (timestamp, identity)
     // But we overwrite previousValue with the earliest baseline.
-    const collapsed: StylePatch & { stepsCollapsed: number } = {
+    // (stepsCollapsed is an ad-hoc property for the export payload)
+    const collapsed = {
       ...last,
       previousValue: first.previousValue,
       value: last.value,
-      // @ts-ignore: Adding ad-hoc property for export payload
       stepsCollapsed: Math.max(0, group.length - 1)
     };
 
@@ -197,9 +216,10 @@ function collapsePatches(patches: StylePatch[]): StylePatch[] {
 
 /**
  * Convert camelCase property name to kebab-case CSS property.
+ * Custom properties (--brandColor) are case-sensitive and kept as they are.
  */
 export function toKebabCase(str: string): string {
-  return str.replace(/([A-Z])/g, '-$1').toLowerCase();
+  return str.startsWith('--') ? str : str.replace(/([A-Z])/g, '-$1').toLowerCase();
 }
 
 // ============================================================================
@@ -213,6 +233,7 @@ export function toFinalPatch(
   patch: HandoffStylePatch,
   selectorConfidence: SelectorConfidence
 ): FinalPatch {
+  const frame = getFramePath(patch.selector);
   return {
     selector: patch.selector,
     property: toKebabCase(String(patch.property)),
@@ -220,6 +241,148 @@ export function toFinalPatch(
     finalValue: patch.value,
     selectorConfidence,
     capturedAt: new Date(patch.timestamp).toISOString(),
+    mode: patch.mode ?? 'inline',
+    ...(patch.state && { state: patch.state }),
+    ...(patch.media && { media: patch.media }),
+    ...(frame && { frame }),
+    ...(patch.reanchoredFrom && { reanchoredFrom: patch.reanchoredFrom }),
+  };
+}
+
+/**
+ * Describe a structural change in words, for the export and the prompt.
+ */
+function describeStructuralChange(patch: StructuralPatch): string {
+  switch (patch.operation) {
+    case 'move':
+      return `Move the element from position ${patch.index + 1} to position ${(patch.toIndex ?? patch.index) + 1} among the children of ${patch.parentSelector}`;
+    case 'duplicate':
+      return 'Duplicate the element, inserting the copy right after it';
+    case 'delete':
+      return 'Remove the element';
+    case 'hide':
+      return 'Stop rendering the element (remove it or render it conditionally)';
+    case 'wrap':
+      return 'Wrap the element in a new flex container (display: flex)';
+  }
+}
+
+/**
+ * Convert an internal StructuralPatch to an Export Schema v1 FinalStructuralChange.
+ */
+export function toFinalStructuralChange(patch: StructuralPatch): FinalStructuralChange {
+  const frame = getFramePath(patch.selector);
+  return {
+    operation: patch.operation,
+    selector: patch.selector,
+    parentSelector: patch.parentSelector,
+    fromIndex: patch.index,
+    ...(patch.operation === 'move' && patch.toIndex !== undefined && { toIndex: patch.toIndex }),
+    description: describeStructuralChange(patch),
+    capturedAt: new Date(patch.timestamp).toISOString(),
+    ...(frame && { frame }),
+  };
+}
+
+/**
+ * Convert an internal TextPatch to an Export Schema v1 FinalTextChange.
+ * Whitespace is collapsed the way the browser renders it.
+ */
+export function toFinalTextChange(patch: TextPatch): FinalTextChange {
+  const frame = getFramePath(patch.selector);
+  return {
+    selector: patch.selector,
+    originalText: patch.previousValue.trim().replace(/\s+/g, ' '),
+    finalText: patch.value.trim().replace(/\s+/g, ' '),
+    capturedAt: new Date(patch.timestamp).toISOString(),
+    ...(frame && { frame }),
+  };
+}
+
+/**
+ * Describe a class or attribute change in words, e.g. "add class `px-4`".
+ */
+export function describeAttributeChange(
+  change: Pick<FinalAttributeChange, 'operation' | 'name' | 'value'>
+): string {
+  switch (change.operation) {
+    case 'addClass':
+      return `add class \`${change.name}\``;
+    case 'removeClass':
+      return `remove class \`${change.name}\``;
+    case 'set':
+      return `set ${change.name}="${change.value ?? ''}"`;
+    case 'remove':
+      return `remove attribute ${change.name}`;
+  }
+}
+
+/**
+ * Collapse class and attribute patches into their net effect: one change per
+ * element and class (or attribute). Toggling a class on and back off, or
+ * setting an attribute back to its original value, drops out entirely.
+ *
+ * A change can give its element a new selector (e.g. setting its id); later
+ * changes are recorded under that one. resultSelector chains are followed
+ * back, so each element's changes are grouped and exported under the
+ * selector it had before any of them.
+ */
+function collapseAttributePatches(patches: AttributePatch[]): AttributePatch[] {
+  const grouped = new Map<string, AttributePatch[]>();
+  const originalSelectors = new Map<string, string>();
+
+  for (const p of [...patches].sort((a, b) => a.timestamp - b.timestamp)) {
+    const selector = originalSelectors.get(p.selector) ?? p.selector;
+    if (p.resultSelector) originalSelectors.set(p.resultSelector, selector);
+
+    const isClass = p.operation === 'addClass' || p.operation === 'removeClass';
+    const key = `${selector}|${isClass ? 'class' : 'attr'}|${p.name}`;
+    if (!grouped.has(key)) grouped.set(key, []);
+    grouped.get(key)!.push({ ...p, selector });
+  }
+
+  const collapsed: AttributePatch[] = [];
+
+  for (const group of grouped.values()) {
+    group.sort((a, b) => a.timestamp - b.timestamp);
+    const first = group[0];
+    const last = group[group.length - 1];
+
+    if (last.operation === 'addClass' || last.operation === 'removeClass') {
+      // A class ends up as it started if the first and last toggles are opposite
+      if (group.length > 1 && first.operation !== last.operation) continue;
+      collapsed.push(last);
+      continue;
+    }
+
+    const originalValue = first.previousValue ?? null;
+    const finalValue = last.operation === 'set' ? last.value ?? '' : null;
+    if (originalValue === finalValue) continue;
+
+    collapsed.push({
+      ...last,
+      operation: finalValue === null ? 'remove' : 'set',
+      previousValue: originalValue,
+    });
+  }
+
+  return collapsed.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Convert an internal AttributePatch to an Export Schema v1 FinalAttributeChange.
+ */
+export function toFinalAttributeChange(patch: AttributePatch): FinalAttributeChange {
+  const frame = getFramePath(patch.selector);
+  const isClass = patch.operation === 'addClass' || patch.operation === 'removeClass';
+  return {
+    operation: patch.operation,
+    selector: patch.selector,
+    name: patch.name,
+    ...(patch.operation === 'set' && { value: patch.value ?? '' }),
+    ...(!isClass && { originalValue: patch.previousValue ?? null }),
+    capturedAt: new Date(patch.timestamp).toISOString(),
+    ...(frame && { frame }),
   };
 }
 
@@ -233,6 +396,10 @@ export function toFinalPatch(
  * @param selectorStatus - Resolution status of the selector
  * @param matchCount - Number of elements matching the selector
  * @param identityMatch - Whether element identity matches patches
+ * @param structuralPatches - DOM structure changes, oldest first
+ * @param textPatches - Text content edits, oldest first
+ * @param attributePatches - Class and attribute changes, oldest first
+ * @param designTokens - Tokens defined on the page's :root, for token suggestions
  * @returns Complete VisualUIInspectorExport
  */
 export function createExportSchemaV1(
@@ -241,26 +408,41 @@ export function createExportSchemaV1(
   patches: StylePatch[],
   selectorStatus: SelectorResolutionStatus,
   matchCount: number,
-  identityMatch: boolean
+  identityMatch: boolean,
+  structuralPatches: StructuralPatch[] = [],
+  textPatches: TextPatch[] = [],
+  attributePatches: AttributePatch[] = [],
+  designTokens: DesignToken[] = []
 ): VisualUIInspectorExport {
   const now = new Date().toISOString();
   // Collapse patches first to remove noise, then filter for validity
   const collapsedPatches = collapsePatches(patches);
   const validPatches = filterValidPatches(collapsedPatches);
+  const textChanges = collapsePatches(textPatches).map(toFinalTextChange);
+  const attributeChanges = collapseAttributePatches(attributePatches).map(toFinalAttributeChange);
 
   // Compute confidence for each patch's selector
   const finalPatches: FinalPatch[] = validPatches.map((patch) => {
     const confidence = computeSelectorConfidence(patch.selector, matchCount);
-    return toFinalPatch(patch, confidence);
+    const finalPatch = toFinalPatch(patch, confidence);
+    // Tokens are scanned from the top document, so skip elements inside iframes
+    const suggestedToken = finalPatch.frame
+      ? null
+      : suggestDesignToken(finalPatch.property, finalPatch.finalValue, designTokens);
+    return suggestedToken ? { ...finalPatch, suggestedToken } : finalPatch;
   });
 
+  // Order patches by breakpoint (all viewports first, then ascending min-width)
+  const groupedPatches = groupByMedia(finalPatches).flatMap(group => group.items);
+
   // Generate warnings based on conditions
   const warnings = generateWarnings(
     validPatches.map(p => p.selector),
     selectorStatus,
     matchCount,
     identityMatch,
-    viewport
+    viewport,
+    validPatches.filter(p => p.reanchoredFrom)
   );
 
   return {
@@ -268,7 +450,12 @@ export function createExportSchemaV1(
     capturedAt: now,
     pageUrl,
     viewport,
-    patches: finalPatches,
+    patches: groupedPatches,
+    ...(structuralPatches.length > 0 && {
+      structuralChanges: structuralPatches.map(toFinalStructuralChange),
+    }),
+    ...(textChanges.length > 0 && { textChanges }),
+    ...(attributeChanges.length > 0 && { attributeChanges }),
     warnings,
   };
 }
@@ -283,7 +470,8 @@ export function generateWarnings(
   selectorStatus: SelectorResolutionStatus,
   matchCount: number,
   identityMatch: boolean,
-  viewport: Viewport
+  viewport: Viewport,
+  reanchoredPatches: Pick<StylePatch, 'selector' | 'reanchoredFrom'>[] = []
 ): ExportWarning[] {
   const warnings: ExportWarning[] = [];
 
@@ -334,6 +522,26 @@ export function generateWarnings(
     });
   }
 
+  // Check for selectors that cross shadow roots
+  const shadowSelectors = selectors.filter(isShadowSelector);
+  if (shadowSelectors.length > 0) {
+    warnings.push({
+      code: 'SHADOW_DOM_TARGET',
+      message: `Element lives inside a shadow root. Segments joined by "${SHADOW_HOP.trim()}" are separate tree scopes; apply the changes inside the web component's own styles.`,
+      affectedSelectors: shadowSelectors,
+    });
+  }
+
+  // Check for patches re-targeted after their selector broke
+  if (reanchoredPatches.length > 0) {
+    const moves = Array.from(new Set(reanchoredPatches.map(p => `${p.reanchoredFrom} → ${p.selector}`)));
+    warnings.push({
+      code: 'ELEMENT_REANCHORED',
+      message: `Selector no longer matched the original element; it was re-anchored by fuzzy identity matching (${moves.join('; ')}). Verify the target before applying.`,
+      affectedSelectors: Array.from(new Set(reanchoredPatches.map(p => p.selector))),
+    });
+  }
+
   // Check for viewport mismatch (common breakpoints: 320, 375, 768, 1024, 1280, 1440, 1920)
   const commonWidths = [320, 375, 768, 1024, 1280, 1440, 1920];
   const isNearCommonBreakpoint = commonWidths.some(
@@ -399,28 +607,49 @@ export function generateExportSchemaV1JSON(
 // ============================================================================
 
 /**
- * Generate a CSS diff string showing property changes.
- * Format: selector { property: value; }
+ * Generate CSS rule blocks for patches, grouped by selector (and pseudo-class state).
  */
-export function generateCSSDiff(patches: FinalPatch[]): string {
-  if (patches.length === 0) {
-    return '/* No changes */';
-  }
-
-  // Group patches by selector
+function generateRuleBlocks(patches: FinalPatch[], indent: string): string[] {
   const bySelector = new Map<string, FinalPatch[]>();
   for (const patch of patches) {
-    const existing = bySelector.get(patch.selector) || [];
+    const ruleSelector = patch.state ? `${patch.selector}:${patch.state}` : patch.selector;
+    const existing = bySelector.get(ruleSelector) || [];
     existing.push(patch);
-    bySelector.set(patch.selector, existing);
+    bySelector.set(ruleSelector, existing);
   }
 
   const lines: string[] = [];
   for (const [selector, selectorPatches] of bySelector) {
-    lines.push(`${selector} {`);
+    lines.push(`${indent}${selector} {`);
     for (const patch of selectorPatches) {
-      lines.push(`  ${patch.property}: ${patch.finalValue};`);
+      lines.push(`${indent}  ${patch.property}: ${patch.finalValue};`);
+    }
+    lines.push(`${indent}}`);
+    lines.push('');
+  }
+  return lines;
+}
+
+/**
+ * Generate a CSS diff string showing property changes.
+ * Format: selector { property: value; }
+ * Breakpoint-scoped patches are wrapped in their @media block.
+ */
+export function generateCSSDiff(patches: FinalPatch[]): string {
+  if (patches.length === 0) {
+    return '/* No changes */';
+  }
+
+  const lines: string[] = [];
+  for (const group of groupByMedia(patches)) {
+    if (!group.media) {
+      lines.push(...generateRuleBlocks(group.items, ''));
+      continue;
     }
+    lines.push(`@media ${group.media} {`);
+    const blocks = generateRuleBlocks(group.items, '  ');
+    blocks.pop(); // Drop trailing blank line inside the @media block
+    lines.push(...blocks);
     lines.push('}');
     lines.push('');
   }
@@ -435,7 +664,9 @@ export function generateChangeSummary(patches: FinalPatch[]): string {
   if (patches.length === 0) return 'No changes';
   if (patches.length === 1) {
     const p = patches[0];
-    return `${p.property}: ${p.originalValue ?? 'unset'} → ${p.finalValue}`;
+    const stateSuffix = p.state ? ` on ${p.state}` : '';
+    const mediaSuffix = p.media ? ` @media ${p.media}` : '';
+    return `${p.property}: ${p.originalValue ?? 'unset'} → ${p.finalValue}${stateSuffix}${mediaSuffix}`;
   }
   return `${patches.length} property changes`;
 }
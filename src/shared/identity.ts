@@ -37,3 +37,43 @@ export function identitiesMatch(a: ElementIdentity, b: ElementIdentity): boolean
         a.parentTag === b.parentTag
     );
 }
+
+/**
+ * Weights of each identity field when scoring a fuzzy match (sum to 1).
+ */
+const IDENTITY_WEIGHTS = {
+    textPreview: 0.45,
+    classList: 0.4,
+    parentTag: 0.15,
+};
+
+/**
+ * Jaccard similarity of two whitespace-separated token lists.
+ * Two empty lists are considered identical.
+ */
+function tokenSimilarity(a: string, b: string): number {
+    const tokensA = new Set(a.split(/\s+/).filter(Boolean));
+    const tokensB = new Set(b.split(/\s+/).filter(Boolean));
+    if (tokensA.size === 0 && tokensB.size === 0) return 1;
+
+    let shared = 0;
+    for (const token of tokensA) {
+        if (tokensB.has(token)) shared++;
+    }
+    return shared / (tokensA.size + tokensB.size - shared);
+}
+
+/**
+ * Score how closely an identity token matches an expected one, from 0 to 1.
+ * The tag name must match; text, classes and parent tag are weighted so an
+ * element whose text was edited or that gained a class still scores well.
+ */
+export function scoreIdentityMatch(candidate: ElementIdentity, expected: ElementIdentity): number {
+    if (candidate.tagName !== expected.tagName) return 0;
+
+    return (
+        IDENTITY_WEIGHTS.textPreview * tokenSimilarity(candidate.textPreview, expected.textPreview) +
+        IDENTITY_WEIGHTS.classList * tokenSimilarity(candidate.classList, expected.classList) +
+        IDENTITY_WEIGHTS.parentTag * (candidate.parentTag === expected.parentTag ? 1 : 0)
+    );
+}
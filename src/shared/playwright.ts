@@ -0,0 +1,304 @@
+/**
+ * Playwright Test Export
+ *
+ * Turns a VisualUIInspectorExport into a Playwright visual regression spec:
+ * each patched element is located and its computed style is asserted to
+ * equal the captured final value, at the recorded viewport (or the width a
+ * breakpoint patch needs).
+ *
+ * Expected values are resolved in the browser by applying the final value to
+ * a hidden sibling of the element, so "1rem", "#fff" or "var(--space-4)"
+ * compare equal to the "16px" / "rgb(255, 255, 255)" getComputedStyle returns.
+ *
+ * Locators prefer getByTestId, then role + accessible name for selectors
+ * that are not high confidence; low-confidence selectors get a comment.
+ */
+
+import type { FinalPatch, PseudoState, SelectorConfidence, VisualUIInspectorExport, Viewport } from './types';
+import { groupByMedia, describeMedia } from './breakpoints';
+import { FRAME_HOP, SHADOW_HOP, usesPositionalSelector } from './selector';
+
+/**
+ * Role and accessible name of an element, when they identify it uniquely.
+ * Collected in the content script, keyed by selector.
+ */
+export interface RoleLocatorHint {
+  role: string;
+  name: string;
+}
+
+const TEST_ID_PATTERN = /^\[data-testid="((?:[^"\\]|\\.)*)"\]$/;
+
+// ============================================================================
+// Code Helpers
+// ============================================================================
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+function unescapeCSS(value: string): string {
+  return value.replace(/\\(.)/g, '$1');
+}
+
+/**
+ * Playwright's CSS engine pierces open shadow roots, so shadow hops become
+ * plain descendant combinators.
+ */
+function toPlaywrightCSS(selector: string): string {
+  return selector.split(SHADOW_HOP).join(' ');
+}
+
+// ============================================================================
+// Locators
+// ============================================================================
+
+function describeLowConfidence(selector: string): string {
+  return usesPositionalSelector(selector)
+    ? 'positional selector, breaks if the DOM order changes'
+    : 'generic selector that may match other elements';
+}
+
+/**
+ * Build the locator expression for a selector, plus a comment when the
+ * selector is unlikely to survive refactoring.
+ */
+export function toLocatorExpression(
+  selector: string,
+  confidence: SelectorConfidence,
+  hint?: RoleLocatorHint
+): { expression: string; comment?: string } {
+  const frames = selector.split(FRAME_HOP);
+  const local = frames.pop() ?? selector;
+  const root = 'page' + frames.map(frame => `.frameLocator(${quote(toPlaywrightCSS(frame))})`).join('');
+
+  // The innermost tree scope decides: only a bare test id maps to getByTestId
+  const localScope = local.split(SHADOW_HOP);
+  const testId = localScope.length === 1 ? local.match(TEST_ID_PATTERN)?.[1] : undefined;
+  if (testId !== undefined) {
+    return { expression: `${root}.getByTestId(${quote(unescapeCSS(testId))})` };
+  }
+
+  if (hint && confidence !== 'high') {
+    return {
+      expression: `${root}.getByRole(${quote(hint.role)}, { name: ${quote(hint.name)}, exact: true })`,
+      comment: `Located by role; the captured selector was ${selector}`,
+    };
+  }
+
+  const expression = `${root}.locator(${quote(toPlaywrightCSS(local))})`;
+  if (confidence === 'low') {
+    return {
+      expression,
+      comment: `LOW CONFIDENCE: ${describeLowConfidence(selector)}. Add a data-testid to this element and switch to getByTestId.`,
+    };
+  }
+  return { expression };
+}
+
+// ============================================================================
+// Viewports
+// ============================================================================
+
+/**
+ * Check whether a media condition holds at a viewport width.
+ * Only min-width/max-width conditions are understood; others never match.
+ */
+function mediaMatchesWidth(media: string | undefined, width: number): boolean {
+  if (!media) return true;
+  const conditions = Array.from(media.matchAll(/(min|max)-width:\s*(\d+(?:\.\d+)?)px/g));
+  if (conditions.length === 0) return false;
+  return conditions.every(([, bound, px]) => (bound === 'min' ? width >= Number(px) : width <= Number(px)));
+}
+
+/**
+ * Pick the viewport to test a media group at: the recorded one if the
+ * condition holds there, otherwise the nearest width where it does.
+ */
+function getGroupViewport(media: string | undefined, recorded: Viewport): Viewport {
+  if (!media || mediaMatchesWidth(media, recorded.width)) return recorded;
+  const min = media.match(/min-width:\s*(\d+(?:\.\d+)?)px/);
+  const max = media.match(/max-width:\s*(\d+(?:\.\d+)?)px/);
+  const width = min ? Math.ceil(Number(min[1])) : max ? Math.floor(Number(max[1])) : recorded.width;
+  return { width, height: recorded.height };
+}
+
+/**
+ * Check whether a later breakpoint patch overrides this one at a viewport width,
+ * in which case asserting this patch there would fail.
+ */
+function isOverriddenAt(patch: FinalPatch, patches: FinalPatch[], width: number): boolean {
+  const groups = groupByMedia(patches);
+  const ownIndex = groups.findIndex(group => group.media === patch.media);
+  return groups.slice(ownIndex + 1).some(group =>
+    mediaMatchesWidth(group.media, width) &&
+    group.items.some(other =>
+      other.selector === patch.selector &&
+      other.property === patch.property &&
+      other.state === patch.state
+    )
+  );
+}
+
+// ============================================================================
+// Spec Generation
+// ============================================================================
+
+function getStateSteps(state: PseudoState, target: string): { enter: string[]; leave: string[] } {
+  switch (state) {
+    case 'hover':
+      return { enter: [`await ${target}.hover();`], leave: ['await page.mouse.move(0, 0);'] };
+    case 'active':
+      return {
+        enter: [`await ${target}.hover();`, 'await page.mouse.down();'],
+        leave: ['await page.mouse.up();', 'await page.mouse.move(0, 0);'],
+      };
+    case 'focus':
+      return { enter: [`await ${target}.focus();`], leave: [`await ${target}.blur();`] };
+    case 'focus-visible':
+      // Keyboard focus: Chromium shows :focus-visible after a key press
+      return {
+        enter: ["await page.keyboard.press('Shift');", `await ${target}.focus();`],
+        leave: [`await ${target}.blur();`],
+      };
+  }
+}
+
+const SPEC_HELPERS = `/**
+ * Assert an element's computed style equals the value a declaration computes
+ * to. The expected value is resolved on a hidden sibling with the same tag and
+ * classes, so units, colors and var() references normalize like the actual value.
+ * Stylesheet rules may match several elements: with \`each\`, every match is
+ * checked instead of requiring exactly one.
+ */
+async function expectComputedStyle(target: Locator, property: string, value: string, each = false): Promise<void> {
+  if (each) {
+    expect(await target.count(), \`\${property}: no element matches\`).toBeGreaterThan(0);
+  } else {
+    await expect(target).toHaveCount(1);
+  }
+  for (const element of await target.all()) {
+    const { actual, expected } = await element.evaluate(
+      (node, [prop, val]) => {
+        const probe = node.ownerDocument.createElement(node.tagName);
+        probe.setAttribute('class', node.getAttribute('class') ?? '');
+        probe.setAttribute('aria-hidden', 'true');
+        probe.style.setProperty('visibility', 'hidden');
+        probe.style.setProperty(prop, val);
+        node.parentNode?.insertBefore(probe, node);
+        const expectedValue = getComputedStyle(probe).getPropertyValue(prop);
+        probe.remove();
+        return { actual: getComputedStyle(node).getPropertyValue(prop), expected: expectedValue };
+      },
+      [property, value] as const
+    );
+    expect(actual, \`\${property} should be \${value}\`).toBe(expected);
+  }
+}`;
+
+/**
+ * Generate a Playwright spec asserting every style patch in an export.
+ *
+ * @param exportData - The export to turn into a test
+ * @param roleHints - Role locators for patched elements, by selector
+ */
+export function generatePlaywrightSpec(
+  exportData: VisualUIInspectorExport,
+  roleHints: Record<string, RoleLocatorHint> = {}
+): string {
+  const lines: string[] = [
+    '/**',
+    ' * Visual regression test generated by UI Inspector.',
+    ` * Page: ${exportData.pageUrl}`,
+    ` * Captured: ${exportData.capturedAt} at ${exportData.viewport.width}×${exportData.viewport.height}`,
+    ' */',
+    '',
+    "import { test, expect, type Locator } from '@playwright/test';",
+    '',
+    `const PAGE_URL = ${quote(exportData.pageUrl)};`,
+    '',
+    SPEC_HELPERS,
+    '',
+    "test.describe('captured UI changes', () => {",
+  ];
+
+  if (exportData.patches.length === 0) {
+    lines.push('  // No style changes in this export');
+  }
+
+  groupByMedia(exportData.patches).forEach((group, groupIndex) => {
+    const viewport = getGroupViewport(group.media, exportData.viewport);
+    const title = group.media
+      ? `${describeMedia(group.media)} at ${viewport.width}×${viewport.height}`
+      : `at ${viewport.width}×${viewport.height}`;
+
+    if (groupIndex > 0) lines.push('');
+    lines.push(`  test(${quote(`matches captured styles ${title}`)}, async ({ page }) => {`);
+    if (group.media && !mediaMatchesWidth(group.media, viewport.width)) {
+      lines.push(`    // Could not derive a viewport for @media ${group.media}; check it holds here`);
+    }
+    lines.push(`    await page.setViewportSize({ width: ${viewport.width}, height: ${viewport.height} });`);
+    lines.push('    await page.goto(PAGE_URL);');
+
+    // One block per element and state, in first-seen order
+    const blocks = new Map<string, FinalPatch[]>();
+    for (const patch of group.items) {
+      const key = `${patch.selector}\u0000${patch.state ?? ''}`;
+      blocks.set(key, [...(blocks.get(key) ?? []), patch]);
+    }
+
+    let targetIndex = 0;
+    const targets = new Map<string, string>();
+    for (const patches of blocks.values()) {
+      const { selector, selectorConfidence, state } = patches[0];
+      const asserted = patches.filter(patch => !isOverriddenAt(patch, exportData.patches, viewport.width));
+      lines.push('');
+
+      for (const patch of patches.filter(patch => !asserted.includes(patch))) {
+        lines.push(`    // ${selector} ${patch.property}: ${patch.finalValue} is overridden by a breakpoint patch at this width`);
+      }
+      if (asserted.length === 0) continue;
+
+      let target = targets.get(selector);
+      if (!target) {
+        target = `target${++targetIndex}`;
+        targets.set(selector, target);
+        const locator = toLocatorExpression(selector, selectorConfidence, roleHints[selector]);
+        if (locator.comment) lines.push(`    // ${locator.comment}`);
+        lines.push(`    const ${target} = ${locator.expression};`);
+      }
+
+      // A state is entered on one element, so a stylesheet rule that
+      // matches several is checked on the first of them
+      const hasSheetPatch = asserted.some(patch => patch.mode === 'stylesheet');
+      const stateTarget = hasSheetPatch ? `${target}.first()` : target;
+      const steps = state ? getStateSteps(state, stateTarget) : { enter: [], leave: [] };
+      if (state) lines.push(`    // :${state}`);
+      lines.push(...steps.enter.map(step => `    ${step}`));
+      for (const patch of asserted) {
+        const args = [quote(patch.property), quote(patch.finalValue)];
+        if (state) {
+          lines.push(`    await expectComputedStyle(${stateTarget}, ${args.join(', ')});`);
+        } else {
+          const each = patch.mode === 'stylesheet' ? ', true' : '';
+          lines.push(`    await expectComputedStyle(${target}, ${args.join(', ')}${each});`);
+        }
+      }
+      lines.push(...steps.leave.map(step => `    ${step}`));
+    }
+
+    lines.push('  });');
+  });
+
+  const markupChanges =
+    (exportData.structuralChanges?.length ?? 0) +
+    (exportData.attributeChanges?.length ?? 0) +
+    (exportData.textChanges?.length ?? 0);
+  if (markupChanges > 0) {
+    lines.push('');
+    lines.push(`  // ${markupChanges} structural, class/attribute and text change${markupChanges !== 1 ? 's are' : ' is'} not asserted here`);
+  }
+
+  lines.push('});', '');
+  return lines.join('\n');
+}
@@ -5,43 +5,211 @@
  * how to apply verified visual changes to source code.
  */
 
-import type { VisualUIInspectorExport, FinalPatch } from './types';
+import type {
+  VisualUIInspectorExport,
+  FinalPatch,
+  FinalStructuralChange,
+  FinalTextChange,
+  FinalAttributeChange,
+} from './types';
+import { describeAttributeChange } from './handoff';
+import { describeMedia, groupByMedia } from './breakpoints';
 
 
 
 /**
  * Format patches as human-readable delta list.
  */
-function formatPatchDeltas(patches: FinalPatch[]): string {
+function formatDeltaList(patches: FinalPatch[]): string {
   return patches
-    .map((p) => `- ${p.property}: ${p.originalValue ?? 'null'} → ${p.finalValue}`)
+    .map((p) => {
+      const state = p.state ? ` on ${p.state} (:${p.state} state only, not the base style)` : '';
+      const scope = p.mode === 'stylesheet' ? ` (all elements matching ${p.selector})` : '';
+      const token = !p.suggestedToken
+        ? ''
+        : p.suggestedToken.exact
+          ? ` → use token var(${p.suggestedToken.name})`
+          : ` (optional: nearest token var(${p.suggestedToken.name}) = ${p.suggestedToken.value}, not exact; keep ${p.finalValue})`;
+      return `- ${p.property}: ${p.originalValue ?? 'null'} → ${p.finalValue}${state}${scope}${token}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Format patch deltas, grouped under a heading per breakpoint
+ * when any patch is scoped to a media query.
+ */
+function formatPatchDeltas(patches: FinalPatch[]): string {
+  const groups = groupByMedia(patches);
+  if (groups.length === 1 && !groups[0].media) {
+    return formatDeltaList(patches);
+  }
+
+  return groups
+    .map((group) => `[${describeMedia(group.media)}]\n${formatDeltaList(group.items)}`)
+    .join('\n\n');
+}
+
+/**
+ * Format structural changes as a numbered section, or nothing if there are none.
+ * These are markup edits, so the agent is told not to emulate them with CSS.
+ */
+function formatStructuralChanges(changes: FinalStructuralChange[] | undefined): string {
+  if (!changes || changes.length === 0) return '';
+
+  const list = changes
+    .map((c, i) => `${i + 1}. [${c.operation}] ${c.selector}: ${c.description}`)
+    .join('\n');
+
+  return `
+==================================================
+REQUIRED STRUCTURAL CHANGES (MARKUP / JSX)
+==================================================
+
+Apply these changes to the markup, in order:
+${list}
+
+These are changes to the element tree, not to styles. Move, copy, remove or wrap the JSX/template nodes that render these elements (e.g. reorder the children in the component's render output). Do NOT emulate them with CSS (order, display: none, absolute positioning). Indices count the parent's element children, starting at 0.
+`;
+}
+
+/**
+ * Format text edits as a numbered section, or nothing if there are none.
+ * Copy lives in source strings or translation files, not styles.
+ */
+function formatTextChanges(changes: FinalTextChange[] | undefined): string {
+  if (!changes || changes.length === 0) return '';
+
+  const list = changes
+    .map((c, i) => `${i + 1}. ${c.selector}: "${c.originalText}" → "${c.finalText}"`)
     .join('\n');
+
+  return `
+==================================================
+REQUIRED COPY CHANGES (TEXT CONTENT)
+==================================================
+
+Change the rendered text of these elements:
+${list}
+
+Search the repo for the original text to find where it is defined. If the project uses i18n (locale JSON/YAML files, t('key') / <FormattedMessage> calls), update the string in the locale file for the current language and leave the key unchanged; otherwise edit the string literal in the component. If the original text is assembled from variables or interpolations (e.g. "{count} items"), keep the placeholders and change only the literal parts. Only the element's own text changed; leave its child elements as they are.
+`;
 }
 
 /**
- * Generate the full execution prompt for an AI coding agent.
+ * Format class and attribute changes as a numbered section, or nothing if there are none.
+ * Utility-class projects (e.g. Tailwind) get class edits instead of raw CSS.
  */
-export function generateExecutionPrompt(exportData: VisualUIInspectorExport): string {
-  const { patches, warnings } = exportData;
-  const targetSelector = patches.length > 0 ? patches[0].selector : '(no-selector)';
+function formatAttributeChanges(changes: FinalAttributeChange[] | undefined): string {
+  if (!changes || changes.length === 0) return '';
 
-  // Format the JSON export
-  const jsonExport = JSON.stringify(exportData, null, 2);
+  const list = changes
+    .map((c, i) => {
+      const was = c.operation === 'set' && c.originalValue != null ? ` (was "${c.originalValue}")` : '';
+      return `${i + 1}. ${c.selector}: ${describeAttributeChange(c)}${was}`;
+    })
+    .join('\n');
 
-  // Build stability warning if needed
-  let stabilityWarning = '';
-  if (warnings.length > 0) {
-    const warningText = warnings.map(w => `⚠️ ${w.code}: ${w.message}`).join('\n');
-    stabilityWarning = `\nWARNINGS:\n${warningText}\n`;
+  return `
+==================================================
+REQUIRED CLASS & ATTRIBUTE CHANGES (MARKUP / JSX)
+==================================================
+
+Apply these changes to the element's markup:
+${list}
+
+Add or remove exactly these classes in the element's class/className in the source. If the classes are built with a helper (clsx, cn, classnames, cva variants), edit the argument that produces them rather than appending a new string. Do NOT translate class changes into CSS rules: the classes (e.g. Tailwind utilities) are the intended implementation. Set or remove the listed attributes (aria-*, data-*, etc.) on the same JSX/template node; keep attributes that are computed from props as expressions unless the change clearly replaces them.
+`;
+}
+
+/**
+ * A before/after screenshot, for attaching to a request to a vision model.
+ */
+export interface PromptImage {
+  selector: string;
+  kind: 'before' | 'after';
+  /** PNG data URL */
+  dataUrl: string;
+}
+
+/** Most screenshots attached to one request; providers cap the count per request */
+const MAX_PROMPT_IMAGES = 20;
+
+/**
+ * List an export's screenshots in the order the prompt refers to them, up to
+ * MAX_PROMPT_IMAGES. An element's before/after pair is kept or left out whole.
+ */
+export function getPromptImages(exportData: VisualUIInspectorExport): PromptImage[] {
+  const images: PromptImage[] = [];
+  for (const [selector, pair] of Object.entries(exportData.screenshots ?? {})) {
+    const pairImages: PromptImage[] = [];
+    if (pair.before) pairImages.push({ selector, kind: 'before', dataUrl: pair.before });
+    if (pair.after) pairImages.push({ selector, kind: 'after', dataUrl: pair.after });
+    if (images.length + pairImages.length > MAX_PROMPT_IMAGES) break;
+    images.push(...pairImages);
   }
+  return images;
+}
 
-  // Derive simple hints from selector if possible
-  const idMatch = targetSelector.match(/#([a-zA-Z0-9_-]+)/);
-  const classMatch = targetSelector.match(/\.([a-zA-Z0-9_-]+)/g);
-  const idHint = idMatch ? `ID: #${idMatch[1]}` : '';
-  const classHint = classMatch ? `Classes: ${classMatch.map(c => c.substring(1)).join(', ')}` : '';
+/**
+ * Format the screenshot references as a section, or nothing if there are none.
+ * The images themselves stay out of the prompt text.
+ */
+function formatScreenshotReferences(images: PromptImage[]): string {
+  if (images.length === 0) return '';
+
+  const list = images
+    .map((image, i) => `${i + 1}. ${image.selector}: ${image.kind === 'before' ? 'before (original rendering)' : 'after (with the changes applied)'}`)
+    .join('\n');
+
+  return `
+==================================================
+VISUAL REFERENCE (SCREENSHOTS)
+==================================================
+
+Before/after screenshots of the changed elements were captured. They are in the export file's "screenshots" field, keyed by selector (left out of the JSON above). When they are attached as images, they come in this order:
+${list}
+
+Use them to confirm you found the right element and that your result looks like the "after" image. The values above are authoritative: do not measure sizes or sample colors from the images.
+`;
+}
+
+// ============================================================================
+// Templates
+// ============================================================================
+
+/**
+ * Placeholders a prompt template can use, written {{name}}. Multi-line
+ * values placed on a line of their own keep that line's indentation.
+ */
+export const PROMPT_VARIABLES = {
+  exportJson: 'The export as JSON (screenshots left out)',
+  deltas: 'Style changes as "property: from → to" lines, grouped by breakpoint',
+  warnings: 'Stability warnings, or nothing if there are none',
+  targetSelector: 'Selector of the first changed element',
+  selectorHints: 'Selector, ID and classes to search the repo for',
+  structuralChanges: 'Markup changes section, or nothing',
+  attributeChanges: 'Class and attribute changes section, or nothing',
+  textChanges: 'Copy changes section, or nothing',
+  screenshots: 'Screenshot references section, or nothing',
+  repoContext: "The template's repo notes as a PROJECT CONTEXT section, or nothing",
+} as const;
 
-  return `You are a SENIOR CONTEXT-AWARE CODING AGENT with FULL REPOSITORY ACCESS.
+export type PromptVariable = keyof typeof PROMPT_VARIABLES;
+
+/**
+ * A user-editable execution prompt, stored per origin.
+ */
+export interface PromptTemplate {
+  /** Prompt text with {{variable}} placeholders */
+  body: string;
+  /** Instructions specific to the repo, e.g. "use our Box component props" */
+  repoContext: string;
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z]\w*)\s*\}\}/g;
+
+export const DEFAULT_PROMPT_TEMPLATE = `You are a SENIOR CONTEXT-AWARE CODING AGENT with FULL REPOSITORY ACCESS.
 
 Your job:
 Implement the Visual UI Inspector's captured UI changes into the project's SOURCE CODE (not inline styles), using the repo you have open.
@@ -64,30 +232,38 @@ If anything is ambiguous (multiple candidates, selector not helpful, element app
 - STOP and report the ambiguity
 - Provide 2–3 likely locations and a recommended next step to disambiguate
 - Do NOT guess
-
+{{repoContext}}
 ==================================================
 VISUAL INSPECTOR EXPORT (SOURCE OF TRUTH)
 ==================================================
 
-${jsonExport}
-${stabilityWarning}
+{{exportJson}}
+{{warnings}}
 ==================================================
 REQUIRED VISUAL OUTCOME (EXACT)
 ==================================================
 
-Apply these deltas to the source code styles of the target element (${targetSelector}):
-${formatPatchDeltas(patches)}
+Apply these deltas to the source code styles of the target element ({{targetSelector}}):
+{{deltas}}
 
-Everything else should remain unchanged.
+Changes listed under a breakpoint heading (e.g. "[md (≥768px) — @media (min-width: 768px)]") apply from that viewport width upward only. Implement them with the project's responsive mechanism (media queries, Tailwind md: prefixes, etc.) and do NOT change the smaller-viewport styles. Changes under "[All viewports]" apply everywhere.
+
+Changes marked "on hover", "on focus", "on active" or "on focus-visible" belong to that interactive state only. Implement them with the matching pseudo-class (or the project's equivalent state variant, e.g. Tailwind's hover:) and leave the base style untouched.
+
+Patches with a "frame" field target an element inside an iframe. Their selector reads "<iframe selector> |> <selector inside the iframe>": the styles to change belong to the page or app loaded in that iframe, not to the embedding page.
+
+Patches with a "reanchoredFrom" field were recorded on an element whose selector later stopped matching; "selector" is the element they were re-anchored to by fuzzy matching. Confirm it is the intended element (see the ELEMENT_REANCHORED warning) before editing.
 
+Deltas marked "use token var(--name)" have a design token on the page's :root that resolves to exactly the final value (see each patch's "suggestedToken"). Implement them with that token (var(--name), or the project's equivalent such as a Tailwind theme key or SCSS variable that maps to it) instead of the raw value. A "nearest token" marked "not exact" only resembles the final value: do NOT use it in place of finalValue. Implement the exact finalValue, and mention the nearest token in your output as an optional suggestion for the team.
+
+Everything else should remain unchanged.
+{{structuralChanges}}{{attributeChanges}}{{textChanges}}{{screenshots}}
 ==================================================
 EXECUTION INSTRUCTIONS
 ==================================================
 
 1) Locate the element in the repo:
-   - Search for selector: ${targetSelector}
-   - ${idHint}
-   - ${classHint}
+   {{selectorHints}}
 
 2) Identify where its styling comes from:
    - CSS file, Tailwind utilities, styled-components, CSS Modules, or inline styles
@@ -98,7 +274,7 @@ EXECUTION INSTRUCTIONS
 
 4) Verify:
    - Run the project
-   - Confirm computed styles for ${targetSelector} match exactly
+   - Confirm computed styles for {{targetSelector}} match exactly
    - Confirm no other elements were unintentionally affected
 
 5) Output:
@@ -108,6 +284,167 @@ EXECUTION INSTRUCTIONS
 
 BEGIN NOW.
 `;
+
+/**
+ * Format the repo notes as a section, or nothing if there are none.
+ */
+function formatRepoContext(repoContext: string): string {
+  const notes = repoContext.trim();
+  if (!notes) return '';
+
+  return `
+==================================================
+PROJECT CONTEXT (FROM THE TEAM)
+==================================================
+
+${notes}
+
+Follow these notes when choosing where and how to implement the changes. They never override the export values.
+`;
+}
+
+/**
+ * Derive search hints from the target selector.
+ */
+function formatSelectorHints(targetSelector: string): string {
+  const idMatch = targetSelector.match(/#([a-zA-Z0-9_-]+)/);
+  const classMatch = targetSelector.match(/\.([a-zA-Z0-9_-]+)/g);
+  return [
+    `- Search for selector: ${targetSelector}`,
+    ...(idMatch ? [`- ID: #${idMatch[1]}`] : []),
+    ...(classMatch ? [`- Classes: ${classMatch.map(c => c.substring(1)).join(', ')}`] : []),
+  ].join('\n');
+}
+
+/**
+ * Compute the value of every template variable for an export.
+ */
+export function getPromptVariables(
+  exportData: VisualUIInspectorExport,
+  repoContext = ''
+): Record<PromptVariable, string> {
+  const { patches, warnings, structuralChanges, textChanges, attributeChanges } = exportData;
+  const targetSelector =
+    patches[0]?.selector ??
+    structuralChanges?.[0]?.selector ??
+    attributeChanges?.[0]?.selector ??
+    textChanges?.[0]?.selector ??
+    '(no-selector)';
+
+  return {
+    // Screenshots are referenced separately
+    exportJson: JSON.stringify({ ...exportData, screenshots: undefined }, null, 2),
+    deltas: formatPatchDeltas(patches),
+    warnings: warnings.length > 0
+      ? `\nWARNINGS:\n${warnings.map(w => `⚠️ ${w.code}: ${w.message}`).join('\n')}\n`
+      : '',
+    targetSelector,
+    selectorHints: formatSelectorHints(targetSelector),
+    structuralChanges: formatStructuralChanges(structuralChanges),
+    attributeChanges: formatAttributeChanges(attributeChanges),
+    textChanges: formatTextChanges(textChanges),
+    screenshots: formatScreenshotReferences(getPromptImages(exportData)),
+    repoContext: formatRepoContext(repoContext),
+  };
+}
+
+function isPromptVariable(name: string): name is PromptVariable {
+  return Object.prototype.hasOwnProperty.call(PROMPT_VARIABLES, name);
+}
+
+/**
+ * List the placeholders in a template that aren't known variables.
+ * They are left in the rendered prompt as written.
+ */
+export function findUnknownVariables(body: string): string[] {
+  const unknown = new Set<string>();
+  for (const [, name] of body.matchAll(VARIABLE_PATTERN)) {
+    if (!isPromptVariable(name)) unknown.add(name);
+  }
+  return Array.from(unknown);
+}
+
+/**
+ * Fill a template's placeholders.
+ */
+export function renderPromptTemplate(body: string, variables: Record<PromptVariable, string>): string {
+  return body.replace(VARIABLE_PATTERN, (placeholder: string, name: string, offset: number) => {
+    if (!isPromptVariable(name)) return placeholder;
+
+    // Indent continuation lines like the placeholder's own line
+    const lineStart = body.lastIndexOf('\n', offset - 1) + 1;
+    const indent = body.slice(lineStart, offset);
+    const value = variables[name];
+    return /^[ \t]+$/.test(indent) ? value.replace(/\n(?=.)/g, `\n${indent}`) : value;
+  });
+}
+
+/**
+ * Generate the full execution prompt for an AI coding agent, from the
+ * given template or the default one.
+ */
+export function generateExecutionPrompt(
+  exportData: VisualUIInspectorExport,
+  template?: PromptTemplate | null
+): string {
+  return renderPromptTemplate(
+    template?.body ?? DEFAULT_PROMPT_TEMPLATE,
+    getPromptVariables(exportData, template?.repoContext)
+  );
+}
+
+// ============================================================================
+// Template Files
+// ============================================================================
+
+export const PROMPT_TEMPLATE_FILE_VERSION = 1 as const;
+
+/**
+ * A prompt template saved to a file, for sharing across a team.
+ */
+export interface PromptTemplateFile extends PromptTemplate {
+  templateVersion: typeof PROMPT_TEMPLATE_FILE_VERSION;
+  /** Origin the template was exported from */
+  origin?: string;
+}
+
+/**
+ * Serialize a template for saving to a file.
+ */
+export function serializePromptTemplate(template: PromptTemplate, origin?: string): string {
+  const file: PromptTemplateFile = {
+    templateVersion: PROMPT_TEMPLATE_FILE_VERSION,
+    ...(origin && { origin }),
+    body: template.body,
+    repoContext: template.repoContext,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Read a template file.
+ */
+export function parsePromptTemplateFile(
+  text: string
+): { template: PromptTemplate; error?: undefined } | { template?: undefined; error: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { error: `Not valid JSON: ${e instanceof Error ? e.message : String(e)}` };
+  }
+
+  const file = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+  if (file.templateVersion !== PROMPT_TEMPLATE_FILE_VERSION) {
+    return { error: `Not a prompt template file (expected templateVersion ${PROMPT_TEMPLATE_FILE_VERSION})` };
+  }
+  if (typeof file.body !== 'string' || !file.body.trim()) {
+    return { error: 'The template has no body' };
+  }
+  if (file.repoContext !== undefined && typeof file.repoContext !== 'string') {
+    return { error: 'repoContext must be a string' };
+  }
+  return { template: { body: file.body, repoContext: typeof file.repoContext === 'string' ? file.repoContext : '' } };
 }
 
 /**
@@ -117,7 +454,9 @@ export function generateChangeSummary(patches: FinalPatch[]): string {
   if (patches.length === 0) return 'No changes';
   if (patches.length === 1) {
     const p = patches[0];
-    return `${p.property}: ${p.originalValue ?? 'unset'} → ${p.finalValue}`;
+    const stateSuffix = p.state ? ` on ${p.state}` : '';
+    const mediaSuffix = p.media ? ` @media ${p.media}` : '';
+    return `${p.property}: ${p.originalValue ?? 'unset'} → ${p.finalValue}${stateSuffix}${mediaSuffix}`;
   }
   return `${patches.length} changes`;
 }
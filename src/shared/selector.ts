@@ -6,11 +6,18 @@
  * 1. data-testid, data-test, or similar test attributes
  * 2. Unique ID
  * 3. DOM path using tagName:nth-of-type chain
+ *
+ * Elements inside open shadow roots get one segment per tree scope, joined by
+ * SHADOW_HOP: "my-card >>> button.primary" means "button.primary inside the
+ * shadow root of my-card". Elements inside same-origin iframes are joined the
+ * same way by FRAME_HOP: "iframe#preview |> h1" means "h1 inside the document
+ * of iframe#preview".
  */
 
 import type { SelectorResolutionResult, SelectorConfidence } from './types';
 
-const TEST_ATTRIBUTES = [
+/** Attributes tests select elements by, preferred over ids */
+export const TEST_ATTRIBUTES = [
   'data-testid',
   'data-test',
   'data-test-id',
@@ -18,12 +25,127 @@ const TEST_ATTRIBUTES = [
   'data-e2e',
 ];
 
+/** Separator between tree scopes in a shadow-piercing selector */
+export const SHADOW_HOP = ' >>> ';
+
+/** Separator between an iframe and a selector inside its document */
+export const FRAME_HOP = ' |> ';
+
+const HOP_PATTERN = / (>>>|\|>) /g;
+
+type ScopeHop = 'shadow' | 'frame';
+
+function toScopeHop(token: string): ScopeHop {
+  return token === SHADOW_HOP.trim() ? 'shadow' : 'frame';
+}
+
+/**
+ * Split a selector at its last hop into the scope prefix (hop included)
+ * and the selector local to the innermost tree scope.
+ */
+export function splitScopedSelector(selector: string): { scope: string; local: string } {
+  const hops = Array.from(selector.matchAll(HOP_PATTERN));
+  const last = hops[hops.length - 1];
+  if (!last || last.index === undefined) {
+    return { scope: '', local: selector };
+  }
+  const end = last.index + last[0].length;
+  return { scope: selector.slice(0, end), local: selector.slice(end) };
+}
+
+/**
+ * Check if a selector crosses into a shadow root.
+ */
+export function isShadowSelector(selector: string): boolean {
+  return selector.includes(SHADOW_HOP);
+}
+
+/**
+ * Get the frame path of a selector (everything before its last frame hop),
+ * or undefined for elements in the top document.
+ */
+export function getFramePath(selector: string): string | undefined {
+  const index = selector.lastIndexOf(FRAME_HOP);
+  return index === -1 ? undefined : selector.slice(0, index);
+}
+
+/**
+ * Get the document of a same-origin iframe, or null if it is not
+ * an iframe or its document is not accessible.
+ */
+export function getFrameDocument(element: Element): Document | null {
+  if (element.tagName !== 'IFRAME' && element.tagName !== 'FRAME') return null;
+  return (element as HTMLIFrameElement).contentDocument;
+}
+
+/**
+ * Get the iframe element hosting a document, or null for the top document.
+ */
+export function getFrameElement(doc: Document): Element | null {
+  if (doc === document) return null;
+  return doc.defaultView?.frameElement ?? null;
+}
+
+/**
+ * Get the tree scope a hop leads into from its host element.
+ */
+function getHopScope(host: Element, hop: ScopeHop): Document | ShadowRoot | null {
+  return hop === 'shadow' ? host.shadowRoot : getFrameDocument(host);
+}
+
 /**
- * Check if a selector uniquely identifies an element in the document.
+ * Query all elements matching a (possibly shadow- or frame-piercing) selector.
+ * Each hop descends into the open shadow roots or same-origin iframe
+ * documents of the hosts matched so far.
+ * Throws on invalid selector syntax, like querySelectorAll.
+ */
+export function querySelectorAllDeep(selector: string): Element[] {
+  const parts = selector.split(HOP_PATTERN);
+  let scopes: ParentNode[] = [document];
+
+  // parts alternates segment, hop token, segment, ...
+  for (let i = 0; i < parts.length - 1; i += 2) {
+    const hop = toScopeHop(parts[i + 1]);
+    scopes = scopes
+      .flatMap(scope => Array.from(scope.querySelectorAll(parts[i].trim())))
+      .map(host => getHopScope(host, hop))
+      .filter((scope): scope is Document | ShadowRoot => scope !== null);
+  }
+
+  const last = parts[parts.length - 1].trim();
+  return scopes.flatMap(scope => Array.from(scope.querySelectorAll(last)));
+}
+
+/**
+ * Resolve the tree scope (document, frame document or shadow root) that the
+ * local part of a selector is written against.
+ * Returns null if a host no longer resolves uniquely or is not accessible.
+ */
+export function getSelectorScopeRoot(selector: string): Document | ShadowRoot | null {
+  const hops = Array.from(selector.matchAll(HOP_PATTERN));
+  const last = hops[hops.length - 1];
+  if (!last || last.index === undefined) return document;
+
+  const host = findElementBySelector(selector.slice(0, last.index)).element;
+  return host ? getHopScope(host, toScopeHop(last[1])) : null;
+}
+
+/**
+ * Get the open shadow root an element lives in, or null for a document.
+ * Compares node types rather than using instanceof, which fails for
+ * nodes from iframe documents (a different JS realm).
+ */
+export function getShadowRoot(element: Element): ShadowRoot | null {
+  const root = element.getRootNode();
+  return root.nodeType === Node.DOCUMENT_FRAGMENT_NODE ? (root as ShadowRoot) : null;
+}
+
+/**
+ * Check if a selector uniquely identifies an element within its tree scope.
  */
 function isUnique(selector: string, element: Element): boolean {
   try {
-    const matches = document.querySelectorAll(selector);
+    const matches = (getShadowRoot(element) ?? element.ownerDocument).querySelectorAll(selector);
     return matches.length === 1 && matches[0] === element;
   } catch {
     return false;
@@ -41,7 +163,7 @@ function escapeCSS(str: string): string {
  * Get the nth-of-type index for an element among its siblings.
  */
 function getNthOfTypeIndex(element: Element): number {
-  const parent = element.parentElement;
+  const parent = element.parentNode as ParentNode | null;
   if (!parent) return 1;
 
   const tagName = element.tagName;
@@ -62,12 +184,31 @@ function getNthOfTypeIndex(element: Element): number {
  * @returns A CSS selector string that uniquely identifies the element
  */
 export function getStableSelector(element: Element): string {
+  const shadowRoot = element ? getShadowRoot(element) : null;
+  if (shadowRoot) {
+    return `${getStableSelector(shadowRoot.host)}${SHADOW_HOP}${getLocalSelector(element, true)}`;
+  }
+
+  const frameElement = element ? getFrameElement(element.ownerDocument) : null;
+  if (frameElement) {
+    return `${getStableSelector(frameElement)}${FRAME_HOP}${getLocalSelector(element, false)}`;
+  }
+
+  return getLocalSelector(element, false);
+}
+
+/**
+ * Generate a selector for an element that is unique within its own tree scope.
+ */
+function getLocalSelector(element: Element, inShadowRoot: boolean): string {
   // Skip document or non-element nodes
-  if (!element || element === document.documentElement) {
+  if (!element || element === element.ownerDocument.documentElement) {
     return 'html';
   }
 
-  if (element === document.body) {
+  const doc = element.ownerDocument;
+
+  if (element === doc.body) {
     return 'body';
   }
 
@@ -94,7 +235,7 @@ export function getStableSelector(element: Element): string {
   const path: string[] = [];
   let current: Element | null = element;
 
-  while (current && current !== document.body && current !== document.documentElement) {
+  while (current && current !== doc.body && current !== doc.documentElement) {
     const tagName = current.tagName.toLowerCase();
     const nthOfType = getNthOfTypeIndex(current);
 
@@ -114,6 +255,11 @@ export function getStableSelector(element: Element): string {
     current = current.parentElement;
   }
 
+  // Shadow roots have no body; the path starts at the root's top-level element
+  if (inShadowRoot) {
+    return path.join(' > ');
+  }
+
   // Prepend body for full path
   const fullPath = ['body', ...path].join(' > ');
   return fullPath;
@@ -125,7 +271,7 @@ export function getStableSelector(element: Element): string {
  */
 export function findElementBySelector(selector: string): SelectorResolutionResult {
   try {
-    const elements = document.querySelectorAll(selector);
+    const elements = querySelectorAllDeep(selector);
 
     if (elements.length === 0) {
       return {
@@ -158,6 +304,20 @@ export function findElementBySelector(selector: string): SelectorResolutionResul
   }
 }
 
+/**
+ * Get a selector matching elements that look like this one (tag + classes).
+ * Used for "select all matching" rather than for patch targeting.
+ */
+export function getMatchingSelector(element: Element): string {
+  const tag = element.tagName.toLowerCase();
+  const classes = Array.from(element.classList)
+    .map(c => `.${escapeCSS(c)}`)
+    .join('');
+
+  // Stay within the element's shadow root or frame document
+  const { scope } = splitScopedSelector(getStableSelector(element));
+  return `${scope}${tag}${classes}`;
+}
 
 /**
  * Get a human-readable short description of the element.
@@ -246,7 +406,7 @@ export function computeSelectorConfidence(
  */
 export function computeSelectorConfidenceWithDOM(selector: string): SelectorConfidence {
   try {
-    const matchCount = document.querySelectorAll(selector).length;
+    const matchCount = querySelectorAllDeep(selector).length;
     return computeSelectorConfidence(selector, matchCount);
   } catch {
     // Invalid selector = low confidence
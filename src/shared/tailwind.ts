@@ -0,0 +1,768 @@
+/**
+ * Tailwind Export
+ *
+ * Translates FinalPatches into Tailwind utility classes: each CSS value is
+ * mapped onto the theme scale (pt-4, text-lg, rounded-md, ...), utilities
+ * already on the element that set the same property are listed for removal,
+ * and the result is a "remove X / add Y" class diff per element.
+ *
+ * Values that are not on the theme scale fall back to arbitrary-value syntax
+ * (pt-[13px], [box-shadow:...]) and are flagged for review.
+ *
+ * The default theme mirrors Tailwind v3's default scales, without the color
+ * palette; projects add their colors (and extend any scale) via overrides.
+ */
+
+import type { FinalPatch } from './types';
+import { parseColor } from './designTokens';
+
+// ============================================================================
+// Theme
+// ============================================================================
+
+export interface TailwindTheme {
+  screens: Record<string, string>;
+  spacing: Record<string, string>;
+  fontSize: Record<string, string>;
+  fontWeight: Record<string, string>;
+  lineHeight: Record<string, string>;
+  letterSpacing: Record<string, string>;
+  borderRadius: Record<string, string>;
+  borderWidth: Record<string, string>;
+  opacity: Record<string, string>;
+  zIndex: Record<string, string>;
+  transitionDuration: Record<string, string>;
+  /** Flattened palette: 'brand', 'slate-900', ... */
+  colors: Record<string, string>;
+}
+
+/**
+ * Theme overrides, shaped like a tailwind.config theme.extend block.
+ * Colors may be nested ({ slate: { 900: '#0f172a' } }).
+ */
+export type TailwindThemeOverrides = {
+  [K in keyof TailwindTheme]?: K extends 'colors'
+    ? Record<string, string | Record<string, string>>
+    : Record<string, string>;
+};
+
+export const DEFAULT_TAILWIND_THEME: TailwindTheme = {
+  screens: { sm: '640px', md: '768px', lg: '1024px', xl: '1280px', '2xl': '1536px' },
+  spacing: {
+    0: '0px', px: '1px', 0.5: '0.125rem', 1: '0.25rem', 1.5: '0.375rem', 2: '0.5rem',
+    2.5: '0.625rem', 3: '0.75rem', 3.5: '0.875rem', 4: '1rem', 5: '1.25rem', 6: '1.5rem',
+    7: '1.75rem', 8: '2rem', 9: '2.25rem', 10: '2.5rem', 11: '2.75rem', 12: '3rem',
+    14: '3.5rem', 16: '4rem', 20: '5rem', 24: '6rem', 28: '7rem', 32: '8rem', 36: '9rem',
+    40: '10rem', 44: '11rem', 48: '12rem', 52: '13rem', 56: '14rem', 60: '15rem',
+    64: '16rem', 72: '18rem', 80: '20rem', 96: '24rem',
+  },
+  fontSize: {
+    xs: '0.75rem', sm: '0.875rem', base: '1rem', lg: '1.125rem', xl: '1.25rem',
+    '2xl': '1.5rem', '3xl': '1.875rem', '4xl': '2.25rem', '5xl': '3rem', '6xl': '3.75rem',
+    '7xl': '4.5rem', '8xl': '6rem', '9xl': '8rem',
+  },
+  fontWeight: {
+    thin: '100', extralight: '200', light: '300', normal: '400', medium: '500',
+    semibold: '600', bold: '700', extrabold: '800', black: '900',
+  },
+  lineHeight: {
+    none: '1', tight: '1.25', snug: '1.375', normal: '1.5', relaxed: '1.625', loose: '2',
+    3: '0.75rem', 4: '1rem', 5: '1.25rem', 6: '1.5rem', 7: '1.75rem', 8: '2rem',
+    9: '2.25rem', 10: '2.5rem',
+  },
+  letterSpacing: {
+    tighter: '-0.05em', tight: '-0.025em', normal: '0em', wide: '0.025em',
+    wider: '0.05em', widest: '0.1em',
+  },
+  borderRadius: {
+    none: '0px', sm: '0.125rem', DEFAULT: '0.25rem', md: '0.375rem', lg: '0.5rem',
+    xl: '0.75rem', '2xl': '1rem', '3xl': '1.5rem', full: '9999px',
+  },
+  borderWidth: { 0: '0px', DEFAULT: '1px', 2: '2px', 4: '4px', 8: '8px' },
+  opacity: {
+    0: '0', 5: '0.05', 10: '0.1', 15: '0.15', 20: '0.2', 25: '0.25', 30: '0.3', 35: '0.35',
+    40: '0.4', 45: '0.45', 50: '0.5', 55: '0.55', 60: '0.6', 65: '0.65', 70: '0.7',
+    75: '0.75', 80: '0.8', 85: '0.85', 90: '0.9', 95: '0.95', 100: '1',
+  },
+  zIndex: { 0: '0', 10: '10', 20: '20', 30: '30', 40: '40', 50: '50', auto: 'auto' },
+  transitionDuration: {
+    0: '0s', 75: '75ms', 100: '100ms', 150: '150ms', 200: '200ms', 300: '300ms',
+    500: '500ms', 700: '700ms', 1000: '1000ms',
+  },
+  colors: {
+    inherit: 'inherit', current: 'currentColor', transparent: 'transparent',
+    black: '#000000', white: '#ffffff',
+  },
+};
+
+/**
+ * Flatten nested palette entries: { slate: { 900: '#0f172a' } } -> { 'slate-900': '#0f172a' }.
+ * A DEFAULT shade maps to the bare color name.
+ */
+function flattenColors(colors: Record<string, string | Record<string, string>>): Record<string, string> {
+  const flat: Record<string, string> = {};
+  for (const [name, value] of Object.entries(colors)) {
+    if (typeof value === 'string') {
+      flat[name] = value;
+      continue;
+    }
+    for (const [shade, shadeValue] of Object.entries(value)) {
+      flat[shade === 'DEFAULT' ? name : `${name}-${shade}`] = shadeValue;
+    }
+  }
+  return flat;
+}
+
+/**
+ * Build a theme by extending the default scales with project overrides.
+ */
+export function resolveTailwindTheme(overrides: TailwindThemeOverrides = {}): TailwindTheme {
+  const theme: TailwindTheme = { ...DEFAULT_TAILWIND_THEME };
+  for (const key of Object.keys(overrides) as (keyof TailwindTheme)[]) {
+    const override = overrides[key];
+    if (!override || typeof override !== 'object') continue;
+    theme[key] = {
+      ...DEFAULT_TAILWIND_THEME[key],
+      ...(key === 'colors' ? flattenColors(override) : (override as Record<string, string>)),
+    };
+  }
+  return theme;
+}
+
+/**
+ * Read one scale value: a string, or the value of a [value, options] tuple
+ * (fontSize: { sm: ['0.875rem', { lineHeight: '1.25rem' }] }).
+ */
+function parseScaleValue(value: unknown): string | null {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value) && typeof value[0] === 'string') return value[0];
+  return null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Parse theme overrides typed by the user as JSON.
+ * Returns the valid overrides, and an error message per scale or entry that
+ * could not be used (one per line).
+ */
+export function parseTailwindThemeOverrides(
+  json: string
+): { overrides: TailwindThemeOverrides; error?: string } {
+  if (!json.trim()) return { overrides: {} };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    return { overrides: {}, error: `Invalid JSON: ${e instanceof Error ? e.message : String(e)}` };
+  }
+  if (!isPlainObject(parsed)) {
+    return { overrides: {}, error: 'Theme overrides must be a JSON object' };
+  }
+
+  const overrides: TailwindThemeOverrides = {};
+  const errors: string[] = [];
+
+  for (const [key, scale] of Object.entries(parsed)) {
+    if (!Object.prototype.hasOwnProperty.call(DEFAULT_TAILWIND_THEME, key)) {
+      errors.push(`"${key}" is not a supported theme scale`);
+      continue;
+    }
+    if (!isPlainObject(scale)) {
+      errors.push(`"${key}" must be an object`);
+      continue;
+    }
+
+    const entries: Record<string, string | Record<string, string>> = {};
+    for (const [name, value] of Object.entries(scale)) {
+      const scaleValue = parseScaleValue(value);
+      if (scaleValue !== null) {
+        entries[name] = scaleValue;
+        continue;
+      }
+      if (key === 'colors' && isPlainObject(value)) {
+        const shades: Record<string, string> = {};
+        for (const [shade, shadeValue] of Object.entries(value)) {
+          if (typeof shadeValue === 'string') {
+            shades[shade] = shadeValue;
+          } else {
+            errors.push(`"${key}.${name}.${shade}" must be a string`);
+          }
+        }
+        entries[name] = shades;
+        continue;
+      }
+      errors.push(`"${key}.${name}" must be a string${key === 'colors' ? ' or an object of shades' : ' or a [value, options] pair'}`);
+    }
+    (overrides as Record<string, typeof entries>)[key] = entries;
+  }
+
+  return { overrides, ...(errors.length > 0 && { error: errors.join('\n') }) };
+}
+
+// ============================================================================
+// Value Comparison
+// ============================================================================
+
+function isColorValue(value: string): boolean {
+  return parseColor(value) !== null || /^(hsla?|oklch|color)\(/i.test(value);
+}
+
+/**
+ * Reduce a CSS value to a form that compares equal across units:
+ * px/rem lengths to px, s/ms durations to ms, colors to RGBA.
+ */
+function toComparable(value: string): string {
+  const trimmed = value.trim().toLowerCase();
+
+  const length = trimmed.match(/^(-?[\d.]+)(px|rem)$/);
+  if (length) {
+    const px = parseFloat(length[1]) * (length[2] === 'rem' ? 16 : 1);
+    return `px:${Math.round(px * 100) / 100}`;
+  }
+  if (trimmed === '0') return 'px:0';
+
+  const time = trimmed.match(/^([\d.]+)(ms|s)$/);
+  if (time) {
+    return `ms:${parseFloat(time[1]) * (time[2] === 's' ? 1000 : 1)}`;
+  }
+
+  const color = parseColor(trimmed);
+  if (color) return `color:${color.join(',')}`;
+
+  return trimmed;
+}
+
+/**
+ * Find the scale key whose value equals a CSS value, if any.
+ */
+function findScaleKey(scale: Record<string, string>, value: string): string | null {
+  const target = toComparable(value);
+  for (const [key, scaleValue] of Object.entries(scale)) {
+    if (toComparable(scaleValue) === target) return key;
+  }
+  return null;
+}
+
+/**
+ * Format a CSS value for arbitrary-value syntax (spaces become underscores).
+ * Opaque rgb() colors are written as hex, as they usually are in source.
+ */
+function toArbitraryValue(value: string): string {
+  const color = parseColor(value.trim());
+  if (color && color[3] === 1 && /^rgb/i.test(value.trim())) {
+    return '#' + color.slice(0, 3).map(c => c.toString(16).padStart(2, '0')).join('');
+  }
+  return value.trim().replace(/\s*,\s*/g, ',').replace(/\s+/g, '_');
+}
+
+// ============================================================================
+// Property Mappings
+// ============================================================================
+
+type ScaleKey = Exclude<keyof TailwindTheme, 'screens' | 'colors'>;
+
+type PropertyMapping =
+  /** Value looked up on a theme scale: prefix-<key> */
+  | {
+      kind: 'scale';
+      prefix: string;
+      scale: ScaleKey;
+      /** Utilities that set this property along with others (p for pt) */
+      shorthands?: string[];
+      /** Whether negative values map to -prefix-<key> */
+      negative?: boolean;
+      /** Values outside the scale with their own suffix ('auto', '100%' -> 'full') */
+      keywords?: Record<string, string>;
+    }
+  /** Color looked up on the palette: prefix-<color> */
+  | { kind: 'color'; prefix: string }
+  /** Enumerated values with one utility each */
+  | { kind: 'keyword'; classes: Record<string, string> };
+
+const SIZE_KEYWORDS = { auto: 'auto', '100%': 'full', 'min-content': 'min', 'max-content': 'max', 'fit-content': 'fit' };
+
+function spacingSides(
+  prefix: string,
+  axes: { x: string; y: string },
+  negative: boolean,
+  keywords?: Record<string, string>
+): Record<string, PropertyMapping> {
+  const shorthand = (axis: string) => [axis, prefix].filter(Boolean);
+  return {
+    top: { kind: 'scale', prefix: `${prefix}t`, scale: 'spacing', shorthands: shorthand(axes.y), negative, keywords },
+    right: { kind: 'scale', prefix: `${prefix}r`, scale: 'spacing', shorthands: shorthand(axes.x), negative, keywords },
+    bottom: { kind: 'scale', prefix: `${prefix}b`, scale: 'spacing', shorthands: shorthand(axes.y), negative, keywords },
+    left: { kind: 'scale', prefix: `${prefix}l`, scale: 'spacing', shorthands: shorthand(axes.x), negative, keywords },
+  };
+}
+
+const padding = spacingSides('p', { x: 'px', y: 'py' }, false);
+const margin = spacingSides('m', { x: 'mx', y: 'my' }, true, { auto: 'auto' });
+
+const PROPERTY_MAPPINGS: Record<string, PropertyMapping> = {
+  padding: { kind: 'scale', prefix: 'p', scale: 'spacing' },
+  'padding-top': padding.top,
+  'padding-right': padding.right,
+  'padding-bottom': padding.bottom,
+  'padding-left': padding.left,
+  margin: { kind: 'scale', prefix: 'm', scale: 'spacing', negative: true, keywords: { auto: 'auto' } },
+  'margin-top': margin.top,
+  'margin-right': margin.right,
+  'margin-bottom': margin.bottom,
+  'margin-left': margin.left,
+  gap: { kind: 'scale', prefix: 'gap', scale: 'spacing' },
+  'row-gap': { kind: 'scale', prefix: 'gap-y', scale: 'spacing', shorthands: ['gap'] },
+  'column-gap': { kind: 'scale', prefix: 'gap-x', scale: 'spacing', shorthands: ['gap'] },
+  width: { kind: 'scale', prefix: 'w', scale: 'spacing', keywords: { ...SIZE_KEYWORDS, '100vw': 'screen' } },
+  height: { kind: 'scale', prefix: 'h', scale: 'spacing', keywords: { ...SIZE_KEYWORDS, '100vh': 'screen' } },
+  'min-width': { kind: 'scale', prefix: 'min-w', scale: 'spacing', keywords: SIZE_KEYWORDS },
+  'min-height': { kind: 'scale', prefix: 'min-h', scale: 'spacing', keywords: { ...SIZE_KEYWORDS, '100vh': 'screen' } },
+  'max-height': { kind: 'scale', prefix: 'max-h', scale: 'spacing', keywords: { ...SIZE_KEYWORDS, none: 'none' } },
+  top: { kind: 'scale', prefix: 'top', scale: 'spacing', shorthands: ['inset-y', 'inset'], negative: true, keywords: { auto: 'auto', '100%': 'full' } },
+  right: { kind: 'scale', prefix: 'right', scale: 'spacing', shorthands: ['inset-x', 'inset'], negative: true, keywords: { auto: 'auto', '100%': 'full' } },
+  bottom: { kind: 'scale', prefix: 'bottom', scale: 'spacing', shorthands: ['inset-y', 'inset'], negative: true, keywords: { auto: 'auto', '100%': 'full' } },
+  left: { kind: 'scale', prefix: 'left', scale: 'spacing', shorthands: ['inset-x', 'inset'], negative: true, keywords: { auto: 'auto', '100%': 'full' } },
+  'font-size': { kind: 'scale', prefix: 'text', scale: 'fontSize' },
+  'font-weight': { kind: 'scale', prefix: 'font', scale: 'fontWeight' },
+  'line-height': { kind: 'scale', prefix: 'leading', scale: 'lineHeight' },
+  'letter-spacing': { kind: 'scale', prefix: 'tracking', scale: 'letterSpacing' },
+  'border-radius': { kind: 'scale', prefix: 'rounded', scale: 'borderRadius' },
+  'border-top-left-radius': { kind: 'scale', prefix: 'rounded-tl', scale: 'borderRadius', shorthands: ['rounded-t', 'rounded-l', 'rounded'] },
+  'border-top-right-radius': { kind: 'scale', prefix: 'rounded-tr', scale: 'borderRadius', shorthands: ['rounded-t', 'rounded-r', 'rounded'] },
+  'border-bottom-right-radius': { kind: 'scale', prefix: 'rounded-br', scale: 'borderRadius', shorthands: ['rounded-b', 'rounded-r', 'rounded'] },
+  'border-bottom-left-radius': { kind: 'scale', prefix: 'rounded-bl', scale: 'borderRadius', shorthands: ['rounded-b', 'rounded-l', 'rounded'] },
+  'border-width': { kind: 'scale', prefix: 'border', scale: 'borderWidth' },
+  'border-top-width': { kind: 'scale', prefix: 'border-t', scale: 'borderWidth', shorthands: ['border-y', 'border'] },
+  'border-right-width': { kind: 'scale', prefix: 'border-r', scale: 'borderWidth', shorthands: ['border-x', 'border'] },
+  'border-bottom-width': { kind: 'scale', prefix: 'border-b', scale: 'borderWidth', shorthands: ['border-y', 'border'] },
+  'border-left-width': { kind: 'scale', prefix: 'border-l', scale: 'borderWidth', shorthands: ['border-x', 'border'] },
+  opacity: { kind: 'scale', prefix: 'opacity', scale: 'opacity' },
+  'z-index': { kind: 'scale', prefix: 'z', scale: 'zIndex' },
+  'transition-duration': { kind: 'scale', prefix: 'duration', scale: 'transitionDuration' },
+  'transition-delay': { kind: 'scale', prefix: 'delay', scale: 'transitionDuration' },
+  color: { kind: 'color', prefix: 'text' },
+  'background-color': { kind: 'color', prefix: 'bg' },
+  'border-color': { kind: 'color', prefix: 'border' },
+  'outline-color': { kind: 'color', prefix: 'outline' },
+  fill: { kind: 'color', prefix: 'fill' },
+  stroke: { kind: 'color', prefix: 'stroke' },
+  display: {
+    kind: 'keyword',
+    classes: {
+      block: 'block', 'inline-block': 'inline-block', inline: 'inline', flex: 'flex',
+      'inline-flex': 'inline-flex', grid: 'grid', 'inline-grid': 'inline-grid',
+      contents: 'contents', table: 'table', none: 'hidden',
+    },
+  },
+  'flex-direction': {
+    kind: 'keyword',
+    classes: { row: 'flex-row', 'row-reverse': 'flex-row-reverse', column: 'flex-col', 'column-reverse': 'flex-col-reverse' },
+  },
+  'flex-wrap': {
+    kind: 'keyword',
+    classes: { wrap: 'flex-wrap', nowrap: 'flex-nowrap', 'wrap-reverse': 'flex-wrap-reverse' },
+  },
+  'justify-content': {
+    kind: 'keyword',
+    classes: {
+      normal: 'justify-normal', start: 'justify-start', 'flex-start': 'justify-start',
+      center: 'justify-center', end: 'justify-end', 'flex-end': 'justify-end',
+      'space-between': 'justify-between', 'space-around': 'justify-around',
+      'space-evenly': 'justify-evenly', stretch: 'justify-stretch',
+    },
+  },
+  'align-items': {
+    kind: 'keyword',
+    classes: {
+      start: 'items-start', 'flex-start': 'items-start', center: 'items-center',
+      end: 'items-end', 'flex-end': 'items-end', baseline: 'items-baseline', stretch: 'items-stretch',
+    },
+  },
+  'align-self': {
+    kind: 'keyword',
+    classes: {
+      auto: 'self-auto', start: 'self-start', 'flex-start': 'self-start', center: 'self-center',
+      end: 'self-end', 'flex-end': 'self-end', baseline: 'self-baseline', stretch: 'self-stretch',
+    },
+  },
+  'text-align': {
+    kind: 'keyword',
+    classes: {
+      left: 'text-left', center: 'text-center', right: 'text-right',
+      justify: 'text-justify', start: 'text-start', end: 'text-end',
+    },
+  },
+  position: {
+    kind: 'keyword',
+    classes: { static: 'static', fixed: 'fixed', absolute: 'absolute', relative: 'relative', sticky: 'sticky' },
+  },
+  overflow: {
+    kind: 'keyword',
+    classes: {
+      visible: 'overflow-visible', hidden: 'overflow-hidden', auto: 'overflow-auto',
+      scroll: 'overflow-scroll', clip: 'overflow-clip',
+    },
+  },
+  'box-sizing': {
+    kind: 'keyword',
+    classes: { 'border-box': 'box-border', 'content-box': 'box-content' },
+  },
+  'font-style': {
+    kind: 'keyword',
+    classes: { italic: 'italic', normal: 'not-italic' },
+  },
+  'text-decoration-line': {
+    kind: 'keyword',
+    classes: { underline: 'underline', overline: 'overline', 'line-through': 'line-through', none: 'no-underline' },
+  },
+  'text-transform': {
+    kind: 'keyword',
+    classes: { uppercase: 'uppercase', lowercase: 'lowercase', capitalize: 'capitalize', none: 'normal-case' },
+  },
+  'white-space': {
+    kind: 'keyword',
+    classes: {
+      normal: 'whitespace-normal', nowrap: 'whitespace-nowrap', pre: 'whitespace-pre',
+      'pre-line': 'whitespace-pre-line', 'pre-wrap': 'whitespace-pre-wrap',
+      'break-spaces': 'whitespace-break-spaces',
+    },
+  },
+  cursor: {
+    kind: 'keyword',
+    classes: {
+      auto: 'cursor-auto', default: 'cursor-default', pointer: 'cursor-pointer', text: 'cursor-text',
+      move: 'cursor-move', grab: 'cursor-grab', 'not-allowed': 'cursor-not-allowed',
+    },
+  },
+};
+
+// ============================================================================
+// Utility Parsing (existing classes)
+// ============================================================================
+
+interface ParsedUtility {
+  /** Variants in class order, e.g. ['md', 'hover'] */
+  variants: string[];
+  /** Utility without variants, important marker or negative sign */
+  utility: string;
+}
+
+/**
+ * Split a class into its variants and utility, ignoring colons inside
+ * arbitrary values (bg-[url(a:b)]).
+ */
+function parseUtility(className: string): ParsedUtility {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of className) {
+    if (char === '[') depth++;
+    if (char === ']') depth--;
+    if (char === ':' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  const utility = current.replace(/^!/, '').replace(/^-/, '');
+  return { variants: parts, utility };
+}
+
+function sameVariants(a: string[], b: string[]): boolean {
+  return [...a].sort().join(':') === [...b].sort().join(':');
+}
+
+const PALETTE_SHADE = /^[a-z]+-\d{2,3}(\/\d{1,3})?$/;
+
+/**
+ * Check whether a utility sets the property a mapping targets
+ * (using the given prefix in place of the mapping's own, for shorthands).
+ */
+function ownsUtility(mapping: PropertyMapping, utility: string, theme: TailwindTheme, prefix?: string): boolean {
+  if (mapping.kind === 'keyword') {
+    return Object.values(mapping.classes).includes(utility);
+  }
+
+  const ownPrefix = prefix ?? mapping.prefix;
+  if (utility === ownPrefix) {
+    return mapping.kind === 'scale' && 'DEFAULT' in theme[mapping.scale];
+  }
+  if (!utility.startsWith(`${ownPrefix}-`)) return false;
+  const suffix = utility.slice(ownPrefix.length + 1);
+  const arbitrary = suffix.match(/^\[(.+)\]$/)?.[1];
+
+  if (mapping.kind === 'color') {
+    if (arbitrary) return isColorValue(arbitrary.replace(/^color:/, ''));
+    return suffix.split('/')[0] in theme.colors || PALETTE_SHADE.test(suffix);
+  }
+
+  if (arbitrary) return !isColorValue(arbitrary);
+  return (
+    suffix in theme[mapping.scale] ||
+    Object.values(mapping.keywords ?? {}).includes(suffix) ||
+    (mapping.scale === 'spacing' && /^\d+\/\d+$/.test(suffix))
+  );
+}
+
+// ============================================================================
+// Class Diff Generation
+// ============================================================================
+
+export interface TailwindFlag {
+  className: string;
+  reason: string;
+}
+
+/**
+ * The class changes for one element.
+ */
+export interface TailwindClassDiff {
+  selector: string;
+  /** Existing utilities that set the same properties, to remove */
+  remove: string[];
+  /** Utilities to add */
+  add: string[];
+  /** Added utilities that need review (arbitrary values, no mapping) */
+  flags: TailwindFlag[];
+  /** Shorthand utilities kept on the element that the new utilities partly override */
+  notes: string[];
+}
+
+/**
+ * Get the variant prefixes for a patch's scope, e.g. ['md', 'hover'].
+ * Media conditions that match no theme screen use Tailwind's min-[...] variant.
+ */
+function getVariants(patch: FinalPatch, theme: TailwindTheme): { variants: string[]; flag?: string } {
+  const variants: string[] = [];
+  let flag: string | undefined;
+
+  if (patch.media) {
+    const minWidth = patch.media.match(/^\(min-width:\s*([\d.]+px)\)$/)?.[1];
+    const screen = minWidth
+      ? Object.entries(theme.screens).find(([, width]) => toComparable(width) === toComparable(minWidth))?.[0]
+      : undefined;
+    if (screen) {
+      variants.push(screen);
+    } else if (minWidth) {
+      variants.push(`min-[${minWidth}]`);
+      flag = `@media ${patch.media} matches no theme screen`;
+    } else {
+      variants.push(`[@media${toArbitraryValue(patch.media)}]`);
+      flag = `@media ${patch.media} is not a min-width breakpoint`;
+    }
+  }
+  if (patch.state) {
+    variants.push(patch.state);
+  }
+
+  return { variants, flag };
+}
+
+/**
+ * Map one patch to a utility (without variants).
+ * Returns the reason when it falls back to an arbitrary value.
+ */
+function toUtility(patch: FinalPatch, theme: TailwindTheme): { utility: string; mapping?: PropertyMapping; reason?: string } {
+  const mapping = PROPERTY_MAPPINGS[patch.property];
+  const value = patch.finalValue.trim();
+  const arbitraryProperty = `[${patch.property}:${toArbitraryValue(value)}]`;
+
+  if (!mapping) {
+    return { utility: arbitraryProperty, reason: `${patch.property} has no Tailwind utility mapping` };
+  }
+
+  if (mapping.kind === 'keyword') {
+    const className = mapping.classes[value];
+    return className
+      ? { utility: className, mapping }
+      : { utility: arbitraryProperty, mapping, reason: `${patch.property}: ${value} has no utility` };
+  }
+
+  if (mapping.kind === 'color') {
+    const key = findScaleKey(theme.colors, value);
+    return key
+      ? { utility: `${mapping.prefix}-${key}`, mapping }
+      : { utility: `${mapping.prefix}-[${toArbitraryValue(value)}]`, mapping, reason: `${value} is not a theme color` };
+  }
+
+  const keyword = mapping.keywords?.[value];
+  if (keyword) {
+    return { utility: `${mapping.prefix}-${keyword}`, mapping };
+  }
+
+  const isNegative = value.startsWith('-') && mapping.negative;
+  const key = findScaleKey(theme[mapping.scale], isNegative ? value.slice(1) : value);
+  if (key !== null) {
+    const utility = key === 'DEFAULT' ? mapping.prefix : `${mapping.prefix}-${key}`;
+    return { utility: isNegative ? `-${utility}` : utility, mapping };
+  }
+
+  return {
+    utility: `${mapping.prefix}-[${toArbitraryValue(value)}]`,
+    mapping,
+    reason: `${patch.property}: ${value} is not on the ${mapping.scale} scale`,
+  };
+}
+
+/**
+ * A utility about to be added, with what it replaces.
+ */
+interface UtilityEntry {
+  variants: string[];
+  /** Utility without variants, including a leading '-' for negative values */
+  utility: string;
+  mapping?: PropertyMapping;
+  /** CSS properties the utility sets, for notes */
+  properties: string[];
+  reasons: string[];
+}
+
+/**
+ * Pairs of side utilities that combine into an axis utility (pl-4 pr-4 -> px-4),
+ * and axis pairs that combine into the all-sides utility (px-4 py-4 -> p-4).
+ */
+const COMBINABLE_UTILITIES: [string, string, string, string[]][] = [
+  ['pl', 'pr', 'px', ['p']], ['pt', 'pb', 'py', ['p']], ['px', 'py', 'p', []],
+  ['ml', 'mr', 'mx', ['m']], ['mt', 'mb', 'my', ['m']], ['mx', 'my', 'm', []],
+];
+
+/**
+ * Combine side utilities with the same value and variants into shorthands,
+ * so they replace the project's existing shorthands instead of overriding them.
+ */
+function combineEntries(entries: UtilityEntry[]): UtilityEntry[] {
+  let result = [...entries];
+  for (const [a, b, combined, shorthands] of COMBINABLE_UTILITIES) {
+    for (const entry of [...result]) {
+      if (entry.mapping?.kind !== 'scale' || entry.mapping.prefix !== a || entry.reasons.length > 0) continue;
+      const negative = entry.utility.startsWith('-') ? '-' : '';
+      const suffix = entry.utility.slice(negative.length + a.length + 1);
+      const partner = result.find(other =>
+        other.mapping?.kind === 'scale' &&
+        other.mapping.prefix === b &&
+        other.reasons.length === 0 &&
+        other.utility === `${negative}${b}-${suffix}` &&
+        sameVariants(other.variants, entry.variants)
+      );
+      if (!partner) continue;
+
+      result = result.filter(e => e !== entry && e !== partner);
+      result.push({
+        variants: entry.variants,
+        utility: `${negative}${combined}-${suffix}`,
+        mapping: { ...entry.mapping, prefix: combined, shorthands },
+        properties: [...entry.properties, ...partner.properties],
+        reasons: [],
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * Generate a Tailwind class diff per element.
+ *
+ * @param patches - Final patches from the export
+ * @param elementClasses - Current class list of each patched element, by selector
+ * @param theme - Theme scales to map values onto
+ */
+export function generateTailwindDiff(
+  patches: FinalPatch[],
+  elementClasses: Record<string, string[]> = {},
+  theme: TailwindTheme = DEFAULT_TAILWIND_THEME
+): TailwindClassDiff[] {
+  const bySelector = new Map<string, FinalPatch[]>();
+  for (const patch of patches) {
+    const existing = bySelector.get(patch.selector) || [];
+    existing.push(patch);
+    bySelector.set(patch.selector, existing);
+  }
+
+  const diffs: TailwindClassDiff[] = [];
+
+  for (const [selector, selectorPatches] of bySelector) {
+    const classes = elementClasses[selector] ?? [];
+    const remove = new Set<string>();
+    const add: string[] = [];
+    const flags: TailwindFlag[] = [];
+    const notes: string[] = [];
+
+    const entries = combineEntries(selectorPatches.map((patch): UtilityEntry => {
+      const { variants, flag: variantFlag } = getVariants(patch, theme);
+      const { utility, mapping, reason } = toUtility(patch, theme);
+      return {
+        variants,
+        utility,
+        mapping,
+        properties: [patch.property],
+        reasons: [reason, variantFlag].filter((r): r is string => Boolean(r)),
+      };
+    }));
+
+    for (const entry of entries) {
+      const { variants, utility, mapping } = entry;
+      const className = [...variants, utility].join(':');
+
+      // Existing utilities for the same property and scope are replaced
+      let alreadyPresent = false;
+      for (const existing of classes) {
+        const parsed = parseUtility(existing);
+        if (!sameVariants(parsed.variants, variants)) continue;
+        if (existing === className) {
+          alreadyPresent = true;
+          continue;
+        }
+        if (mapping && ownsUtility(mapping, parsed.utility, theme)) {
+          remove.add(existing);
+        } else if (mapping?.kind === 'scale' && mapping.shorthands?.some(s => ownsUtility(mapping, parsed.utility, theme, s))) {
+          notes.push(`${existing} also sets ${entry.properties.join(', ')}; ${className} takes precedence there`);
+        }
+      }
+
+      if (alreadyPresent) continue;
+      add.push(className);
+      flags.push(...entry.reasons.map(reason => ({ className, reason })));
+    }
+
+    if (add.length === 0 && remove.size === 0) continue;
+
+    diffs.push({
+      selector,
+      remove: Array.from(remove),
+      add,
+      flags,
+      notes,
+    });
+  }
+
+  return diffs;
+}
+
+/**
+ * Format class diffs as text, one block per element.
+ */
+export function formatTailwindDiff(diffs: TailwindClassDiff[]): string {
+  if (diffs.length === 0) {
+    return '/* No class changes */';
+  }
+
+  return diffs
+    .map(diff => {
+      const lines = [`/* ${diff.selector} */`];
+      if (diff.remove.length > 0) lines.push(`- remove: ${diff.remove.join(' ')}`);
+      if (diff.add.length > 0) lines.push(`+ add:    ${diff.add.join(' ')}`);
+      for (const flag of diff.flags) {
+        lines.push(`! ${flag.className}: ${flag.reason}`);
+      }
+      for (const note of diff.notes) {
+        lines.push(`  note: ${note}`);
+      }
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
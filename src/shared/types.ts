@@ -12,6 +12,8 @@ export interface ElementMetadata {
   tagName: string;
   id: string | null;
   classList: string[];
+  /** Attributes other than class and style, in document order */
+  attributes: ElementAttribute[];
   role: string | null;
   ariaLabel: string | null;
   textPreview: string;
@@ -23,12 +25,19 @@ export interface ElementMetadata {
     height: number;
   };
   computedStyles: ComputedStylesSnapshot;
+  /** Where to crop the element's screenshot from a capture of the tab */
+  screenshotRegion?: ScreenshotRegion;
   /** Base64-encoded screenshot of the element (data URL) */
   screenshot?: string;
   /** Element hierarchy info (populated when selected) */
   hierarchy?: ElementHierarchy;
 }
 
+export interface ElementAttribute {
+  name: string;
+  value: string;
+}
+
 // ============================================================================
 // Element Hierarchy
 // ============================================================================
@@ -59,11 +68,30 @@ export interface ElementSummary {
   childCount: number;
 }
 
+/**
+ * An element near the selected one, with its computed styles.
+ */
+export interface RelatedElementStyles extends ElementSummary {
+  computedStyles: ComputedStylesSnapshot;
+}
+
+/**
+ * The elements around the selected one, for styling commands that refer to
+ * them (e.g. "match its sibling's padding"). Null where there is none.
+ */
+export interface ElementStyleContext {
+  parent: RelatedElementStyles | null;
+  previousSibling: RelatedElementStyles | null;
+  nextSibling: RelatedElementStyles | null;
+}
+
 export interface BreadcrumbItem {
   /** Selector to navigate to this element */
   selector: string;
   /** Human-readable label */
   label: string;
+  /** True for the <body> of an iframe document (a frame boundary in the path) */
+  frameBoundary?: boolean;
 }
 
 export interface ComputedStylesSnapshot {
@@ -124,6 +152,23 @@ export interface SelectorResolutionResult {
   error?: string; // Human-readable error message
 }
 
+// ============================================================================
+// Multi-element Selection
+// ============================================================================
+
+/**
+ * Summary of a multi-element selection (more than one element selected).
+ * The primary element is the one whose metadata and styles the panel shows.
+ */
+export interface SelectionSummary {
+  /** Number of selected elements, including the primary */
+  count: number;
+  /** Stable selectors of every selected element (primary first) */
+  selectors: string[];
+  /** Computed style properties whose values differ across the selection, with their distinct values */
+  mixedStyles: Partial<Record<keyof ComputedStylesSnapshot, string[]>>;
+}
+
 // ============================================================================
 // Element Identity
 // ============================================================================
@@ -139,6 +184,22 @@ export interface ElementIdentity {
 // Style Patch
 // ============================================================================
 
+/**
+ * How a style patch is written to the page.
+ * - inline: element.style with !important (targets a single element)
+ * - stylesheet: a rule in the extension-owned <style> sheet (targets a selector)
+ */
+export type PatchMode = 'inline' | 'stylesheet';
+
+/**
+ * Interactive pseudo-class state a patch can be recorded against.
+ * State patches are always written to the patch sheet, scoped to the state.
+ * The same applies to media-scoped (breakpoint) patches.
+ */
+export type PseudoState = 'hover' | 'focus' | 'active' | 'focus-visible';
+
+export const PSEUDO_STATES: PseudoState[] = ['hover', 'focus', 'active', 'focus-visible'];
+
 export interface StylePatch {
   selector: string;
   property: keyof CSSStyleDeclaration | string;
@@ -146,6 +207,119 @@ export interface StylePatch {
   previousValue: string;
   timestamp: number;
   identityToken?: ElementIdentity; // Optional for backwards compat
+  mode?: PatchMode;                // Defaults to 'inline' for backwards compat
+  previousRuleValue?: string;      // Stylesheet mode: declaration held by the patch sheet before this patch
+  state?: PseudoState;             // Pseudo-class the patch applies to (absent = base style)
+  media?: string;                  // Media condition the patch is scoped to, e.g. '(min-width: 768px)'
+  groupId?: string;                // Shared by patches from one multi-element edit (undone atomically)
+  reanchoredFrom?: string;         // Selector the patch was recorded with, if it was re-anchored since
+  prompt?: string;                 // Natural-language command the patch was generated from
+}
+
+/**
+ * Where a style patch is applied, as chosen in the side panel.
+ */
+export type PatchScope = Pick<StylePatch, 'mode' | 'state' | 'media'>;
+
+// ============================================================================
+// Structural Patches
+// ============================================================================
+
+export type StructuralOperation = 'move' | 'duplicate' | 'delete' | 'hide' | 'wrap';
+
+/**
+ * A change to the DOM structure (rather than to styles), recorded in history.
+ * Indices count the parent's element children, before the change.
+ */
+export interface StructuralPatch {
+  kind: 'structure';
+  operation: StructuralOperation;
+  selector: string;                // Element the operation targets, before the change
+  parentSelector: string;          // Parent the element lived in
+  index: number;                   // Element's index among the parent's element children
+  toIndex?: number;                // move: index among the parent's element children after the move
+  resultSelector?: string;         // Element after the change: the moved element, the copy, or the wrapper
+  previousDisplay?: string;        // hide: inline display value before hiding
+  previousDisplayPriority?: string; // hide: its priority ('important' or '')
+  timestamp: number;
+  identityToken?: ElementIdentity;
+}
+
+// ============================================================================
+// Text Patches
+// ============================================================================
+
+/**
+ * A text content edit made with the in-page text editor, recorded in history.
+ * Shares value/previousValue with StylePatch so edits collapse the same way.
+ */
+export interface TextPatch {
+  kind: 'text';
+  selector: string;
+  value: string;                   // New text of the edited text node
+  previousValue: string;           // Text the node held before the edit
+  timestamp: number;
+  identityToken?: ElementIdentity; // Identity after the edit; text is ignored when matching
+}
+
+// ============================================================================
+// Attribute Patches
+// ============================================================================
+
+/**
+ * - addClass / removeClass: toggle a single class, leaving the others alone
+ * - set / remove: set or remove any other attribute (aria-*, data-*, ...)
+ */
+export type AttributeOperation = 'addClass' | 'removeClass' | 'set' | 'remove';
+
+/**
+ * A change to an element's classes or attributes, recorded in history.
+ * Class changes alter the element's identity and possibly its selector, so
+ * the selector after the change is recorded for undo.
+ */
+export interface AttributePatch {
+  kind: 'attribute';
+  operation: AttributeOperation;
+  selector: string;                // Element before the change
+  resultSelector?: string;         // Element after the change, if its selector changed
+  name: string;                    // Class name for class operations, attribute name otherwise
+  value?: string;                  // set: new value
+  previousValue?: string | null;   // set/remove: value before the change (null = absent)
+  timestamp: number;
+  identityToken?: ElementIdentity; // Identity before the change; the toggled class is ignored when matching
+}
+
+/**
+ * Any entry in the undo/redo history.
+ */
+export type HistoryPatch = StylePatch | StructuralPatch | TextPatch | AttributePatch;
+
+/**
+ * Check if a history entry is a style patch (the only kind without a `kind`).
+ */
+export function isStylePatch(patch: HistoryPatch): patch is StylePatch {
+  return !('kind' in patch);
+}
+
+/**
+ * Check if a history entry is a structural patch.
+ */
+export function isStructuralPatch(patch: HistoryPatch): patch is StructuralPatch {
+  return 'kind' in patch && patch.kind === 'structure';
+}
+
+/**
+ * Check if a history entry is a text patch.
+ */
+export function isTextPatch(patch: HistoryPatch): patch is TextPatch {
+  return 'kind' in patch && patch.kind === 'text';
+}
+
+/**
+ * Check if a history entry is an attribute (or class) patch.
+ */
+export function isAttributePatch(patch: HistoryPatch): patch is AttributePatch {
+  return 'kind' in patch && patch.kind === 'attribute';
 }
 
 // ============================================================================
@@ -156,7 +330,10 @@ export type PatchErrorCode =
   | 'ELEMENT_NOT_FOUND'
   | 'ELEMENT_AMBIGUOUS'
   | 'IDENTITY_MISMATCH'
-  | 'INVALID_SELECTOR';
+  | 'INVALID_SELECTOR'
+  | 'UNSUPPORTED_TARGET'
+  | 'INVALID_ATTRIBUTE'
+  | 'PREVIEW_PENDING';
 
 export interface PatchError {
   code: PatchErrorCode;
@@ -164,6 +341,117 @@ export interface PatchError {
   matchCount?: number;
 }
 
+// ============================================================================
+// Patch Replay
+// ============================================================================
+
+/**
+ * A persisted patch that could not be re-applied after a reload.
+ */
+export interface ReplayFailure {
+  patch: HistoryPatch;
+  error: PatchError;
+}
+
+/**
+ * Result of replaying persisted patches after a page (or HMR) reload.
+ */
+export interface ReplayReport {
+  /** Timestamp of the replay */
+  replayedAt: number;
+  /** Number of patches re-applied successfully */
+  appliedCount: number;
+  /** Patches that failed to re-anchor, kept for a retry */
+  failures: ReplayFailure[];
+}
+
+/**
+ * Outcome of applying one FinalPatch: re-applied from an imported export,
+ * or previewed from an AI proposal.
+ */
+export interface ImportPatchResult {
+  selector: string;
+  property: string;
+  value: string;
+  success: boolean;
+  error?: PatchError;
+}
+
+// ============================================================================
+// Design Tokens
+// ============================================================================
+
+/**
+ * A custom property defined on the page's :root, e.g. --spacing-4.
+ */
+export interface DesignToken {
+  /** Custom property name, including the leading dashes */
+  name: string;
+  /** Value as computed on :root, with var() references substituted */
+  value: string;
+  /** Value after resolving var() references: px for lengths, rgb()/rgba() for colors */
+  resolvedValue: string;
+  kind: 'length' | 'color';
+}
+
+/**
+ * The design token nearest to an edited value.
+ */
+export interface TokenSuggestion {
+  /** Custom property name, e.g. --radius-md */
+  name: string;
+  /** The token's resolved value */
+  value: string;
+  /** True when the token resolves to exactly the edited value */
+  exact: boolean;
+}
+
+/**
+ * An edited style value of the selected element and its nearest token.
+ */
+export interface TokenSuggestionEntry {
+  property: string;
+  value: string;
+  token: TokenSuggestion;
+  /** Pseudo-class state the value applies to. Absent means the base style. */
+  state?: PseudoState;
+  /** Media condition the value is scoped to. Absent means all viewports. */
+  media?: string;
+}
+
+// ============================================================================
+// Screenshots
+// ============================================================================
+
+/**
+ * An element's place on the page, with what the service worker needs to crop
+ * it from a tab capture but cannot read itself. All values in CSS pixels.
+ */
+export interface ScreenshotRegion {
+  /** Bounding rect in top-level viewport coordinates */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** window.devicePixelRatio: capture pixels per CSS pixel, zoom included */
+  devicePixelRatio: number;
+  /** Page scroll offsets the rect was measured at */
+  scrollX: number;
+  scrollY: number;
+  /** Viewport size without scrollbars */
+  viewportWidth: number;
+  viewportHeight: number;
+}
+
+/**
+ * Crops of one element, as PNG data URLs. "before" is taken when the
+ * element is selected before its first change, "after" at export time.
+ */
+export interface ElementScreenshotPair {
+  before?: string;
+  after?: string;
+}
+
 // ============================================================================
 // Export Schema v1 (Phase 2 Contract)
 // ============================================================================
@@ -189,7 +477,9 @@ export type ExportWarningCode =
   | 'MULTIPLE_ELEMENTS_MATCHED' // Selector matched more than one element
   | 'ELEMENT_NOT_FOUND'        // Element could not be re-queried at export time
   | 'VIEWPORT_MISMATCH'        // Captured viewport differs from common breakpoints
-  | 'IDENTITY_MISMATCH';       // Element identity doesn't match patch identity tokens
+  | 'IDENTITY_MISMATCH'        // Element identity doesn't match patch identity tokens
+  | 'SHADOW_DOM_TARGET'        // Selector pierces a shadow root (not plain CSS)
+  | 'ELEMENT_REANCHORED';      // Selector broke and the patch was re-targeted by fuzzy matching
 
 /**
  * Warning object attached to exports. Machine-readable codes with human messages.
@@ -221,6 +511,77 @@ export interface FinalPatch {
   selectorConfidence: SelectorConfidence;
   /** ISO 8601 timestamp of when the FinalPatch was frozen for export */
   capturedAt: string;
+  /** How the change was applied in the browser. Absent means 'inline'. */
+  mode?: PatchMode;
+  /** Pseudo-class state the change applies to (e.g. 'hover'). Absent means the base style. */
+  state?: PseudoState;
+  /** Media condition the change is scoped to (e.g. '(min-width: 768px)'). Absent means all viewports. */
+  media?: string;
+  /** Selector path of the iframe the element is in (e.g. 'iframe#preview'). Absent means the top document. */
+  frame?: string;
+  /** Selector the change was originally recorded with, if the element was re-anchored since */
+  reanchoredFrom?: string;
+  /** The page's design token nearest to finalValue, if one is close enough */
+  suggestedToken?: TokenSuggestion;
+}
+
+/**
+ * A change to the page's markup structure. Consumers implement these by
+ * editing the markup/JSX, not by adding CSS.
+ */
+export interface FinalStructuralChange {
+  operation: StructuralOperation;
+  /** Selector of the element before the change */
+  selector: string;
+  /** Selector of the element's parent */
+  parentSelector: string;
+  /** Index among the parent's element children before the change */
+  fromIndex: number;
+  /** move only: index among the parent's element children after the change */
+  toIndex?: number;
+  /** Human-readable description of the change */
+  description: string;
+  /** ISO 8601 timestamp of when the change was made */
+  capturedAt: string;
+  /** Selector path of the iframe the element is in. Absent means the top document. */
+  frame?: string;
+}
+
+/**
+ * A change to an element's text. Consumers apply it to the source string
+ * (JSX text, template, CMS entry or i18n message) that renders the text.
+ */
+export interface FinalTextChange {
+  /** CSS selector of the element whose text changed */
+  selector: string;
+  /** Text before any edits (whitespace collapsed) */
+  originalText: string;
+  /** Final edited text (whitespace collapsed) */
+  finalText: string;
+  /** ISO 8601 timestamp of the last edit */
+  capturedAt: string;
+  /** Selector path of the iframe the element is in. Absent means the top document. */
+  frame?: string;
+}
+
+/**
+ * A change to an element's classes or attributes. Consumers apply it to the
+ * class list or attributes in the markup/JSX, not as CSS.
+ */
+export interface FinalAttributeChange {
+  operation: AttributeOperation;
+  /** CSS selector of the element, before the change */
+  selector: string;
+  /** Class name for class operations, attribute name otherwise */
+  name: string;
+  /** set only: final attribute value */
+  value?: string;
+  /** set/remove only: attribute value before any changes (null = absent) */
+  originalValue?: string | null;
+  /** ISO 8601 timestamp of the last change */
+  capturedAt: string;
+  /** Selector path of the iframe the element is in. Absent means the top document. */
+  frame?: string;
 }
 
 /**
@@ -247,6 +608,14 @@ export interface VisualUIInspectorExport {
   viewport: Viewport;
   /** List of FinalPatches representing all visual changes */
   patches: FinalPatch[];
+  /** DOM structure changes (moves, copies, removals, wrappers), in the order they were made */
+  structuralChanges?: FinalStructuralChange[];
+  /** Copy changes: edited text, one per element */
+  textChanges?: FinalTextChange[];
+  /** Class and attribute changes (e.g. utility classes added or removed), one per element and class/attribute */
+  attributeChanges?: FinalAttributeChange[];
+  /** Before/after crops of changed elements, keyed by selector. Only in exports made for handoff (copy, download, AI). */
+  screenshots?: Record<string, ElementScreenshotPair>;
   /** Human-readable warnings about this export. Consumers should surface these. */
   warnings: ExportWarning[];
 }
@@ -286,6 +655,14 @@ export enum MessageType {
   APPLY_STYLE_PATCH = 'APPLY_STYLE_PATCH',
   STYLE_PATCH_APPLIED = 'STYLE_PATCH_APPLIED',
 
+  // Structural patches
+  APPLY_STRUCTURAL_PATCH = 'APPLY_STRUCTURAL_PATCH',
+  STRUCTURAL_PATCH_APPLIED = 'STRUCTURAL_PATCH_APPLIED',
+
+  // Attribute patches
+  APPLY_ATTRIBUTE_PATCH = 'APPLY_ATTRIBUTE_PATCH',
+  ATTRIBUTE_PATCH_APPLIED = 'ATTRIBUTE_PATCH_APPLIED',
+
   // History
   UNDO = 'UNDO',
   REDO = 'REDO',
@@ -308,6 +685,18 @@ export enum MessageType {
   NAVIGATE_TO_SELECTOR = 'NAVIGATE_TO_SELECTOR',
   NAVIGATE_TO_SIBLING = 'NAVIGATE_TO_SIBLING',
 
+  // Pseudo-class state forcing
+  FORCE_ELEMENT_STATE = 'FORCE_ELEMENT_STATE',
+
+  // Multi-element selection
+  SELECT_MATCHING = 'SELECT_MATCHING',
+  SELECTION_CHANGED = 'SELECTION_CHANGED',
+
+  // Patch replay after reload
+  PATCHES_REPLAYED = 'PATCHES_REPLAYED',
+  RETRY_REPLAY = 'RETRY_REPLAY',
+  DISCARD_UNANCHORED = 'DISCARD_UNANCHORED',
+
   // Connection
   PING = 'PING',
   PONG = 'PONG',
@@ -316,6 +705,25 @@ export enum MessageType {
   // Prompt Handoff Export
   GET_EXPORT_DATA = 'GET_EXPORT_DATA',
   EXPORT_DATA = 'EXPORT_DATA',
+
+  // Design Tokens
+  GET_TOKEN_SUGGESTIONS = 'GET_TOKEN_SUGGESTIONS',
+
+  // Import
+  APPLY_IMPORTED_PATCHES = 'APPLY_IMPORTED_PATCHES',
+
+  // Screenshots
+  CAPTURE_SCREENSHOTS = 'CAPTURE_SCREENSHOTS',
+
+  // AI patch proposals
+  PREVIEW_PROPOSED_PATCHES = 'PREVIEW_PROPOSED_PATCHES',
+  RESOLVE_PROPOSED_PATCHES = 'RESOLVE_PROPOSED_PATCHES',
+
+  // Styling commands
+  GET_ELEMENT_STYLE_CONTEXT = 'GET_ELEMENT_STYLE_CONTEXT',
+
+  // History listing
+  GET_RECENT_PATCHES = 'GET_RECENT_PATCHES',
 }
 
 // Base message interface
@@ -364,6 +772,53 @@ export interface StylePatchAppliedMessage extends BaseMessage {
     success: boolean;
     patch: StylePatch;
     updatedStyles: ComputedStylesSnapshot;
+    error?: PatchError;
+  };
+}
+
+export interface ApplyStructuralPatchMessage extends BaseMessage {
+  type: MessageType.APPLY_STRUCTURAL_PATCH;
+  payload: {
+    operation: StructuralOperation;
+    selector: string;
+    /** move: sibling to drop the element next to */
+    targetSelector?: string;
+    /** move: which side of the target sibling to drop on */
+    position?: 'before' | 'after';
+  };
+}
+
+export interface StructuralPatchAppliedMessage extends BaseMessage {
+  type: MessageType.STRUCTURAL_PATCH_APPLIED;
+  payload: {
+    success: boolean;
+    patch: StructuralPatch | null;
+    error?: PatchError;
+    canUndo: boolean;
+    canRedo: boolean;
+  };
+}
+
+export interface ApplyAttributePatchMessage extends BaseMessage {
+  type: MessageType.APPLY_ATTRIBUTE_PATCH;
+  payload: {
+    operation: AttributeOperation;
+    selector: string;
+    /** Class name for class operations, attribute name otherwise */
+    name: string;
+    /** set: new value */
+    value?: string;
+  };
+}
+
+export interface AttributePatchAppliedMessage extends BaseMessage {
+  type: MessageType.ATTRIBUTE_PATCH_APPLIED;
+  payload: {
+    success: boolean;
+    patch: AttributePatch | null;
+    error?: PatchError;
+    canUndo: boolean;
+    canRedo: boolean;
   };
 }
 
@@ -379,8 +834,9 @@ export interface UndoAppliedMessage extends BaseMessage {
   type: MessageType.UNDO_APPLIED;
   payload: {
     success: boolean;
-    patch: StylePatch | null;
+    patch: HistoryPatch | null;
     updatedStyles: ComputedStylesSnapshot | null;
+    error?: PatchError;
     canUndo: boolean;
     canRedo: boolean;
   };
@@ -390,8 +846,9 @@ export interface RedoAppliedMessage extends BaseMessage {
   type: MessageType.REDO_APPLIED;
   payload: {
     success: boolean;
-    patch: StylePatch | null;
+    patch: HistoryPatch | null;
     updatedStyles: ComputedStylesSnapshot | null;
+    error?: PatchError;
     canUndo: boolean;
     canRedo: boolean;
   };
@@ -408,6 +865,10 @@ export interface CurrentStateMessage extends BaseMessage {
     selectedElement: ElementMetadata | null;
     canUndo: boolean;
     canRedo: boolean;
+    forcedState: PseudoState | null;
+    selection: SelectionSummary | null;
+    /** Last replay report, or null if nothing was replayed */
+    replayReport: ReplayReport | null;
   };
 }
 
@@ -436,6 +897,8 @@ export interface TextContentChangedMessage extends BaseMessage {
     selector: string;
     previousText: string;
     newText: string;
+    canUndo: boolean;
+    canRedo: boolean;
   };
 }
 
@@ -468,9 +931,48 @@ export interface NavigateToSiblingMessage extends BaseMessage {
   };
 }
 
+export interface ForceElementStateMessage extends BaseMessage {
+  type: MessageType.FORCE_ELEMENT_STATE;
+  payload: {
+    /** Pseudo-class to force on the selected element, or null to release it */
+    state: PseudoState | null;
+  };
+}
+
+export interface SelectMatchingMessage extends BaseMessage {
+  type: MessageType.SELECT_MATCHING;
+  payload: {
+    /** Selector to match; defaults to the primary element's tag + classes */
+    selector?: string;
+  };
+}
+
+export interface SelectionChangedMessage extends BaseMessage {
+  type: MessageType.SELECTION_CHANGED;
+  /** null when a single element (or nothing) is selected */
+  payload: SelectionSummary | null;
+}
+
+export interface PatchesReplayedMessage extends BaseMessage {
+  type: MessageType.PATCHES_REPLAYED;
+  payload: ReplayReport;
+}
+
+export interface RetryReplayMessage extends BaseMessage {
+  type: MessageType.RETRY_REPLAY;
+}
+
+export interface DiscardUnanchoredMessage extends BaseMessage {
+  type: MessageType.DISCARD_UNANCHORED;
+}
+
 // Prompt Handoff Export messages
 export interface GetExportDataMessage extends BaseMessage {
   type: MessageType.GET_EXPORT_DATA;
+  payload: {
+    /** Capture "after" crops of the changed elements and include the screenshots */
+    withScreenshots?: boolean;
+  };
 }
 
 export interface ExportDataMessage extends BaseMessage {
@@ -478,6 +980,72 @@ export interface ExportDataMessage extends BaseMessage {
   payload: VisualUIInspectorExport | null;
 }
 
+// Design token messages
+export interface GetTokenSuggestionsMessage extends BaseMessage {
+  type: MessageType.GET_TOKEN_SUGGESTIONS;
+  payload: {
+    /** Element whose edited values to suggest tokens for */
+    selector: string;
+  };
+}
+
+// Import messages
+export interface ApplyImportedPatchesMessage extends BaseMessage {
+  type: MessageType.APPLY_IMPORTED_PATCHES;
+  payload: {
+    /** Patches of a validated export, in export order */
+    patches: FinalPatch[];
+  };
+}
+
+// Screenshot messages (content script → service worker)
+export interface CaptureScreenshotsMessage extends BaseMessage {
+  type: MessageType.CAPTURE_SCREENSHOTS;
+  payload: {
+    /** Elements to crop from captures of the tab, by key */
+    regions: Record<string, ScreenshotRegion>;
+    /** Scroll to and stitch regions that aren't fully in view; otherwise only their visible part is cropped */
+    stitch?: boolean;
+  };
+}
+
+// AI patch proposal messages
+export interface PreviewProposedPatchesMessage extends BaseMessage {
+  type: MessageType.PREVIEW_PROPOSED_PATCHES;
+  payload: {
+    /** Validated proposals; replaces any preview still pending */
+    patches: FinalPatch[];
+  };
+}
+
+export interface ResolveProposedPatchesMessage extends BaseMessage {
+  type: MessageType.RESOLVE_PROPOSED_PATCHES;
+  payload: {
+    /** Positions of the proposals in the previewed list */
+    indices: number[];
+    /** Keep them as history entries, or revert them */
+    accept: boolean;
+  };
+}
+
+// Styling command messages
+export interface GetElementStyleContextMessage extends BaseMessage {
+  type: MessageType.GET_ELEMENT_STYLE_CONTEXT;
+  payload: {
+    /** Element the command targets */
+    selector: string;
+  };
+}
+
+// History listing messages
+export interface GetRecentPatchesMessage extends BaseMessage {
+  type: MessageType.GET_RECENT_PATCHES;
+  payload: {
+    /** Maximum number of patches to return */
+    limit: number;
+  };
+}
+
 // Union type of all messages
 export type ExtensionMessage =
   | StartPickMessage
@@ -503,8 +1071,25 @@ export type ExtensionMessage =
   | NavigateToChildMessage
   | NavigateToSelectorMessage
   | NavigateToSiblingMessage
+  | ForceElementStateMessage
+  | SelectMatchingMessage
+  | SelectionChangedMessage
+  | PatchesReplayedMessage
+  | RetryReplayMessage
+  | DiscardUnanchoredMessage
+  | ApplyStructuralPatchMessage
+  | StructuralPatchAppliedMessage
+  | ApplyAttributePatchMessage
+  | AttributePatchAppliedMessage
   | GetExportDataMessage
-  | ExportDataMessage;
+  | ExportDataMessage
+  | GetTokenSuggestionsMessage
+  | ApplyImportedPatchesMessage
+  | PreviewProposedPatchesMessage
+  | ResolveProposedPatchesMessage
+  | GetElementStyleContextMessage
+  | GetRecentPatchesMessage
+  | CaptureScreenshotsMessage;
 
 // ============================================================================
 // Utility Functions
@@ -9,8 +9,12 @@ import type {
   VisualUIInspectorExport,
   SelectorConfidence,
   ExportWarningCode,
+  PatchMode,
+  PseudoState,
+  StructuralOperation,
+  AttributeOperation,
 } from './types';
-import { EXPORT_SCHEMA_VERSION } from './types';
+import { EXPORT_SCHEMA_VERSION, PSEUDO_STATES } from './types';
 
 // ============================================================================
 // Validation Types
@@ -32,6 +36,9 @@ export interface ValidationError {
 // ============================================================================
 
 const VALID_CONFIDENCE_VALUES: SelectorConfidence[] = ['high', 'medium', 'low'];
+const VALID_PATCH_MODES: PatchMode[] = ['inline', 'stylesheet'];
+const VALID_STRUCTURAL_OPERATIONS: StructuralOperation[] = ['move', 'duplicate', 'delete', 'hide', 'wrap'];
+const VALID_ATTRIBUTE_OPERATIONS: AttributeOperation[] = ['addClass', 'removeClass', 'set', 'remove'];
 const VALID_WARNING_CODES: ExportWarningCode[] = [
   'SELECTOR_POSITIONAL',
   'SELECTOR_NO_ID',
@@ -39,6 +46,8 @@ const VALID_WARNING_CODES: ExportWarningCode[] = [
   'ELEMENT_NOT_FOUND',
   'VIEWPORT_MISMATCH',
   'IDENTITY_MISMATCH',
+  'SHADOW_DOM_TARGET',
+  'ELEMENT_REANCHORED',
 ];
 
 function isString(value: unknown): value is string {
@@ -65,6 +74,22 @@ function isValidSelectorConfidence(value: unknown): value is SelectorConfidence
   return isString(value) && VALID_CONFIDENCE_VALUES.includes(value as SelectorConfidence);
 }
 
+function isValidPatchMode(value: unknown): value is PatchMode {
+  return isString(value) && VALID_PATCH_MODES.includes(value as PatchMode);
+}
+
+function isValidPseudoState(value: unknown): value is PseudoState {
+  return isString(value) && PSEUDO_STATES.includes(value as PseudoState);
+}
+
+function isValidStructuralOperation(value: unknown): value is StructuralOperation {
+  return isString(value) && VALID_STRUCTURAL_OPERATIONS.includes(value as StructuralOperation);
+}
+
+function isValidAttributeOperation(value: unknown): value is AttributeOperation {
+  return isString(value) && VALID_ATTRIBUTE_OPERATIONS.includes(value as AttributeOperation);
+}
+
 function isValidWarningCode(value: unknown): value is ExportWarningCode {
   return isString(value) && VALID_WARNING_CODES.includes(value as ExportWarningCode);
 }
@@ -91,8 +116,9 @@ function isValidURL(value: unknown): boolean {
 
 /**
  * Validate a FinalPatch object.
+ * Also used on style patches proposed by the AI before they are previewed.
  */
-function validateFinalPatch(patch: unknown, index: number): ValidationError[] {
+export function validateFinalPatch(patch: unknown, index: number): ValidationError[] {
   const errors: ValidationError[] = [];
   const path = `patches[${index}]`;
 
@@ -155,6 +181,267 @@ function validateFinalPatch(patch: unknown, index: number): ValidationError[] {
     });
   }
 
+  // Optional: mode (inline | stylesheet)
+  if (patch.mode !== undefined && !isValidPatchMode(patch.mode)) {
+    errors.push({
+      path: `${path}.mode`,
+      message: 'mode must be "inline" or "stylesheet"',
+      value: patch.mode,
+    });
+  }
+
+  // Optional: state (hover | focus | active | focus-visible)
+  if (patch.state !== undefined && !isValidPseudoState(patch.state)) {
+    errors.push({
+      path: `${path}.state`,
+      message: `state must be one of: ${PSEUDO_STATES.join(', ')}`,
+      value: patch.state,
+    });
+  }
+
+  // Optional: media (non-empty media condition, e.g. "(min-width: 768px)")
+  if (patch.media !== undefined && (!isString(patch.media) || patch.media.trim() === '')) {
+    errors.push({
+      path: `${path}.media`,
+      message: 'media must be a non-empty media condition string',
+      value: patch.media,
+    });
+  }
+
+  // Optional: frame (non-empty iframe selector path)
+  if (patch.frame !== undefined && (!isString(patch.frame) || patch.frame.trim() === '')) {
+    errors.push({
+      path: `${path}.frame`,
+      message: 'frame must be a non-empty iframe selector path',
+      value: patch.frame,
+    });
+  }
+
+  // Optional: reanchoredFrom (non-empty selector the patch was recorded with)
+  if (patch.reanchoredFrom !== undefined && (!isString(patch.reanchoredFrom) || patch.reanchoredFrom.trim() === '')) {
+    errors.push({
+      path: `${path}.reanchoredFrom`,
+      message: 'reanchoredFrom must be a non-empty selector string',
+      value: patch.reanchoredFrom,
+    });
+  }
+
+  // Optional: suggestedToken (nearest design token: custom property name, value, exact flag)
+  if (patch.suggestedToken !== undefined) {
+    const token = patch.suggestedToken;
+    if (
+      !isObject(token) ||
+      !isString(token.name) ||
+      !token.name.startsWith('--') ||
+      !isString(token.value) ||
+      typeof token.exact !== 'boolean'
+    ) {
+      errors.push({
+        path: `${path}.suggestedToken`,
+        message: 'suggestedToken must be an object with a custom property name, a value and an exact flag',
+        value: token,
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a FinalStructuralChange object.
+ */
+function validateStructuralChange(change: unknown, index: number): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const path = `structuralChanges[${index}]`;
+
+  if (!isObject(change)) {
+    errors.push({ path, message: 'Structural change must be an object', value: change });
+    return errors;
+  }
+
+  // Required: operation (move | duplicate | delete | hide | wrap)
+  if (!isValidStructuralOperation(change.operation)) {
+    errors.push({
+      path: `${path}.operation`,
+      message: `operation must be one of: ${VALID_STRUCTURAL_OPERATIONS.join(', ')}`,
+      value: change.operation,
+    });
+  }
+
+  // Required: selector and parentSelector (string)
+  for (const key of ['selector', 'parentSelector'] as const) {
+    if (!isString(change[key])) {
+      errors.push({
+        path: `${path}.${key}`,
+        message: `${key} must be a string`,
+        value: change[key],
+      });
+    }
+  }
+
+  // Required: fromIndex (non-negative integer)
+  if (!isInteger(change.fromIndex) || change.fromIndex < 0) {
+    errors.push({
+      path: `${path}.fromIndex`,
+      message: 'fromIndex must be a non-negative integer',
+      value: change.fromIndex,
+    });
+  }
+
+  // Required for moves: toIndex (non-negative integer)
+  if (
+    (change.operation === 'move' || change.toIndex !== undefined) &&
+    (!isInteger(change.toIndex) || change.toIndex < 0)
+  ) {
+    errors.push({
+      path: `${path}.toIndex`,
+      message: 'toIndex must be a non-negative integer (required for moves)',
+      value: change.toIndex,
+    });
+  }
+
+  // Required: description (string)
+  if (!isString(change.description)) {
+    errors.push({
+      path: `${path}.description`,
+      message: 'description must be a string',
+      value: change.description,
+    });
+  }
+
+  // Required: capturedAt (ISO 8601 date-time)
+  if (!isValidISODate(change.capturedAt)) {
+    errors.push({
+      path: `${path}.capturedAt`,
+      message: 'capturedAt must be a valid ISO 8601 date-time string',
+      value: change.capturedAt,
+    });
+  }
+
+  // Optional: frame (non-empty iframe selector path)
+  if (change.frame !== undefined && (!isString(change.frame) || change.frame.trim() === '')) {
+    errors.push({
+      path: `${path}.frame`,
+      message: 'frame must be a non-empty iframe selector path',
+      value: change.frame,
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a FinalTextChange object.
+ */
+function validateTextChange(change: unknown, index: number): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const path = `textChanges[${index}]`;
+
+  if (!isObject(change)) {
+    errors.push({ path, message: 'Text change must be an object', value: change });
+    return errors;
+  }
+
+  // Required: selector, originalText and finalText (string)
+  for (const key of ['selector', 'originalText', 'finalText'] as const) {
+    if (!isString(change[key])) {
+      errors.push({
+        path: `${path}.${key}`,
+        message: `${key} must be a string`,
+        value: change[key],
+      });
+    }
+  }
+
+  // Required: capturedAt (ISO 8601 date-time)
+  if (!isValidISODate(change.capturedAt)) {
+    errors.push({
+      path: `${path}.capturedAt`,
+      message: 'capturedAt must be a valid ISO 8601 date-time string',
+      value: change.capturedAt,
+    });
+  }
+
+  // Optional: frame (non-empty iframe selector path)
+  if (change.frame !== undefined && (!isString(change.frame) || change.frame.trim() === '')) {
+    errors.push({
+      path: `${path}.frame`,
+      message: 'frame must be a non-empty iframe selector path',
+      value: change.frame,
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a FinalAttributeChange object.
+ */
+function validateAttributeChange(change: unknown, index: number): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const path = `attributeChanges[${index}]`;
+
+  if (!isObject(change)) {
+    errors.push({ path, message: 'Attribute change must be an object', value: change });
+    return errors;
+  }
+
+  // Required: operation (addClass | removeClass | set | remove)
+  if (!isValidAttributeOperation(change.operation)) {
+    errors.push({
+      path: `${path}.operation`,
+      message: `operation must be one of: ${VALID_ATTRIBUTE_OPERATIONS.join(', ')}`,
+      value: change.operation,
+    });
+  }
+
+  // Required: selector and name (non-empty string)
+  for (const key of ['selector', 'name'] as const) {
+    if (!isString(change[key]) || change[key].trim() === '') {
+      errors.push({
+        path: `${path}.${key}`,
+        message: `${key} must be a non-empty string`,
+        value: change[key],
+      });
+    }
+  }
+
+  // Required for set: value (string)
+  if ((change.operation === 'set' || change.value !== undefined) && !isString(change.value)) {
+    errors.push({
+      path: `${path}.value`,
+      message: 'value must be a string (required for set)',
+      value: change.value,
+    });
+  }
+
+  // Optional: originalValue (string or null)
+  if (change.originalValue !== undefined && change.originalValue !== null && !isString(change.originalValue)) {
+    errors.push({
+      path: `${path}.originalValue`,
+      message: 'originalValue must be a string or null',
+      value: change.originalValue,
+    });
+  }
+
+  // Required: capturedAt (ISO 8601 date-time)
+  if (!isValidISODate(change.capturedAt)) {
+    errors.push({
+      path: `${path}.capturedAt`,
+      message: 'capturedAt must be a valid ISO 8601 date-time string',
+      value: change.capturedAt,
+    });
+  }
+
+  // Optional: frame (non-empty iframe selector path)
+  if (change.frame !== undefined && (!isString(change.frame) || change.frame.trim() === '')) {
+    errors.push({
+      path: `${path}.frame`,
+      message: 'frame must be a non-empty iframe selector path',
+      value: change.frame,
+    });
+  }
+
   return errors;
 }
 
@@ -245,6 +532,36 @@ function validateViewport(viewport: unknown): ValidationError[] {
   return errors;
 }
 
+/**
+ * Validate the screenshots map (selector → before/after PNG data URLs).
+ * Image data is left out of the errors, since it can be very long.
+ */
+function validateScreenshots(screenshots: unknown): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const path = 'screenshots';
+
+  if (!isObject(screenshots) || isArray(screenshots)) {
+    errors.push({ path, message: 'screenshots must be an object keyed by selector' });
+    return errors;
+  }
+
+  for (const [selector, pair] of Object.entries(screenshots)) {
+    const pairPath = `${path}[${JSON.stringify(selector)}]`;
+    if (!isObject(pair)) {
+      errors.push({ path: pairPath, message: 'Screenshot pair must be an object' });
+      continue;
+    }
+    for (const key of ['before', 'after'] as const) {
+      const value = pair[key];
+      if (value !== undefined && !(isString(value) && value.startsWith('data:image/'))) {
+        errors.push({ path: `${pairPath}.${key}`, message: `${key} must be an image data URL` });
+      }
+    }
+  }
+
+  return errors;
+}
+
 // ============================================================================
 // Main Validation Function
 // ============================================================================
@@ -320,6 +637,56 @@ export function validateExportSchemaV1(data: unknown): ValidationResult {
     }
   }
 
+  // Optional: structuralChanges (array of FinalStructuralChange)
+  if (data.structuralChanges !== undefined) {
+    if (!isArray(data.structuralChanges)) {
+      errors.push({
+        path: 'structuralChanges',
+        message: 'structuralChanges must be an array',
+        value: data.structuralChanges,
+      });
+    } else {
+      for (let i = 0; i < data.structuralChanges.length; i++) {
+        errors.push(...validateStructuralChange(data.structuralChanges[i], i));
+      }
+    }
+  }
+
+  // Optional: textChanges (array of FinalTextChange)
+  if (data.textChanges !== undefined) {
+    if (!isArray(data.textChanges)) {
+      errors.push({
+        path: 'textChanges',
+        message: 'textChanges must be an array',
+        value: data.textChanges,
+      });
+    } else {
+      for (let i = 0; i < data.textChanges.length; i++) {
+        errors.push(...validateTextChange(data.textChanges[i], i));
+      }
+    }
+  }
+
+  // Optional: attributeChanges (array of FinalAttributeChange)
+  if (data.attributeChanges !== undefined) {
+    if (!isArray(data.attributeChanges)) {
+      errors.push({
+        path: 'attributeChanges',
+        message: 'attributeChanges must be an array',
+        value: data.attributeChanges,
+      });
+    } else {
+      for (let i = 0; i < data.attributeChanges.length; i++) {
+        errors.push(...validateAttributeChange(data.attributeChanges[i], i));
+      }
+    }
+  }
+
+  // Optional: screenshots (before/after crops by selector)
+  if (data.screenshots !== undefined) {
+    errors.push(...validateScreenshots(data.screenshots));
+  }
+
   // Required: warnings (array of ExportWarning)
   if (!isArray(data.warnings)) {
     errors.push({
@@ -1,5 +1,12 @@
 import React, { useEffect, useState, useCallback, useMemo } from 'react';
-import type { ElementMetadata, ComputedStylesSnapshot, StylePatch } from '../shared/types';
+import type {
+  ElementMetadata,
+  ComputedStylesSnapshot,
+  StylePatch,
+  PseudoState,
+  SelectionSummary,
+  ReplayReport,
+} from '../shared/types';
 import {
   initBridge,
   startPicker,
@@ -12,8 +19,16 @@ import {
   navigateToChild,
   navigateToSibling,
   getExportData,
+  forceElementState,
+  retryReplay,
+  applyImportedPatches,
+  discardUnanchoredPatches,
+  applyStructuralPatch,
 } from './messaging/sidepanelBridge';
 import { InspectorHeader } from './components/InspectorHeader';
+import { ReplayReportBanner } from './components/ReplayReportBanner';
+import { ImportPanel } from './components/ImportPanel';
+import type { BreakpointId } from '../shared/breakpoints';
 import { CommandPalette } from './components/CommandPalette';
 import { useCommandPalette, createDefaultCommands } from './hooks/useCommandPalette';
 import { SegmentedTabs } from './primitives';
@@ -128,6 +143,12 @@ export function App(): React.ReactElement {
   const [computedStyles, setComputedStyles] = useState<ComputedStylesSnapshot | null>(null);
   const [canUndo, setCanUndo] = useState(false);
   const [canRedo, setCanRedo] = useState(false);
+  const [forcedState, setForcedState] = useState<PseudoState | null>(null);
+  const [breakpoint, setBreakpoint] = useState<BreakpointId | null>(null);
+  const [selection, setSelection] = useState<SelectionSummary | null>(null);
+  const [replayReport, setReplayReport] = useState<ReplayReport | null>(null);
+  const [isRetryingReplay, setIsRetryingReplay] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [patchCount, setPatchCount] = useState(0);
   const [toast, setToast] = useState<{ message: string; isError: boolean } | null>(null);
 
@@ -153,6 +174,7 @@ export function App(): React.ReactElement {
       onElementSelected: (metadata) => {
         setSelectedElement(metadata);
         setComputedStyles(metadata.computedStyles);
+        setSelection(null);
         setIsPickerActive(false);
       },
       onPickCancelled: () => {
@@ -165,6 +187,29 @@ export function App(): React.ReactElement {
         // Refresh patch count
         refreshPatchCount();
       },
+      onStructuralPatchApplied: (result) => {
+        setCanUndo(result.canUndo);
+        setCanRedo(result.canRedo);
+        if (result.success) {
+          refreshPatchCount();
+        } else if (result.error) {
+          showToast(result.error.message, true);
+        }
+      },
+      onAttributePatchApplied: (result) => {
+        setCanUndo(result.canUndo);
+        setCanRedo(result.canRedo);
+        if (result.success) {
+          refreshPatchCount();
+        } else if (result.error) {
+          showToast(result.error.message, true);
+        }
+      },
+      onTextContentChanged: (result) => {
+        setCanUndo(result.canUndo);
+        setCanRedo(result.canRedo);
+        refreshPatchCount();
+      },
       onUndoApplied: (result) => {
         if (result.updatedStyles) {
           setComputedStyles(result.updatedStyles);
@@ -173,6 +218,8 @@ export function App(): React.ReactElement {
         setCanRedo(result.canRedo);
         if (result.success) {
           showToast('Undo successful');
+        } else if (result.error) {
+          showToast(result.error.message, true);
         }
       },
       onRedoApplied: (result) => {
@@ -183,7 +230,19 @@ export function App(): React.ReactElement {
         setCanRedo(result.canRedo);
         if (result.success) {
           showToast('Redo successful');
+        } else if (result.error) {
+          showToast(result.error.message, true);
+        }
+      },
+      onSelectionChanged: (summary) => {
+        setSelection(summary);
+      },
+      onPatchesReplayed: (report) => {
+        setReplayReport(report);
+        if (report.failures.length === 0) {
+          showToast(`Restored ${report.appliedCount} ${report.appliedCount === 1 ? 'patch' : 'patches'}`);
         }
+        refreshState();
       },
       onTabChanged: () => {
         // Refresh state when tab changes
@@ -209,6 +268,9 @@ export function App(): React.ReactElement {
       setComputedStyles(state.selectedElement?.computedStyles || null);
       setCanUndo(state.canUndo);
       setCanRedo(state.canRedo);
+      setForcedState(state.forcedState);
+      setSelection(state.selection);
+      setReplayReport(state.replayReport);
       // Also refresh patch count
       refreshPatchCount();
     } catch {
@@ -233,6 +295,55 @@ export function App(): React.ReactElement {
     }
   }, [isPickerActive, showToast]);
 
+  // Handle pseudo-class state change
+  const handleForcedStateChange = useCallback(async (state: PseudoState | null) => {
+    try {
+      const result = await forceElementState(state);
+      setForcedState(result.state);
+      setComputedStyles(result.updatedStyles);
+    } catch {
+      // Error already surfaced via bridge onError
+    }
+  }, []);
+
+  // Retry re-anchoring patches that failed to replay after a reload
+  const handleRetryReplay = useCallback(async () => {
+    setIsRetryingReplay(true);
+    try {
+      const result = await retryReplay();
+      setReplayReport(result.report);
+      setCanUndo(result.canUndo);
+      setCanRedo(result.canRedo);
+      refreshPatchCount();
+      if (result.report.failures.length === 0) {
+        showToast('All patches re-applied');
+      }
+    } catch {
+      // Error already surfaced via bridge onError
+    } finally {
+      setIsRetryingReplay(false);
+    }
+  }, [refreshPatchCount, showToast]);
+
+  const handleDiscardUnanchored = useCallback(async () => {
+    try {
+      await discardUnanchoredPatches();
+      setReplayReport(null);
+    } catch {
+      // Error already surfaced via bridge onError
+    }
+  }, []);
+
+  // Imported export applied: sync history state and the selected element's styles
+  const handleImported = useCallback((result: Awaited<ReturnType<typeof applyImportedPatches>>) => {
+    setCanUndo(result.canUndo);
+    setCanRedo(result.canRedo);
+    if (result.updatedStyles) {
+      setComputedStyles(result.updatedStyles);
+    }
+    refreshPatchCount();
+  }, [refreshPatchCount]);
+
   // Handle CSS copy
   const handleCopyCSS = useCallback(async () => {
     if (selectedElement && computedStyles) {
@@ -251,6 +362,7 @@ export function App(): React.ReactElement {
     return createDefaultCommands({
       onTogglePicker: handlePickerToggle,
       onCopyCSS: selectedElement ? handleCopyCSS : undefined,
+      onImport: () => setIsImportOpen(true),
       onUndo: canUndo ? async () => { try { await undo(); } catch { } } : undefined,
       onRedo: canRedo ? async () => { try { await redo(); } catch { } } : undefined,
       onSetPadding: selectedElement ? async (value) => {
@@ -265,6 +377,9 @@ export function App(): React.ReactElement {
       onSetOpacity: selectedElement ? async (value) => {
         await applyStylePatch(selectedElement.selector, 'opacity', String(value), '');
       } : undefined,
+      onStructuralChange: selectedElement ? async (operation) => {
+        await applyStructuralPatch(operation, selectedElement.selector);
+      } : undefined,
     });
   }, [handlePickerToggle, handleCopyCSS, selectedElement, canUndo, canRedo]);
 
@@ -429,8 +544,29 @@ export function App(): React.ReactElement {
         onPickerToggle={handlePickerToggle}
         hasSelection={!!selectedElement}
         onCopyCSS={handleCopyCSS}
+        breakpoint={breakpoint}
+        onBreakpointChange={setBreakpoint}
+        onImport={() => setIsImportOpen(prev => !prev)}
       />
 
+      {/* Re-apply a handed-off export to this page */}
+      {isImportOpen && (
+        <ImportPanel
+          onImported={handleImported}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+
+      {/* Patches that failed to re-apply after a reload */}
+      {replayReport && replayReport.failures.length > 0 && (
+        <ReplayReportBanner
+          report={replayReport}
+          onRetry={handleRetryReplay}
+          onDiscard={handleDiscardUnanchored}
+          isRetrying={isRetryingReplay}
+        />
+      )}
+
       {/* Page Tab Switcher */}
       <div style={styles.tabBar}>
         <SegmentedTabs
@@ -449,6 +585,10 @@ export function App(): React.ReactElement {
             isPickerActive={isPickerActive}
             canUndo={canUndo}
             canRedo={canRedo}
+            forcedState={forcedState}
+            onForcedStateChange={handleForcedStateChange}
+            breakpoint={breakpoint}
+            selection={selection}
             onPickerToggle={handlePickerToggle}
           />
         )}
@@ -459,6 +599,11 @@ export function App(): React.ReactElement {
             hasChanges={patchCount > 0}
             patchCount={patchCount}
             onSwitchToInspector={() => setActivePage('inspector')}
+            onPageChanged={refreshState}
+            selectedElement={selectedElement}
+            computedStyles={computedStyles}
+            forcedState={forcedState}
+            breakpoint={breakpoint}
           />
         )}
       </div>
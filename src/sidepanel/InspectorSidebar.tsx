@@ -6,13 +6,30 @@
  */
 
 import React, { useCallback, useMemo } from 'react';
-import type { ComputedStylesSnapshot, ElementMetadata } from '../shared/types';
+import type { ComputedStylesSnapshot, ElementMetadata, PatchMode, PatchScope, PseudoState, SelectionSummary } from '../shared/types';
 import {
   applyStylePatch,
 } from './messaging/sidepanelBridge';
 import { Divider } from './primitives';
-import { AppearanceSection, LayoutSection, TypographySection, EffectsSection, HistorySection, HandoffSection } from './sections';
+import {
+  AppearanceSection,
+  LayoutSection,
+  TypographySection,
+  EffectsSection,
+  StructureSection,
+  AttributesSection,
+  HistorySection,
+  HandoffSection,
+} from './sections';
 import { SelectedSummary } from './components/SelectedSummary';
+import { PatchModeToggle } from './components/PatchModeToggle';
+import { StateToggle } from './components/StateToggle';
+import { TokenSuggestions } from './components/TokenSuggestions';
+import { SelectionBar } from './components/SelectionBar';
+import type { MixedProperties } from './utils/mixedValues';
+import { useLocalStorage } from './hooks/useLocalStorage';
+import { getBreakpointMedia } from '../shared/breakpoints';
+import type { BreakpointId } from '../shared/breakpoints';
 import { spacing } from './tokens';
 import { getDefaultColorTokens } from './features/color';
 
@@ -21,6 +38,10 @@ interface InspectorSidebarProps {
   styles: ComputedStylesSnapshot;
   canUndo: boolean;
   canRedo: boolean;
+  forcedState: PseudoState | null;
+  onForcedStateChange: (state: PseudoState | null) => void;
+  breakpoint: BreakpointId | null;
+  selection: SelectionSummary | null;
 }
 
 const containerStyles: React.CSSProperties = {
@@ -43,23 +64,40 @@ export function InspectorSidebar({
   styles,
   canUndo,
   canRedo,
+  forcedState,
+  onForcedStateChange,
+  breakpoint,
+  selection,
 }: InspectorSidebarProps): React.ReactElement {
   // Track style changes to refresh HandoffSection
   const [refreshTrigger, setRefreshTrigger] = React.useState(0);
+  const [patchMode, setPatchMode] = useLocalStorage<PatchMode>('patch-mode', 'inline');
 
+  // Edits apply in the current state and breakpoint unless a scope is given
   const handlePatchApply = useCallback(
-    async (property: string, value: string) => {
+    async (property: string, value: string, scope?: Pick<PatchScope, 'state' | 'media'>) => {
       try {
         const previousValue = styles[property as keyof ComputedStylesSnapshot];
         const prevString = typeof previousValue === 'string' ? previousValue : '';
-        await applyStylePatch(element.selector, property, value, prevString);
+        await applyStylePatch(element.selector, property, value, prevString, {
+          mode: patchMode,
+          ...(scope ?? {
+            state: forcedState ?? undefined,
+            media: breakpoint ? getBreakpointMedia(breakpoint) : undefined,
+          }),
+        });
         // Trigger refresh of HandoffSection
         setRefreshTrigger((prev) => prev + 1);
       } catch (e) {
         console.error('Failed to apply patch:', e);
       }
     },
-    [element.selector, styles]
+    [element.selector, styles, patchMode, forcedState, breakpoint]
+  );
+
+  const mixedProperties = useMemo(
+    () => (selection ? Object.keys(selection.mixedStyles) : []) as MixedProperties,
+    [selection]
   );
 
   // Get default color tokens for the color picker
@@ -72,17 +110,27 @@ export function InspectorSidebar({
         element={element}
       />
 
+      <SelectionBar selection={selection} />
+
+      <PatchModeToggle mode={patchMode} onChange={setPatchMode} />
+
+      <StateToggle state={forcedState} onChange={onForcedStateChange} />
+
+      <TokenSuggestions selector={element.selector} styles={styles} onApply={handlePatchApply} />
+
       <Divider margin={spacing[1]} />
 
       <LayoutSection
         styles={styles}
         onPatchApply={handlePatchApply}
+        mixedProperties={mixedProperties}
       />
 
       <Divider margin={spacing[1]} />
       <TypographySection
         styles={styles}
         onPatchApply={handlePatchApply}
+        mixedProperties={mixedProperties}
       />
 
       <Divider margin={spacing[1]} />
@@ -90,6 +138,7 @@ export function InspectorSidebar({
         styles={styles}
         onPatchApply={handlePatchApply}
         colorTokens={colorTokens}
+        mixedProperties={mixedProperties}
       />
 
       <Divider margin={spacing[1]} />
@@ -98,11 +147,18 @@ export function InspectorSidebar({
         onPatchApply={handlePatchApply}
       />
 
+      <Divider margin={spacing[1]} />
+      <StructureSection element={element} />
+
+      <Divider margin={spacing[1]} />
+      <AttributesSection element={element} />
+
       <Divider margin={spacing[1]} />
 
       <HistorySection
         canUndo={canUndo}
         canRedo={canRedo}
+        styles={styles}
       />
 
       <Divider margin={spacing[1]} />
@@ -6,12 +6,19 @@
  * - User acknowledges: DOM ephemerality, selector risk, AI limits, responsibility transfer
  * - Single, explicit action (button click)
  * - Positioned after full output is visible
+ *
+ * While the response streams in, AIStreamingOutput shows the Summary and
+ * Implementation Guidance as they arrive; confirmation waits for the end.
+ * AIConversationThread lists the earlier turns of a refined response.
+ * AIRequestEstimateView shows the pre-flight token and cost estimate of the
+ * request, against the user's budget.
  */
 
 import React, { useState, useCallback, useMemo } from 'react';
 import { AppIcon } from '../primitives/AppIcon';
 import { colors } from '../tokens';
-import type { AIResponse } from '../../ai/types';
+import type { AIResponse, AIPartialResponse, AIConversationMessage, AIRequestEstimate, AIBudget } from '../../ai/types';
+import { formatCost, formatTokenCount } from '../../ai/estimate';
 import './components.css';
 
 // ============================================================================
@@ -59,6 +66,180 @@ interface AIConfirmationProps {
   onRegenerate?: () => void;
   /** Whether the response has been confirmed */
   isConfirmed?: boolean;
+  /** Estimate of the request that produced the response */
+  estimate?: AIRequestEstimate | null;
+  /** Budget the request was checked against */
+  budget?: AIBudget | null;
+}
+
+interface AIStreamingOutputProps {
+  /** Response text and sections received so far */
+  response: AIPartialResponse;
+  /** Called when user cancels the generation */
+  onCancel: () => void;
+  /** Estimate of the request being answered */
+  estimate?: AIRequestEstimate | null;
+  /** Budget the request was checked against */
+  budget?: AIBudget | null;
+}
+
+interface AIRequestEstimateViewProps {
+  estimate: AIRequestEstimate;
+  budget?: AIBudget | null;
+}
+
+interface AIConversationThreadProps {
+  /** Earlier responses and the follow-ups that refined them, oldest first */
+  messages: AIConversationMessage[];
+}
+
+// ============================================================================
+// Conversation Thread
+// ============================================================================
+
+export function AIConversationThread({
+  messages,
+}: AIConversationThreadProps): React.ReactElement {
+  return (
+    <div className="ai-confirmation-thread">
+      {messages.map((message, i) =>
+        message.role === 'user' ? (
+          <div key={i} className="ai-confirmation-follow-up">
+            {message.content}
+          </div>
+        ) : (
+          <div key={i}>
+            <div className="ai-confirmation-section-label">
+              EARLIER RESPONSE
+            </div>
+            <div className="ai-confirmation-output-content is-earlier">
+              {message.content}
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Request Estimate
+// ============================================================================
+
+export function AIRequestEstimateView({
+  estimate,
+  budget,
+}: AIRequestEstimateViewProps): React.ReactElement {
+  const breakdown = [
+    `system ${formatTokenCount(estimate.systemTokens)}`,
+    `messages ${formatTokenCount(estimate.messageTokens)}`,
+    ...(estimate.imageCount > 0
+      ? [`${estimate.imageCount} image${estimate.imageCount !== 1 ? 's' : ''} ${formatTokenCount(estimate.imageTokens)}`]
+      : []),
+  ];
+  const limits = [
+    budget?.maxCostUsd !== undefined && `${formatCost(budget.maxCostUsd)} per request`,
+    budget?.maxInputTokens !== undefined && `${formatTokenCount(budget.maxInputTokens)} input tokens`,
+  ].filter(Boolean);
+
+  return (
+    <div className="ai-confirmation-estimate">
+      <div className="ai-confirmation-section-label">
+        REQUEST ESTIMATE · {estimate.model}
+      </div>
+      <div className="ai-confirmation-estimate-row">
+        <span>~{formatTokenCount(estimate.inputTokens)} input tokens</span>
+        <span className="ai-confirmation-estimate-detail">{breakdown.join(' · ')}</span>
+      </div>
+      <div className="ai-confirmation-estimate-row">
+        <span>
+          {estimate.cost
+            ? `~${formatCost(estimate.cost.input)} – ${formatCost(estimate.cost.max)}`
+            : 'Pricing unknown'}
+        </span>
+        <span className="ai-confirmation-estimate-detail">
+          up to {formatTokenCount(estimate.maxOutputTokens)} output tokens
+        </span>
+      </div>
+      {estimate.exceedsContext && estimate.contextWindow !== null && (
+        <div className="ai-confirmation-estimate-row is-warning">
+          <AppIcon name="alertTriangle" size={12} />
+          Too large for the model's {formatTokenCount(estimate.contextWindow)} token context window; it won't be sent
+        </div>
+      )}
+      {limits.length > 0 && (
+        <div className="ai-confirmation-estimate-detail">
+          Budget: {limits.join(', ')}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Streaming Output
+// ============================================================================
+
+export function AIStreamingOutput({
+  response,
+  onCancel,
+  estimate,
+  budget,
+}: AIStreamingOutputProps): React.ReactElement {
+  const { summary, implementationGuidance } = response.sections;
+
+  return (
+    <div className="ai-confirmation-container">
+      <div className="ai-confirmation-output-header-row">
+        <div className="ai-confirmation-output-header">
+          <span className="ai-confirmation-streaming-dot" />
+          Generating…
+        </div>
+        <button className="ai-confirmation-copy-button" onClick={onCancel}>
+          <AppIcon name="close" size={12} />
+          Cancel
+        </button>
+      </div>
+
+      <div className="ai-confirmation-output-container">
+        {summary && (
+          <div>
+            <div className="ai-confirmation-section-label">
+              SUMMARY
+            </div>
+            <div className="ai-confirmation-output-content is-summary">
+              {summary}
+            </div>
+          </div>
+        )}
+
+        {implementationGuidance && (
+          <div>
+            <div className="ai-confirmation-section-label">
+              IMPLEMENTATION GUIDANCE
+            </div>
+            <div className="ai-confirmation-output-content">
+              {implementationGuidance}
+            </div>
+          </div>
+        )}
+
+        {/* Nothing recognizable yet: show the text as it arrives */}
+        {!summary && !implementationGuidance && (
+          <div>
+            <div className="ai-confirmation-section-label">
+              AI RESPONSE
+            </div>
+            <div className="ai-confirmation-output-content is-raw">
+              {response.raw}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {estimate && <AIRequestEstimateView estimate={estimate} budget={budget} />}
+    </div>
+  );
 }
 
 // ============================================================================
@@ -71,6 +252,8 @@ export function AIConfirmation({
   onDismiss,
   onRegenerate,
   isConfirmed = false,
+  estimate,
+  budget,
 }: AIConfirmationProps): React.ReactElement {
   // Track acknowledgment state
   const [acknowledged, setAcknowledged] = useState<Record<string, boolean>>({});
@@ -235,6 +418,8 @@ export function AIConfirmation({
         )}
       </div>
 
+      {estimate && <AIRequestEstimateView estimate={estimate} budget={budget} />}
+
       {/* Acknowledgment Section */}
       <div className="ai-confirmation-acknowledgment-section">
         <div className="ai-confirmation-acknowledgment-title">
@@ -0,0 +1,148 @@
+/**
+ * AIPatchProposals
+ *
+ * Lists the style patches an AI response proposed, which are previewed live
+ * on the page, with accept/reject per patch. Accepted patches become normal
+ * history entries; rejected ones are reverted. Proposals that failed
+ * validation or could not be applied are shown with the reason.
+ */
+
+import React from 'react';
+import type { FinalPatch } from '../../shared/types';
+import { AppIcon } from '../primitives';
+
+import './components.css';
+
+export type ProposalStatus = 'previewing' | 'accepted' | 'rejected' | 'failed';
+
+export interface ProposalState {
+  status: ProposalStatus;
+  /** Why the patch could not be previewed */
+  error?: string;
+}
+
+export interface AIPatchProposalsProps {
+  patches: FinalPatch[];
+  /** State of each patch, by position */
+  states: ProposalState[];
+  /** Proposed entries left out by validation */
+  errors: string[];
+  onResolve: (indices: number[], accept: boolean) => void;
+  /** Disables the buttons while a preview or resolve is in flight */
+  isBusy?: boolean;
+}
+
+const STATUS_LABELS: Record<Exclude<ProposalStatus, 'previewing'>, string> = {
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  failed: 'Not applied',
+};
+
+function describeScope(patch: FinalPatch): string | null {
+  const parts = [
+    patch.state && `:${patch.state}`,
+    patch.media && `@media ${patch.media}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : null;
+}
+
+export function AIPatchProposals({
+  patches,
+  states,
+  errors,
+  onResolve,
+  isBusy = false,
+}: AIPatchProposalsProps): React.ReactElement {
+  const pending = states
+    .map((state, i) => (state.status === 'previewing' ? i : -1))
+    .filter(i => i !== -1);
+
+  return (
+    <div className="ai-proposals">
+      <div className="ai-proposals-header">
+        <span className="ai-proposals-title">
+          Proposed patches{pending.length > 0 ? ` · ${pending.length} previewing` : ''}
+        </span>
+        {pending.length > 1 && (
+          <div className="ai-proposals-actions">
+            <button
+              className="replay-report-button"
+              onClick={() => onResolve(pending, false)}
+              disabled={isBusy}
+            >
+              Reject all
+            </button>
+            <button
+              className="replay-report-button"
+              onClick={() => onResolve(pending, true)}
+              disabled={isBusy}
+            >
+              Accept all
+            </button>
+          </div>
+        )}
+      </div>
+
+      {patches.length === 0 && (
+        <span className="ai-proposals-empty">The response proposed no valid patches.</span>
+      )}
+
+      {patches.length > 0 && (
+        <ul className="ai-proposals-list">
+          {patches.map((patch, i) => {
+            const { status, error } = states[i] ?? { status: 'failed' };
+            const scope = describeScope(patch);
+            return (
+              <li
+                key={`${patch.selector}|${patch.property}|${i}`}
+                className={`ai-proposals-item is-${status}`}
+                title={error}
+              >
+                <span className="ai-proposals-declaration">
+                  {patch.property}: {patch.finalValue}
+                  {scope && <span className="ai-proposals-scope"> {scope}</span>}
+                </span>
+                {status === 'previewing' ? (
+                  <span className="ai-proposals-item-actions">
+                    <button
+                      className="ai-proposals-icon-button"
+                      onClick={() => onResolve([i], false)}
+                      disabled={isBusy}
+                      title="Reject and revert"
+                      aria-label={`Reject ${patch.property}`}
+                    >
+                      <AppIcon name="close" size={12} />
+                    </button>
+                    <button
+                      className="ai-proposals-icon-button is-accept"
+                      onClick={() => onResolve([i], true)}
+                      disabled={isBusy}
+                      title="Accept into history"
+                      aria-label={`Accept ${patch.property}`}
+                    >
+                      <AppIcon name="check" size={12} />
+                    </button>
+                  </span>
+                ) : (
+                  <span className={`ai-proposals-status is-${status}`}>{STATUS_LABELS[status]}</span>
+                )}
+                <span className="ai-proposals-selector">
+                  {patch.selector}
+                  {patch.originalValue && ` · was ${patch.originalValue}`}
+                  {patch.selectorConfidence === 'low' && ' · low-confidence selector'}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {errors.length > 0 && (
+        <pre className="import-panel-error">
+          {errors.length} proposed patch{errors.length !== 1 ? 'es were' : ' was'} left out:{'\n'}
+          {errors.join('\n')}
+        </pre>
+      )}
+    </div>
+  );
+}
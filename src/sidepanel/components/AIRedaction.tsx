@@ -0,0 +1,118 @@
+/**
+ * AIRedaction
+ *
+ * AIRedactionSettingsPanel sets what is redacted from page data before it
+ * is sent to the provider. AIRedactionDiff shows what redaction changed in
+ * a request: each field as captured and as sent, and blurred screenshots
+ * next to the originals.
+ */
+
+import React, { useState } from 'react';
+import type { AIRedactionSettings, Redaction, RedactionKind } from '../../ai/types';
+import { validateRedactionPatterns } from '../../ai/redaction';
+import { AppIcon } from '../primitives';
+
+import './components.css';
+
+export interface AIRedactionSettingsPanelProps {
+  settings: AIRedactionSettings;
+  onChange: (settings: AIRedactionSettings) => void;
+}
+
+export interface AIRedactionDiffProps {
+  redactions: Redaction[];
+}
+
+const TOGGLES: Array<{ key: 'urls' | 'emails' | 'numbers' | 'blurScreenshots'; label: string }> = [
+  { key: 'urls', label: 'Query strings and tokens in URLs' },
+  { key: 'emails', label: 'Email addresses' },
+  { key: 'numbers', label: 'Numbers of 5+ digits (phone, card, account)' },
+  { key: 'blurScreenshots', label: 'Blur screenshots' },
+];
+
+const KIND_LABELS: Record<RedactionKind, string> = {
+  url: 'URL',
+  email: 'email',
+  number: 'number',
+  pattern: 'pattern',
+  screenshot: 'blurred',
+};
+
+export function AIRedactionSettingsPanel({
+  settings,
+  onChange,
+}: AIRedactionSettingsPanelProps): React.ReactElement {
+  const patternErrors = validateRedactionPatterns(settings.patterns);
+
+  return (
+    <div className="ai-redaction">
+      <span className="ai-redaction-title">REDACT BEFORE SENDING</span>
+      {TOGGLES.map(({ key, label }) => (
+        <label key={key} className="ai-redaction-toggle">
+          <input
+            type="checkbox"
+            className="ai-confirmation-checkbox"
+            checked={settings[key]}
+            onChange={(e) => onChange({ ...settings, [key]: e.target.checked })}
+          />
+          <span>{label}</span>
+        </label>
+      ))}
+      <label className="ai-redaction-label" htmlFor="ai-redaction-patterns">
+        Extra patterns (regular expressions, one per line)
+      </label>
+      <textarea
+        id="ai-redaction-patterns"
+        className="import-panel-input ai-redaction-patterns"
+        value={settings.patterns.join('\n')}
+        onChange={(e) => onChange({ ...settings, patterns: e.target.value.split('\n') })}
+        placeholder={'e.g. ACME-\\d+'}
+        spellCheck={false}
+      />
+      {patternErrors.length > 0 && (
+        <pre className="import-panel-error">{patternErrors.join('\n')}</pre>
+      )}
+    </div>
+  );
+}
+
+export function AIRedactionDiff({
+  redactions,
+}: AIRedactionDiffProps): React.ReactElement {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="ai-redaction">
+      <button className="ai-redaction-header" onClick={() => setIsExpanded(!isExpanded)}>
+        <AppIcon name={isExpanded ? 'chevronUp' : 'chevronDown'} size={12} />
+        Redacted before sending · {redactions.length} field{redactions.length !== 1 ? 's' : ''}
+      </button>
+
+      {isExpanded && (
+        <ul className="ai-redaction-list">
+          {redactions.map(redaction => (
+            <li key={redaction.field} className="ai-redaction-item">
+              <span className="ai-redaction-field">
+                {redaction.field}
+                <span className="ai-redaction-kinds">
+                  {' '}· {redaction.kinds.map(kind => KIND_LABELS[kind]).join(', ')}
+                </span>
+              </span>
+              {redaction.kinds.includes('screenshot') ? (
+                <div className="ai-redaction-images">
+                  <img src={redaction.before} alt="As captured" />
+                  <img src={redaction.after} alt="As sent" />
+                </div>
+              ) : (
+                <>
+                  <span className="ai-redaction-line is-removed">- {redaction.before}</span>
+                  <span className="ai-redaction-line is-added">+ {redaction.after}</span>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,9 @@
  * - Credentials stored in chrome.storage.local (encrypted by browser)
  * - Never displayed in full after initial entry (masked)
  * - Transmitted directly to AI provider (no intermediary server)
+ *
+ * The local provider needs no key: it takes the address of an
+ * OpenAI-compatible server (Ollama, LM Studio) and lists its models.
  */
 
 import React, { useState, useCallback, useEffect } from 'react';
@@ -13,6 +16,7 @@ import { Section } from '../primitives';
 import { AppIcon } from '../primitives/AppIcon';
 import type { AIProvider, AICredentials } from '../../ai/types';
 import { AI_STORAGE_KEYS } from '../../ai/types';
+import { DEFAULT_LOCAL_BASE_URL, isLocalUrl, listLocalModels, testCredentials } from '../../ai/apiClient';
 
 
 // ============================================================================
@@ -38,13 +42,19 @@ function maskApiKey(key: string): string {
 const PROVIDER_OPTIONS: { value: AIProvider; label: string }[] = [
   { value: 'openai', label: 'OpenAI' },
   { value: 'anthropic', label: 'Anthropic' },
+  { value: 'local', label: 'Local (Ollama / LM Studio)' },
 ];
 
 const DEFAULT_MODELS: Record<AIProvider, string> = {
   openai: 'gpt-4-turbo-preview',
   anthropic: 'claude-3-opus-20240229',
+  local: 'llama3.1',
 };
 
+function getErrorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
 // ============================================================================
 // Component
 // ============================================================================
@@ -67,6 +77,9 @@ export function AISettings({
   const [provider, setProvider] = useState<AIProvider>('openai');
   const [apiKey, setApiKey] = useState('');
   const [model, setModel] = useState('');
+  const [baseUrl, setBaseUrl] = useState(DEFAULT_LOCAL_BASE_URL);
+  const [localModels, setLocalModels] = useState<string[]>([]);
+  const isLocal = provider === 'local';
 
   // Load credentials on mount
   useEffect(() => {
@@ -88,10 +101,14 @@ export function AISettings({
   }, [onCredentialsChange]);
 
   const saveCredentials = useCallback(async () => {
-    if (!apiKey.trim()) {
+    if (!isLocal && !apiKey.trim()) {
       setError('API key is required');
       return;
     }
+    if (isLocal && !isLocalUrl(baseUrl.trim())) {
+      setError('Server URL must be on this machine or a private network');
+      return;
+    }
 
     setError(null);
     setIsLoading(true);
@@ -99,8 +116,9 @@ export function AISettings({
     try {
       const newCredentials: AICredentials = {
         provider,
-        apiKey: apiKey.trim(),
+        apiKey: isLocal ? '' : apiKey.trim(),
         model: model.trim() || DEFAULT_MODELS[provider],
+        ...(isLocal && { baseUrl: baseUrl.trim() }),
         lastValidated: new Date().toISOString(),
         isInvalid: false,
       };
@@ -121,7 +139,47 @@ export function AISettings({
     } finally {
       setIsLoading(false);
     }
-  }, [provider, apiKey, model, onCredentialsChange]);
+  }, [provider, isLocal, apiKey, model, baseUrl, onCredentialsChange]);
+
+  const discoverModels = useCallback(async () => {
+    setError(null);
+    setIsLoading(true);
+    try {
+      const models = await listLocalModels(baseUrl);
+      setLocalModels(models);
+      if (models.length === 0) {
+        setError('The server has no models installed');
+      } else if (!models.includes(model)) {
+        setModel(models[0]);
+      }
+    } catch (e) {
+      setLocalModels([]);
+      setError(`Could not list models at ${baseUrl}: ${getErrorMessage(e)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [baseUrl, model]);
+
+  const testConnection = useCallback(async () => {
+    setError(null);
+    setIsLoading(true);
+    try {
+      const result = await testCredentials({
+        provider,
+        apiKey: '',
+        baseUrl: baseUrl.trim(),
+        model: model.trim() || DEFAULT_MODELS[provider],
+      });
+      if (result.success) {
+        setSuccess('Local server responded');
+        setTimeout(() => setSuccess(null), 3000);
+      } else {
+        setError(result.error?.message || 'Local server did not respond');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [provider, baseUrl, model]);
 
   const clearCredentials = useCallback(async () => {
     setIsLoading(true);
@@ -144,6 +202,7 @@ export function AISettings({
     if (credentials) {
       setProvider(credentials.provider);
       setModel(credentials.model || '');
+      setBaseUrl(credentials.baseUrl || DEFAULT_LOCAL_BASE_URL);
     }
     setApiKey('');
     setIsEditing(true);
@@ -212,13 +271,20 @@ export function AISettings({
               </div>
             </div>
 
-            <div className="ai-settings-field-group">
-              <span className="ai-settings-label">API Key</span>
-              <div className="ai-settings-masked-key">
-                <AppIcon name="eye" size={14} />
-                {maskApiKey(credentials.apiKey)}
+            {credentials.provider === 'local' ? (
+              <div className="ai-settings-field-group">
+                <span className="ai-settings-label">Server</span>
+                <div className="ai-settings-masked-key">{credentials.baseUrl || DEFAULT_LOCAL_BASE_URL}</div>
               </div>
-            </div>
+            ) : (
+              <div className="ai-settings-field-group">
+                <span className="ai-settings-label">API Key</span>
+                <div className="ai-settings-masked-key">
+                  <AppIcon name="eye" size={14} />
+                  {maskApiKey(credentials.apiKey)}
+                </div>
+              </div>
+            )}
 
             {credentials.model && (
               <div className="ai-settings-field-group">
@@ -259,32 +325,73 @@ export function AISettings({
               </select>
             </div>
 
-            <div className="ai-settings-field-group">
-              <label className="ai-settings-label">API Key</label>
-              <input
-                type="password"
-                className="ai-settings-input"
-                value={apiKey}
-                onChange={(e) => setApiKey(e.target.value)}
-                placeholder={provider === 'openai' ? 'sk-...' : 'sk-ant-...'}
-                disabled={isLoading}
-                autoComplete="off"
-              />
-              <span className="ai-settings-hint">
-                Your key is stored locally and sent directly to {provider === 'openai' ? 'OpenAI' : 'Anthropic'}. We never see or store it on any server.
-              </span>
-            </div>
+            {isLocal ? (
+              <div className="ai-settings-field-group">
+                <label className="ai-settings-label">Server URL</label>
+                <div className="ai-settings-input-row">
+                  <input
+                    type="text"
+                    className="ai-settings-input"
+                    value={baseUrl}
+                    onChange={(e) => setBaseUrl(e.target.value)}
+                    placeholder={DEFAULT_LOCAL_BASE_URL}
+                    disabled={isLoading}
+                  />
+                  <button
+                    className="ai-settings-button"
+                    onClick={discoverModels}
+                    disabled={isLoading || !baseUrl.trim()}
+                  >
+                    Find Models
+                  </button>
+                </div>
+                <span className="ai-settings-hint">
+                  Any OpenAI-compatible server: Ollama (port 11434) or LM Studio (port 1234). Page data never leaves your machine or network. Ollama needs OLLAMA_ORIGINS=chrome-extension://* to accept requests from the extension.
+                </span>
+              </div>
+            ) : (
+              <div className="ai-settings-field-group">
+                <label className="ai-settings-label">API Key</label>
+                <input
+                  type="password"
+                  className="ai-settings-input"
+                  value={apiKey}
+                  onChange={(e) => setApiKey(e.target.value)}
+                  placeholder={provider === 'openai' ? 'sk-...' : 'sk-ant-...'}
+                  disabled={isLoading}
+                  autoComplete="off"
+                />
+                <span className="ai-settings-hint">
+                  Your key is stored locally and sent directly to {provider === 'openai' ? 'OpenAI' : 'Anthropic'}. We never see or store it on any server.
+                </span>
+              </div>
+            )}
 
             <div className="ai-settings-field-group">
-              <label className="ai-settings-label">Model (optional)</label>
-              <input
-                type="text"
-                className="ai-settings-input"
-                value={model}
-                onChange={(e) => setModel(e.target.value)}
-                placeholder={DEFAULT_MODELS[provider]}
-                disabled={isLoading}
-              />
+              <label className="ai-settings-label">Model{isLocal ? '' : ' (optional)'}</label>
+              {isLocal && localModels.length > 0 ? (
+                <select
+                  className="ai-settings-select"
+                  value={model}
+                  onChange={(e) => setModel(e.target.value)}
+                  disabled={isLoading}
+                >
+                  {localModels.map((name) => (
+                    <option key={name} value={name}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  className="ai-settings-input"
+                  value={model}
+                  onChange={(e) => setModel(e.target.value)}
+                  placeholder={DEFAULT_MODELS[provider]}
+                  disabled={isLoading}
+                />
+              )}
             </div>
 
             <div className="ai-settings-button-row">
@@ -297,10 +404,19 @@ export function AISettings({
                   Cancel
                 </button>
               )}
+              {isLocal && (
+                <button
+                  className="ai-settings-button"
+                  onClick={testConnection}
+                  disabled={isLoading || !baseUrl.trim()}
+                >
+                  Test Connection
+                </button>
+              )}
               <button
                 className="ai-settings-button is-primary"
                 onClick={saveCredentials}
-                disabled={isLoading || !apiKey.trim()}
+                disabled={isLoading || (!isLocal && !apiKey.trim())}
               >
                 <AppIcon name="check" size={14} />
                 {credentials ? 'Update' : 'Save'} Credentials
@@ -3,6 +3,7 @@
  * 
  * Displays a list of child elements with clickable navigation.
  * Shows tag name, text preview, and child count indicator.
+ * Children can be dragged to reorder them when onReorder is provided.
  */
 
 import React, { useState } from 'react';
@@ -18,17 +19,24 @@ export interface ChildrenListProps {
   onSelect: (selector: string) => void;
   /** Maximum number of items to show initially */
   maxVisible?: number;
+  /** Callback when a child is dropped before or after a sibling (enables dragging) */
+  onReorder?: (selector: string, targetSelector: string, position: 'before' | 'after') => void;
 }
 
-
-
+interface DropTarget {
+  selector: string;
+  position: 'before' | 'after';
+}
 
 export function ChildrenList({
   children,
   onSelect,
   maxVisible = 5,
+  onReorder,
 }: ChildrenListProps): React.ReactElement | null {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [draggedSelector, setDraggedSelector] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
 
   if (children.length === 0) return null;
 
@@ -43,6 +51,38 @@ export function ChildrenList({
     }
   };
 
+  const resetDrag = () => {
+    setDraggedSelector(null);
+    setDropTarget(null);
+  };
+
+  const handleDragStart = (e: React.DragEvent, selector: string) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', selector);
+    setDraggedSelector(selector);
+  };
+
+  const handleDragOver = (e: React.DragEvent, selector: string) => {
+    if (!draggedSelector || draggedSelector === selector) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+
+    // Drop on the upper half inserts before, lower half after
+    const rect = e.currentTarget.getBoundingClientRect();
+    const position = e.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+    if (dropTarget?.selector !== selector || dropTarget.position !== position) {
+      setDropTarget({ selector, position });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (draggedSelector && dropTarget) {
+      onReorder?.(draggedSelector, dropTarget.selector, dropTarget.position);
+    }
+    resetDrag();
+  };
+
   return (
     <div className="children-list-container">
       <div className="children-list-header">
@@ -53,17 +93,32 @@ export function ChildrenList({
       <div className="children-list-items" role="list">
         {visibleChildren.map((child) => {
           const displayText = child.textPreview || child.label.replace(child.tagName, '').trim() || '';
+          const className = [
+            'children-list-item',
+            draggedSelector === child.selector && 'is-dragging',
+            dropTarget?.selector === child.selector && `is-drop-${dropTarget.position}`,
+          ].filter(Boolean).join(' ');
 
           return (
             <button
               key={child.selector}
               type="button"
-              className="children-list-item"
+              className={className}
               onClick={() => onSelect(child.selector)}
               onKeyDown={(e) => handleKeyDown(e, child.selector)}
               title={child.selector}
               role="listitem"
+              draggable={Boolean(onReorder)}
+              onDragStart={onReorder ? (e) => handleDragStart(e, child.selector) : undefined}
+              onDragOver={onReorder ? (e) => handleDragOver(e, child.selector) : undefined}
+              onDrop={onReorder ? handleDrop : undefined}
+              onDragEnd={onReorder ? resetDrag : undefined}
             >
+              {onReorder && (
+                <span className="children-list-grip">
+                  <AppIcon name="grip" size={12} state="muted" />
+                </span>
+              )}
               <span className="children-list-tag">{child.tagName}</span>
               <span className="children-list-preview">{displayText}</span>
               {child.childCount > 0 && (
@@ -3,6 +3,7 @@
  * 
  * Displays the hierarchy path from body to the current element.
  * Allows navigation via click and arrow buttons.
+ * Iframe boundaries are marked where the path enters a frame document.
  */
 
 import React, { useRef, useEffect } from 'react';
@@ -69,6 +70,11 @@ export function ElementBreadcrumb({
             return (
               <React.Fragment key={item.selector}>
                 {index > 0 && <span className="breadcrumb-separator">›</span>}
+                {item.frameBoundary && (
+                  <span className="breadcrumb-frame-boundary" title="Elements after this point are inside an iframe">
+                    iframe
+                  </span>
+                )}
                 <button
                   type="button"
                   className={`breadcrumb-item ${isCurrent ? 'is-current' : ''}`}
@@ -0,0 +1,181 @@
+/**
+ * ImportPanel
+ *
+ * Loads a VisualUIInspectorExport (pasted or from a .json file), validates
+ * it and re-applies its style patches to the current page, listing whether
+ * each patch applied. Lets a colleague open the same page and see exactly
+ * what was handed off; one undo reverts the whole import.
+ */
+
+import React, { useCallback, useRef, useState } from 'react';
+import type { ImportPatchResult, VisualUIInspectorExport } from '../../shared/types';
+import { validateExportSchemaV1, formatValidationErrors } from '../../shared/validation';
+import { AppIcon } from '../primitives';
+import { applyImportedPatches } from '../messaging/sidepanelBridge';
+import { FAILURE_LABELS } from './ReplayReportBanner';
+
+import './components.css';
+
+export interface ImportPanelProps {
+  /** Called after the patches were applied, with the content script's result */
+  onImported: (result: Awaited<ReturnType<typeof applyImportedPatches>>) => void;
+  onClose: () => void;
+}
+
+type ParseResult =
+  | { exportData: VisualUIInspectorExport; error?: undefined }
+  | { exportData?: undefined; error: string };
+
+function parseExport(text: string): ParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { error: `Not valid JSON: ${e instanceof Error ? e.message : String(e)}` };
+  }
+
+  const validation = validateExportSchemaV1(data);
+  if (!validation.valid) {
+    return { error: `Not a valid export:\n${formatValidationErrors(validation.errors)}` };
+  }
+  return { exportData: data as VisualUIInspectorExport };
+}
+
+function getPath(url: string): string {
+  try {
+    const { origin, pathname } = new URL(url);
+    return origin + pathname;
+  } catch {
+    return url;
+  }
+}
+
+export function ImportPanel({
+  onImported,
+  onClose,
+}: ImportPanelProps): React.ReactElement {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [results, setResults] = useState<ImportPatchResult[] | null>(null);
+  const [notes, setNotes] = useState<string[]>([]);
+  const [isApplying, setIsApplying] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setText(await file.text());
+    setError(null);
+    setResults(null);
+  }, []);
+
+  const handleApply = useCallback(async () => {
+    const parsed = parseExport(text);
+    if (!parsed.exportData) {
+      setError(parsed.error);
+      setResults(null);
+      return;
+    }
+
+    const { exportData } = parsed;
+    setError(null);
+    setIsApplying(true);
+    try {
+      const result = await applyImportedPatches(exportData.patches);
+      setResults(result.results);
+
+      const nextNotes: string[] = [];
+      if (getPath(result.pageUrl) !== getPath(exportData.pageUrl)) {
+        nextNotes.push(`Exported from ${exportData.pageUrl}; this page is ${result.pageUrl}.`);
+      }
+      const markupChanges =
+        (exportData.structuralChanges?.length ?? 0) +
+        (exportData.attributeChanges?.length ?? 0) +
+        (exportData.textChanges?.length ?? 0);
+      if (markupChanges > 0) {
+        nextNotes.push(`${markupChanges} structural, class/attribute or text change${markupChanges !== 1 ? 's were' : ' was'} not replayed.`);
+      }
+      setNotes(nextNotes);
+      onImported(result);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsApplying(false);
+    }
+  }, [text, onImported]);
+
+  const appliedCount = results?.filter(r => r.success).length ?? 0;
+
+  return (
+    <div className="import-panel">
+      <div className="import-panel-header">
+        <span className="import-panel-title">Import export JSON</span>
+        <button className="import-panel-close" onClick={onClose} title="Close" aria-label="Close import">
+          <AppIcon name="close" size={12} />
+        </button>
+      </div>
+
+      <textarea
+        className="import-panel-input"
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setError(null);
+        }}
+        placeholder='Paste a Visual Inspector export ({ "exportVersion": "1.0.0", ... })'
+        spellCheck={false}
+      />
+
+      {error && <pre className="import-panel-error">{error}</pre>}
+
+      <div className="import-panel-actions">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          hidden
+        />
+        <button className="replay-report-button" onClick={() => fileInputRef.current?.click()}>
+          <AppIcon name="upload" size={12} />
+          Load file
+        </button>
+        <button
+          className="replay-report-button"
+          onClick={handleApply}
+          disabled={!text.trim() || isApplying}
+        >
+          <AppIcon name="check" size={12} />
+          {isApplying ? 'Applying…' : 'Apply to page'}
+        </button>
+      </div>
+
+      {results && (
+        <>
+          <span className="import-panel-summary">
+            {appliedCount} of {results.length} patch{results.length !== 1 ? 'es' : ''} applied
+          </span>
+          {notes.map(note => (
+            <span key={note} className="import-panel-note">{note}</span>
+          ))}
+          <ul className="replay-report-list">
+            {results.map((result, i) => (
+              <li
+                key={`${result.selector}|${result.property}|${i}`}
+                className="replay-report-item"
+                title={result.error?.message}
+              >
+                <span className="replay-report-property">{result.property}: {result.value}</span>
+                <span className={result.success ? 'import-panel-applied' : 'replay-report-reason'}>
+                  {result.success ? 'Applied' : FAILURE_LABELS[result.error?.code ?? 'ELEMENT_NOT_FOUND']}
+                </span>
+                <span className="replay-report-selector">{result.selector}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,14 @@
 /**
  * Inspector Header
  * 
- * Top action bar with global controls: Pick Element, Copy CSS.
+ * Top action bar with global controls: Breakpoint, Import, Pick Element, Copy CSS.
  */
 
-import React from 'react';
-import { AppIcon } from '../primitives';
+import React, { useCallback } from 'react';
+import { AppIcon, Dropdown } from '../primitives';
+import type { DropdownOption } from '../primitives/Dropdown';
+import { BREAKPOINTS } from '../../shared/breakpoints';
+import type { BreakpointId } from '../../shared/breakpoints';
 // ============================================================================
 // Styles
 // ============================================================================
@@ -18,8 +21,20 @@ export interface InspectorHeaderProps {
   onPickerToggle: () => void;
   hasSelection: boolean;
   onCopyCSS: () => void;
+  /** Breakpoint new patches are scoped to (null = all viewports) */
+  breakpoint: BreakpointId | null;
+  onBreakpointChange: (breakpoint: BreakpointId | null) => void;
+  /** Open the panel for importing an export JSON */
+  onImport: () => void;
 }
 
+type BreakpointOption = BreakpointId | 'all';
+
+const BREAKPOINT_OPTIONS: DropdownOption<BreakpointOption>[] = [
+  { value: 'all', label: 'All sizes' },
+  ...BREAKPOINTS.map((b) => ({ value: b.id, label: `${b.id} ≥${b.minWidth}` })),
+];
+
 // Action button component for header
 function ActionButton({
   icon,
@@ -58,7 +73,17 @@ export function InspectorHeader({
   onPickerToggle,
   hasSelection,
   onCopyCSS,
+  breakpoint,
+  onBreakpointChange,
+  onImport,
 }: InspectorHeaderProps): React.ReactElement {
+  const handleBreakpointChange = useCallback(
+    (value: BreakpointOption) => {
+      onBreakpointChange(value === 'all' ? null : value);
+    },
+    [onBreakpointChange]
+  );
+
   return (
     <header className="inspector-header">
       <h1 className="inspector-header-title">
@@ -69,6 +94,23 @@ export function InspectorHeader({
       </h1>
 
       <div className="inspector-header-actions">
+        {/* Breakpoint scope for new patches */}
+        <div className="inspector-header-breakpoint" title="Scope new style edits to a breakpoint">
+          <Dropdown
+            value={breakpoint ?? 'all'}
+            options={BREAKPOINT_OPTIONS}
+            onChange={handleBreakpointChange}
+            width={96}
+          />
+        </div>
+
+        {/* Import an export JSON */}
+        <ActionButton
+          icon={<AppIcon name="upload" />}
+          label="Import"
+          onClick={onImport}
+          title="Import an export JSON and re-apply its changes"
+        />
 
         {/* Copy CSS - only visible when element selected */}
         {hasSelection && (
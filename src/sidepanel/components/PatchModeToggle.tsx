@@ -0,0 +1,41 @@
+/**
+ * PatchModeToggle
+ *
+ * Switches how style edits are applied to the page:
+ * inline on the selected element, or as a rule scoped to its selector.
+ */
+
+import React from 'react';
+import type { PatchMode } from '../../shared/types';
+import { SegmentedTabs } from '../primitives';
+import type { TabOption } from '../primitives/SegmentedTabs';
+
+import './components.css';
+
+export interface PatchModeToggleProps {
+  mode: PatchMode;
+  onChange: (mode: PatchMode) => void;
+}
+
+const MODE_OPTIONS: TabOption<PatchMode>[] = [
+  { value: 'inline', label: 'Element' },
+  { value: 'stylesheet', label: 'Selector' },
+];
+
+const MODE_HINTS: Record<PatchMode, string> = {
+  inline: 'Edits apply to this element only (inline style).',
+  stylesheet: 'Edits apply to every element matching the selector (stylesheet rule).',
+};
+
+export function PatchModeToggle({
+  mode,
+  onChange,
+}: PatchModeToggleProps): React.ReactElement {
+  return (
+    <div className="patch-mode-toggle">
+      <span className="patch-mode-toggle-label">Apply to</span>
+      <SegmentedTabs options={MODE_OPTIONS} value={mode} onChange={onChange} />
+      <span className="patch-mode-toggle-hint">{MODE_HINTS[mode]}</span>
+    </div>
+  );
+}
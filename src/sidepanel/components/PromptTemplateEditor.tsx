@@ -0,0 +1,144 @@
+/**
+ * PromptTemplateEditor
+ *
+ * Edits the execution prompt template of the current origin: the prompt
+ * text with {{variable}} placeholders, and free-form notes about the repo.
+ * Templates can be saved to and loaded from .json files to share them
+ * across a team. The rendered prompt is previewed next to the editor.
+ */
+
+import React, { useCallback, useRef, useState } from 'react';
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  PROMPT_VARIABLES,
+  findUnknownVariables,
+  parsePromptTemplateFile,
+  serializePromptTemplate,
+  type PromptTemplate,
+} from '../../shared/promptTemplate';
+import { AppIcon } from '../primitives';
+
+import './components.css';
+
+export interface PromptTemplateEditorProps {
+  /** Origin the template is stored for */
+  origin: string;
+  /** Custom template, or null while the default is in use */
+  template: PromptTemplate | null;
+  onChange: (template: PromptTemplate) => void;
+  /** Go back to the default template */
+  onReset: () => void;
+}
+
+function toFileName(origin: string): string {
+  const host = origin.replace(/^[a-z]+:\/\//, '').replace(/[^\w.-]+/g, '-');
+  return `prompt-template-${host || 'page'}.json`;
+}
+
+export function PromptTemplateEditor({
+  origin,
+  template,
+  onChange,
+  onReset,
+}: PromptTemplateEditorProps): React.ReactElement {
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const body = template?.body ?? DEFAULT_PROMPT_TEMPLATE;
+  const repoContext = template?.repoContext ?? '';
+  const unknownVariables = findUnknownVariables(body);
+
+  const handleFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const parsed = parsePromptTemplateFile(await file.text());
+    if (!parsed.template) {
+      setImportError(parsed.error);
+      return;
+    }
+    setImportError(null);
+    onChange(parsed.template);
+  }, [onChange]);
+
+  const handleExport = useCallback(() => {
+    const blob = new Blob([serializePromptTemplate({ body, repoContext }, origin)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = toFileName(origin);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, [body, repoContext, origin]);
+
+  return (
+    <div className="prompt-template">
+      <div className="prompt-template-header">
+        <span className="prompt-template-title">Template for {origin}</span>
+        <span className="prompt-template-status">{template ? 'Custom' : 'Default'}</span>
+      </div>
+
+      <label className="prompt-template-label" htmlFor="prompt-template-context">
+        Repo context
+      </label>
+      <textarea
+        id="prompt-template-context"
+        className="import-panel-input"
+        value={repoContext}
+        onChange={(e) => onChange({ body, repoContext: e.target.value })}
+        placeholder={'e.g. "Use our Box component props for spacing. Never touch legacy SCSS in src/styles/legacy."'}
+      />
+
+      <label className="prompt-template-label" htmlFor="prompt-template-body">
+        Prompt
+      </label>
+      <textarea
+        id="prompt-template-body"
+        className="import-panel-input prompt-template-body"
+        value={body}
+        onChange={(e) => onChange({ body: e.target.value, repoContext })}
+        spellCheck={false}
+      />
+
+      <div className="prompt-template-variables">
+        {(Object.keys(PROMPT_VARIABLES) as Array<keyof typeof PROMPT_VARIABLES>).map(name => (
+          <code key={name} className="prompt-template-variable" title={PROMPT_VARIABLES[name]}>
+            {`{{${name}}}`}
+          </code>
+        ))}
+      </div>
+
+      {unknownVariables.length > 0 && (
+        <span className="import-panel-note">
+          Unknown variable{unknownVariables.length !== 1 ? 's' : ''}, left as written:{' '}
+          {unknownVariables.map(name => `{{${name}}}`).join(', ')}
+        </span>
+      )}
+      {importError && <pre className="import-panel-error">{importError}</pre>}
+
+      <div className="import-panel-actions">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          hidden
+        />
+        <button className="replay-report-button" onClick={onReset} disabled={!template}>
+          Reset to default
+        </button>
+        <button className="replay-report-button" onClick={() => fileInputRef.current?.click()}>
+          <AppIcon name="upload" size={12} />
+          Import
+        </button>
+        <button className="replay-report-button" onClick={handleExport}>
+          <AppIcon name="download" size={12} />
+          Export
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+/**
+ * ReplayReportBanner
+ *
+ * Shown after a page reload when some persisted patches could not be
+ * re-applied. Lists each failed patch with the reason it did not re-anchor,
+ * and lets the user retry (e.g. once the element has rendered) or discard them.
+ */
+
+import React from 'react';
+import type { ReplayReport, PatchErrorCode, HistoryPatch } from '../../shared/types';
+import { isStructuralPatch, isTextPatch, isAttributePatch } from '../../shared/types';
+import { AppIcon } from '../primitives';
+import { describeAttributeChange, toKebabCase } from '../../shared/handoff';
+
+import './components.css';
+
+export interface ReplayReportBannerProps {
+  /** Report of the last replay (only rendered when it has failures) */
+  report: ReplayReport;
+  /** Retry re-anchoring the failed patches */
+  onRetry: () => void;
+  /** Drop the failed patches */
+  onDiscard: () => void;
+  /** Whether a retry is in progress */
+  isRetrying: boolean;
+}
+
+export const FAILURE_LABELS: Record<PatchErrorCode, string> = {
+  ELEMENT_NOT_FOUND: 'Element not found',
+  ELEMENT_AMBIGUOUS: 'Selector matches several elements',
+  IDENTITY_MISMATCH: 'Element changed',
+  INVALID_SELECTOR: 'Invalid selector',
+  UNSUPPORTED_TARGET: 'Element cannot be restructured',
+  INVALID_ATTRIBUTE: 'Invalid class or attribute',
+  PREVIEW_PENDING: 'AI proposal pending',
+};
+
+/**
+ * Short description of a patch: "property: value", the structural operation,
+ * the edited text, or the class/attribute change.
+ */
+function describePatch(patch: HistoryPatch): string {
+  if (isStructuralPatch(patch)) return patch.operation;
+  if (isTextPatch(patch)) return `text: "${patch.value}"`;
+  if (isAttributePatch(patch)) return describeAttributeChange(patch);
+  return `${toKebabCase(String(patch.property))}: ${patch.value}`;
+}
+
+function getPatchKey(patch: HistoryPatch): string {
+  const change =
+    isStructuralPatch(patch) ? patch.operation :
+      isTextPatch(patch) ? 'text' :
+        isAttributePatch(patch) ? `${patch.operation}:${patch.name}` :
+          String(patch.property);
+  return `${patch.selector}|${change}|${patch.timestamp}`;
+}
+
+export function ReplayReportBanner({
+  report,
+  onRetry,
+  onDiscard,
+  isRetrying,
+}: ReplayReportBannerProps): React.ReactElement {
+  const { failures, appliedCount } = report;
+
+  return (
+    <div className="replay-report" role="status">
+      <div className="replay-report-header">
+        <AppIcon name="alertTriangle" size={14} state="danger" />
+        <span className="replay-report-title">
+          {failures.length} {failures.length === 1 ? 'patch' : 'patches'} could not be re-applied
+          {appliedCount > 0 && ` (${appliedCount} restored)`}
+        </span>
+      </div>
+
+      <ul className="replay-report-list">
+        {failures.map(({ patch, error }) => (
+          <li
+            key={getPatchKey(patch)}
+            className="replay-report-item"
+            title={error.message}
+          >
+            <span className="replay-report-property">{describePatch(patch)}</span>
+            <span className="replay-report-selector">{patch.selector}</span>
+            <span className="replay-report-reason">{FAILURE_LABELS[error.code]}</span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="replay-report-actions">
+        <button className="replay-report-button" onClick={onRetry} disabled={isRetrying}>
+          <AppIcon name="reset" size={12} />
+          {isRetrying ? 'Retrying…' : 'Retry'}
+        </button>
+        <button className="replay-report-button" onClick={onDiscard} disabled={isRetrying}>
+          <AppIcon name="close" size={12} />
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+}
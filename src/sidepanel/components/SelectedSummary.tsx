@@ -72,10 +72,10 @@ export function SelectedSummary({
             )}
           </div>
 
-          {/* Class list */}
+          {/* Class list (first 5; the Attributes section lists and edits all) */}
           {element.classList.length > 0 && (
             <div className="selected-summary-class-list">
-              .{element.classList.join(' .')}
+              .{element.classList.slice(0, 5).join(' .')}
             </div>
           )}
         </div>
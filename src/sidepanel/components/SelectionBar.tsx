@@ -0,0 +1,56 @@
+/**
+ * SelectionBar
+ *
+ * Shows the size of a multi-element selection, which properties have
+ * mixed values across it, and a shortcut to select all matching elements.
+ */
+
+import React, { useCallback } from 'react';
+import type { SelectionSummary } from '../../shared/types';
+import { AppIcon } from '../primitives';
+import { selectMatching } from '../messaging/sidepanelBridge';
+import { toKebabCase } from '../../shared/handoff';
+
+import './components.css';
+
+export interface SelectionBarProps {
+  /** Current multi-selection, or null when a single element is selected */
+  selection: SelectionSummary | null;
+}
+
+export function SelectionBar({
+  selection,
+}: SelectionBarProps): React.ReactElement {
+  const handleSelectMatching = useCallback(() => {
+    selectMatching();
+  }, []);
+
+  const mixedProperties = selection ? Object.keys(selection.mixedStyles) : [];
+
+  return (
+    <div className="selection-bar">
+      <div className="selection-bar-row">
+        <span className="selection-bar-count">
+          {selection ? `${selection.count} elements selected` : '1 element selected'}
+        </span>
+        <button
+          className="selection-bar-button"
+          onClick={handleSelectMatching}
+          title="Select all elements with the same tag and classes"
+        >
+          <AppIcon name="selector" size={12} />
+          Select matching
+        </button>
+      </div>
+      {selection ? (
+        mixedProperties.length > 0 && (
+          <span className="selection-bar-mixed">
+            Mixed: {mixedProperties.map(toKebabCase).join(', ')}
+          </span>
+        )
+      ) : (
+        <span className="selection-bar-hint">Shift-click elements on the page to add them.</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+/**
+ * StateToggle
+ *
+ * Forces a pseudo-class state (:hover, :focus, ...) on the selected element.
+ * While a state is forced, style edits are recorded against that state.
+ */
+
+import React, { useCallback } from 'react';
+import type { PseudoState } from '../../shared/types';
+import { Dropdown } from '../primitives';
+import type { DropdownOption } from '../primitives/Dropdown';
+
+import './components.css';
+
+export interface StateToggleProps {
+  state: PseudoState | null;
+  onChange: (state: PseudoState | null) => void;
+}
+
+type StateOption = PseudoState | 'none';
+
+const STATE_OPTIONS: DropdownOption<StateOption>[] = [
+  { value: 'none', label: 'Default' },
+  { value: 'hover', label: ':hover' },
+  { value: 'focus', label: ':focus' },
+  { value: 'active', label: ':active' },
+  { value: 'focus-visible', label: ':focus-visible' },
+];
+
+export function StateToggle({
+  state,
+  onChange,
+}: StateToggleProps): React.ReactElement {
+  const handleChange = useCallback(
+    (value: StateOption) => {
+      onChange(value === 'none' ? null : value);
+    },
+    [onChange]
+  );
+
+  return (
+    <div className="state-toggle">
+      <span className="state-toggle-label">State</span>
+      <Dropdown
+        value={state ?? 'none'}
+        options={STATE_OPTIONS}
+        onChange={handleChange}
+        width="100%"
+      />
+      {state && (
+        <span className="state-toggle-hint">
+          Forcing :{state}. Edits apply on {state} only.
+        </span>
+      )}
+    </div>
+  );
+}
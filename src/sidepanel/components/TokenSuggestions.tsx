@@ -0,0 +1,75 @@
+/**
+ * TokenSuggestions
+ *
+ * Lists the page's design token nearest to each edited spacing, radius,
+ * font-size and color value of the selected element, with a shortcut to
+ * switch the value over to the token. Values edited for a pseudo-class
+ * state or breakpoint are listed separately and switched in that scope.
+ * Hidden while nothing has a match.
+ */
+
+import React, { useEffect, useState } from 'react';
+import type { ComputedStylesSnapshot, PatchScope, TokenSuggestionEntry } from '../../shared/types';
+import { getTokenSuggestions } from '../messaging/sidepanelBridge';
+import { toKebabCase } from '../../shared/handoff';
+
+import './components.css';
+
+export interface TokenSuggestionsProps {
+  selector: string;
+  /** Current styles; suggestions are refetched whenever they change */
+  styles: ComputedStylesSnapshot;
+  /** Apply a value in the given state and breakpoint scope */
+  onApply: (property: string, value: string, scope: Pick<PatchScope, 'state' | 'media'>) => void;
+}
+
+function describeScope({ state, media }: TokenSuggestionEntry): string {
+  return [state && `:${state}`, media && `@media ${media}`].filter(Boolean).join(' ');
+}
+
+export function TokenSuggestions({
+  selector,
+  styles,
+  onApply,
+}: TokenSuggestionsProps): React.ReactElement | null {
+  const [suggestions, setSuggestions] = useState<TokenSuggestionEntry[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getTokenSuggestions(selector).then(result => {
+      if (!cancelled) setSuggestions(result.suggestions);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selector, styles]);
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="token-suggestions">
+      <span className="token-suggestions-label">Design tokens</span>
+      {suggestions.map((entry) => {
+        const { property, value, token, state, media } = entry;
+        const scope = describeScope(entry);
+        return (
+          <div key={`${property}|${scope}`} className="token-suggestions-row">
+            <span className="token-suggestions-value" title={`${toKebabCase(property)}: ${value}${scope ? ` (${scope})` : ''}`}>
+              {toKebabCase(property)}: {value}{scope && ` ${scope}`}
+            </span>
+            <span className="token-suggestions-token" title={`${token.name} = ${token.value}`}>
+              {token.exact ? '=' : '≈'} {token.name}
+            </span>
+            <button
+              className="token-suggestions-button"
+              onClick={() => onApply(property, `var(${token.name})`, { state, media })}
+              title={`Set ${toKebabCase(property)} to var(${token.name})`}
+            >
+              Use
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@
  */
 
 import { useState, useCallback, useMemo } from 'react';
+import type { StructuralOperation } from '../../shared/types';
 
 export interface Command {
   id: string;
@@ -200,8 +201,10 @@ export function createDefaultCommands(handlers: {
   onSetOpacity?: (value: number) => void;
   onTogglePicker?: () => void;
   onCopyCSS?: () => void;
+  onImport?: () => void;
   onUndo?: () => void;
   onRedo?: () => void;
+  onStructuralChange?: (operation: Exclude<StructuralOperation, 'move'>) => void;
 }): Command[] {
   const commands: Command[] = [];
 
@@ -227,6 +230,17 @@ export function createDefaultCommands(handlers: {
     });
   }
 
+  if (handlers.onImport) {
+    commands.push({
+      id: 'import-export',
+      label: 'Import Export JSON',
+      description: 'Re-apply the changes of an exported file to this page',
+      keywords: ['load', 'replay', 'json', 'handoff'],
+      category: 'Actions',
+      action: handlers.onImport,
+    });
+  }
+
   if (handlers.onUndo) {
     commands.push({
       id: 'undo',
@@ -249,6 +263,24 @@ export function createDefaultCommands(handlers: {
     });
   }
 
+  if (handlers.onStructuralChange) {
+    const structuralCommands: { operation: Exclude<StructuralOperation, 'move'>; label: string; keywords: string[] }[] = [
+      { operation: 'duplicate', label: 'Duplicate Element', keywords: ['copy', 'clone'] },
+      { operation: 'hide', label: 'Hide Element', keywords: ['visibility', 'remove'] },
+      { operation: 'wrap', label: 'Wrap in Flex Container', keywords: ['group', 'flex', 'container'] },
+      { operation: 'delete', label: 'Delete Element', keywords: ['remove'] },
+    ];
+    structuralCommands.forEach(({ operation, label, keywords }) => {
+      commands.push({
+        id: `structure-${operation}`,
+        label,
+        keywords: ['structure', ...keywords],
+        category: 'Structure',
+        action: () => handlers.onStructuralChange!(operation),
+      });
+    });
+  }
+
   // Quick set commands
   const spacingValues = [0, 8, 16, 24, 32];
   
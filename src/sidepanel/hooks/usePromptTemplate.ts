@@ -0,0 +1,86 @@
+/**
+ * usePromptTemplate Hook
+ *
+ * Persist custom execution prompt templates per page origin, so each
+ * project can carry its own instructions.
+ */
+
+import { useState, useCallback } from 'react';
+import type { PromptTemplate } from '../../shared/promptTemplate';
+
+const STORAGE_KEY = 'ui-inspector-prompt-templates';
+
+interface PromptTemplateStore {
+  [origin: string]: PromptTemplate;
+}
+
+function getStoredTemplates(): PromptTemplateStore {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveStoredTemplates(templates: PromptTemplateStore): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+/**
+ * Get the origin templates are stored under for a page URL.
+ */
+export function getTemplateOrigin(pageUrl: string): string {
+  try {
+    return new URL(pageUrl).origin;
+  } catch {
+    return pageUrl;
+  }
+}
+
+/**
+ * Get the custom template for an origin, or null to use the default.
+ */
+export function getPromptTemplate(origin: string): PromptTemplate | null {
+  return getStoredTemplates()[origin] ?? null;
+}
+
+/**
+ * Hook to read and edit the custom template for an origin
+ */
+export function usePromptTemplate(origin: string | null): {
+  template: PromptTemplate | null;
+  saveTemplate: (template: PromptTemplate) => void;
+  resetTemplate: () => void;
+} {
+  const [templates, setTemplates] = useState<PromptTemplateStore>(getStoredTemplates);
+
+  const saveTemplate = useCallback((template: PromptTemplate) => {
+    if (!origin) return;
+    setTemplates(() => {
+      const updated = { ...getStoredTemplates(), [origin]: template };
+      saveStoredTemplates(updated);
+      return updated;
+    });
+  }, [origin]);
+
+  const resetTemplate = useCallback(() => {
+    if (!origin) return;
+    setTemplates(() => {
+      const updated = { ...getStoredTemplates() };
+      delete updated[origin];
+      saveStoredTemplates(updated);
+      return updated;
+    });
+  }, [origin]);
+
+  return {
+    template: origin ? templates[origin] ?? null : null,
+    saveTemplate,
+    resetTemplate,
+  };
+}
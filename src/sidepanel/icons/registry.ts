@@ -69,8 +69,11 @@ import {
     IconSearch,
     IconCommand,
     IconDownload,
+    IconUpload,
     IconAlertCircle,
     IconAlertTriangle,
+    IconTrash,
+    IconContainer,
 } from '@tabler/icons-react';
 
 import type { Icon } from '@tabler/icons-react';
@@ -149,8 +152,11 @@ export const ICONS = {
     search: IconSearch,
     command: IconCommand,
     download: IconDownload,
+    upload: IconUpload,
     alertCircle: IconAlertCircle,
     alertTriangle: IconAlertTriangle,
+    trash: IconTrash,
+    wrap: IconContainer,
 } as const;
 
 export type IconName = keyof typeof ICONS;
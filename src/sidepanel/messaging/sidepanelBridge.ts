@@ -10,10 +10,25 @@ import type {
   ElementMetadata,
   ComputedStylesSnapshot,
   StylePatch,
+  HistoryPatch,
+  StructuralPatch,
+  StructuralOperation,
+  AttributePatch,
+  AttributeOperation,
+  PatchError,
   VisualUIInspectorExport,
   Viewport,
+  PatchScope,
+  PseudoState,
+  SelectionSummary,
+  ReplayReport,
+  TokenSuggestionEntry,
+  FinalPatch,
+  ImportPatchResult,
+  ElementStyleContext,
 } from '../../shared/types';
 import { MessageType, createMessage, isExtensionMessage } from '../../shared/types';
+import type { RoleLocatorHint } from '../../shared/playwright';
 
 // ============================================================================
 // Types
@@ -23,20 +38,39 @@ export interface BridgeCallbacks {
   onElementSelected?: (metadata: ElementMetadata) => void;
   onPickCancelled?: () => void;
   onStylePatchApplied?: (patch: StylePatch, styles: ComputedStylesSnapshot) => void;
+  onStructuralPatchApplied?: (result: {
+    success: boolean;
+    patch: StructuralPatch | null;
+    error?: PatchError;
+    canUndo: boolean;
+    canRedo: boolean;
+  }) => void;
+  onAttributePatchApplied?: (result: {
+    success: boolean;
+    patch: AttributePatch | null;
+    error?: PatchError;
+    canUndo: boolean;
+    canRedo: boolean;
+  }) => void;
+  onTextContentChanged?: (result: { selector: string; canUndo: boolean; canRedo: boolean }) => void;
   onUndoApplied?: (result: {
     success: boolean;
-    patch: StylePatch | null;
+    patch: HistoryPatch | null;
     updatedStyles: ComputedStylesSnapshot | null;
+    error?: PatchError;
     canUndo: boolean;
     canRedo: boolean;
   }) => void;
   onRedoApplied?: (result: {
     success: boolean;
-    patch: StylePatch | null;
+    patch: HistoryPatch | null;
     updatedStyles: ComputedStylesSnapshot | null;
+    error?: PatchError;
     canUndo: boolean;
     canRedo: boolean;
   }) => void;
+  onSelectionChanged?: (selection: SelectionSummary | null) => void;
+  onPatchesReplayed?: (report: ReplayReport) => void;
   onTabChanged?: () => void;
   onError?: (error: string) => void;
 }
@@ -79,9 +113,23 @@ export function initBridge(cbs: BridgeCallbacks): () => void {
             message.payload.patch,
             message.payload.updatedStyles
           );
+        } else if (message.payload.error) {
+          callbacks.onError?.(message.payload.error.message);
         }
         break;
 
+      case MessageType.STRUCTURAL_PATCH_APPLIED:
+        callbacks.onStructuralPatchApplied?.(message.payload);
+        break;
+
+      case MessageType.ATTRIBUTE_PATCH_APPLIED:
+        callbacks.onAttributePatchApplied?.(message.payload);
+        break;
+
+      case MessageType.TEXT_CONTENT_CHANGED:
+        callbacks.onTextContentChanged?.(message.payload);
+        break;
+
       case MessageType.UNDO_APPLIED:
         callbacks.onUndoApplied?.(message.payload);
         break;
@@ -89,6 +137,14 @@ export function initBridge(cbs: BridgeCallbacks): () => void {
       case MessageType.REDO_APPLIED:
         callbacks.onRedoApplied?.(message.payload);
         break;
+
+      case MessageType.SELECTION_CHANGED:
+        callbacks.onSelectionChanged?.(message.payload);
+        break;
+
+      case MessageType.PATCHES_REPLAYED:
+        callbacks.onPatchesReplayed?.(message.payload);
+        break;
     }
   };
 
@@ -100,15 +156,18 @@ export function initBridge(cbs: BridgeCallbacks): () => void {
   };
 }
 
+/** How long a screenshot export may take: tall elements are captured in several passes */
+const SCREENSHOT_EXPORT_TIMEOUT_MS = 30000;
+
 /**
  * Send a message to the content script via the service worker.
  */
-async function sendMessage<T>(message: ExtensionMessage): Promise<T> {
+async function sendMessage<T>(message: ExtensionMessage, timeoutMs = 5000): Promise<T> {
   return new Promise((resolve, reject) => {
     // Set timeout for message response
     const timeout = setTimeout(() => {
       reject(new Error('Message timeout - content script may not be loaded. Try refreshing the page.'));
-    }, 5000);
+    }, timeoutMs);
 
     chrome.runtime.sendMessage(message, (response) => {
       clearTimeout(timeout);
@@ -164,18 +223,73 @@ export async function stopPicker(): Promise<void> {
 
 /**
  * Apply a style patch to the selected element.
+ *
+ * @param origin - History entry to join (patches sharing a groupId undo
+ *   together) and the styling command the patch was generated from
  */
 export async function applyStylePatch(
   selector: string,
   property: string,
   value: string,
-  previousValue: string = ''
-): Promise<void> {
+  previousValue: string = '',
+  scope: PatchScope = {},
+  origin: Pick<StylePatch, 'groupId' | 'prompt'> = {}
+): Promise<{ success: boolean; patch: StylePatch; updatedStyles: ComputedStylesSnapshot | null; error?: PatchError }> {
   try {
-    await sendMessage(
+    return await sendMessage(
       createMessage<import('../../shared/types').ApplyStylePatchMessage>(
         MessageType.APPLY_STYLE_PATCH,
-        { selector, property, value, previousValue }
+        { selector, property, value, previousValue, ...scope, ...origin }
+      )
+    );
+  } catch (e) {
+    callbacks.onError?.(String(e));
+    throw e;
+  }
+}
+
+/**
+ * Apply a structural change (move, duplicate, delete, hide, wrap) to an element.
+ * Moves drop the element before or after a sibling.
+ */
+export async function applyStructuralPatch(
+  operation: StructuralOperation,
+  selector: string,
+  target?: { selector: string; position: 'before' | 'after' }
+): Promise<void> {
+  try {
+    await sendMessage(
+      createMessage<import('../../shared/types').ApplyStructuralPatchMessage>(
+        MessageType.APPLY_STRUCTURAL_PATCH,
+        {
+          operation,
+          selector,
+          ...(target && { targetSelector: target.selector, position: target.position }),
+        }
+      )
+    );
+  } catch (e) {
+    callbacks.onError?.(String(e));
+    throw e;
+  }
+}
+
+/**
+ * Add or remove a class, or set or remove an attribute, on an element.
+ * The patch's resultSelector is the element's selector after the change, if
+ * it changed.
+ */
+export async function applyAttributePatch(
+  operation: AttributeOperation,
+  selector: string,
+  name: string,
+  value?: string
+): Promise<{ success: boolean; patch: AttributePatch | null; error?: PatchError }> {
+  try {
+    return await sendMessage(
+      createMessage<import('../../shared/types').ApplyAttributePatchMessage>(
+        MessageType.APPLY_ATTRIBUTE_PATCH,
+        { operation, selector, name, ...(value !== undefined && { value }) }
       )
     );
   } catch (e) {
@@ -185,7 +299,7 @@ export async function applyStylePatch(
 }
 
 /**
- * Undo the last style change.
+ * Undo the last change.
  */
 export async function undo(): Promise<void> {
   try {
@@ -197,7 +311,7 @@ export async function undo(): Promise<void> {
 }
 
 /**
- * Redo the last undone style change.
+ * Redo the last undone change.
  */
 export async function redo(): Promise<void> {
   try {
@@ -216,6 +330,9 @@ export async function getCurrentState(): Promise<{
   selectedElement: ElementMetadata | null;
   canUndo: boolean;
   canRedo: boolean;
+  forcedState: PseudoState | null;
+  selection: SelectionSummary | null;
+  replayReport: ReplayReport | null;
 }> {
   try {
     return await sendMessage(createMessage(MessageType.GET_CURRENT_STATE));
@@ -226,6 +343,9 @@ export async function getCurrentState(): Promise<{
       selectedElement: null,
       canUndo: false,
       canRedo: false,
+      forcedState: null,
+      selection: null,
+      replayReport: null,
     };
   }
 }
@@ -256,6 +376,78 @@ export async function toggleSpacingVisualization(enabled: boolean): Promise<void
   }
 }
 
+/**
+ * Add every element matching a selector to the selection.
+ * Without a selector, matches the selected element's tag + classes.
+ * Returns the resulting selection size.
+ */
+export async function selectMatching(selector?: string): Promise<number> {
+  try {
+    const result = await sendMessage<{ success: boolean; count: number }>(
+      createMessage<import('../../shared/types').SelectMatchingMessage>(
+        MessageType.SELECT_MATCHING,
+        { selector }
+      )
+    );
+    return result.count;
+  } catch (e) {
+    callbacks.onError?.(String(e));
+    return 0;
+  }
+}
+
+/**
+ * Force a pseudo-class state on the selected element (null releases it).
+ * Returns the element's styles in the forced state.
+ */
+export async function forceElementState(
+  state: PseudoState | null
+): Promise<{ success: boolean; state: PseudoState | null; updatedStyles: ComputedStylesSnapshot }> {
+  try {
+    return await sendMessage(
+      createMessage<import('../../shared/types').ForceElementStateMessage>(
+        MessageType.FORCE_ELEMENT_STATE,
+        { state }
+      )
+    );
+  } catch (e) {
+    callbacks.onError?.(String(e));
+    throw e;
+  }
+}
+
+// ============================================================================
+// Patch Replay
+// ============================================================================
+
+/**
+ * Retry re-applying the patches that failed to re-anchor after a reload.
+ */
+export async function retryReplay(): Promise<{
+  report: ReplayReport;
+  canUndo: boolean;
+  canRedo: boolean;
+}> {
+  try {
+    return await sendMessage(createMessage(MessageType.RETRY_REPLAY));
+  } catch (e) {
+    callbacks.onError?.(String(e));
+    throw e;
+  }
+}
+
+/**
+ * Discard the patches that failed to re-anchor after a reload.
+ */
+export async function discardUnanchoredPatches(): Promise<void> {
+  try {
+    await sendMessage(createMessage(MessageType.DISCARD_UNANCHORED));
+  } catch (e) {
+    callbacks.onError?.(String(e));
+    throw e;
+  }
+}
+
 // ============================================================================
 // Hierarchy Navigation
 // ============================================================================
@@ -336,9 +528,15 @@ export async function navigateToSibling(direction: 'prev' | 'next'): Promise<boo
 /**
  * Get export data in Export Schema v1 format.
  * Returns the validated export with all patches, warnings, and stability signals.
+ * With `withScreenshots`, "after" crops of the changed elements are captured
+ * and the export carries before/after screenshots; use it for a handoff only.
  */
-export async function getExportData(): Promise<{
+export async function getExportData(options: { withScreenshots?: boolean } = {}): Promise<{
   exportData: VisualUIInspectorExport | null;
+  /** Current class list of each patched element, by selector */
+  elementClasses?: Record<string, string[]>;
+  /** Role locators of patched elements that have a unique role and name, by selector */
+  elementRoles?: Record<string, RoleLocatorHint>;
   patchCount: number;
   pageUrl: string;
   viewport: Viewport;
@@ -346,10 +544,15 @@ export async function getExportData(): Promise<{
   try {
     return await sendMessage<{
       exportData: VisualUIInspectorExport | null;
+      elementClasses?: Record<string, string[]>;
+      elementRoles?: Record<string, RoleLocatorHint>;
       patchCount: number;
       pageUrl: string;
       viewport: Viewport;
-    }>(createMessage(MessageType.GET_EXPORT_DATA));
+    }>(
+      createMessage<import('../../shared/types').GetExportDataMessage>(MessageType.GET_EXPORT_DATA, options),
+      options.withScreenshots ? SCREENSHOT_EXPORT_TIMEOUT_MS : undefined
+    );
   } catch {
     return {
       exportData: null,
@@ -359,3 +562,146 @@ export async function getExportData(): Promise<{
     };
   }
 }
+
+// ============================================================================
+// Design Tokens
+// ============================================================================
+
+/**
+ * Get the nearest design token for each edited style value of an element.
+ */
+export async function getTokenSuggestions(selector: string): Promise<{
+  suggestions: TokenSuggestionEntry[];
+  /** Number of tokens found on the page */
+  tokenCount: number;
+}> {
+  try {
+    return await sendMessage<{ suggestions: TokenSuggestionEntry[]; tokenCount: number }>(
+      createMessage(MessageType.GET_TOKEN_SUGGESTIONS, { selector })
+    );
+  } catch {
+    return { suggestions: [], tokenCount: 0 };
+  }
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Re-apply the patches of an imported export to the current page.
+ * Returns the outcome of each patch, in order.
+ */
+export async function applyImportedPatches(patches: FinalPatch[]): Promise<{
+  results: ImportPatchResult[];
+  /** URL of the page the patches were applied to */
+  pageUrl: string;
+  /** Styles of the selected element after the import, if one is selected */
+  updatedStyles: ComputedStylesSnapshot | null;
+  canUndo: boolean;
+  canRedo: boolean;
+}> {
+  try {
+    return await sendMessage(
+      createMessage<import('../../shared/types').ApplyImportedPatchesMessage>(
+        MessageType.APPLY_IMPORTED_PATCHES,
+        { patches }
+      )
+    );
+  } catch (e) {
+    callbacks.onError?.(String(e));
+    throw e;
+  }
+}
+
+// ============================================================================
+// AI Patch Proposals
+// ============================================================================
+
+/**
+ * Preview AI-proposed patches on the page, outside history.
+ * Replaces any earlier preview that is still pending.
+ */
+export async function previewProposedPatches(patches: FinalPatch[]): Promise<{
+  /** Whether each proposal could be applied, in order */
+  results: ImportPatchResult[];
+  /** Styles of the selected element with the preview, if one is selected */
+  updatedStyles: ComputedStylesSnapshot | null;
+}> {
+  try {
+    return await sendMessage(
+      createMessage<import('../../shared/types').PreviewProposedPatchesMessage>(
+        MessageType.PREVIEW_PROPOSED_PATCHES,
+        { patches }
+      )
+    );
+  } catch (e) {
+    callbacks.onError?.(String(e));
+    throw e;
+  }
+}
+
+/**
+ * Accept previewed proposals into history, or revert them.
+ *
+ * @param indices - Positions of the proposals in the previewed list
+ */
+export async function resolveProposedPatches(indices: number[], accept: boolean): Promise<{
+  updatedStyles: ComputedStylesSnapshot | null;
+  canUndo: boolean;
+  canRedo: boolean;
+}> {
+  try {
+    return await sendMessage(
+      createMessage<import('../../shared/types').ResolveProposedPatchesMessage>(
+        MessageType.RESOLVE_PROPOSED_PATCHES,
+        { indices, accept }
+      )
+    );
+  } catch (e) {
+    callbacks.onError?.(String(e));
+    throw e;
+  }
+}
+
+// ============================================================================
+// Styling Commands
+// ============================================================================
+
+/**
+ * Get the parent and adjacent siblings of an element, with their styles.
+ * Resolves to null if the element is no longer on the page.
+ */
+export async function getElementStyleContext(selector: string): Promise<ElementStyleContext | null> {
+  try {
+    return await sendMessage<ElementStyleContext | null>(
+      createMessage<import('../../shared/types').GetElementStyleContextMessage>(
+        MessageType.GET_ELEMENT_STYLE_CONTEXT,
+        { selector }
+      )
+    );
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// History Listing
+// ============================================================================
+
+/**
+ * Get the most recent style patches in history, newest first.
+ */
+export async function getRecentPatches(limit: number): Promise<StylePatch[]> {
+  try {
+    const result = await sendMessage<{ patches: StylePatch[] }>(
+      createMessage<import('../../shared/types').GetRecentPatchesMessage>(
+        MessageType.GET_RECENT_PATCHES,
+        { limit }
+      )
+    );
+    return result?.patches ?? [];
+  } catch {
+    return [];
+  }
+}
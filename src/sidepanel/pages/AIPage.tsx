@@ -4,26 +4,69 @@
  * Dedicated page for AI functionality:
  * - API key configuration (BYOK)
  * - AI generation from visual changes
+ * - Follow-up refinement of the response, with earlier turns kept in context
+ * - Patch mode: proposed style patches previewed on the page, accepted or rejected per patch
+ * - Styling commands: the prompt bar turns a command into patches for the selected element
+ * - Pre-flight token and cost estimate, with optional per-request limits
+ * - Redaction of personal data and secrets before sending, with a diff of what changed
  * - Output review and confirmation
  */
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { AppIcon } from '../primitives/AppIcon';
 import { colors, spacing, radii } from '../tokens';
 import { AISettings } from '../components/AISettings';
-import { AIConfirmation } from '../components/AIConfirmation';
+import { AIConfirmation, AIConversationThread, AIRequestEstimateView, AIStreamingOutput } from '../components/AIConfirmation';
+import { AIPatchProposals, type ProposalState } from '../components/AIPatchProposals';
+import { AIRedactionDiff, AIRedactionSettingsPanel } from '../components/AIRedaction';
 import { PromptBar } from '../primitives/PromptBar';
+import { SegmentedTabs, type TabOption } from '../primitives/SegmentedTabs';
 import {
   aiStateMachine,
   useAIStateMachine,
   callAI,
+  hasRequiredCredentials,
+  parsePatchProposals,
+  PATCH_PROPOSAL_INSTRUCTIONS,
+  STYLE_COMMAND_SYSTEM_PROMPT,
+  buildStyleCommandMessage,
+  parseStyleCommand,
+  estimateAIRequest,
+  checkBudget,
+  validateRedactionPatterns,
+  fitPromptImages,
+  DEFAULT_REDACTION_SETTINGS,
+  type PatchProposals,
+  type AIOutputMode,
   type AIResponse,
+  type AIPartialResponse,
   type AICredentials,
+  type AIBudget,
+  type AIRequestEstimate,
+  type AIRedactionSettings,
+  type Redaction,
   AI_STORAGE_KEYS,
 } from '../../ai';
-import { getExportData } from '../messaging/sidepanelBridge';
-import { generateExecutionPrompt } from '../../shared/promptTemplate';
+import {
+  getExportData,
+  previewProposedPatches,
+  resolveProposedPatches,
+  getElementStyleContext,
+  applyStylePatch,
+} from '../messaging/sidepanelBridge';
+import { generateExecutionPrompt, getPromptImages } from '../../shared/promptTemplate';
+import { getPromptTemplate, getTemplateOrigin } from '../hooks/usePromptTemplate';
 import { EXPORT_SCHEMA_VERSION } from '../../shared/types';
+import type {
+  ComputedStylesSnapshot,
+  ElementMetadata,
+  PatchMode,
+  PatchScope,
+  PseudoState,
+  VisualUIInspectorExport,
+} from '../../shared/types';
+import { getBreakpointMedia, type BreakpointId } from '../../shared/breakpoints';
+import { useLocalStorage } from '../hooks/useLocalStorage';
 
 // ============================================================================
 // System Prompt (Phase 3 Guardrails)
@@ -58,9 +101,41 @@ Structure your response with these sections:
 - **Warnings**: Any issues from the export (REQUIRED if warnings exist)
 - **Verification Steps**: How to verify the implementation
 
+## Follow-ups
+The user may reply to refine your guidance (e.g. "use the spacing token instead"). Answer with the complete revised response in the same format. The export in the first message remains the source of truth, and the trust rules still apply.
+
 ## Refusal
 If the input is malformed, incomplete, or contains signals that prevent safe output (e.g., selectorConfidence: low with no user acknowledgment), you must refuse with an explanation. Silent failure is forbidden.`;
 
+const OUTPUT_MODE_OPTIONS: TabOption<AIOutputMode>[] = [
+  { value: 'guidance', label: 'Guidance' },
+  { value: 'patches', label: 'Patches' },
+];
+
+const OUTPUT_MODE_HINTS: Record<AIOutputMode, string> = {
+  guidance: 'Implementation guidance for your codebase.',
+  patches: 'Style patches previewed on the page, to accept or reject one by one.',
+};
+
+function getSystemPrompt(outputMode: AIOutputMode): string {
+  return outputMode === 'patches'
+    ? `${SYSTEM_PROMPT}\n\n${PATCH_PROPOSAL_INSTRUCTIONS}`
+    : SYSTEM_PROMPT;
+}
+
+/**
+ * Outcome of a styling command typed in the prompt bar.
+ */
+interface StyleCommandOutcome {
+  command: string;
+  /** The model's explanation of the change */
+  summary: string;
+  /** Declarations applied to the element */
+  applied: string[];
+  /** Declarations that were left out or failed to apply */
+  errors: string[];
+}
+
 // ============================================================================
 // Styles
 // ============================================================================
@@ -276,6 +351,66 @@ const styles = {
     color: colors.text,
     fontSize: '12px',
   } as React.CSSProperties,
+
+  // Output mode
+  outputMode: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: spacing[2],
+  } as React.CSSProperties,
+  outputModeHint: {
+    fontSize: '12px',
+    color: colors.textMuted,
+  } as React.CSSProperties,
+
+  // Request limits
+  budget: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: spacing[2],
+  } as React.CSSProperties,
+  budgetTitle: {
+    fontSize: '11px',
+    color: colors.textMuted,
+  } as React.CSSProperties,
+  budgetFields: {
+    display: 'flex',
+    gap: spacing[2],
+  } as React.CSSProperties,
+  budgetField: {
+    display: 'flex',
+    flexDirection: 'column',
+    flex: 1,
+    gap: spacing[1],
+    fontSize: '12px',
+    color: colors.text,
+  } as React.CSSProperties,
+
+  // Styling command outcome
+  commandOutcome: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: spacing[2],
+    padding: spacing[3],
+    backgroundColor: colors.surface,
+    borderRadius: radii.md,
+    border: `1px solid ${colors.border}`,
+    fontSize: '12px',
+    lineHeight: 1.5,
+  } as React.CSSProperties,
+  commandText: {
+    fontWeight: 600,
+    color: colors.text,
+  } as React.CSSProperties,
+  commandSummary: {
+    color: colors.textMuted,
+  } as React.CSSProperties,
+  commandDeclarations: {
+    margin: 0,
+    paddingLeft: 16,
+    fontFamily: 'monospace',
+    color: colors.text,
+  } as React.CSSProperties,
 };
 
 // ============================================================================
@@ -286,44 +421,246 @@ interface AIPageProps {
   hasChanges: boolean;
   patchCount: number;
   onSwitchToInspector?: () => void;
+  /** Called after patches were applied, previewed, accepted or rejected on the page */
+  onPageChanged?: () => void;
+  /** Element styling commands apply to */
+  selectedElement?: ElementMetadata | null;
+  /** Current styles of the selected element */
+  computedStyles?: ComputedStylesSnapshot | null;
+  /** Pseudo-class state currently forced on the selected element; commands are scoped to it */
+  forcedState?: PseudoState | null;
+  /** Breakpoint commands are scoped to (null = all viewports) */
+  breakpoint?: BreakpointId | null;
 }
 
-export function AIPage({ hasChanges, patchCount, onSwitchToInspector }: AIPageProps): React.ReactElement {
+export function AIPage({
+  hasChanges,
+  patchCount,
+  onSwitchToInspector,
+  onPageChanged,
+  selectedElement = null,
+  computedStyles = null,
+  forcedState = null,
+  breakpoint = null,
+}: AIPageProps): React.ReactElement {
   const [hasCredentials, setHasCredentials] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [response, setResponse] = useState<AIResponse | null>(null);
+  const [partialResponse, setPartialResponse] = useState<AIPartialResponse | null>(null);
   const [promptValue, setPromptValue] = useState('');
+  const [outputMode, setOutputMode] = useState<AIOutputMode>('guidance');
+  const [proposals, setProposals] = useState<PatchProposals | null>(null);
+  const [proposalStates, setProposalStates] = useState<ProposalState[]>([]);
+  const [isResolving, setIsResolving] = useState(false);
+  const [isRunningCommand, setIsRunningCommand] = useState(false);
+  const [commandOutcome, setCommandOutcome] = useState<StyleCommandOutcome | null>(null);
+  const [budget, setBudget] = useState<AIBudget | null>(null);
+  const [requestEstimate, setRequestEstimate] = useState<AIRequestEstimate | null>(null);
+  const [redactionSettings, setRedactionSettings] = useState<AIRedactionSettings>(DEFAULT_REDACTION_SETTINGS);
+  const [redactions, setRedactions] = useState<Redaction[]>([]);
+  const [patchMode] = useLocalStorage<PatchMode>('patch-mode', 'inline');
+
+  // Styling commands are applied like edits in the inspector, in its current scope
+  const scope: PatchScope = useMemo(() => ({
+    mode: patchMode,
+    state: forcedState ?? undefined,
+    media: breakpoint ? getBreakpointMedia(breakpoint) : undefined,
+  }), [patchMode, forcedState, breakpoint]);
+
+  // Proposals still previewed on the page, for cleanup on unmount
+  const pendingProposalsRef = useRef<number[]>([]);
+  pendingProposalsRef.current = proposalStates
+    .map((state, i) => (state.status === 'previewing' ? i : -1))
+    .filter(i => i !== -1);
 
   // Connect to global AI state machine
   const aiState = useAIStateMachine();
   const isConfirmed = aiState.state === 'CONFIRMED';
 
-  // Check credentials on mount
+  // Check credentials and load the budget and redaction settings on mount
   useEffect(() => {
     checkCredentials();
+    chrome.storage.local.get([AI_STORAGE_KEYS.BUDGET, AI_STORAGE_KEYS.REDACTION])
+      .then(result => {
+        setBudget((result[AI_STORAGE_KEYS.BUDGET] as AIBudget | undefined) ?? null);
+        setRedactionSettings({
+          ...DEFAULT_REDACTION_SETTINGS,
+          ...(result[AI_STORAGE_KEYS.REDACTION] as Partial<AIRedactionSettings> | undefined),
+        });
+      })
+      .catch(() => {});
   }, []);
 
   const checkCredentials = useCallback(async () => {
     try {
       const result = await chrome.storage.local.get(AI_STORAGE_KEYS.CREDENTIALS);
       const creds = result[AI_STORAGE_KEYS.CREDENTIALS] as AICredentials | undefined;
-      setHasCredentials(!!creds && !!creds.apiKey && !creds.isInvalid);
+      setHasCredentials(!!creds && hasRequiredCredentials(creds) && !creds.isInvalid);
     } catch {
       setHasCredentials(false);
     }
   }, []);
 
+  /**
+   * Set or clear one of the request limits. An empty field means no limit.
+   */
+  const handleBudgetChange = useCallback((field: keyof AIBudget, input: string) => {
+    const value = parseFloat(input);
+    setBudget(prev => {
+      const updated: AIBudget = { ...prev };
+      if (Number.isFinite(value) && value >= 0) {
+        updated[field] = value;
+      } else {
+        delete updated[field];
+      }
+      chrome.storage.local.set({ [AI_STORAGE_KEYS.BUDGET]: updated }).catch(() => {});
+      return updated;
+    });
+  }, []);
+
+  const handleRedactionChange = useCallback((settings: AIRedactionSettings) => {
+    setRedactionSettings(settings);
+    chrome.storage.local.set({ [AI_STORAGE_KEYS.REDACTION]: settings }).catch(() => {});
+  }, []);
+
+  /**
+   * Accept proposals into history, or revert them on the page.
+   */
+  const handleResolveProposals = useCallback(async (indices: number[], accept: boolean) => {
+    if (indices.length === 0) return;
+    setIsResolving(true);
+    try {
+      await resolveProposedPatches(indices, accept);
+      setProposalStates(prev => prev.map((state, i) =>
+        indices.includes(i) && state.status === 'previewing'
+          ? { status: accept ? 'accepted' : 'rejected' }
+          : state
+      ));
+      onPageChanged?.();
+    } catch {
+      // Error already surfaced via bridge onError
+    } finally {
+      setIsResolving(false);
+    }
+  }, [onPageChanged]);
+
+  /**
+   * Parse the patches a response proposed and preview the valid ones on the
+   * page, replacing any earlier preview.
+   */
+  const showProposals = useCallback(async (raw: string, exportData: VisualUIInspectorExport) => {
+    const parsed = parsePatchProposals(raw, exportData);
+    setProposals(parsed);
+    setProposalStates(parsed.patches.map(() => ({ status: 'failed', error: 'Not previewed yet' })));
+    if (parsed.patches.length === 0) return;
+
+    try {
+      const { results } = await previewProposedPatches(parsed.patches);
+      setProposalStates(results.map(result => result.success
+        ? { status: 'previewing' }
+        : { status: 'failed', error: result.error?.message }
+      ));
+      onPageChanged?.();
+    } catch (e) {
+      setProposalStates(parsed.patches.map(() => ({ status: 'failed', error: String(e) })));
+    }
+  }, [onPageChanged]);
+
+  // Leaving the page reverts the previews nobody accepted
+  useEffect(() => {
+    return () => {
+      if (pendingProposalsRef.current.length > 0) {
+        resolveProposedPatches(pendingProposalsRef.current, false)
+          .then(() => onPageChanged?.())
+          .catch(() => {});
+      }
+    };
+  }, []);
+
+  /**
+   * Send the conversation held by the state machine and handle the result.
+   * Shared by the first generation and follow-up refinements.
+   */
+  const requestResponse = useCallback(async (credentials: AICredentials) => {
+    const { context, conversation, abortController } = aiStateMachine.getState();
+    const exportData = context?.exportPayload as VisualUIInspectorExport;
+    const latest = conversation[conversation.length - 1];
+
+    // Make AI call
+    const result = await callAI({
+      credentials,
+      systemPrompt: getSystemPrompt(outputMode),
+      userMessage: latest.content,
+      history: conversation.slice(0, -1),
+      images: await fitPromptImages(getPromptImages(exportData).map(image => image.dataUrl)),
+      abortSignal: abortController?.signal,
+      timeoutMs: 90000,
+      onPartialResponse: setPartialResponse,
+    });
+
+    if (result.success && result.response) {
+      setResponse(result.response);
+      // 3. Receive Response
+      aiStateMachine.receiveResponse(result.response);
+      if (outputMode === 'patches') {
+        await showProposals(result.response.raw, exportData);
+      }
+    } else if (result.error?.code === 'ABORTED') {
+      // Cancelled by the user: the state machine has already moved on
+    } else {
+      const errorMessage = result.error?.message || 'AI request failed';
+      setError(errorMessage);
+
+      // 4. Handle Failure
+      aiStateMachine.fail({
+        code: result.error?.code || 'SERVER_ERROR',
+        message: errorMessage
+      });
+
+      if (result.error?.code === 'AUTH_ERROR') {
+        await chrome.storage.local.set({
+          [AI_STORAGE_KEYS.CREDENTIALS]: {
+            ...credentials,
+            isInvalid: true,
+          },
+        });
+        setHasCredentials(false);
+      }
+    }
+  }, [outputMode, showProposals]);
+
+  /**
+   * Estimate the request a generation would send for an export, as the
+   * budget gate checks it (redaction barely changes its size).
+   */
+  const estimateGeneration = useCallback(async (credentials: AICredentials, exportData: VisualUIInspectorExport) => {
+    const template = getPromptTemplate(getTemplateOrigin(exportData.pageUrl));
+    return estimateAIRequest({
+      credentials,
+      systemPrompt: getSystemPrompt(outputMode),
+      userMessage: generateExecutionPrompt(exportData, template),
+      images: await fitPromptImages(getPromptImages(exportData).map(image => image.dataUrl)),
+    });
+  }, [outputMode]);
+
   const handleGenerate = useCallback(async () => {
     setError(null);
+    setPartialResponse(null);
+    setRedactions([]);
     setIsLoading(true);
 
+    // A fresh generation drops the proposals of the last one
+    await handleResolveProposals(pendingProposalsRef.current, false);
+    setProposals(null);
+    setProposalStates([]);
+
     try {
       // Get credentials
       const credResult = await chrome.storage.local.get(AI_STORAGE_KEYS.CREDENTIALS);
       const credentials = credResult[AI_STORAGE_KEYS.CREDENTIALS] as AICredentials | undefined;
 
-      if (!credentials || !credentials.apiKey) {
+      if (!credentials || !hasRequiredCredentials(credentials)) {
         setError('No API key configured. Please set up your credentials first.');
         setIsLoading(false);
         return;
@@ -338,12 +675,14 @@ export function AIPage({ hasChanges, patchCount, onSwitchToInspector }: AIPagePr
       }
 
       // If we confirm previous session or were in a finish state, return to idle to start fresh
-      if (['CONFIRMED', 'FAILED', 'ABORTED', 'REVIEW_REQUIRED'].includes(aiState.state)) {
+      if (aiStateMachine.getCurrentState() === 'REVIEW_REQUIRED') {
+        aiStateMachine.dismiss();
+      } else if (['CONFIRMED', 'FAILED', 'ABORTED'].includes(aiState.state)) {
         aiStateMachine.returnToIdle();
       }
 
-      // Get fresh export data (now returns v1 schema directly)
-      const { exportData, patchCount: fetchedPatchCount } = await getExportData();
+      // Get fresh export data (now returns v1 schema directly), with before/after screenshots
+      const { exportData, patchCount: fetchedPatchCount } = await getExportData({ withScreenshots: true });
       if (!exportData || fetchedPatchCount === 0) {
         setError('No visual changes to process. Make some edits in the Inspector first.');
         setIsLoading(false);
@@ -362,11 +701,21 @@ export function AIPage({ hasChanges, patchCount, onSwitchToInspector }: AIPagePr
         }
       }
 
+      // The site's custom prompt template, if it has one
+      const template = getPromptTemplate(getTemplateOrigin(exportData.pageUrl));
+
+      // Estimate the request so the budget gate can check it
+      const estimate = await estimateGeneration(credentials, exportData);
+      setRequestEstimate(estimate);
+
       // 1. Prepare Execution Context & Run Gates
       const context: any = {
         mode: 'universal', // Defaulting to universal for Phase 0/1
         exportPayload: exportData,
         stabilityAcknowledged: true, // Assuming explicit user action in inspector implies ack for now, or TODO: add UI for this
+        requestEstimate: estimate,
+        budget,
+        redaction: redactionSettings,
       };
 
       const gateResults = await aiStateMachine.prepareExecution(context);
@@ -379,48 +728,67 @@ export function AIPage({ hasChanges, patchCount, onSwitchToInspector }: AIPagePr
         return;
       }
 
-      // 2. Start Generation
-      aiStateMachine.startGeneration();
-
-      // Generate prompt from export data
-      const userMessage = generateExecutionPrompt(exportData);
+      // Generate prompt from the export as redacted by the gates
+      const redactedExport = context.exportPayload as VisualUIInspectorExport;
+      setRedactions(context.redactions ?? []);
+      const userMessage = generateExecutionPrompt(redactedExport, template);
 
       console.log('[DEBUG] AI Prompt Source Version:', exportData.exportVersion);
 
-      // Make AI call
-      const result = await callAI({
-        credentials,
-        systemPrompt: SYSTEM_PROMPT,
-        userMessage,
-        timeoutMs: 90000,
+      // 2. Start Generation
+      aiStateMachine.startGeneration(userMessage);
+      await requestResponse(credentials);
+    } catch (e) {
+      console.error('[AI] Generation error:', e);
+      const msg = e instanceof Error ? e.message : 'Unknown error';
+      setError(msg);
+      aiStateMachine.fail({
+        code: 'SERVER_ERROR',
+        message: msg
       });
+    } finally {
+      setPartialResponse(null);
+      setIsLoading(false);
+    }
+  }, [aiState.state, requestResponse, handleResolveProposals, estimateGeneration, budget, redactionSettings]);
 
-      if (result.success && result.response) {
-        setResponse(result.response);
-        // 3. Receive Response
-        aiStateMachine.receiveResponse(result.response);
-      } else {
-        const errorMessage = result.error?.message || 'AI request failed';
-        setError(errorMessage);
+  const handleFollowUp = useCallback(async (followUp: string) => {
+    setError(null);
+    setPartialResponse(null);
+    setIsLoading(true);
 
-        // 4. Handle Failure
-        aiStateMachine.fail({
-          code: result.error?.code || 'SERVER_ERROR',
-          message: errorMessage
-        });
+    try {
+      const credResult = await chrome.storage.local.get(AI_STORAGE_KEYS.CREDENTIALS);
+      const credentials = credResult[AI_STORAGE_KEYS.CREDENTIALS] as AICredentials | undefined;
 
-        if (result.error?.code === 'AUTH_ERROR') {
-          await chrome.storage.local.set({
-            [AI_STORAGE_KEYS.CREDENTIALS]: {
-              ...credentials,
-              isInvalid: true,
-            },
-          });
-          setHasCredentials(false);
-        }
+      if (!credentials || !hasRequiredCredentials(credentials)) {
+        setError('No API key configured. Please set up your credentials first.');
+        return;
+      }
+
+      // The whole conversation is sent again, so check it against the budget first
+      const { context, conversation } = aiStateMachine.getState();
+      const estimate = estimateAIRequest({
+        credentials,
+        systemPrompt: getSystemPrompt(outputMode),
+        userMessage: followUp,
+        history: conversation,
+        images: await fitPromptImages(
+          getPromptImages(context?.exportPayload as VisualUIInspectorExport).map(image => image.dataUrl)
+        ),
+      });
+      const overBudget = checkBudget(estimate, budget);
+      if (overBudget) {
+        setError(`Cannot send the follow-up: ${overBudget}`);
+        return;
       }
+      setRequestEstimate(estimate);
+
+      // The export and earlier turns are kept; only the follow-up is new
+      aiStateMachine.requestRefinement(followUp);
+      await requestResponse(credentials);
     } catch (e) {
-      console.error('[AI] Generation error:', e);
+      console.error('[AI] Refinement error:', e);
       const msg = e instanceof Error ? e.message : 'Unknown error';
       setError(msg);
       aiStateMachine.fail({
@@ -428,9 +796,18 @@ export function AIPage({ hasChanges, patchCount, onSwitchToInspector }: AIPagePr
         message: msg
       });
     } finally {
+      setPartialResponse(null);
       setIsLoading(false);
     }
-  }, [aiState.state]);
+  }, [requestResponse, outputMode, budget]);
+
+  const handleCancel = useCallback(() => {
+    // Aborts the request, mid-stream if need be; callAI then resolves as ABORTED
+    if (aiStateMachine.isGenerating()) {
+      aiStateMachine.abort();
+    }
+    setIsLoading(false);
+  }, []);
 
   const handleConfirm = useCallback(() => {
     aiStateMachine.confirm();
@@ -438,10 +815,17 @@ export function AIPage({ hasChanges, patchCount, onSwitchToInspector }: AIPagePr
   }, []);
 
   const handleDismiss = useCallback(() => {
+    handleResolveProposals(pendingProposalsRef.current, false);
+    setProposals(null);
+    setProposalStates([]);
     setResponse(null);
     setError(null);
-    aiStateMachine.returnToIdle();
-  }, []);
+    if (aiStateMachine.getCurrentState() === 'REVIEW_REQUIRED') {
+      aiStateMachine.dismiss();
+    } else {
+      aiStateMachine.returnToIdle();
+    }
+  }, [handleResolveProposals]);
 
   const handleRegenerate = useCallback(() => {
     setResponse(null);
@@ -449,12 +833,110 @@ export function AIPage({ hasChanges, patchCount, onSwitchToInspector }: AIPagePr
     handleGenerate();
   }, [handleGenerate]);
 
+  /**
+   * Turn a styling command into patches and apply them to the selected
+   * element. The patches share a group id, so one undo reverts the command,
+   * and carry the command so history can show where they came from.
+   */
+  const handleStyleCommand = useCallback(async (command: string) => {
+    if (!selectedElement) return;
+    setError(null);
+    setCommandOutcome(null);
+    setIsRunningCommand(true);
+
+    try {
+      const credResult = await chrome.storage.local.get(AI_STORAGE_KEYS.CREDENTIALS);
+      const credentials = credResult[AI_STORAGE_KEYS.CREDENTIALS] as AICredentials | undefined;
+
+      if (!credentials || !hasRequiredCredentials(credentials)) {
+        setError('No API key configured. Please set up your credentials first.');
+        return;
+      }
+
+      const element = { ...selectedElement, computedStyles: computedStyles ?? selectedElement.computedStyles };
+      const context = await getElementStyleContext(element.selector);
+
+      // Commands skip the export gates, so the redaction and budget they enforce are applied here
+      const patternErrors = validateRedactionPatterns(redactionSettings.patterns);
+      if (patternErrors.length > 0) {
+        setError(`Invalid redaction pattern: ${patternErrors.join('; ')}`);
+        return;
+      }
+      const userMessage = buildStyleCommandMessage(command, element, context, redactionSettings);
+      const overBudget = checkBudget(
+        estimateAIRequest({ credentials, systemPrompt: STYLE_COMMAND_SYSTEM_PROMPT, userMessage }),
+        budget
+      );
+      if (overBudget) {
+        setError(`Cannot run the command: ${overBudget}`);
+        return;
+      }
+
+      const result = await callAI({
+        credentials,
+        systemPrompt: STYLE_COMMAND_SYSTEM_PROMPT,
+        userMessage,
+        timeoutMs: 60000,
+      });
+
+      if (!result.success || !result.response) {
+        setError(result.error?.message || 'AI request failed');
+        return;
+      }
+
+      const parsed = parseStyleCommand(result.response.raw);
+      const groupId = `command-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      const applied: string[] = [];
+      const errors = [...parsed.errors];
+
+      for (const { property, value } of parsed.patches) {
+        const previousValue = element.computedStyles[property as keyof ComputedStylesSnapshot];
+        const declaration = `${property}: ${value}`;
+        try {
+          const { success } = await applyStylePatch(
+            element.selector,
+            property,
+            value,
+            typeof previousValue === 'string' ? previousValue : '',
+            scope,
+            { groupId, prompt: command }
+          );
+          if (success) {
+            applied.push(declaration);
+          } else {
+            errors.push(`- ${declaration} could not be applied`);
+          }
+        } catch (e) {
+          errors.push(`- ${declaration}: ${e instanceof Error ? e.message : String(e)}`);
+        }
+      }
+
+      setCommandOutcome({ command, summary: parsed.summary, applied, errors });
+      if (applied.length > 0) onPageChanged?.();
+    } catch (e) {
+      console.error('[AI] Styling command error:', e);
+      setError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setIsRunningCommand(false);
+    }
+  }, [selectedElement, computedStyles, onPageChanged, redactionSettings, budget, scope]);
+
+  // Follow-ups refine the response under review; otherwise prompts are styling commands
+  const canRefine = aiState.state === 'REVIEW_REQUIRED' && !!response && !isLoading;
+  const canCommand = hasCredentials && !!selectedElement && !canRefine && !isLoading && !isRunningCommand;
+
   const handlePromptSubmit = useCallback(() => {
-    if (!promptValue.trim()) return;
-    // TODO: Implement prompt submission logic
-    console.log('Submit prompt:', promptValue);
+    const prompt = promptValue.trim();
+    if (!prompt) return;
+    if (canRefine) {
+      handleFollowUp(prompt);
+    } else if (canCommand) {
+      handleStyleCommand(prompt);
+    } else {
+      return;
+    }
     setPromptValue('');
-  }, [promptValue]);
+  }, [promptValue, canRefine, canCommand, handleFollowUp, handleStyleCommand]);
 
   const handlePickElement = useCallback(() => {
     // Switch to inspector tab for element picking
@@ -470,6 +952,46 @@ export function AIPage({ hasChanges, patchCount, onSwitchToInspector }: AIPagePr
   const showSetup = !hasCredentials;
   const showGenerateUI = hasCredentials && !response && !isLoading;
 
+  // The export a generation would send, fetched ahead of Generate so its
+  // estimate is shown before anything is sent or paid for
+  const [preflightExport, setPreflightExport] = useState<VisualUIInspectorExport | null>(null);
+  useEffect(() => {
+    setPreflightExport(null);
+    setRequestEstimate(null);
+    if (!showGenerateUI || !hasChanges) return;
+
+    let cancelled = false;
+    getExportData({ withScreenshots: true })
+      .then(({ exportData }) => {
+        if (!cancelled) setPreflightExport(exportData);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [showGenerateUI, hasChanges, patchCount]);
+
+  useEffect(() => {
+    if (!preflightExport) return;
+
+    let cancelled = false;
+    chrome.storage.local.get(AI_STORAGE_KEYS.CREDENTIALS)
+      .then(async (result) => {
+        const credentials = result[AI_STORAGE_KEYS.CREDENTIALS] as AICredentials | undefined;
+        if (!credentials || !hasRequiredCredentials(credentials)) return;
+        const estimate = await estimateGeneration(credentials, preflightExport);
+        if (!cancelled) setRequestEstimate(estimate);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [preflightExport, estimateGeneration]);
+
+  // Earlier turns after the export prompt; the latest response is shown below them
+  const thread = aiState.conversation.slice(1, isLoading ? undefined : -1);
+  const showThread = thread.length > 0 && (isLoading || !!response);
+
   return (
     <div style={styles.container}>
       <div style={styles.body}>
@@ -505,22 +1027,71 @@ export function AIPage({ hasChanges, patchCount, onSwitchToInspector }: AIPagePr
           </>
         )}
 
-        {/* Loading state */}
-        {isLoading && (
+        {/* Earlier responses and follow-ups */}
+        {showThread && <AIConversationThread messages={thread} />}
+
+        {/* Loading state, until the response starts streaming in */}
+        {isLoading && !partialResponse && (
           <div style={styles.loadingContainer}>
             <div style={styles.spinner} />
             <div style={styles.loadingText}>
-              Analyzing {patchCount} change{patchCount !== 1 ? 's' : ''} and generating guidance...
+              {thread.length > 0
+                ? 'Refining the guidance...'
+                : `Analyzing ${patchCount} change${patchCount !== 1 ? 's' : ''} and generating guidance...`}
             </div>
             <button
               style={{ ...styles.generateButton, ...styles.buttonSecondary, width: 'auto', padding: '10px 24px' }}
-              onClick={() => setIsLoading(false)}
+              onClick={handleCancel}
             >
               Cancel
             </button>
           </div>
         )}
 
+        {/* What was redacted from the request */}
+        {redactions.length > 0 && (response || partialResponse) && (
+          <AIRedactionDiff redactions={redactions} />
+        )}
+
+        {/* Streaming response */}
+        {isLoading && partialResponse && (
+          <AIStreamingOutput
+            response={partialResponse}
+            onCancel={handleCancel}
+            estimate={requestEstimate}
+            budget={budget}
+          />
+        )}
+
+        {/* Styling command in flight, or its outcome */}
+        {isRunningCommand && (
+          <div style={styles.loadingContainer}>
+            <div style={styles.spinner} />
+            <div style={styles.loadingText}>Styling the selected element...</div>
+          </div>
+        )}
+        {commandOutcome && !isRunningCommand && (
+          <div style={styles.commandOutcome}>
+            <span style={styles.commandText}>"{commandOutcome.command}"</span>
+            {commandOutcome.summary && <span style={styles.commandSummary}>{commandOutcome.summary}</span>}
+            {commandOutcome.applied.length > 0 ? (
+              <>
+                <span style={styles.commandSummary}>
+                  Applied {commandOutcome.applied.length} change{commandOutcome.applied.length !== 1 ? 's' : ''}; one undo reverts them all.
+                </span>
+                <ul style={styles.commandDeclarations}>
+                  {commandOutcome.applied.map(declaration => <li key={declaration}>{declaration}</li>)}
+                </ul>
+              </>
+            ) : (
+              <span style={styles.commandSummary}>No changes were applied.</span>
+            )}
+            {commandOutcome.errors.length > 0 && (
+              <pre className="import-panel-error">{commandOutcome.errors.join('\n')}</pre>
+            )}
+          </div>
+        )}
+
         {/* Error display */}
         {error && !isLoading && (
           <div style={styles.error}>
@@ -532,14 +1103,28 @@ export function AIPage({ hasChanges, patchCount, onSwitchToInspector }: AIPagePr
           </div>
         )}
 
+        {/* Proposed patches, previewed on the page */}
+        {proposals && !isLoading && (
+          <AIPatchProposals
+            patches={proposals.patches}
+            states={proposalStates}
+            errors={proposals.errors}
+            onResolve={handleResolveProposals}
+            isBusy={isResolving}
+          />
+        )}
+
         {/* Response with confirmation */}
         {response && !isLoading && (
           <AIConfirmation
+            key={aiState.conversation.length}
             response={response}
             onConfirm={handleConfirm}
             onDismiss={handleDismiss}
             onRegenerate={handleRegenerate}
             isConfirmed={isConfirmed}
+            estimate={requestEstimate}
+            budget={budget}
           />
         )}
 
@@ -589,6 +1174,52 @@ export function AIPage({ hasChanges, patchCount, onSwitchToInspector }: AIPagePr
                 )}
               </div>
             )}
+
+            {/* Output mode */}
+            <div style={styles.outputMode}>
+              <SegmentedTabs options={OUTPUT_MODE_OPTIONS} value={outputMode} onChange={setOutputMode} />
+              <span style={styles.outputModeHint}>{OUTPUT_MODE_HINTS[outputMode]}</span>
+            </div>
+
+            {/* Request limits, checked against the estimate before sending */}
+            <div style={styles.budget}>
+              <span style={styles.budgetTitle}>REQUEST LIMITS</span>
+              <div style={styles.budgetFields}>
+                <label style={styles.budgetField}>
+                  Max cost ($)
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    className="ai-settings-input"
+                    value={budget?.maxCostUsd ?? ''}
+                    onChange={(e) => handleBudgetChange('maxCostUsd', e.target.value)}
+                    placeholder="No limit"
+                  />
+                </label>
+                <label style={styles.budgetField}>
+                  Max input tokens
+                  <input
+                    type="number"
+                    min="0"
+                    step="1000"
+                    className="ai-settings-input"
+                    value={budget?.maxInputTokens ?? ''}
+                    onChange={(e) => handleBudgetChange('maxInputTokens', e.target.value)}
+                    placeholder="No limit"
+                  />
+                </label>
+              </div>
+              <span style={styles.outputModeHint}>
+                Requests estimated over a limit are blocked. Cost limits apply only to models with known pricing.
+              </span>
+            </div>
+
+            {/* What Generate would send, checked against the limits above */}
+            {hasChanges && requestEstimate && <AIRequestEstimateView estimate={requestEstimate} budget={budget} />}
+
+            {/* Redaction */}
+            <AIRedactionSettingsPanel settings={redactionSettings} onChange={handleRedactionChange} />
           </>
         )}
       </div>
@@ -605,7 +1236,7 @@ export function AIPage({ hasChanges, patchCount, onSwitchToInspector }: AIPagePr
             disabled={!canGenerate}
           >
             <AppIcon name="command" size={18} />
-            Generate Implementation Guide
+            {outputMode === 'patches' ? 'Propose Patches' : 'Generate Implementation Guide'}
           </button>
         </div>
       )}
@@ -626,9 +1257,15 @@ export function AIPage({ hasChanges, patchCount, onSwitchToInspector }: AIPagePr
         value={promptValue}
         onChange={setPromptValue}
         onSubmit={handlePromptSubmit}
-        placeholder="Ask about your changes..."
-        disabled={isLoading}
-        loading={isLoading}
+        placeholder={
+          canRefine
+            ? 'Ask a follow-up, e.g. "use the spacing token instead"'
+            : selectedElement
+              ? 'Style the selected element, e.g. "round the corners a bit more"'
+              : 'Select an element to style it with a command'
+        }
+        disabled={!canRefine && !canCommand}
+        loading={isLoading || isRunningCommand}
         onPickElement={handlePickElement}
         onCreateSnippet={handleCreateSnippet}
       />
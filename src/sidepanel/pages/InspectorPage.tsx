@@ -6,9 +6,10 @@
  */
 
 import React from 'react';
-import type { ElementMetadata, ComputedStylesSnapshot } from '../../shared/types';
+import type { ElementMetadata, ComputedStylesSnapshot, PseudoState, SelectionSummary } from '../../shared/types';
 import { InspectorEmptyState } from '../components/InspectorEmptyState';
 import { InspectorSidebar } from '../InspectorSidebar';
+import type { BreakpointId } from '../../shared/breakpoints';
 
 // ============================================================================
 // Props
@@ -25,6 +26,14 @@ export interface InspectorPageProps {
     canUndo: boolean;
     /** Whether redo is available */
     canRedo: boolean;
+    /** Pseudo-class state currently forced on the selected element */
+    forcedState: PseudoState | null;
+    /** Callback to force (or release) a pseudo-class state */
+    onForcedStateChange: (state: PseudoState | null) => void;
+    /** Breakpoint new patches are scoped to (null = all viewports) */
+    breakpoint: BreakpointId | null;
+    /** Multi-element selection summary, or null for a single element */
+    selection: SelectionSummary | null;
     /** Callback to toggle picker mode */
     onPickerToggle: () => void;
 }
@@ -39,6 +48,10 @@ export function InspectorPage({
     isPickerActive,
     canUndo,
     canRedo,
+    forcedState,
+    onForcedStateChange,
+    breakpoint,
+    selection,
     onPickerToggle,
 }: InspectorPageProps): React.ReactElement {
     // Show sidebar when we have a selected element with computed styles
@@ -49,6 +62,10 @@ export function InspectorPage({
                 styles={computedStyles}
                 canUndo={canUndo}
                 canRedo={canRedo}
+                forcedState={forcedState}
+                onForcedStateChange={onForcedStateChange}
+                breakpoint={breakpoint}
+                selection={selection}
             />
         );
     }
@@ -50,6 +50,8 @@ interface NumberFieldProps {
   indicator?: IndicatorState;
   /** Tooltip text for inherited value */
   inheritedTooltip?: string;
+  /** Value differs across a multi-element selection (shows "Mixed" until focused) */
+  mixed?: boolean;
 }
 
 const styles = {
@@ -192,6 +194,7 @@ export function NumberField({
   showPresets = false,
   indicator = 'none',
   inheritedTooltip,
+  mixed = false,
 }: NumberFieldProps): React.ReactElement {
   const [localValue, setLocalValue] = useState(String(value));
   const [animClass, setAnimClass] = useState<string | null>(null);
@@ -393,13 +396,13 @@ export function NumberField({
           type="text"
           inputMode="decimal"
           style={styles.input}
-          value={localValue}
+          value={mixed && !isFocused ? '' : localValue}
           onChange={handleChange}
           onFocus={handleFocus}
           onBlur={handleBlur}
           onKeyDown={handleKeyDown}
           disabled={disabled}
-          placeholder={placeholder}
+          placeholder={mixed ? 'Mixed' : placeholder}
         />
         {/* Ghost text for math expression preview */}
         {ghostText && isFocused && (
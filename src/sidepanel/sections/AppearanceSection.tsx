@@ -16,12 +16,16 @@ import {
 } from '../features/color';
 import type { FeatureUINumber } from '../features/types';
 import { colors, spacing } from '../tokens';
+import { isMixed } from '../utils/mixedValues';
+import type { MixedProperties } from '../utils/mixedValues';
 
 interface AppearanceSectionProps {
   styles: ComputedStylesSnapshot;
   onPatchApply: (property: string, value: string) => void;
   /** CSS tokens available for color selection */
   colorTokens?: Array<{ name: string; value: string }>;
+  /** Properties that differ across a multi-element selection */
+  mixedProperties?: MixedProperties;
 }
 
 const labelStyle: React.CSSProperties = {
@@ -42,6 +46,7 @@ export function AppearanceSection({
   styles,
   onPatchApply,
   colorTokens = [],
+  mixedProperties,
 }: AppearanceSectionProps): React.ReactElement {
   // Existing feature values
   const opacityValue = opacityFeature.getState(styles);
@@ -139,6 +144,7 @@ export function AppearanceSection({
           <NumberField
             value={opacityValue}
             onChange={handleOpacityChange}
+            mixed={isMixed(mixedProperties, 'opacity')}
             icon={opacityUI.icon}
             unit={opacityUI.unit}
             min={opacityUI.min}
@@ -152,6 +158,7 @@ export function AppearanceSection({
           <NumberField
             value={radiusValue}
             onChange={handleRadiusChange}
+            mixed={isMixed(mixedProperties, 'borderRadius')}
             icon={radiusUI.icon}
             min={radiusUI.min}
             max={radiusUI.max}
@@ -0,0 +1,277 @@
+/**
+ * Attributes Section
+ *
+ * Class chips and an attribute table for the selected element. Clicking a
+ * chip toggles the class (removed classes stay listed so they can be turned
+ * back on); attributes can be edited, removed and added. Every change is
+ * recorded in history and exported as a class/attribute change.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import type { ElementMetadata, AttributeOperation } from '../../shared/types';
+import { Section, AppIcon } from '../primitives';
+import { applyAttributePatch } from '../messaging/sidepanelBridge';
+import { colors, spacing, radii } from '../tokens';
+
+interface AttributesSectionProps {
+  element: ElementMetadata;
+}
+
+const MONOSPACE = 'ui-monospace, SFMono-Regular, SF Mono, Menlo, monospace';
+
+const styles = {
+  label: {
+    fontSize: '11px',
+    fontWeight: 500,
+    color: colors.textMuted,
+  } as React.CSSProperties,
+  chips: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: spacing[1],
+    width: '100%',
+  } as React.CSSProperties,
+  chip: {
+    padding: `2px ${spacing[2]}`,
+    fontSize: '11px',
+    fontFamily: MONOSPACE,
+    color: colors.text,
+    backgroundColor: colors.surfaceRaised,
+    border: 'none',
+    borderRadius: radii.full,
+    cursor: 'pointer',
+    transition: 'all 0.12s ease',
+  } as React.CSSProperties,
+  chipOff: {
+    color: colors.textMuted,
+    backgroundColor: 'transparent',
+    textDecoration: 'line-through',
+    boxShadow: `inset 0 0 0 1px ${colors.border}`,
+  } as React.CSSProperties,
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: spacing[1],
+    width: '100%',
+  } as React.CSSProperties,
+  name: {
+    flex: '0 0 40%',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+    fontSize: '11px',
+    fontFamily: MONOSPACE,
+    color: colors.textMuted,
+  } as React.CSSProperties,
+  input: {
+    flex: 1,
+    minWidth: 0,
+    padding: `4px ${spacing[2]}`,
+    fontSize: '11px',
+    fontFamily: MONOSPACE,
+    color: colors.text,
+    backgroundColor: colors.surfaceRaised,
+    border: 'none',
+    borderRadius: radii.sm,
+    outline: 'none',
+  } as React.CSSProperties,
+  iconButton: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    width: 24,
+    height: 24,
+    padding: 0,
+    color: colors.textMuted,
+    backgroundColor: 'transparent',
+    border: 'none',
+    borderRadius: radii.sm,
+    cursor: 'pointer',
+  } as React.CSSProperties,
+};
+
+/**
+ * Value input that commits on Enter or blur, and resets on Escape.
+ */
+function AttributeValueInput({
+  value,
+  onCommit,
+}: {
+  value: string;
+  onCommit: (value: string) => void;
+}): React.ReactElement {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+  };
+
+  return (
+    <input
+      style={styles.input}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setDraft(value);
+      }}
+      spellCheck={false}
+    />
+  );
+}
+
+export function AttributesSection({
+  element,
+}: AttributesSectionProps): React.ReactElement {
+  // Classes removed here, kept as "off" chips until another element is selected
+  const [removedClasses, setRemovedClasses] = useState<string[]>([]);
+  const [newClass, setNewClass] = useState('');
+  const [newAttribute, setNewAttribute] = useState({ name: '', value: '' });
+
+  // Class changes alter the selector, so key on what they leave unchanged
+  const elementKey = `${element.tagName}|${element.id ?? ''}|${element.textPreview}`;
+  useEffect(() => {
+    setRemovedClasses([]);
+  }, [elementKey]);
+
+  const apply = useCallback(
+    async (operation: AttributeOperation, name: string, value?: string) => {
+      try {
+        await applyAttributePatch(operation, element.selector, name, value);
+      } catch (e) {
+        console.error(`Failed to ${operation} ${name}:`, e);
+      }
+    },
+    [element.selector]
+  );
+
+  const handleToggleClass = useCallback(
+    (className: string) => {
+      if (element.classList.includes(className)) {
+        setRemovedClasses(prev => (prev.includes(className) ? prev : [...prev, className]));
+        apply('removeClass', className);
+      } else {
+        setRemovedClasses(prev => prev.filter(c => c !== className));
+        apply('addClass', className);
+      }
+    },
+    [element.classList, apply]
+  );
+
+  const handleAddClass = useCallback(async () => {
+    // Several classes can be typed at once, e.g. "px-4 py-2". Each one may
+    // change the element's selector, so they are added one after another,
+    // each on the selector the previous one left.
+    const classNames = newClass.split(/\s+/).filter(Boolean).filter(c => !element.classList.includes(c));
+    setNewClass('');
+    setRemovedClasses(prev => prev.filter(c => !classNames.includes(c)));
+
+    let selector = element.selector;
+    for (const className of classNames) {
+      try {
+        const result = await applyAttributePatch('addClass', selector, className);
+        if (!result.success) break;
+        selector = result.patch?.resultSelector ?? selector;
+      } catch (e) {
+        console.error(`Failed to addClass ${className}:`, e);
+        break;
+      }
+    }
+  }, [newClass, element.classList, element.selector]);
+
+  const handleAddAttribute = useCallback(() => {
+    if (!newAttribute.name.trim()) return;
+    apply('set', newAttribute.name, newAttribute.value);
+    setNewAttribute({ name: '', value: '' });
+  }, [newAttribute, apply]);
+
+  const chips = [
+    ...element.classList.map(name => ({ name, on: true })),
+    ...removedClasses.filter(name => !element.classList.includes(name)).map(name => ({ name, on: false })),
+  ];
+
+  return (
+    <Section id="attributes" title="Classes & Attributes" collapsible>
+      <span style={styles.label}>Classes</span>
+      {chips.length > 0 && (
+        <div style={styles.chips}>
+          {chips.map(chip => (
+            <button
+              key={chip.name}
+              style={chip.on ? styles.chip : { ...styles.chip, ...styles.chipOff }}
+              onClick={() => handleToggleClass(chip.name)}
+              title={chip.on ? `Remove .${chip.name}` : `Add .${chip.name} back`}
+              aria-pressed={chip.on}
+            >
+              {chip.name}
+            </button>
+          ))}
+        </div>
+      )}
+      <div style={styles.row}>
+        <input
+          style={styles.input}
+          value={newClass}
+          placeholder="Add class, e.g. px-4"
+          onChange={(e) => setNewClass(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAddClass();
+          }}
+          spellCheck={false}
+        />
+        <button style={styles.iconButton} onClick={handleAddClass} title="Add class" aria-label="Add class">
+          <AppIcon name="plus" size={14} />
+        </button>
+      </div>
+
+      <span style={styles.label}>Attributes</span>
+      {element.attributes.map(attribute => (
+        <div key={attribute.name} style={styles.row}>
+          <span style={styles.name} title={attribute.name}>{attribute.name}</span>
+          <AttributeValueInput
+            value={attribute.value}
+            onCommit={(value) => apply('set', attribute.name, value)}
+          />
+          <button
+            style={styles.iconButton}
+            onClick={() => apply('remove', attribute.name)}
+            title={`Remove ${attribute.name}`}
+            aria-label={`Remove ${attribute.name}`}
+          >
+            <AppIcon name="close" size={14} />
+          </button>
+        </div>
+      ))}
+      <div style={styles.row}>
+        <input
+          style={{ ...styles.input, flex: '0 0 40%' }}
+          value={newAttribute.name}
+          placeholder="aria-label"
+          onChange={(e) => setNewAttribute(prev => ({ ...prev, name: e.target.value }))}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAddAttribute();
+          }}
+          spellCheck={false}
+        />
+        <input
+          style={styles.input}
+          value={newAttribute.value}
+          placeholder="value"
+          onChange={(e) => setNewAttribute(prev => ({ ...prev, value: e.target.value }))}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAddAttribute();
+          }}
+          spellCheck={false}
+        />
+        <button style={styles.iconButton} onClick={handleAddAttribute} title="Add attribute" aria-label="Add attribute">
+          <AppIcon name="plus" size={14} />
+        </button>
+      </div>
+    </Section>
+  );
+}
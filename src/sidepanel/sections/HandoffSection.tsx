@@ -7,7 +7,9 @@
  * Displays:
  * - Visual summary of changes
  * - CSS diff (copy-able)
+ * - Playwright regression test (copy-able)
  * - JSON export (copy-able)
+ * - AI execution prompt, from an editable per-origin template (copy-able)
  * - Download option
  * - Stability warnings (non-dismissable)
  */
@@ -23,6 +25,17 @@ import {
   generateChangeSummary,
 } from '../../shared/handoff';
 import { generateExecutionPrompt } from '../../shared/promptTemplate';
+import {
+  generateTailwindDiff,
+  formatTailwindDiff,
+  resolveTailwindTheme,
+  parseTailwindThemeOverrides,
+} from '../../shared/tailwind';
+import { generatePlaywrightSpec } from '../../shared/playwright';
+import type { RoleLocatorHint } from '../../shared/playwright';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { usePromptTemplate, getTemplateOrigin } from '../hooks/usePromptTemplate';
+import { PromptTemplateEditor } from '../components/PromptTemplateEditor';
 import type {
   VisualUIInspectorExport,
   ExportWarning,
@@ -86,6 +99,27 @@ const styles = {
     overflowY: 'auto',
     lineHeight: 1.5,
   } as React.CSSProperties,
+  themeInput: {
+    width: '100%',
+    minHeight: '72px',
+    marginBottom: spacing[2],
+    padding: spacing[2],
+    boxSizing: 'border-box',
+    fontSize: '11px',
+    fontFamily: 'ui-monospace, SFMono-Regular, SF Mono, Menlo, monospace',
+    color: colors.text,
+    backgroundColor: colors.surfaceRaised,
+    border: 'none',
+    borderRadius: radii.md,
+    resize: 'vertical',
+    outline: 'none',
+  } as React.CSSProperties,
+  themeError: {
+    fontSize: '11px',
+    color: colors.error,
+    marginBottom: spacing[2],
+    whiteSpace: 'pre-line',
+  } as React.CSSProperties,
   codeHeader: {
     display: 'flex',
     justifyContent: 'space-between',
@@ -217,6 +251,7 @@ const styles = {
   // Tabs
   tabs: {
     display: 'flex',
+    flexWrap: 'wrap',
     borderBottom: `1px solid ${colors.border}`,
     marginBottom: spacing[2],
   } as React.CSSProperties,
@@ -308,13 +343,18 @@ function WarningDisplay({ warning }: { warning: ExportWarning }) {
 // Main Component
 // ============================================================================
 
-type ExportTab = 'css' | 'json' | 'prompt';
+type ExportTab = 'css' | 'tailwind' | 'test' | 'json' | 'prompt';
 
 export function HandoffSection({
   refreshTrigger,
   onReturnToEditing,
 }: HandoffSectionProps): React.ReactElement {
   const [exportData, setExportData] = useState<VisualUIInspectorExport | null>(null);
+  const [elementClasses, setElementClasses] = useState<Record<string, string[]>>({});
+  const [elementRoles, setElementRoles] = useState<Record<string, RoleLocatorHint>>({});
+  const [tailwindTheme, setTailwindTheme] = useLocalStorage<string>('tailwind-theme', '');
+  const [isEditingTheme, setIsEditingTheme] = useState(false);
+  const [isEditingTemplate, setIsEditingTemplate] = useState(false);
   const [patchCount, setPatchCount] = useState(0);
   const [feedback, setFeedback] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -331,6 +371,8 @@ export function HandoffSection({
         const result = await getExportData();
         if (mounted) {
           setExportData(result.exportData);
+          setElementClasses(result.elementClasses ?? {});
+          setElementRoles(result.elementRoles ?? {});
           setPatchCount(result.patchCount);
         }
       } catch (e) {
@@ -356,17 +398,37 @@ export function HandoffSection({
     return generateCSSDiff(exportData.patches);
   }, [exportData]);
 
+  // Parse the project's theme overrides (JSON, shaped like theme.extend)
+  const themeOverrides = useMemo(() => parseTailwindThemeOverrides(tailwindTheme), [tailwindTheme]);
+
+  // Generate Tailwind class diff
+  const tailwindDiff = useMemo(() => {
+    if (!exportData) return '';
+    const theme = resolveTailwindTheme(themeOverrides.overrides);
+    return formatTailwindDiff(generateTailwindDiff(exportData.patches, elementClasses, theme));
+  }, [exportData, elementClasses, themeOverrides]);
+
+  // Generate Playwright regression test
+  const playwrightSpec = useMemo(() => {
+    if (!exportData) return '';
+    return generatePlaywrightSpec(exportData, elementRoles);
+  }, [exportData, elementRoles]);
+
   // Generate JSON export
   const jsonExport = useMemo(() => {
     if (!exportData) return '';
     return formatExportJSON(exportData);
   }, [exportData]);
 
-  // Generate execution prompt (for AI)
+  // Custom prompt template of the page's origin, if any
+  const templateOrigin = exportData ? getTemplateOrigin(exportData.pageUrl) : null;
+  const { template: promptTemplate, saveTemplate, resetTemplate } = usePromptTemplate(templateOrigin);
+
+  // Generate execution prompt (for AI); previews template edits live
   const executionPrompt = useMemo(() => {
     if (!exportData) return '';
-    return generateExecutionPrompt(exportData);
-  }, [exportData]);
+    return generateExecutionPrompt(exportData, promptTemplate);
+  }, [exportData, promptTemplate]);
 
   // Get overall confidence level
   const overallConfidence = useMemo((): SelectorConfidence => {
@@ -396,31 +458,62 @@ export function HandoffSection({
     }
   }, [cssDiff, showFeedback]);
 
+  const handleCopyTailwind = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(tailwindDiff);
+      showFeedback('Class diff copied to clipboard');
+    } catch (e) {
+      console.error('Failed to copy class diff:', e);
+      showFeedback('Failed to copy');
+    }
+  }, [tailwindDiff, showFeedback]);
+
+  const handleCopyTest = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(playwrightSpec);
+      showFeedback('Test copied to clipboard');
+    } catch (e) {
+      console.error('Failed to copy test:', e);
+      showFeedback('Failed to copy');
+    }
+  }, [playwrightSpec, showFeedback]);
+
+  // Copied and downloaded exports carry before/after screenshots, captured now
+  const getHandoffExport = useCallback(async (): Promise<VisualUIInspectorExport | null> => {
+    const result = await getExportData({ withScreenshots: true });
+    return result.exportData ?? exportData;
+  }, [exportData]);
+
   const handleCopyJSON = useCallback(async () => {
     try {
-      await navigator.clipboard.writeText(jsonExport);
+      const handoffExport = await getHandoffExport();
+      await navigator.clipboard.writeText(handoffExport ? formatExportJSON(handoffExport) : jsonExport);
       showFeedback('JSON copied to clipboard');
     } catch (e) {
       console.error('Failed to copy JSON:', e);
       showFeedback('Failed to copy');
     }
-  }, [jsonExport, showFeedback]);
+  }, [getHandoffExport, jsonExport, showFeedback]);
 
   const handleCopyPrompt = useCallback(async () => {
     try {
-      await navigator.clipboard.writeText(executionPrompt);
+      const handoffExport = await getHandoffExport();
+      await navigator.clipboard.writeText(
+        handoffExport ? generateExecutionPrompt(handoffExport, promptTemplate) : executionPrompt
+      );
       showFeedback('Prompt copied to clipboard');
     } catch (e) {
       console.error('Failed to copy prompt:', e);
       showFeedback('Failed to copy');
     }
-  }, [executionPrompt, showFeedback]);
+  }, [getHandoffExport, promptTemplate, executionPrompt, showFeedback]);
 
-  const handleDownloadJSON = useCallback(() => {
+  const handleDownloadJSON = useCallback(async () => {
     if (!exportData) return;
 
     try {
-      const blob = new Blob([jsonExport], { type: 'application/json' });
+      const handoffExport = await getHandoffExport();
+      const blob = new Blob([handoffExport ? formatExportJSON(handoffExport) : jsonExport], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -434,7 +527,7 @@ export function HandoffSection({
       console.error('Failed to download:', e);
       showFeedback('Failed to download');
     }
-  }, [exportData, jsonExport, showFeedback]);
+  }, [exportData, getHandoffExport, jsonExport, showFeedback]);
 
   const hasChanges = patchCount > 0 && exportData !== null;
 
@@ -471,6 +564,21 @@ export function HandoffSection({
           </div>
           <div style={styles.summaryMeta}>
             <span>{generateChangeSummary(exportData.patches)}</span>
+            {exportData.structuralChanges && (
+              <span>
+                {exportData.structuralChanges.length} structural change{exportData.structuralChanges.length !== 1 ? 's' : ''}
+              </span>
+            )}
+            {exportData.attributeChanges && (
+              <span>
+                {exportData.attributeChanges.length} class/attribute change{exportData.attributeChanges.length !== 1 ? 's' : ''}
+              </span>
+            )}
+            {exportData.textChanges && (
+              <span>
+                {exportData.textChanges.length} text change{exportData.textChanges.length !== 1 ? 's' : ''}
+              </span>
+            )}
             <span>Page: {new URL(exportData.pageUrl).pathname}</span>
             <span>Viewport: {exportData.viewport.width}×{exportData.viewport.height}</span>
           </div>
@@ -497,6 +605,24 @@ export function HandoffSection({
           >
             CSS Diff
           </button>
+          <button
+            style={{
+              ...styles.tab,
+              ...(activeTab === 'tailwind' ? styles.tabActive : {}),
+            }}
+            onClick={() => setActiveTab('tailwind')}
+          >
+            Tailwind
+          </button>
+          <button
+            style={{
+              ...styles.tab,
+              ...(activeTab === 'test' ? styles.tabActive : {}),
+            }}
+            onClick={() => setActiveTab('test')}
+          >
+            Generate Test
+          </button>
           <button
             style={{
               ...styles.tab,
@@ -534,34 +660,110 @@ export function HandoffSection({
           </div>
         )}
 
-        {activeTab === 'json' && (
+        {activeTab === 'tailwind' && (
           <div>
             <div style={styles.codeHeader}>
-              <span style={styles.codeLabel}>Export Schema v1</span>
+              <span style={styles.codeLabel}>Class Diff</span>
+              <div style={{ display: 'flex', gap: spacing[1] }}>
+                <button
+                  style={{ ...styles.button, ...styles.buttonSmall }}
+                  onClick={() => setIsEditingTheme(prev => !prev)}
+                  title="Extend the theme scales with your tailwind.config values"
+                >
+                  <AppIcon name="settings" size={12} />
+                  Theme
+                </button>
+                <button
+                  style={{ ...styles.button, ...styles.buttonSmall }}
+                  onClick={handleCopyTailwind}
+                >
+                  <AppIcon name="copy" size={12} />
+                  Copy
+                </button>
+              </div>
+            </div>
+            {isEditingTheme && (
+              <>
+                <textarea
+                  style={styles.themeInput}
+                  value={tailwindTheme}
+                  onChange={(e) => setTailwindTheme(e.target.value)}
+                  placeholder={'{ "colors": { "brand": "#4f46e5" }, "spacing": { "18": "4.5rem" } }'}
+                  spellCheck={false}
+                />
+                {themeOverrides.error && (
+                  <div style={styles.themeError}>{themeOverrides.error}</div>
+                )}
+              </>
+            )}
+            <div style={styles.codeBlock}>{tailwindDiff}</div>
+          </div>
+        )}
+
+        {activeTab === 'test' && (
+          <div>
+            <div style={styles.codeHeader}>
+              <span style={styles.codeLabel}>Playwright Spec</span>
               <button
                 style={{ ...styles.button, ...styles.buttonSmall }}
-                onClick={handleCopyJSON}
+                onClick={handleCopyTest}
               >
                 <AppIcon name="copy" size={12} />
                 Copy
               </button>
             </div>
-            <div style={styles.codeBlock}>{jsonExport}</div>
+            <div style={styles.codeBlock}>{playwrightSpec}</div>
           </div>
         )}
 
-        {activeTab === 'prompt' && (
+        {activeTab === 'json' && (
           <div>
             <div style={styles.codeHeader}>
-              <span style={styles.codeLabel}>Execution Prompt</span>
+              <span style={styles.codeLabel}>Export Schema v1</span>
               <button
                 style={{ ...styles.button, ...styles.buttonSmall }}
-                onClick={handleCopyPrompt}
+                onClick={handleCopyJSON}
+                title="Includes before/after screenshots of the changed elements"
               >
                 <AppIcon name="copy" size={12} />
                 Copy
               </button>
             </div>
+            <div style={styles.codeBlock}>{jsonExport}</div>
+          </div>
+        )}
+
+        {activeTab === 'prompt' && (
+          <div>
+            <div style={styles.codeHeader}>
+              <span style={styles.codeLabel}>Execution Prompt</span>
+              <div style={{ display: 'flex', gap: spacing[1] }}>
+                <button
+                  style={{ ...styles.button, ...styles.buttonSmall }}
+                  onClick={() => setIsEditingTemplate(prev => !prev)}
+                  title="Edit the prompt template for this site"
+                >
+                  <AppIcon name="settings" size={12} />
+                  Template
+                </button>
+                <button
+                  style={{ ...styles.button, ...styles.buttonSmall }}
+                  onClick={handleCopyPrompt}
+                  title="Refers to before/after screenshots of the changed elements; the images themselves are in the JSON export"
+                >
+                  <AppIcon name="copy" size={12} />
+                  Copy
+                </button>
+              </div>
+            </div>
+            {isEditingTemplate && templateOrigin && (
+              <PromptTemplateEditor
+                origin={templateOrigin}
+                template={promptTemplate}
+                onChange={saveTemplate}
+                onReset={resetTemplate}
+              />
+            )}
             <div style={styles.codeBlock}>{executionPrompt}</div>
           </div>
         )}
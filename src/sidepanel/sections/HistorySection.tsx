@@ -1,17 +1,47 @@
 /**
  * History Section
  * 
- * Compact undo/redo controls.
+ * Compact undo/redo controls, and the latest style changes. Changes made by
+ * a styling command are listed under the command they came from.
  */
 
-import React, { useCallback } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
+import type { ComputedStylesSnapshot, StylePatch } from '../../shared/types';
 import { AppIcon } from '../primitives';
-import { undo, redo } from '../messaging/sidepanelBridge';
+import { undo, redo, getRecentPatches } from '../messaging/sidepanelBridge';
+import { toKebabCase } from '../../shared/handoff';
 import { colors, spacing, radii } from '../tokens';
 
 interface HistorySectionProps {
   canUndo: boolean;
   canRedo: boolean;
+  /** Current styles; the change list is refetched whenever they change */
+  styles?: ComputedStylesSnapshot;
+}
+
+/** Number of recent style changes listed */
+const RECENT_PATCH_LIMIT = 8;
+
+/**
+ * Consecutive patches from one history entry, newest first.
+ */
+interface ChangeGroup {
+  key: string;
+  prompt?: string;
+  patches: StylePatch[];
+}
+
+function groupPatches(patches: StylePatch[]): ChangeGroup[] {
+  const groups: ChangeGroup[] = [];
+  patches.forEach((patch, i) => {
+    const last = groups[groups.length - 1];
+    if (last && patch.groupId && last.patches[0].groupId === patch.groupId) {
+      last.patches.push(patch);
+    } else {
+      groups.push({ key: `${patch.timestamp}-${i}`, prompt: patch.prompt, patches: [patch] });
+    }
+  });
+  return groups;
 }
 
 const styles = {
@@ -41,12 +71,60 @@ const styles = {
     opacity: 0.35,
     cursor: 'not-allowed',
   } as React.CSSProperties,
+  section: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: spacing[2],
+    width: '100%',
+  } as React.CSSProperties,
+  list: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: spacing[1],
+    margin: 0,
+    padding: 0,
+    listStyle: 'none',
+  } as React.CSSProperties,
+  group: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 2,
+  } as React.CSSProperties,
+  prompt: {
+    fontSize: '11px',
+    fontStyle: 'italic',
+    color: colors.textMuted,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  } as React.CSSProperties,
+  declaration: {
+    fontSize: '11px',
+    fontFamily: 'monospace',
+    color: colors.text,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  } as React.CSSProperties,
 };
 
 export function HistorySection({
   canUndo,
   canRedo,
+  styles: currentStyles,
 }: HistorySectionProps): React.ReactElement {
+  const [recentPatches, setRecentPatches] = useState<StylePatch[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getRecentPatches(RECENT_PATCH_LIMIT).then(patches => {
+      if (!cancelled) setRecentPatches(patches);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentStyles, canUndo, canRedo]);
+
   const handleUndo = useCallback(async () => {
     if (!canUndo) return;
     try {
@@ -65,32 +143,54 @@ export function HistorySection({
     }
   }, [canRedo]);
 
+  const groups = groupPatches(recentPatches);
+
   return (
-    <div style={styles.container}>
-      <button
-        style={{
-          ...styles.button,
-          ...(canUndo ? {} : styles.buttonDisabled),
-        }}
-        onClick={handleUndo}
-        disabled={!canUndo}
-        title="Undo (Ctrl+Z)"
-      >
-        <AppIcon name="undo" size={14} />
-        Undo
-      </button>
-      <button
-        style={{
-          ...styles.button,
-          ...(canRedo ? {} : styles.buttonDisabled),
-        }}
-        onClick={handleRedo}
-        disabled={!canRedo}
-        title="Redo (Ctrl+Shift+Z)"
-      >
-        <AppIcon name="redo" size={14} />
-        Redo
-      </button>
+    <div style={styles.section}>
+      <div style={styles.container}>
+        <button
+          style={{
+            ...styles.button,
+            ...(canUndo ? {} : styles.buttonDisabled),
+          }}
+          onClick={handleUndo}
+          disabled={!canUndo}
+          title="Undo (Ctrl+Z)"
+        >
+          <AppIcon name="undo" size={14} />
+          Undo
+        </button>
+        <button
+          style={{
+            ...styles.button,
+            ...(canRedo ? {} : styles.buttonDisabled),
+          }}
+          onClick={handleRedo}
+          disabled={!canRedo}
+          title="Redo (Ctrl+Shift+Z)"
+        >
+          <AppIcon name="redo" size={14} />
+          Redo
+        </button>
+      </div>
+
+      {groups.length > 0 && (
+        <ul style={styles.list}>
+          {groups.map(group => (
+            <li key={group.key} style={styles.group}>
+              {group.prompt && (
+                <span style={styles.prompt} title={group.prompt}>"{group.prompt}"</span>
+              )}
+              {group.patches.map((patch, i) => (
+                <span key={i} style={styles.declaration} title={patch.selector}>
+                  {toKebabCase(String(patch.property))}: {patch.value}
+                  {patch.state && ` :${patch.state}`}
+                </span>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
@@ -22,10 +22,14 @@ import { DimensionControl } from '../components/DimensionControl';
 import type { FeatureUISegmented, FeatureUINumber } from '../features/types';
 import { colors, spacing } from '../tokens';
 import { toggleSpacingVisualization } from '../messaging/sidepanelBridge';
+import { isMixed } from '../utils/mixedValues';
+import type { MixedProperties } from '../utils/mixedValues';
 
 interface LayoutSectionProps {
   styles: ComputedStylesSnapshot;
   onPatchApply: (property: string, value: string) => void;
+  /** Properties that differ across a multi-element selection */
+  mixedProperties?: MixedProperties;
 }
 
 // Label style for subsections
@@ -38,6 +42,7 @@ const labelStyle: React.CSSProperties = {
 export function LayoutSection({
   styles,
   onPatchApply,
+  mixedProperties,
 }: LayoutSectionProps): React.ReactElement {
   const [borderBox, setBorderBox] = useState(true);
   const [showSpacing, setShowSpacing] = useState(false);
@@ -224,6 +229,7 @@ export function LayoutSection({
             <NumberField
               value={gapValue}
               onChange={handleGapChange}
+              mixed={isMixed(mixedProperties, 'gap')}
               icon={gapUI.icon}
               unit="px"
               min={gapUI.min}
@@ -241,6 +247,7 @@ export function LayoutSection({
             <NumberField
               value={paddingHValue}
               onChange={handlePaddingHChange}
+              mixed={isMixed(mixedProperties, 'paddingLeft', 'paddingRight')}
               icon={paddingHUI.icon}
               unit="px"
               min={paddingHUI.min}
@@ -251,6 +258,7 @@ export function LayoutSection({
             <NumberField
               value={paddingVValue}
               onChange={handlePaddingVChange}
+              mixed={isMixed(mixedProperties, 'paddingTop', 'paddingBottom')}
               icon={paddingVUI.icon}
               unit="px"
               min={paddingVUI.min}
@@ -275,6 +283,7 @@ export function LayoutSection({
             <NumberField
               value={marginHValue}
               onChange={handleMarginHChange}
+              mixed={isMixed(mixedProperties, 'marginLeft', 'marginRight')}
               icon={<AppIcon name="marginH" size={14} color={colors.textMuted} />}
               unit="px"
               min={-200}
@@ -285,6 +294,7 @@ export function LayoutSection({
             <NumberField
               value={marginVValue}
               onChange={handleMarginVChange}
+              mixed={isMixed(mixedProperties, 'marginTop', 'marginBottom')}
               icon={<AppIcon name="marginV" size={14} color={colors.textMuted} />}
               unit="px"
               min={-200}
@@ -0,0 +1,107 @@
+/**
+ * Structure Section
+ *
+ * DOM structure editing for the selected element: duplicate, hide, wrap in a
+ * flex container and delete, plus drag-to-reorder of its children.
+ * Every change is recorded in history and can be undone.
+ */
+
+import React, { useCallback } from 'react';
+import type { ElementMetadata, StructuralOperation } from '../../shared/types';
+import { Section, AppIcon } from '../primitives';
+import type { IconName } from '../primitives';
+import { ChildrenList } from '../components/ChildrenList';
+import { applyStructuralPatch, navigateToSelector } from '../messaging/sidepanelBridge';
+import { colors, spacing, radii } from '../tokens';
+
+interface StructureSectionProps {
+  element: ElementMetadata;
+}
+
+const ACTIONS: { operation: Exclude<StructuralOperation, 'move'>; label: string; icon: IconName; title: string }[] = [
+  { operation: 'duplicate', label: 'Duplicate', icon: 'copy', title: 'Insert a copy right after the element' },
+  { operation: 'hide', label: 'Hide', icon: 'eyeOff', title: 'Stop rendering the element' },
+  { operation: 'wrap', label: 'Wrap', icon: 'wrap', title: 'Wrap the element in a flex container' },
+  { operation: 'delete', label: 'Delete', icon: 'trash', title: 'Remove the element' },
+];
+
+const styles = {
+  actions: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(4, 1fr)',
+    gap: spacing[1],
+    width: '100%',
+  } as React.CSSProperties,
+  button: {
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 2,
+    padding: `6px ${spacing[1]}`,
+    fontSize: '11px',
+    fontWeight: 500,
+    color: colors.text,
+    backgroundColor: colors.surfaceRaised,
+    border: 'none',
+    borderRadius: radii.md,
+    cursor: 'pointer',
+    transition: 'all 0.12s ease',
+  } as React.CSSProperties,
+};
+
+export function StructureSection({
+  element,
+}: StructureSectionProps): React.ReactElement {
+  const handleAction = useCallback(
+    async (operation: StructuralOperation) => {
+      try {
+        await applyStructuralPatch(operation, element.selector);
+      } catch (e) {
+        console.error(`Failed to ${operation} element:`, e);
+      }
+    },
+    [element.selector]
+  );
+
+  const handleReorder = useCallback(
+    async (selector: string, targetSelector: string, position: 'before' | 'after') => {
+      try {
+        await applyStructuralPatch('move', selector, { selector: targetSelector, position });
+      } catch (e) {
+        console.error('Failed to reorder children:', e);
+      }
+    },
+    []
+  );
+
+  const handleSelectChild = useCallback((selector: string) => {
+    navigateToSelector(selector).catch(() => {
+      // Error already surfaced via bridge onError
+    });
+  }, []);
+
+  return (
+    <Section id="structure" title="Structure" collapsible>
+      <div style={styles.actions}>
+        {ACTIONS.map(action => (
+          <button
+            key={action.operation}
+            style={styles.button}
+            onClick={() => handleAction(action.operation)}
+            title={action.title}
+          >
+            <AppIcon name={action.icon} size={14} />
+            {action.label}
+          </button>
+        ))}
+      </div>
+
+      <ChildrenList
+        children={element.hierarchy?.children ?? []}
+        onSelect={handleSelectChild}
+        onReorder={handleReorder}
+      />
+    </Section>
+  );
+}
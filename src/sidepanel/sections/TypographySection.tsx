@@ -10,10 +10,14 @@ import { Section, Row, NumberField, Dropdown } from '../primitives';
 import { fontSizeFeature, fontWeightFeature, lineHeightFeature } from '../features/typography';
 import type { FeatureUINumber, FeatureUISegmented } from '../features/types';
 import { colors, spacing } from '../tokens';
+import { isMixed } from '../utils/mixedValues';
+import type { MixedProperties } from '../utils/mixedValues';
 
 interface TypographySectionProps {
     styles: ComputedStylesSnapshot;
     onPatchApply: (property: string, value: string) => void;
+    /** Properties that differ across a multi-element selection */
+    mixedProperties?: MixedProperties;
 }
 
 const labelStyle: React.CSSProperties = {
@@ -25,6 +29,7 @@ const labelStyle: React.CSSProperties = {
 export function TypographySection({
     styles,
     onPatchApply,
+    mixedProperties,
 }: TypographySectionProps): React.ReactElement {
     const fontSizeValue = fontSizeFeature.getState(styles);
     const fontWeightValue = fontWeightFeature.getState(styles);
@@ -74,6 +79,7 @@ export function TypographySection({
                     <NumberField
                         value={fontSizeValue}
                         onChange={handleFontSizeChange}
+                        mixed={isMixed(mixedProperties, 'fontSize')}
                         icon={fontSizeUI.icon}
                         min={fontSizeUI.min}
                         max={fontSizeUI.max}
@@ -86,6 +92,7 @@ export function TypographySection({
                     <NumberField
                         value={lineHeightValue}
                         onChange={handleLineHeightChange}
+                        mixed={isMixed(mixedProperties, 'lineHeight')}
                         icon={lineHeightUI.icon}
                         min={lineHeightUI.min}
                         max={lineHeightUI.max}
@@ -8,6 +8,8 @@ export { AppearanceSection } from './AppearanceSection';
 export { LayoutSection } from './LayoutSection';
 export { TypographySection } from './TypographySection';
 export { EffectsSection } from './EffectsSection';
+export { StructureSection } from './StructureSection';
+export { AttributesSection } from './AttributesSection';
 export { HistorySection } from './HistorySection';
 export { HandoffSection } from './HandoffSection';
 
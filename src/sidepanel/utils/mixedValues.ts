@@ -0,0 +1,22 @@
+/**
+ * Mixed Values Utility
+ *
+ * Helpers for showing "Mixed" in controls when a multi-element
+ * selection has differing computed values.
+ */
+
+import type { ComputedStylesSnapshot } from '../../shared/types';
+
+/** Computed style properties whose values differ across the selection */
+export type MixedProperties = ReadonlyArray<keyof ComputedStylesSnapshot>;
+
+/**
+ * Check whether any of the properties backing a control are mixed.
+ */
+export function isMixed(
+  mixedProperties: MixedProperties | undefined,
+  ...properties: Array<keyof ComputedStylesSnapshot>
+): boolean {
+  if (!mixedProperties || mixedProperties.length === 0) return false;
+  return properties.some((property) => mixedProperties.includes(property));
+}